@@ -0,0 +1,3 @@
+-- AlterTable
+-- One-off agent runs are recorded without a skill
+ALTER TABLE "executions" ALTER COLUMN "skill_id" DROP NOT NULL;
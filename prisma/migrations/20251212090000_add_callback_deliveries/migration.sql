@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "callback_deliveries" (
+    "id" TEXT NOT NULL,
+    "execution_id" TEXT NOT NULL,
+    "delivery_id" TEXT NOT NULL,
+    "attempt" INTEGER NOT NULL,
+    "url" TEXT NOT NULL,
+    "headers" TEXT,
+    "payload" JSONB NOT NULL,
+    "success" BOOLEAN NOT NULL,
+    "status_code" INTEGER,
+    "response_body" TEXT,
+    "error" TEXT,
+    "duration_ms" INTEGER NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "callback_deliveries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "callback_deliveries_execution_id_created_at_idx" ON "callback_deliveries"("execution_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "callback_deliveries" ADD CONSTRAINT "callback_deliveries_execution_id_fkey" FOREIGN KEY ("execution_id") REFERENCES "executions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
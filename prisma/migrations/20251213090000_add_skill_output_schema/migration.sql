@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "skills" ADD COLUMN "output_schema" JSONB;
@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "execution_steps" (
+    "id" TEXT NOT NULL,
+    "execution_id" TEXT NOT NULL,
+    "step_id" INTEGER NOT NULL,
+    "status" TEXT NOT NULL,
+    "session_id" TEXT,
+    "owns_session" BOOLEAN NOT NULL DEFAULT false,
+    "output" TEXT NOT NULL,
+    "value" JSONB,
+    "error" TEXT,
+    "working_directory" TEXT NOT NULL,
+    "snapshot_path" TEXT,
+    "completed_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "execution_steps_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "execution_steps_execution_id_step_id_key" ON "execution_steps"("execution_id", "step_id");
+
+-- AddForeignKey
+ALTER TABLE "execution_steps" ADD CONSTRAINT "execution_steps_execution_id_fkey" FOREIGN KEY ("execution_id") REFERENCES "executions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
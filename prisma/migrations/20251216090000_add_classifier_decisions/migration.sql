@@ -0,0 +1,31 @@
+-- CreateTable
+CREATE TABLE "classifier_decisions" (
+    "id" TEXT NOT NULL,
+    "execution_id" TEXT NOT NULL,
+    "mode" TEXT NOT NULL,
+    "prompt" TEXT NOT NULL,
+    "candidates" JSONB NOT NULL,
+    "skill_id" TEXT,
+    "skill_name" TEXT,
+    "confidence" TEXT NOT NULL,
+    "reasoning" TEXT,
+    "action" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "classifier_decisions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "classifier_decisions_execution_id_idx" ON "classifier_decisions"("execution_id");
+
+-- CreateIndex
+CREATE INDEX "classifier_decisions_skill_id_created_at_idx" ON "classifier_decisions"("skill_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "classifier_decisions_created_at_idx" ON "classifier_decisions"("created_at");
+
+-- AddForeignKey
+ALTER TABLE "classifier_decisions" ADD CONSTRAINT "classifier_decisions_execution_id_fkey" FOREIGN KEY ("execution_id") REFERENCES "executions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "classifier_decisions" ADD CONSTRAINT "classifier_decisions_skill_id_fkey" FOREIGN KEY ("skill_id") REFERENCES "skills"("id") ON DELETE SET NULL ON UPDATE CASCADE;
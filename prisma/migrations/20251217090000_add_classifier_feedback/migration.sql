@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "skills" ADD COLUMN "examples" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN "negative_examples" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- AlterTable
+ALTER TABLE "classifier_decisions" ADD COLUMN "feedback" TEXT,
+ADD COLUMN "correct_skill_id" TEXT,
+ADD COLUMN "correct_skill_name" TEXT,
+ADD COLUMN "feedback_at" TIMESTAMP(3);
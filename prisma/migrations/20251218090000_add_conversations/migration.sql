@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "executions" ADD COLUMN "conversation_id" TEXT;
+
+-- CreateTable
+CREATE TABLE "conversations" (
+    "id" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "session_id" TEXT,
+    "working_directory" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "conversations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "conversations_updated_at_idx" ON "conversations"("updated_at");
+
+-- CreateIndex
+CREATE INDEX "executions_conversation_id_started_at_idx" ON "executions"("conversation_id", "started_at");
+
+-- AddForeignKey
+ALTER TABLE "executions" ADD CONSTRAINT "executions_conversation_id_fkey" FOREIGN KEY ("conversation_id") REFERENCES "conversations"("id") ON DELETE SET NULL ON UPDATE CASCADE;
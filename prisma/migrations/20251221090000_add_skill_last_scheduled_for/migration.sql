@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "skills" ADD COLUMN "last_scheduled_for" TIMESTAMP(3);
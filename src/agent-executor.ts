@@ -3,19 +3,29 @@
  *
  * Central facade for all agent execution modes:
  * - classifier: Only classify, return match info (no execution)
- * - orchestrator: Classify and execute if match found, fallback to default
+ * - orchestrator: Classify and execute if a confident match is found, fallback to default
  * - default: Skip classification, execute as regular one-off agent
+ * - skill: Run the skill named in the request directly (deterministic, no classification)
  */
 
 import { executeAgent } from './agent.js';
 import { classifyWorkflow } from './workflow-classifier.js';
 import { executeWorkflowOrchestrator } from './workflow-orchestrator.js';
+import { linkExecutionToSkill, saveClassifierDecision, saveExecutionInputs } from './db/utils.js';
+import { getSkillById, getSkillByName } from './database.js';
+import { NotFoundError } from './utils/errors.js';
+import { createCheckpointRecorder } from './execution-checkpoints.js';
+import { requestApproval } from './execution-approvals.js';
+import { resolveSkillInputs } from './skill-inputs.js';
+import { config } from './config/index.js';
 import {
   ExecutionMode,
   McpConnections,
   ClassificationResult,
   Workflow,
-  AgentResponse
+  AgentResponse,
+  StepAttempt,
+  ConversationContext
 } from './types.js';
 
 /**
@@ -40,6 +50,18 @@ export interface ExecuteOptions {
   /** Optional user prompt prefix */
   userPromptPrefix?: string;
 
+  /** Input parameter values for the skill (override values extracted from the prompt) */
+  inputs?: Record<string, unknown>;
+
+  /** Skill to run in skill mode (by ID) */
+  skillId?: string;
+
+  /** Skill to run in skill mode (by name) */
+  skillName?: string;
+
+  /** Conversation the request is a turn of (one-off agent runs continue it) */
+  conversation?: ConversationContext;
+
   /** Correlation ID for logging */
   correlationId: string;
 }
@@ -65,6 +87,47 @@ export interface ExecutionResult {
 
   /** Execution step metadata (for workflows) */
   steps?: any[];
+
+  /** Structured final response (skills with an outputSchema) */
+  output?: unknown;
+
+  /** Validated outputs of steps with an outputSchema, by step ID */
+  stepOutputs?: Record<number, unknown>;
+
+  /** Attempts of each workflow step, in the order they ran */
+  stepAttempts?: StepAttempt[];
+
+  /** SDK session of a one-off agent run (resumed by the next conversation turn) */
+  sessionId?: string;
+}
+
+/** Order of confidence levels, lowest first */
+const CONFIDENCE_LEVELS: ClassificationResult['confidence'][] = ['none', 'low', 'medium', 'high'];
+
+/**
+ * Whether a match is confident enough to run the skill (CLASSIFIER_MIN_CONFIDENCE)
+ */
+function meetsMinConfidence(confidence: ClassificationResult['confidence']): boolean {
+  return (
+    CONFIDENCE_LEVELS.indexOf(confidence) >=
+    CONFIDENCE_LEVELS.indexOf(config.classifier.minConfidence as ClassificationResult['confidence'])
+  );
+}
+
+/**
+ * Agent options that continue a conversation: run in its directory and resume
+ * its session, with the summary of earlier turns in case there is none
+ */
+function conversationAgentOptions(conversation?: ConversationContext) {
+  if (!conversation) {
+    return {};
+  }
+
+  return {
+    workingDirectory: conversation.workingDirectory,
+    resumeSessionId: conversation.sessionId || undefined,
+    context: conversation.summary || undefined,
+  };
 }
 
 /**
@@ -76,7 +139,97 @@ function formatClassificationResult(classification: ClassificationResult): strin
   }
 
   const workflow = classification.workflowData;
-  return `Classification Result:\n\nMatched Workflow: ${workflow.name}\nWorkflow ID: ${classification.workflowId}\nConfidence: ${classification.confidence}\n${classification.reasoning ? `Reasoning: ${classification.reasoning}\n` : ''}\nSteps: ${workflow.steps.length}\n\nNo execution performed (classifier mode).`;
+  const belowMinConfidence = meetsMinConfidence(classification.confidence)
+    ? ''
+    : `\nBelow the minimum confidence (${config.classifier.minConfidence}) - orchestrator mode would not run it.`;
+  return `Classification Result:\n\nMatched Workflow: ${workflow.name}\nWorkflow ID: ${classification.workflowId}\nConfidence: ${classification.confidence}\n${classification.reasoning ? `Reasoning: ${classification.reasoning}\n` : ''}\nSteps: ${workflow.steps.length}\n${belowMinConfidence}\nNo execution performed (classifier mode).`;
+}
+
+/**
+ * Ask the user to confirm an uncertain match (CLASSIFIER_LOW_CONFIDENCE_ACTION=clarify)
+ */
+function formatClarification(classification: ClassificationResult): string {
+  const workflow = classification.workflowData!;
+  return `I'm not sure whether you want the "${workflow.name}" skill (confidence: ${classification.confidence}${classification.reasoning ? ` - ${classification.reasoning}` : ''}).\n\nPlease describe the request in more detail, or run the skill directly (mode 'skill', skillId '${workflow.id}').`;
+}
+
+/**
+ * Record the classifier's decision for analyzing match quality (non-fatal on failure)
+ */
+async function recordClassifierDecision(
+  requestId: string,
+  mode: ExecutionMode,
+  prompt: string,
+  classification: ClassificationResult,
+  action: 'skill' | 'default' | 'clarify' | 'none'
+): Promise<void> {
+  try {
+    await saveClassifierDecision(requestId, {
+      mode,
+      prompt,
+      candidates: classification.candidates || [],
+      skillId: classification.workflowId,
+      skillName: classification.workflowData?.name ?? null,
+      confidence: classification.confidence,
+      reasoning: classification.reasoning,
+      action,
+    });
+  } catch (error: any) {
+    console.warn(`[Agent Executor] Failed to record classifier decision: ${error.message}`);
+  }
+}
+
+/**
+ * Find the skill a skill-mode request names
+ *
+ * @throws NotFoundError if no active skill has that ID or name
+ */
+export async function findSkill(skillId?: string, skillName?: string): Promise<Workflow> {
+  const skill = skillId ? await getSkillById(skillId) : await getSkillByName(skillName || '');
+
+  if (!skill || !skill.isActive) {
+    throw new NotFoundError(
+      skillId ? `No active skill with ID '${skillId}'` : `No active skill named '${skillName}'`
+    );
+  }
+
+  return skill as any as Workflow; // Type cast for Prisma result
+}
+
+/**
+ * Run a skill through the workflow orchestrator, attributing the execution to it
+ *
+ * @throws ValidationError if the input values do not match the skill's inputs
+ */
+async function runWorkflow(
+  workflow: Workflow,
+  inputValues: Record<string, unknown>,
+  options: Pick<ExecuteOptions, 'prompt' | 'requestId' | 'systemPrompt' | 'correlationId'>
+): Promise<AgentResponse> {
+  const { prompt, requestId, systemPrompt, correlationId } = options;
+  const skillInputs = resolveSkillInputs(workflow, inputValues);
+
+  // Attribute the execution record (id = requestId) to the skill
+  await linkExecutionToSkill(requestId, workflow.id).catch((error) =>
+    console.warn(`[Agent Executor] Failed to link execution to skill: ${error.message}`)
+  );
+
+  // Classifier-extracted inputs are not part of the request - keep them for resuming the run
+  if (Object.keys(skillInputs).length > 0) {
+    await saveExecutionInputs(requestId, skillInputs).catch((error) =>
+      console.warn(`[Agent Executor] Failed to save skill inputs: ${error.message}`)
+    );
+  }
+
+  // Checkpoints let a failed run resume from the failing step (POST /executions/:id/resume)
+  return executeWorkflowOrchestrator(
+    workflow,
+    prompt,
+    requestId,
+    systemPrompt,
+    Object.keys(skillInputs).length > 0 ? skillInputs : undefined,
+    { onStepFinished: createCheckpointRecorder(requestId, correlationId), requestApproval }
+  );
 }
 
 /**
@@ -84,8 +237,9 @@ function formatClassificationResult(classification: ClassificationResult): strin
  *
  * Routes execution based on mode:
  * - classifier: Only classify
- * - orchestrator: Classify then execute if match
+ * - orchestrator: Classify then execute if match (confident enough)
  * - default: Direct execution
+ * - skill: Run the named skill
  */
 export async function executeWithMode(options: ExecuteOptions): Promise<ExecutionResult> {
   const {
@@ -95,6 +249,10 @@ export async function executeWithMode(options: ExecuteOptions): Promise<Executio
     mcpConnections,
     systemPrompt,
     userPromptPrefix,
+    inputs,
+    skillId,
+    skillName,
+    conversation,
     correlationId,
   } = options;
 
@@ -104,6 +262,7 @@ export async function executeWithMode(options: ExecuteOptions): Promise<Executio
       console.log(`[Agent Executor] Mode: classifier - classifying only`);
 
       const classification = await classifyWorkflow(prompt);
+      await recordClassifierDecision(requestId, mode, prompt, classification, 'none');
 
       return {
         text: formatClassificationResult(classification),
@@ -117,28 +276,47 @@ export async function executeWithMode(options: ExecuteOptions): Promise<Executio
       console.log(`[Agent Executor] Mode: orchestrator - classify then execute`);
 
       const classification = await classifyWorkflow(prompt);
+      const matched = !!(classification.workflowId && classification.workflowData);
 
-      if (classification.workflowId && classification.workflowData) {
+      if (matched && meetsMinConfidence(classification.confidence)) {
         // Workflow match found - execute via orchestrator
         console.log(
-          `[Agent Executor] Workflow matched: ${classification.workflowData.name} - executing orchestrator`
+          `[Agent Executor] Workflow matched: ${classification.workflowData!.name} - executing orchestrator`
         );
+        await recordClassifierDecision(requestId, mode, prompt, classification, 'skill');
 
-        const result = await executeWorkflowOrchestrator(
-          classification.workflowData,
-          prompt,
-          requestId,
-          systemPrompt
+        // Explicit values win over the ones the classifier extracted
+        const result = await runWorkflow(
+          classification.workflowData!,
+          { ...classification.inputs, ...inputs },
+          { prompt, requestId, systemPrompt, correlationId }
         );
 
         return {
           ...result,
           classification,
-          workflow: classification.workflowData,
+          workflow: classification.workflowData!,
+        };
+      } else if (matched && config.classifier.belowMinConfidence === 'clarify') {
+        // Uncertain match - ask instead of guessing
+        console.log(
+          `[Agent Executor] Match below minimum confidence (${classification.confidence}) - asking for clarification`
+        );
+        await recordClassifierDecision(requestId, mode, prompt, classification, 'clarify');
+
+        return {
+          text: formatClarification(classification),
+          workingDirectory: null,
+          classification,
         };
       } else {
-        // No match - fallback to default agent
-        console.log(`[Agent Executor] No workflow match - falling back to default agent`);
+        // No (confident) match - fallback to default agent
+        console.log(
+          matched
+            ? `[Agent Executor] Match below minimum confidence (${classification.confidence}) - falling back to default agent`
+            : `[Agent Executor] No workflow match - falling back to default agent`
+        );
+        await recordClassifierDecision(requestId, mode, prompt, classification, 'default');
 
         const result = await executeAgent({
           prompt,
@@ -146,6 +324,7 @@ export async function executeWithMode(options: ExecuteOptions): Promise<Executio
           mcpConnections,
           systemPrompt,
           userPromptPrefix,
+          ...conversationAgentOptions(conversation),
         });
 
         return {
@@ -155,6 +334,21 @@ export async function executeWithMode(options: ExecuteOptions): Promise<Executio
       }
     }
 
+    case 'skill': {
+      // Run the named skill, skipping classification
+      const workflow = await findSkill(skillId, skillName);
+      console.log(`[Agent Executor] Mode: skill - running ${workflow.name}`);
+
+      const result = await runWorkflow(workflow, inputs || {}, {
+        prompt,
+        requestId,
+        systemPrompt,
+        correlationId,
+      });
+
+      return { ...result, workflow };
+    }
+
     case 'default':
     default: {
       // Skip classification, direct execution
@@ -166,6 +360,7 @@ export async function executeWithMode(options: ExecuteOptions): Promise<Executio
         mcpConnections,
         systemPrompt,
         userPromptPrefix,
+        ...conversationAgentOptions(conversation),
       });
 
       return result;
@@ -14,6 +14,9 @@ import {
   getDefaultSystemPrompt,
   logAgentMessage,
 } from './shared/agent-utils.js';
+import { getAbortController } from './execution-cancellation.js';
+import { AgentStreamForwarder } from './shared/stream-events.js';
+import { withMemoryServer } from './services/memory/memory-server.js';
 
 export interface ExecuteAgentOptions {
   /** User's prompt */
@@ -30,22 +33,34 @@ export interface ExecuteAgentOptions {
 
   /** Optional user prompt prefix (prepended to prompt) */
   userPromptPrefix?: string;
+
+  /** Working directory to run in (default: a new directory for this request) */
+  workingDirectory?: string;
+
+  /** SDK session to resume (must have run in the same working directory) */
+  resumeSessionId?: string;
+
+  /**
+   * Earlier context for the prompt, e.g. a conversation summary
+   * Sent only when no session is resumed, or resuming it fails.
+   */
+  context?: string;
 }
 
 /**
  * Execute Claude Agent SDK to process a prompt
  *
  * @param options - Agent execution options
- * @returns Agent response with text and working directory path
+ * @returns Agent response with text, working directory path and SDK session ID
  */
 export async function executeAgent(
   options: ExecuteAgentOptions
 ): Promise<AgentResponse> {
-  const { prompt, requestId, mcpConnections, systemPrompt, userPromptPrefix } =
+  const { prompt, requestId, mcpConnections, systemPrompt, userPromptPrefix, resumeSessionId, context } =
     options;
 
   const timestamp = Date.now();
-  const workingDirectory = `/tmp/${requestId}-${timestamp}`;
+  const workingDirectory = options.workingDirectory || `/tmp/${requestId}-${timestamp}`;
 
   try {
     // Create unique working directory
@@ -57,6 +72,7 @@ export async function executeAgent(
     const finalUserPrompt = userPromptPrefix
       ? `${userPromptPrefix}\n\n${prompt}`
       : prompt;
+    const promptWithContext = context ? `${context}\n\n${finalUserPrompt}` : finalUserPrompt;
 
     console.log(`[Agent] ========================================`);
     console.log(`[Agent] Starting execution for requestId: ${requestId}`);
@@ -71,17 +87,23 @@ export async function executeAgent(
     console.log(
       `[Agent] User Prompt: "${prompt.substring(0, 200)}${prompt.length > 200 ? '...' : ''}"`
     );
+    if (resumeSessionId) {
+      console.log(`[Agent] Resuming session: ${resumeSessionId}`);
+    }
     console.log(`[Agent] ========================================`);
 
     // Execute Claude Agent SDK with MCP tools
-    const queryInstance = query({
-      prompt: finalUserPrompt,
+    const startQuery = (userPrompt: string, resume?: string) => query({
+      prompt: userPrompt,
       options: {
         model: config.agent.model,
         systemPrompt: finalSystemPrompt,
-        mcpServers: mcpConnections as any,
+        mcpServers: withMemoryServer(mcpConnections as Record<string, unknown>, requestId) as any,
         cwd: workingDirectory,
+        resume,
         permissionMode: 'bypassPermissions',
+        abortController: getAbortController(requestId), // Aborted by POST /executions/:id/cancel
+        includePartialMessages: true, // Text deltas for SSE clients
         disallowedTools:
           config.agent.disallowedTools.length > 0
             ? config.agent.disallowedTools
@@ -92,20 +114,52 @@ export async function executeAgent(
     // Iterate through all messages and collect the final result
     let finalResult: any = null;
     let messageCount = 0;
+    let sessionId: string | undefined;
     const conversationTrace: any[] = [];
+    const stream = new AgentStreamForwarder(requestId);
 
-    const executionPromise = (async () => {
+    const consume = async (queryInstance: ReturnType<typeof query>) => {
       for await (const message of queryInstance) {
+        stream.handle(message);
+
+        // Partial messages are only streamed, not traced
+        if (message.type === 'stream_event') continue;
+
         messageCount++;
         conversationTrace.push(message);
 
         // Log different message types
         logAgentMessage(message, messageCount);
 
+        if (message.type === 'system' && message.subtype === 'init') {
+          sessionId = message.session_id;
+        }
+
         if (message.type === 'result') {
           finalResult = message;
         }
       }
+    };
+
+    const executionPromise = (async () => {
+      try {
+        if (!resumeSessionId) {
+          await consume(startQuery(promptWithContext));
+          return finalResult;
+        }
+
+        try {
+          await consume(startQuery(finalUserPrompt, resumeSessionId));
+        } catch (error) {
+          // The session is gone (e.g. the server's session store was cleared) -
+          // start a new one with the context instead
+          if (messageCount > 0) throw error;
+          console.warn(`[Agent] Could not resume session ${resumeSessionId}, starting a new one:`, error);
+          await consume(startQuery(promptWithContext));
+        }
+      } finally {
+        stream.flush();
+      }
       return finalResult;
     })();
 
@@ -131,6 +185,7 @@ export async function executeAgent(
       text: responseText,
       workingDirectory: workingDirectory,
       trace: conversationTrace,
+      sessionId,
     };
   } catch (error) {
     console.error(`[Agent] Error for requestId ${requestId}:`, error);
@@ -0,0 +1,118 @@
+/**
+ * Classifier Feedback
+ *
+ * Users mark the classification of a past execution as right or wrong
+ * (POST /executions/:id/classification/feedback, `alfred classify feedback`).
+ * Wrong outcomes become classifier examples: the prompt is added to the
+ * examples of the skill that should have run, and to the negative examples
+ * of the skill the classifier matched instead.
+ */
+
+import { getLatestClassifierDecision, getSkillById, getSkillByName } from './database.js';
+import { addSkillExample, saveClassificationFeedback } from './db/utils.js';
+import { NotFoundError } from './utils/errors.js';
+import { config } from './config/index.js';
+
+/**
+ * Feedback on a classification: either the outcome was right, or the skill
+ * (ID or name) that should have run - null if no skill should have
+ */
+export type ClassificationFeedback = { correct: true } | { correctSkill: string | null };
+
+/**
+ * Example added to a skill because of feedback
+ */
+export interface AddedExample {
+  skillId: string;
+  skillName: string;
+  kind: 'examples' | 'negativeExamples';
+}
+
+/**
+ * Result of recording feedback
+ */
+export interface ClassificationFeedbackResult {
+  executionId: string;
+  decisionId: string;
+  feedback: 'correct' | 'wrong';
+  /** Skill the execution ran (null: the default agent ran, or it asked for clarification) */
+  chosenSkill: string | null;
+  /** Skill that should have run (null: none) */
+  correctSkill: string | null;
+  examplesAdded: AddedExample[];
+}
+
+async function findSkillByIdOrName(skill: string) {
+  const found = (await getSkillById(skill)) || (await getSkillByName(skill));
+
+  if (!found) {
+    throw new NotFoundError(`No skill with ID or name '${skill}'`);
+  }
+
+  return found;
+}
+
+/**
+ * Record feedback on the latest classification of an execution
+ *
+ * The outcome is what the execution did: the matched skill in classifier mode,
+ * or the skill that actually ran in orchestrator mode (a match below the
+ * minimum confidence did not run, so confirming that skill marks it wrong).
+ *
+ * @throws NotFoundError if the execution was not classified, or the correct skill does not exist
+ */
+export async function recordClassificationFeedback(
+  executionId: string,
+  input: ClassificationFeedback
+): Promise<ClassificationFeedbackResult> {
+  const decision = await getLatestClassifierDecision(executionId);
+
+  if (!decision) {
+    throw new NotFoundError(`No classifier decision recorded for execution '${executionId}'`);
+  }
+
+  const chosenSkillId = ['skill', 'none'].includes(decision.action) ? decision.skillId : null;
+  const chosenSkill = chosenSkillId ? decision.skillName : null;
+
+  let correctSkillId = chosenSkillId;
+  let correctSkill = chosenSkill;
+
+  if ('correctSkill' in input) {
+    const skill = input.correctSkill ? await findSkillByIdOrName(input.correctSkill) : null;
+    correctSkillId = skill?.id ?? null;
+    correctSkill = skill?.name ?? null;
+  }
+
+  const feedback = correctSkillId === chosenSkillId ? 'correct' : 'wrong';
+  const examplesAdded: AddedExample[] = [];
+
+  if (feedback === 'wrong') {
+    if (correctSkillId && (await addSkillExample(correctSkillId, 'examples', decision.prompt, config.classifier.maxExamples))) {
+      examplesAdded.push({ skillId: correctSkillId, skillName: correctSkill!, kind: 'examples' });
+    }
+
+    // The classifier's match (even one that did not run) was not what the user wanted
+    if (
+      decision.skillId &&
+      decision.skillId !== correctSkillId &&
+      (await addSkillExample(decision.skillId, 'negativeExamples', decision.prompt, config.classifier.maxExamples))
+    ) {
+      examplesAdded.push({ skillId: decision.skillId, skillName: decision.skillName!, kind: 'negativeExamples' });
+    }
+  }
+
+  await saveClassificationFeedback(decision.id, { feedback, correctSkillId, correctSkillName: correctSkill });
+
+  console.log(
+    `[Classifier] Feedback on ${executionId}: ${feedback} (chosen: ${chosenSkill ?? 'none'}, correct: ${correctSkill ?? 'none'}, ${examplesAdded.length} examples added)`
+  );
+
+  return {
+    executionId,
+    decisionId: decision.id,
+    feedback,
+    chosenSkill,
+    correctSkill,
+    examplesAdded,
+  };
+}
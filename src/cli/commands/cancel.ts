@@ -0,0 +1,23 @@
+/**
+ * Cancel Command
+ * Cancels a queued or running execution
+ */
+
+import chalk from 'chalk';
+import { api } from '../lib/api-client.js';
+import { formatters } from '../lib/formatters.js';
+
+export async function cancelCommand(id: string, options: { json?: boolean }) {
+  try {
+    const result = await api.cancelExecution(id);
+
+    if (options.json) {
+      console.log(JSON.stringify(result, null, 2));
+    } else {
+      console.log(chalk.green(`✓ Execution ${result.executionId} cancelled`));
+    }
+  } catch (error) {
+    console.error(formatters.formatError(error as Error));
+    process.exit(1);
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * Classify Feedback Command
+ * Marks the classification of a past execution as right or wrong
+ * (wrong outcomes become classifier examples of the skills involved)
+ */
+
+import chalk from 'chalk';
+import { api } from '../../lib/api-client.js';
+import { formatters } from '../../lib/formatters.js';
+import type { ClassifyFeedbackCommandOptions } from '../../types.js';
+
+export async function classifyFeedbackCommand(executionId: string, options: ClassifyFeedbackCommandOptions) {
+  try {
+    if (options.correct === undefined && options.correctSkill === undefined) {
+      throw new Error('Pass --correct, or --correct-skill <id or name> (none if no skill should have run)');
+    }
+    if (options.correct && options.correctSkill !== undefined) {
+      throw new Error('Pass either --correct or --correct-skill, not both');
+    }
+
+    const result = await api.sendClassificationFeedback(
+      executionId,
+      options.correct
+        ? { correct: true }
+        : { correctSkill: options.correctSkill!.toLowerCase() === 'none' ? null : options.correctSkill! }
+    );
+
+    if (options.json) {
+      console.log(JSON.stringify(result, null, 2));
+      return;
+    }
+
+    if (result.feedback === 'correct') {
+      console.log(chalk.green(`✓ Classification of ${result.executionId} confirmed (${result.chosenSkill ?? 'no skill'})`));
+    } else {
+      console.log(
+        chalk.yellow(
+          `✓ Classification of ${result.executionId} marked wrong: ran ${result.chosenSkill ?? 'no skill'}, should have run ${result.correctSkill ?? 'no skill'}`
+        )
+      );
+    }
+
+    for (const example of result.examplesAdded) {
+      console.log(
+        chalk.gray(`  Added the prompt to the ${example.kind === 'examples' ? 'examples' : 'negative examples'} of ${example.skillName}`)
+      );
+    }
+  } catch (error) {
+    console.error(formatters.formatError(error as Error));
+    process.exit(1);
+  }
+}
@@ -0,0 +1,29 @@
+/**
+ * Executions Approve Command
+ * Approves a workflow step that waits for approval
+ */
+
+import chalk from 'chalk';
+import { api } from '../../lib/api-client.js';
+import { formatters } from '../../lib/formatters.js';
+
+export async function approveExecutionCommand(
+  id: string,
+  options: { step?: string; prompt?: string; json?: boolean }
+) {
+  try {
+    const result = await api.approveExecution(id, {
+      stepId: options.step !== undefined ? parseInt(options.step, 10) : undefined,
+      prompt: options.prompt,
+    });
+
+    if (options.json) {
+      console.log(JSON.stringify(result, null, 2));
+    } else {
+      console.log(chalk.green(`✓ Step ${result.stepId} of execution ${result.executionId} approved`));
+    }
+  } catch (error) {
+    console.error(formatters.formatError(error as Error));
+    process.exit(1);
+  }
+}
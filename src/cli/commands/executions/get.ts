@@ -0,0 +1,61 @@
+/**
+ * Executions Get Command
+ * Shows status and result of an execution, optionally waiting for it to finish
+ */
+
+import ora from 'ora';
+import { api } from '../../lib/api-client.js';
+import { formatters } from '../../lib/formatters.js';
+import { ExecutionGetCommandOptions, ExecutionResponse } from '../../types.js';
+
+const FINISHED_STATUSES = new Set(['completed', 'failed', 'cancelled']);
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export async function getExecutionCommand(id: string, options: ExecutionGetCommandOptions) {
+  try {
+    const intervalMs = Math.max(parseFloat(options.interval || '2'), 0.5) * 1000;
+    const timeoutMs = parseFloat(options.timeout || '600') * 1000;
+
+    if (isNaN(intervalMs) || isNaN(timeoutMs)) {
+      throw new Error('--interval and --timeout must be numbers (seconds)');
+    }
+
+    let execution: ExecutionResponse = await api.getExecution(id);
+
+    if (options.wait && !FINISHED_STATUSES.has(execution.status)) {
+      const deadline = Date.now() + timeoutMs;
+      const spinner = options.json ? null : ora(`Waiting for execution (${execution.status})...`).start();
+
+      while (!FINISHED_STATUSES.has(execution.status)) {
+        if (Date.now() >= deadline) {
+          spinner?.stop();
+          throw new Error(
+            `Timed out after ${timeoutMs / 1000}s - execution is still ${execution.status}`
+          );
+        }
+
+        await sleep(intervalMs);
+        execution = await api.getExecution(id);
+
+        if (spinner) spinner.text = `Waiting for execution (${execution.status})...`;
+      }
+
+      spinner?.stop();
+    }
+
+    if (options.json) {
+      console.log(JSON.stringify(execution, null, 2));
+    } else {
+      console.log(formatters.formatExecution(execution));
+    }
+
+    // Let scripts detect failed or cancelled runs when waiting
+    if (options.wait && execution.status !== 'completed') {
+      process.exit(1);
+    }
+  } catch (error) {
+    console.error(formatters.formatError(error as Error));
+    process.exit(1);
+  }
+}
@@ -0,0 +1,29 @@
+/**
+ * Executions Reject Command
+ * Rejects a workflow step that waits for approval (the step is skipped)
+ */
+
+import chalk from 'chalk';
+import { api } from '../../lib/api-client.js';
+import { formatters } from '../../lib/formatters.js';
+
+export async function rejectExecutionCommand(
+  id: string,
+  options: { step?: string; reason?: string; json?: boolean }
+) {
+  try {
+    const result = await api.rejectExecution(id, {
+      stepId: options.step !== undefined ? parseInt(options.step, 10) : undefined,
+      reason: options.reason,
+    });
+
+    if (options.json) {
+      console.log(JSON.stringify(result, null, 2));
+    } else {
+      console.log(chalk.yellow(`✓ Step ${result.stepId} of execution ${result.executionId} rejected (skipped)`));
+    }
+  } catch (error) {
+    console.error(formatters.formatError(error as Error));
+    process.exit(1);
+  }
+}
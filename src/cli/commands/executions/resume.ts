@@ -0,0 +1,42 @@
+/**
+ * Executions Resume Command
+ * Resumes a failed execution from its first incomplete step
+ */
+
+import chalk from 'chalk';
+import { api } from '../../lib/api-client.js';
+import { formatters } from '../../lib/formatters.js';
+import { ExecutionGetCommandOptions } from '../../types.js';
+import { getExecutionCommand } from './get.js';
+
+export async function resumeExecutionCommand(id: string, options: ExecutionGetCommandOptions) {
+  try {
+    const result = await api.resumeExecution(id);
+
+    if (options.json && !options.wait) {
+      console.log(JSON.stringify(result, null, 2));
+      return;
+    }
+
+    if (!options.json) {
+      console.log(
+        chalk.green(
+          result.resumeFromStep !== null
+            ? `✓ Execution ${result.executionId} resumed from step ${result.resumeFromStep}`
+            : `✓ Execution ${result.executionId} resumed (final response only)`
+        )
+      );
+
+      if (result.completedSteps.length > 0) {
+        console.log(chalk.gray(`  Not repeated: step ${result.completedSteps.join(', ')}`));
+      }
+    }
+
+    if (options.wait) {
+      await getExecutionCommand(id, options);
+    }
+  } catch (error) {
+    console.error(formatters.formatError(error as Error));
+    process.exit(1);
+  }
+}
@@ -0,0 +1,79 @@
+/**
+ * Executions To-Skill Command (TUI)
+ * Drafts a skill from a successful one-off run and opens it for review
+ */
+
+import React from 'react';
+import { render } from 'ink';
+import chalk from 'chalk';
+import { SkillEditor } from '../../components/SkillEditor.js';
+import { api } from '../../lib/api-client.js';
+import { db } from '../../lib/db.js';
+import { formatters } from '../../lib/formatters.js';
+import { ExecutionToSkillCommandOptions, SkillDraftResponse } from '../../types.js';
+
+export async function executionToSkillCommand(id: string, options: ExecutionToSkillCommandOptions) {
+  let draft: SkillDraftResponse;
+
+  try {
+    if (!options.json) {
+      console.log(chalk.gray(`Drafting a skill from execution ${id}...`));
+    }
+    draft = await api.draftSkillFromExecution(id);
+  } catch (error) {
+    console.error(formatters.formatError(error as Error));
+    process.exit(1);
+  }
+
+  if (options.json) {
+    console.log(JSON.stringify(draft, null, 2));
+    return;
+  }
+
+  await reviewSkillDraft(draft);
+}
+
+/**
+ * Open a skill draft in the editor and create the skill once confirmed
+ * (also used by `alfred skills generate`)
+ */
+export async function reviewSkillDraft(draft: SkillDraftResponse) {
+  const { waitUntilExit } = render(
+    <SkillEditor
+      draft={draft}
+      onSave={async (skillData) => {
+        try {
+          const created = await db.createSkill({
+            name: skillData.name!,
+            description: skillData.description!,
+            examples: skillData.examples,
+            negativeExamples: skillData.negativeExamples,
+            triggerType: skillData.triggerType!,
+            steps: skillData.steps!,
+            connectionNames: skillData.connectionNames,
+            inputs: skillData.inputs ?? undefined,
+            outputSchema: skillData.outputSchema ?? undefined,
+            isActive: true,
+          });
+          console.log(chalk.green(`\n✓ Skill "${created.name}" created successfully!`));
+          console.log(chalk.gray(`ID: ${created.id.substring(0, 8)}\n`));
+          process.exit(0);
+        } catch (error) {
+          console.error(formatters.formatError(error as Error));
+          process.exit(1);
+        }
+      }}
+      onCancel={() => {
+        console.log(chalk.yellow('\nCancelled\n'));
+        process.exit(0);
+      }}
+    />
+  );
+
+  try {
+    await waitUntilExit();
+  } catch (error) {
+    console.error(formatters.formatError(error as Error));
+    process.exit(1);
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * Memory Delete Command
+ * Removes a memory the agent saved (e.g. a wrong or outdated fact)
+ */
+
+import { db } from '../../lib/db.js';
+import { formatters } from '../../lib/formatters.js';
+import { DeleteCommandOptions } from '../../types.js';
+import * as readline from 'readline/promises';
+import { stdin as input, stdout as output } from 'process';
+
+export async function deleteMemoryCommand(id: string, options: DeleteCommandOptions) {
+  try {
+    // Check if memory exists
+    const memory = await db.getMemory(id);
+    if (!memory) {
+      throw new Error(`Memory with ID '${id}' not found`);
+    }
+
+    // Confirm deletion (unless --yes flag)
+    if (!options.yes) {
+      const rl = readline.createInterface({ input, output });
+      const answer = await rl.question(`Are you sure you want to delete "${memory.content}"? (y/N): `);
+      rl.close();
+
+      if (answer.toLowerCase() !== 'y') {
+        console.log('Cancelled');
+        return;
+      }
+    }
+
+    await db.deleteMemory(id);
+    console.log(`\n✓ Memory deleted successfully\n`);
+  } catch (error) {
+    console.error(formatters.formatError(error as Error));
+    process.exit(1);
+  }
+}
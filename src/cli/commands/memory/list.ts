@@ -0,0 +1,29 @@
+/**
+ * Memory List Command
+ * Lists the agent's long-term memories, newest first
+ */
+
+import { db } from '../../lib/db.js';
+import { formatters } from '../../lib/formatters.js';
+import { MemoryListCommandOptions } from '../../types.js';
+
+export async function listMemoriesCommand(options: MemoryListCommandOptions) {
+  try {
+    const limit = options.limit ? parseInt(options.limit, 10) : undefined;
+    if (limit !== undefined && (isNaN(limit) || limit < 1)) {
+      throw new Error('--limit must be a positive number');
+    }
+
+    const memories = await db.listMemories({ tag: options.tag, limit });
+
+    // Output as JSON or formatted table
+    if (options.json) {
+      console.log(JSON.stringify(memories, null, 2));
+    } else {
+      console.log(formatters.formatMemoryTable(memories));
+    }
+  } catch (error) {
+    console.error(formatters.formatError(error as Error));
+    process.exit(1);
+  }
+}
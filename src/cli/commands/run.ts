@@ -27,6 +27,12 @@ export async function runCommand(prompt: string, options: RunCommandOptions) {
       metadata = JSON.parse(options.metadata);
     }
 
+    // Parse skill inputs (--input key=value, repeatable)
+    const { inputs, error: inputsError } = validators.parseInputAssignments(options.input || []);
+    if (inputsError) {
+      throw new Error(inputsError);
+    }
+
     // Show spinner only if sync mode
     const spinner = options.async ? null : ora('Sending task to alfred...').start();
 
@@ -37,6 +43,7 @@ export async function runCommand(prompt: string, options: RunCommandOptions) {
       async: options.async,
       requestId: options.requestId,
       metadata,
+      ...(inputs && Object.keys(inputs).length > 0 && { inputs }),
     });
 
     if (spinner) spinner.stop();
@@ -0,0 +1,47 @@
+/**
+ * Secrets Migrate Command
+ *
+ * Encrypts plaintext secrets at rest and re-encrypts secrets stored under a
+ * previous key (run after rotating VM_ENCRYPTION_SECRET)
+ */
+
+import chalk from 'chalk';
+import { migrateSecrets } from '../../../services/encryption/migrate.js';
+import { formatters } from '../../lib/formatters.js';
+
+interface MigrateSecretsOptions {
+  dryRun?: boolean;
+  json?: boolean;
+}
+
+export async function migrateSecretsCommand(options: MigrateSecretsOptions) {
+  try {
+    const report = await migrateSecrets({ dryRun: options.dryRun });
+
+    if (options.json) {
+      console.log(JSON.stringify(report, null, 2));
+    } else {
+      const verb = report.dryRun ? 'Would encrypt' : 'Encrypted';
+
+      console.log(`\n${report.dryRun ? chalk.yellow('Dry run - no changes written') : chalk.green('✓ Secret migration complete')}\n`);
+      console.log(`  ${verb} ${report.connections.updated} of ${report.connections.scanned} connection(s)`);
+      console.log(`  ${verb} ${report.config.updated} of ${report.config.scanned} config value(s)`);
+
+      if (report.failures.length > 0) {
+        console.log(chalk.red(`\n  ${report.failures.length} value(s) could not be encrypted:`));
+        for (const failure of report.failures) {
+          console.log(chalk.red(`    ${failure.table}/${failure.id}: ${failure.error}`));
+        }
+      }
+
+      console.log('');
+    }
+
+    if (report.failures.length > 0) {
+      process.exit(1);
+    }
+  } catch (error) {
+    console.error(formatters.formatError(error as Error));
+    process.exit(1);
+  }
+}
@@ -0,0 +1,44 @@
+/**
+ * Skills Export Command
+ * Writes a skill as a YAML or JSON bundle (see src/skill-bundles.ts)
+ */
+
+import { writeFile } from 'fs/promises';
+import chalk from 'chalk';
+import { db } from '../../lib/db.js';
+import { formatters } from '../../lib/formatters.js';
+import { createSkillBundle, serializeSkillBundle } from '../../../skill-bundles.js';
+import { SkillExportCommandOptions } from '../../types.js';
+
+export async function exportSkillCommand(id: string, options: SkillExportCommandOptions) {
+  try {
+    if (options.format && !['yaml', 'json'].includes(options.format)) {
+      throw new Error(`Invalid format '${options.format}' - use yaml or json`);
+    }
+
+    const skill = await db.getSkill(id);
+
+    if (!skill) {
+      throw new Error(`Skill with ID '${id}' not found`);
+    }
+
+    const format = options.format ?? (options.output?.toLowerCase().endsWith('.json') ? 'json' : 'yaml');
+    const content = serializeSkillBundle(createSkillBundle([skill]), format);
+
+    if (!options.output) {
+      process.stdout.write(content);
+      return;
+    }
+
+    await writeFile(options.output, content, 'utf-8');
+    console.log(chalk.green(`✓ Skill "${skill.name}" exported to ${options.output}`));
+
+    const triggerConfig = skill.triggerConfig as { secret?: string } | null;
+    if (triggerConfig?.secret) {
+      console.log(chalk.yellow('The webhook secret was left out - set it again after importing'));
+    }
+  } catch (error) {
+    console.error(formatters.formatError(error as Error));
+    process.exit(1);
+  }
+}
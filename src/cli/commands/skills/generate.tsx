@@ -0,0 +1,35 @@
+/**
+ * Skills Generate Command (TUI)
+ * Drafts a skill from a description and opens it for review
+ */
+
+import chalk from 'chalk';
+import { api } from '../../lib/api-client.js';
+import { formatters } from '../../lib/formatters.js';
+import { SkillDraftResponse, SkillGenerateCommandOptions } from '../../types.js';
+import { reviewSkillDraft } from '../executions/to-skill.js';
+
+export async function generateSkillCommand(description: string, options: SkillGenerateCommandOptions) {
+  let draft: SkillDraftResponse;
+
+  try {
+    if (!options.json) {
+      console.log(chalk.gray('Generating a skill from the available tools...'));
+    }
+    draft = await api.generateSkill(description);
+  } catch (error) {
+    console.error(formatters.formatError(error as Error));
+    process.exit(1);
+  }
+
+  if (options.json) {
+    console.log(JSON.stringify(draft, null, 2));
+    return;
+  }
+
+  if (draft.unknownTools && draft.unknownTools.length > 0) {
+    console.log(chalk.yellow(`Left out tools that do not exist: ${draft.unknownTools.join(', ')}`));
+  }
+
+  await reviewSkillDraft(draft);
+}
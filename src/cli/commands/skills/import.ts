@@ -0,0 +1,139 @@
+/**
+ * Skills Import Command
+ * Creates skills from a YAML or JSON bundle (see src/skill-bundles.ts)
+ *
+ * Skills are matched by name (case-insensitive). On a conflict the bundled
+ * skill is skipped, overwrites the existing one, or is created under a new name.
+ */
+
+import { readFile } from 'fs/promises';
+import chalk from 'chalk';
+import { db } from '../../lib/db.js';
+import { formatters } from '../../lib/formatters.js';
+import { getRequiredConnections, parseSkillBundle, renameForImport } from '../../../skill-bundles.js';
+import { SkillImportCommandOptions, StepInput } from '../../types.js';
+
+/**
+ * What happened to a bundled skill
+ */
+interface ImportedSkill {
+  name: string;
+  action: 'created' | 'updated' | 'skipped' | 'renamed';
+  id?: string;
+  /** Name the skill was created under (renamed) */
+  importedAs?: string;
+}
+
+export async function importSkillsCommand(file: string, options: SkillImportCommandOptions) {
+  try {
+    const onConflict = options.onConflict ?? 'skip';
+    if (!['skip', 'overwrite', 'rename'].includes(onConflict)) {
+      throw new Error(`Invalid conflict handling '${onConflict}' - use skip, overwrite or rename`);
+    }
+
+    const bundle = parseSkillBundle(await readFile(file, 'utf-8'));
+    const existing = await db.listSkills();
+    const existingNames = existing.map((skill) => skill.name);
+
+    const results: ImportedSkill[] = [];
+    const webhooksWithoutSecret: string[] = [];
+
+    for (const bundled of bundle.skills) {
+      const match = existing.find((skill) => skill.name.toLowerCase() === bundled.name.toLowerCase());
+
+      if (match && onConflict === 'skip') {
+        results.push({ name: bundled.name, action: 'skipped', id: match.id });
+        continue;
+      }
+
+      const data = {
+        description: bundled.description,
+        examples: bundled.examples,
+        negativeExamples: bundled.negativeExamples,
+        triggerType: bundled.triggerType,
+        steps: bundled.steps as StepInput[],
+        connectionNames: bundled.connectionNames,
+        isActive: bundled.isActive,
+      };
+
+      if (match && onConflict === 'overwrite') {
+        // Bundles carry no webhook secret - keep the one already set
+        const secret = (match.triggerConfig as { secret?: string } | null)?.secret;
+        const triggerConfig = (bundled.triggerConfig || secret) ? { ...bundled.triggerConfig, ...(secret && { secret }) } : null;
+
+        const updated = await db.updateSkill(match.id, {
+          ...data,
+          name: bundled.name,
+          triggerConfig,
+          inputs: bundled.inputs ?? null,
+          outputSchema: bundled.outputSchema ?? null,
+        });
+        if (updated.triggerType === 'webhook' && !secret) webhooksWithoutSecret.push(updated.name);
+        results.push({ name: bundled.name, action: 'updated', id: updated.id });
+        continue;
+      }
+
+      const name = match ? renameForImport(bundled.name, existingNames) : bundled.name;
+      const created = await db.createSkill({
+        ...data,
+        name,
+        ...(bundled.triggerConfig && { triggerConfig: bundled.triggerConfig }),
+        ...(bundled.inputs && { inputs: bundled.inputs }),
+        ...(bundled.outputSchema && { outputSchema: bundled.outputSchema }),
+      });
+      existingNames.push(name);
+
+      if (created.triggerType === 'webhook') webhooksWithoutSecret.push(created.name);
+      results.push({
+        name: bundled.name,
+        action: match ? 'renamed' : 'created',
+        id: created.id,
+        ...(match && { importedAs: name }),
+      });
+    }
+
+    // Connections the imported skills need that do not exist here
+    const connections = new Set((await db.listConnectionNames()).map((name) => name.toLowerCase()));
+    const missingConnections: Record<string, string[]> = {};
+
+    for (const bundled of bundle.skills) {
+      if (results.find((result) => result.name === bundled.name)?.action === 'skipped') continue;
+
+      const missing = getRequiredConnections(bundled).filter((name) => !connections.has(name.toLowerCase()));
+      if (missing.length > 0) missingConnections[bundled.name] = missing;
+    }
+
+    if (options.json) {
+      console.log(JSON.stringify({ skills: results, missingConnections, webhooksWithoutSecret }, null, 2));
+      return;
+    }
+
+    for (const result of results) {
+      const id = result.id ? chalk.gray(` (${result.id.substring(0, 8)})`) : '';
+      if (result.action === 'skipped') {
+        console.log(chalk.yellow(`- Skipped "${result.name}": a skill with this name exists${id}`));
+      } else if (result.action === 'renamed') {
+        console.log(chalk.green(`✓ Created "${result.importedAs}" (renamed from "${result.name}")${id}`));
+      } else {
+        console.log(chalk.green(`✓ ${result.action === 'created' ? 'Created' : 'Updated'} "${result.name}"${id}`));
+      }
+    }
+
+    const missingEntries = Object.entries(missingConnections);
+    if (missingEntries.length > 0) {
+      console.log(chalk.yellow('\nMissing connections (add them with `alfred connections add`):'));
+      for (const [skill, names] of missingEntries) {
+        console.log(chalk.yellow(`  ${skill}: ${names.join(', ')}`));
+      }
+    }
+
+    if (webhooksWithoutSecret.length > 0) {
+      console.log(
+        chalk.yellow(`\nWebhook skills without a secret (set triggerConfig.secret to enable them): ${webhooksWithoutSecret.join(', ')}`)
+      );
+    }
+  } catch (error) {
+    console.error(formatters.formatError(error as Error));
+    process.exit(1);
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * Skills Run Command
+ * Runs a skill directly (skill mode), without going through the classifier
+ */
+
+import ora from 'ora';
+import { api } from '../../lib/api-client.js';
+import { formatters } from '../../lib/formatters.js';
+import { validators } from '../../lib/validators.js';
+import { SkillRunCommandOptions } from '../../types.js';
+
+export async function runSkillCommand(
+  id: string,
+  prompt: string | undefined,
+  options: SkillRunCommandOptions
+) {
+  try {
+    // The server defaults the prompt to the skill description
+    if (prompt !== undefined) {
+      const validation = validators.validatePrompt(prompt);
+      if (!validation.valid) {
+        throw new Error(validation.error);
+      }
+    }
+
+    // Parse skill inputs (--input key=value, repeatable)
+    const { inputs, error: inputsError } = validators.parseInputAssignments(options.input || []);
+    if (inputsError) {
+      throw new Error(inputsError);
+    }
+
+    // Show spinner only if sync mode
+    const spinner = options.async ? null : ora('Running skill...').start();
+
+    let response;
+    try {
+      response = await api.run({
+        prompt,
+        mode: 'skill',
+        skillId: id,
+        async: options.async,
+        requestId: options.requestId,
+        ...(inputs && Object.keys(inputs).length > 0 && { inputs }),
+      });
+    } finally {
+      if (spinner) spinner.stop();
+    }
+
+    // Output response
+    if (options.json) {
+      console.log(JSON.stringify(response, null, 2));
+    } else {
+      console.log(formatters.formatRunResponse(response, options.async || false));
+    }
+  } catch (error) {
+    console.error(formatters.formatError(error as Error));
+    process.exit(1);
+  }
+}
@@ -8,9 +8,26 @@ import { Box, Text, Newline } from 'ink';
 import TextInput from 'ink-text-input';
 import SelectInput from 'ink-select-input';
 import { SkillBuilderProps, SkillCreateInput, StepInput } from '../types.js';
+import {
+  formatConditionInput,
+  formatForEachInput,
+  formatSchemaInput,
+  parseConditionInput,
+  parseForEachInput,
+  parseInputsInput,
+  parseSchemaInput,
+} from '../lib/step-controls.js';
 
 type WizardStep = 'basic' | 'steps' | 'review';
-type StepField = 'prompt' | 'guidance' | 'tools' | 'connections' | 'action';
+type StepField =
+  | 'prompt'
+  | 'guidance'
+  | 'tools'
+  | 'connections'
+  | 'condition'
+  | 'forEach'
+  | 'outputSchema'
+  | 'action';
 
 export const SkillBuilder: React.FC<SkillBuilderProps> = ({ onSave, onCancel }) => {
   // Wizard state
@@ -21,7 +38,11 @@ export const SkillBuilder: React.FC<SkillBuilderProps> = ({ onSave, onCancel })
   const [description, setDescription] = useState('');
   const [triggerType, setTriggerType] = useState<'classifier' | 'orchestrator' | 'default'>('orchestrator');
   const [connectionNames, setConnectionNames] = useState('');
-  const [basicField, setBasicField] = useState<'name' | 'description' | 'trigger' | 'connections' | 'action'>('name');
+  const [inputs, setInputs] = useState('');
+  const [outputSchema, setOutputSchema] = useState('');
+  const [basicField, setBasicField] = useState<
+    'name' | 'description' | 'trigger' | 'connections' | 'inputs' | 'outputSchema' | 'action'
+  >('name');
 
   // Steps state
   const [steps, setSteps] = useState<StepInput[]>([]);
@@ -29,6 +50,9 @@ export const SkillBuilder: React.FC<SkillBuilderProps> = ({ onSave, onCancel })
   const [stepGuidance, setStepGuidance] = useState('');
   const [stepTools, setStepTools] = useState('');
   const [stepConns, setStepConns] = useState('');
+  const [stepCondition, setStepCondition] = useState('');
+  const [stepForEach, setStepForEach] = useState('');
+  const [stepOutputSchema, setStepOutputSchema] = useState('');
   const [stepField, setStepField] = useState<StepField>('prompt');
 
   // Error state
@@ -40,6 +64,16 @@ export const SkillBuilder: React.FC<SkillBuilderProps> = ({ onSave, onCancel })
       setError('Name is required');
       return;
     }
+    const { error: inputsError } = parseInputsInput(inputs);
+    if (inputsError) {
+      setError(inputsError);
+      return;
+    }
+    const { error: schemaError } = parseSchemaInput(outputSchema);
+    if (schemaError) {
+      setError(schemaError);
+      return;
+    }
     setError('');
     setCurrentStep('steps');
   };
@@ -50,12 +84,27 @@ export const SkillBuilder: React.FC<SkillBuilderProps> = ({ onSave, onCancel })
       return;
     }
 
+    const { forEach, error: forEachError } = parseForEachInput(stepForEach);
+    if (forEachError) {
+      setError(forEachError);
+      return;
+    }
+
+    const { schema, error: schemaError } = parseSchemaInput(stepOutputSchema);
+    if (schemaError) {
+      setError(schemaError);
+      return;
+    }
+
     const newStep: StepInput = {
       id: steps.length + 1,
       prompt: stepPrompt.trim(),
       guidance: stepGuidance.trim() || undefined,
       allowedTools: stepTools ? stepTools.split(',').map(t => t.trim()).filter(t => t) : undefined,
       connectionNames: stepConns ? stepConns.split(',').map(c => c.trim()).filter(c => c) : undefined,
+      condition: parseConditionInput(stepCondition),
+      forEach,
+      outputSchema: schema,
     };
 
     setSteps([...steps, newStep]);
@@ -63,6 +112,9 @@ export const SkillBuilder: React.FC<SkillBuilderProps> = ({ onSave, onCancel })
     setStepGuidance('');
     setStepTools('');
     setStepConns('');
+    setStepCondition('');
+    setStepForEach('');
+    setStepOutputSchema('');
     setStepField('prompt');
     setError('');
   };
@@ -92,6 +144,8 @@ export const SkillBuilder: React.FC<SkillBuilderProps> = ({ onSave, onCancel })
       triggerType,
       steps,
       connectionNames: connectionNames ? connectionNames.split(',').map(c => c.trim()).filter(c => c) : undefined,
+      inputs: parseInputsInput(inputs).schema,
+      outputSchema: parseSchemaInput(outputSchema).schema,
       isActive: true
     };
 
@@ -154,13 +208,37 @@ export const SkillBuilder: React.FC<SkillBuilderProps> = ({ onSave, onCancel })
             <TextInput
               value={connectionNames}
               onChange={setConnectionNames}
-              onSubmit={() => setBasicField('action')}
+              onSubmit={() => setBasicField('inputs')}
             />
           ) : (
             <Text color="gray">{connectionNames || '(empty)'}</Text>
           )}
           <Newline />
 
+          <Text>Inputs (e.g. "repo: string, since: date, limit?: integer", optional): </Text>
+          {basicField === 'inputs' ? (
+            <TextInput
+              value={inputs}
+              onChange={setInputs}
+              onSubmit={() => setBasicField('outputSchema')}
+            />
+          ) : (
+            <Text color="gray">{inputs || '(prompt only)'}</Text>
+          )}
+          <Newline />
+
+          <Text>Output Schema (JSON Schema of the final response, optional): </Text>
+          {basicField === 'outputSchema' ? (
+            <TextInput
+              value={outputSchema}
+              onChange={setOutputSchema}
+              onSubmit={() => setBasicField('action')}
+            />
+          ) : (
+            <Text color="gray">{outputSchema || '(natural language response)'}</Text>
+          )}
+          <Newline />
+
           {error && (
             <>
               <Text color="red">✗ {error}</Text>
@@ -260,13 +338,49 @@ export const SkillBuilder: React.FC<SkillBuilderProps> = ({ onSave, onCancel })
             <TextInput
               value={stepConns}
               onChange={setStepConns}
-              onSubmit={() => setStepField('action')}
+              onSubmit={() => setStepField('condition')}
             />
           ) : (
             <Text color="gray">{stepConns || '(empty)'}</Text>
           )}
           <Newline />
 
+          <Text>Condition (optional, e.g. steps.1.output.urgent == true or ask: Any urgent emails?): </Text>
+          {stepField === 'condition' ? (
+            <TextInput
+              value={stepCondition}
+              onChange={setStepCondition}
+              onSubmit={() => setStepField('forEach')}
+            />
+          ) : (
+            <Text color="gray">{stepCondition || '(always runs)'}</Text>
+          )}
+          <Newline />
+
+          <Text>For Each (optional, e.g. steps.1.output.emails max 5): </Text>
+          {stepField === 'forEach' ? (
+            <TextInput
+              value={stepForEach}
+              onChange={setStepForEach}
+              onSubmit={() => setStepField('outputSchema')}
+            />
+          ) : (
+            <Text color="gray">{stepForEach || '(runs once)'}</Text>
+          )}
+          <Newline />
+
+          <Text>Output Schema (JSON Schema, optional; later steps use {'{{steps.N.output.field}}'}): </Text>
+          {stepField === 'outputSchema' ? (
+            <TextInput
+              value={stepOutputSchema}
+              onChange={setStepOutputSchema}
+              onSubmit={() => setStepField('action')}
+            />
+          ) : (
+            <Text color="gray">{stepOutputSchema || '(free text)'}</Text>
+          )}
+          <Newline />
+
           {error && (
             <>
               <Text color="red">✗ {error}</Text>
@@ -335,6 +449,14 @@ export const SkillBuilder: React.FC<SkillBuilderProps> = ({ onSave, onCancel })
         <Text>{connectionNames || '(none)'}</Text>
         <Newline />
 
+        <Text bold>Inputs:</Text>
+        <Text>{inputs || '(none)'}</Text>
+        <Newline />
+
+        <Text bold>Output Schema:</Text>
+        <Text>{outputSchema || '(none)'}</Text>
+        <Newline />
+
         <Text bold>Steps ({steps.length}):</Text>
         {steps.map((step, idx) => (
           <Box key={step.id} flexDirection="column" marginLeft={2}>
@@ -343,6 +465,9 @@ export const SkillBuilder: React.FC<SkillBuilderProps> = ({ onSave, onCancel })
             {step.guidance && <Text>  Guidance: {step.guidance}</Text>}
             {step.allowedTools && <Text>  Tools: {step.allowedTools.join(', ')}</Text>}
             {step.connectionNames && <Text>  Connections: {step.connectionNames.join(', ')}</Text>}
+            {step.condition && <Text>  Condition: {formatConditionInput(step.condition)}</Text>}
+            {step.forEach && <Text>  For Each: {formatForEachInput(step.forEach)}</Text>}
+            {step.outputSchema && <Text>  Output Schema: {formatSchemaInput(step.outputSchema)}</Text>}
             <Newline />
           </Box>
         ))}
@@ -1,6 +1,7 @@
 /**
  * SkillEditor TUI Component
  * Interactive wizard for editing existing skills using Ink (React for terminal)
+ * Also reviews skill drafts (from a one-off run or a description) before they are created.
  */
 
 import React, { useState, useEffect } from 'react';
@@ -8,17 +9,33 @@ import { Box, Text } from 'ink';
 import TextInput from 'ink-text-input';
 import { SkillEditorProps, SkillUpdateInput, StepInput } from '../types.js';
 import { db } from '../lib/db.js';
+import {
+  formatConditionInput,
+  formatExamplesInput,
+  formatForEachInput,
+  formatInputsInput,
+  formatSchemaInput,
+  parseConditionInput,
+  parseExamplesInput,
+  parseForEachInput,
+  parseInputsInput,
+  parseSchemaInput,
+} from '../lib/step-controls.js';
 
 type WizardStep =
   | 'loading'
   | 'name'
   | 'description'
+  | 'examples'
+  | 'negativeExamples'
   | 'triggerType'
   | 'connectionNames'
+  | 'inputs'
+  | 'outputSchema'
   | 'steps'
   | 'confirm';
 
-export const SkillEditor: React.FC<SkillEditorProps> = ({ skillId, onSave, onCancel }) => {
+export const SkillEditor: React.FC<SkillEditorProps> = ({ skillId, draft, onSave, onCancel }) => {
   // Loading state
   const [loading, setLoading] = useState(true);
   const [loadError, setLoadError] = useState<string | null>(null);
@@ -26,8 +43,12 @@ export const SkillEditor: React.FC<SkillEditorProps> = ({ skillId, onSave, onCan
   // Form state
   const [name, setName] = useState('');
   const [description, setDescription] = useState('');
+  const [examples, setExamples] = useState('');
+  const [negativeExamples, setNegativeExamples] = useState('');
   const [triggerType, setTriggerType] = useState<'classifier' | 'orchestrator' | 'default'>('default');
   const [connectionNames, setConnectionNames] = useState('');
+  const [inputs, setInputs] = useState('');
+  const [outputSchema, setOutputSchema] = useState('');
   const [steps, setSteps] = useState<StepInput[]>([]);
 
   // Wizard state
@@ -41,7 +62,12 @@ export const SkillEditor: React.FC<SkillEditorProps> = ({ skillId, onSave, onCan
   const [stepGuidance, setStepGuidance] = useState('');
   const [stepAllowedTools, setStepAllowedTools] = useState('');
   const [stepConnectionNames, setStepConnectionNames] = useState('');
-  const [stepField, setStepField] = useState<'prompt' | 'guidance' | 'allowedTools' | 'connectionNames'>('prompt');
+  const [stepCondition, setStepCondition] = useState('');
+  const [stepForEach, setStepForEach] = useState('');
+  const [stepOutputSchema, setStepOutputSchema] = useState('');
+  const [stepField, setStepField] = useState<
+    'prompt' | 'guidance' | 'allowedTools' | 'connectionNames' | 'condition' | 'forEach' | 'outputSchema'
+  >('prompt');
 
   // Load existing skill data on mount
   useEffect(() => {
@@ -50,7 +76,21 @@ export const SkillEditor: React.FC<SkillEditorProps> = ({ skillId, onSave, onCan
         setLoading(true);
         setLoadError(null);
 
-        const skill = await db.getSkill(skillId);
+        if (draft) {
+          // Drafts are not in the database yet; they run when the classifier matches them
+          setName(draft.name);
+          setDescription(draft.description);
+          setExamples(formatExamplesInput(draft.examples));
+          setTriggerType('orchestrator');
+          setConnectionNames(draft.connectionNames.join(', '));
+          setSteps(draft.steps);
+
+          setLoading(false);
+          setCurrentStep('name');
+          return;
+        }
+
+        const skill = await db.getSkill(skillId!);
 
         if (!skill) {
           throw new Error(`Skill with ID '${skillId}' not found`);
@@ -59,8 +99,12 @@ export const SkillEditor: React.FC<SkillEditorProps> = ({ skillId, onSave, onCan
         // Pre-populate form with existing values
         setName(skill.name);
         setDescription(skill.description || '');
+        setExamples(formatExamplesInput(skill.examples));
+        setNegativeExamples(formatExamplesInput(skill.negativeExamples));
         setTriggerType(skill.triggerType as 'classifier' | 'orchestrator' | 'default');
         setConnectionNames(skill.connectionNames?.join(', ') || '');
+        setInputs(formatInputsInput(skill.inputs as Record<string, any> | null));
+        setOutputSchema(formatSchemaInput(skill.outputSchema as Record<string, any> | null));
         setSteps((skill.steps as unknown as StepInput[]) || []);
 
         setLoading(false);
@@ -73,7 +117,7 @@ export const SkillEditor: React.FC<SkillEditorProps> = ({ skillId, onSave, onCan
     }
 
     loadSkill();
-  }, [skillId]);
+  }, [skillId, draft]);
 
   // Handle keyboard input
   useEffect(() => {
@@ -109,6 +153,9 @@ export const SkillEditor: React.FC<SkillEditorProps> = ({ skillId, onSave, onCan
           setStepGuidance('');
           setStepAllowedTools('');
           setStepConnectionNames('');
+          setStepCondition('');
+          setStepForEach('');
+          setStepOutputSchema('');
           setStepField('prompt');
         } else if (str === 'e' || str === 'E') {
           // Edit first step if exists
@@ -119,6 +166,9 @@ export const SkillEditor: React.FC<SkillEditorProps> = ({ skillId, onSave, onCan
             setStepGuidance(step.guidance || '');
             setStepAllowedTools(step.allowedTools?.join(', ') || '');
             setStepConnectionNames(step.connectionNames?.join(', ') || '');
+            setStepCondition(formatConditionInput(step.condition));
+            setStepForEach(formatForEachInput(step.forEach));
+            setStepOutputSchema(formatSchemaInput(step.outputSchema));
             setStepField('prompt');
           }
         } else if (str === 'd' || str === 'D') {
@@ -134,6 +184,9 @@ export const SkillEditor: React.FC<SkillEditorProps> = ({ skillId, onSave, onCan
         if (stepField === 'prompt') setStepField('guidance');
         else if (stepField === 'guidance') setStepField('allowedTools');
         else if (stepField === 'allowedTools') setStepField('connectionNames');
+        else if (stepField === 'connectionNames') setStepField('condition');
+        else if (stepField === 'condition') setStepField('forEach');
+        else if (stepField === 'forEach') setStepField('outputSchema');
         else {
           // Save step and go back to steps list
           saveCurrentStep();
@@ -154,23 +207,42 @@ export const SkillEditor: React.FC<SkillEditorProps> = ({ skillId, onSave, onCan
     return () => {
       process.stdin.off('keypress', handleKeyPress);
     };
-  }, [currentStep, steps, editingStepIndex, stepField, stepPrompt, stepGuidance, stepAllowedTools, stepConnectionNames, onCancel]);
+  }, [currentStep, steps, editingStepIndex, stepField, stepPrompt, stepGuidance, stepAllowedTools, stepConnectionNames, stepCondition, stepForEach, stepOutputSchema, onCancel]);
 
   const saveCurrentStep = () => {
     if (editingStepIndex === null) return;
 
+    const { forEach, error: forEachError } = parseForEachInput(stepForEach);
+    if (forEachError) {
+      setError(forEachError);
+      setStepField('forEach');
+      return;
+    }
+
+    const { schema, error: schemaError } = parseSchemaInput(stepOutputSchema);
+    if (schemaError) {
+      setError(schemaError);
+      setStepField('outputSchema');
+      return;
+    }
+
     const updatedStep: StepInput = {
+      ...steps[editingStepIndex], // Keep fields the editor does not show (e.g. dependsOn)
       id: editingStepIndex + 1,
       prompt: stepPrompt.trim(),
       guidance: stepGuidance.trim() || undefined,
       allowedTools: stepAllowedTools ? stepAllowedTools.split(',').map(t => t.trim()).filter(Boolean) : undefined,
-      connectionNames: stepConnectionNames ? stepConnectionNames.split(',').map(c => c.trim()).filter(Boolean) : undefined
+      connectionNames: stepConnectionNames ? stepConnectionNames.split(',').map(c => c.trim()).filter(Boolean) : undefined,
+      condition: parseConditionInput(stepCondition),
+      forEach,
+      outputSchema: schema,
     };
 
     const newSteps = [...steps];
     newSteps[editingStepIndex] = updatedStep;
     setSteps(newSteps);
     setEditingStepIndex(null);
+    setError(null);
   };
 
   const handleNext = (nextStep: WizardStep) => {
@@ -185,6 +257,20 @@ export const SkillEditor: React.FC<SkillEditorProps> = ({ skillId, onSave, onCan
       setError('Description is required');
       return;
     }
+    if (currentStep === 'inputs') {
+      const { error: inputsError } = parseInputsInput(inputs);
+      if (inputsError) {
+        setError(inputsError);
+        return;
+      }
+    }
+    if (currentStep === 'outputSchema') {
+      const { error: schemaError } = parseSchemaInput(outputSchema);
+      if (schemaError) {
+        setError(schemaError);
+        return;
+      }
+    }
     if (currentStep === 'steps' && steps.length === 0) {
       setError('At least one step is required');
       return;
@@ -202,9 +288,13 @@ export const SkillEditor: React.FC<SkillEditorProps> = ({ skillId, onSave, onCan
       const updateData: SkillUpdateInput = {
         name: name.trim(),
         description: description.trim(),
+        examples: parseExamplesInput(examples),
+        negativeExamples: parseExamplesInput(negativeExamples),
         triggerType,
         steps,
         connectionNames: connectionNames ? connectionNames.split(',').map(c => c.trim()).filter(Boolean) : undefined,
+        inputs: parseInputsInput(inputs).schema ?? null,
+        outputSchema: parseSchemaInput(outputSchema).schema ?? null,
       };
 
       await onSave(updateData);
@@ -246,7 +336,7 @@ export const SkillEditor: React.FC<SkillEditorProps> = ({ skillId, onSave, onCan
   return (
     <Box flexDirection="column" padding={1}>
       <Box marginBottom={1}>
-        <Text bold color="cyan">Edit Skill</Text>
+        <Text bold color="cyan">{draft ? 'Review Skill Draft' : 'Edit Skill'}</Text>
         <Text dimColor> (ESC to cancel)</Text>
       </Box>
 
@@ -285,7 +375,7 @@ export const SkillEditor: React.FC<SkillEditorProps> = ({ skillId, onSave, onCan
             <TextInput
               value={description}
               onChange={setDescription}
-              onSubmit={() => handleNext('triggerType')}
+              onSubmit={() => handleNext('examples')}
             />
           </Box>
           <Box marginTop={1}>
@@ -294,11 +384,51 @@ export const SkillEditor: React.FC<SkillEditorProps> = ({ skillId, onSave, onCan
         </Box>
       )}
 
-      {/* Step 3: Trigger Type */}
+      {/* Step 3: Examples */}
+      {currentStep === 'examples' && (
+        <Box flexDirection="column">
+          <Text>
+            <Text color="yellow">3.</Text> Example Requests (prompts this skill is for, separated by |, optional):
+          </Text>
+          <Box marginLeft={2}>
+            <TextInput
+              value={examples}
+              onChange={setExamples}
+              onSubmit={() => handleNext('negativeExamples')}
+              placeholder="e.g., What shipped in acme/api last week? | Changelog since Monday"
+            />
+          </Box>
+          <Box marginTop={1}>
+            <Text dimColor>Shown to the classifier as examples. Press Enter to continue</Text>
+          </Box>
+        </Box>
+      )}
+
+      {/* Step 4: Negative Examples */}
+      {currentStep === 'negativeExamples' && (
+        <Box flexDirection="column">
+          <Text>
+            <Text color="yellow">4.</Text> Not For (prompts this skill should NOT match, separated by |, optional):
+          </Text>
+          <Box marginLeft={2}>
+            <TextInput
+              value={negativeExamples}
+              onChange={setNegativeExamples}
+              onSubmit={() => handleNext('triggerType')}
+              placeholder="e.g., Open a pull request for this fix"
+            />
+          </Box>
+          <Box marginTop={1}>
+            <Text dimColor>Wrong matches reported with alfred classify feedback are added here. Press Enter to continue</Text>
+          </Box>
+        </Box>
+      )}
+
+      {/* Step 5: Trigger Type */}
       {currentStep === 'triggerType' && (
         <Box flexDirection="column">
           <Text>
-            <Text color="yellow">3.</Text> Trigger Type:
+            <Text color="yellow">5.</Text> Trigger Type:
           </Text>
           <Box marginLeft={2} flexDirection="column">
             <Text>
@@ -321,17 +451,17 @@ export const SkillEditor: React.FC<SkillEditorProps> = ({ skillId, onSave, onCan
         </Box>
       )}
 
-      {/* Step 4: Connection Names */}
+      {/* Step 6: Connection Names */}
       {currentStep === 'connectionNames' && (
         <Box flexDirection="column">
           <Text>
-            <Text color="yellow">4.</Text> Connection Names (comma-separated, optional):
+            <Text color="yellow">6.</Text> Connection Names (comma-separated, optional):
           </Text>
           <Box marginLeft={2}>
             <TextInput
               value={connectionNames}
               onChange={setConnectionNames}
-              onSubmit={() => handleNext('steps')}
+              onSubmit={() => handleNext('inputs')}
               placeholder="e.g., Notion, Slack, GitHub"
             />
           </Box>
@@ -341,11 +471,51 @@ export const SkillEditor: React.FC<SkillEditorProps> = ({ skillId, onSave, onCan
         </Box>
       )}
 
-      {/* Step 5: Steps */}
+      {/* Step 7: Inputs */}
+      {currentStep === 'inputs' && (
+        <Box flexDirection="column">
+          <Text>
+            <Text color="yellow">7.</Text> Inputs (parameters used in steps as {'{{input.<name>}}'}, optional):
+          </Text>
+          <Box marginLeft={2}>
+            <TextInput
+              value={inputs}
+              onChange={setInputs}
+              onSubmit={() => handleNext('outputSchema')}
+              placeholder="e.g., repo: string, since: date, limit?: integer"
+            />
+          </Box>
+          <Box marginTop={1}>
+            <Text dimColor>Leave empty for prompt-only runs. Press Enter to continue</Text>
+          </Box>
+        </Box>
+      )}
+
+      {/* Step 8: Output Schema */}
+      {currentStep === 'outputSchema' && (
+        <Box flexDirection="column">
+          <Text>
+            <Text color="yellow">8.</Text> Output Schema (JSON Schema of the final response, optional):
+          </Text>
+          <Box marginLeft={2}>
+            <TextInput
+              value={outputSchema}
+              onChange={setOutputSchema}
+              onSubmit={() => handleNext('steps')}
+              placeholder='e.g., {"type": "object", "required": ["summary"]}'
+            />
+          </Box>
+          <Box marginTop={1}>
+            <Text dimColor>Leave empty for a natural language response. Press Enter to continue</Text>
+          </Box>
+        </Box>
+      )}
+
+      {/* Step 9: Steps */}
       {currentStep === 'steps' && editingStepIndex === null && (
         <Box flexDirection="column">
           <Text>
-            <Text color="yellow">5.</Text> Workflow Steps ({steps.length}):
+            <Text color="yellow">9.</Text> Workflow Steps ({steps.length}):
           </Text>
           <Box marginLeft={2} flexDirection="column">
             {steps.map((step, index) => (
@@ -357,6 +527,12 @@ export const SkillEditor: React.FC<SkillEditorProps> = ({ skillId, onSave, onCan
                 {step.guidance && (
                   <Text dimColor>  Guidance: {step.guidance.substring(0, 50)}</Text>
                 )}
+                {step.condition && (
+                  <Text dimColor>  Condition: {formatConditionInput(step.condition).substring(0, 50)}</Text>
+                )}
+                {step.forEach && (
+                  <Text dimColor>  For each: {formatForEachInput(step.forEach)}</Text>
+                )}
               </Box>
             ))}
             <Box marginTop={1}>
@@ -428,12 +604,57 @@ export const SkillEditor: React.FC<SkillEditorProps> = ({ skillId, onSave, onCan
               <TextInput
                 value={stepConnectionNames}
                 onChange={setStepConnectionNames}
+                onSubmit={() => setStepField('condition')}
+              />
+            ) : (
+              <Text dimColor>{stepConnectionNames || '(empty)'}</Text>
+            )}
+
+            <Box marginTop={1}>
+              <Text>
+                Condition {stepField === 'condition' ? <Text color="green">(editing)</Text> : ''} (optional, expression or "ask: question"):
+              </Text>
+            </Box>
+            {stepField === 'condition' ? (
+              <TextInput
+                value={stepCondition}
+                onChange={setStepCondition}
+                onSubmit={() => setStepField('forEach')}
+              />
+            ) : (
+              <Text dimColor>{stepCondition || '(always runs)'}</Text>
+            )}
+
+            <Box marginTop={1}>
+              <Text>
+                For Each {stepField === 'forEach' ? <Text color="green">(editing)</Text> : ''} (optional, e.g. steps.1.output.emails max 5):
+              </Text>
+            </Box>
+            {stepField === 'forEach' ? (
+              <TextInput
+                value={stepForEach}
+                onChange={setStepForEach}
+                onSubmit={() => setStepField('outputSchema')}
+              />
+            ) : (
+              <Text dimColor>{stepForEach || '(runs once)'}</Text>
+            )}
+
+            <Box marginTop={1}>
+              <Text>
+                Output Schema {stepField === 'outputSchema' ? <Text color="green">(editing)</Text> : ''} (JSON Schema, optional):
+              </Text>
+            </Box>
+            {stepField === 'outputSchema' ? (
+              <TextInput
+                value={stepOutputSchema}
+                onChange={setStepOutputSchema}
                 onSubmit={() => {
                   saveCurrentStep();
                 }}
               />
             ) : (
-              <Text dimColor>{stepConnectionNames || '(empty)'}</Text>
+              <Text dimColor>{stepOutputSchema || '(free text)'}</Text>
             )}
 
             <Box marginTop={1}>
@@ -443,20 +664,24 @@ export const SkillEditor: React.FC<SkillEditorProps> = ({ skillId, onSave, onCan
         </Box>
       )}
 
-      {/* Step 6: Confirm */}
+      {/* Step 10: Confirm */}
       {currentStep === 'confirm' && (
         <Box flexDirection="column">
-          <Text bold color="green">Review Changes:</Text>
+          <Text bold color="green">{draft ? 'Review Skill:' : 'Review Changes:'}</Text>
           <Box marginLeft={2} flexDirection="column" marginTop={1}>
             <Text>Name: <Text color="cyan">{name}</Text></Text>
             <Text>Description: <Text color="cyan">{description}</Text></Text>
+            <Text>Examples: <Text color="cyan">{parseExamplesInput(examples).length || '(none)'}</Text></Text>
+            <Text>Not For: <Text color="cyan">{parseExamplesInput(negativeExamples).length || '(none)'}</Text></Text>
             <Text>Trigger Type: <Text color="cyan">{triggerType}</Text></Text>
             <Text>Connections: <Text color="cyan">{connectionNames || '(none)'}</Text></Text>
+            <Text>Inputs: <Text color="cyan">{inputs || '(none)'}</Text></Text>
+            <Text>Output Schema: <Text color="cyan">{outputSchema || '(none)'}</Text></Text>
             <Text>Steps: <Text color="cyan">{steps.length}</Text></Text>
           </Box>
           <Box marginTop={1}>
             <Text>
-              Save these changes? <Text color="green">[Y]es</Text> / <Text color="red">[N]o</Text>
+              {draft ? 'Create this skill?' : 'Save these changes?'} <Text color="green">[Y]es</Text> / <Text color="red">[N]o</Text>
             </Text>
           </Box>
         </Box>
@@ -14,12 +14,26 @@ import { viewSkillCommand } from './commands/skills/view.js';
 import { createSkillCommand } from './commands/skills/create.js';
 import { editSkillCommand } from './commands/skills/edit.js';
 import { deleteSkillCommand } from './commands/skills/delete.js';
+import { runSkillCommand } from './commands/skills/run.js';
+import { generateSkillCommand } from './commands/skills/generate.js';
+import { exportSkillCommand } from './commands/skills/export.js';
+import { importSkillsCommand } from './commands/skills/import.js';
 import { runCommand } from './commands/run.js';
 import { healthCommand } from './commands/health.js';
 import { versionCommand } from './commands/version.js';
 import { modelConfigCommand } from './commands/config/model.js';
 import { tuiCommand } from './commands/tui.js';
 import { createConnectionsCommand } from './commands/connections/index.js';
+import { migrateSecretsCommand } from './commands/secrets/migrate.js';
+import { getExecutionCommand } from './commands/executions/get.js';
+import { resumeExecutionCommand } from './commands/executions/resume.js';
+import { approveExecutionCommand } from './commands/executions/approve.js';
+import { rejectExecutionCommand } from './commands/executions/reject.js';
+import { executionToSkillCommand } from './commands/executions/to-skill.js';
+import { cancelCommand } from './commands/cancel.js';
+import { classifyFeedbackCommand } from './commands/classify/feedback.js';
+import { listMemoriesCommand } from './commands/memory/list.js';
+import { deleteMemoryCommand } from './commands/memory/delete.js';
 
 const program = new Command();
 
@@ -63,6 +77,32 @@ skills
     await createSkillCommand();
   });
 
+skills
+  .command('export <id>')
+  .description('Export a skill as a YAML or JSON bundle')
+  .option('-o, --output <file>', 'File to write (default: print to stdout)')
+  .option('--format <format>', 'yaml or json (default: from the file extension, else yaml)')
+  .action(async (id, options) => {
+    await exportSkillCommand(id, options);
+  });
+
+skills
+  .command('import <file>')
+  .description('Import skills from a YAML or JSON bundle')
+  .option('--on-conflict <action>', 'When a skill with the same name exists: skip, overwrite or rename', 'skip')
+  .option('--json', 'Output as JSON')
+  .action(async (file, options) => {
+    await importSkillsCommand(file, options);
+  });
+
+skills
+  .command('generate <description>')
+  .description('Draft a skill from a description with the available tools, then review it')
+  .option('--json', 'Print the draft instead of opening the editor')
+  .action(async (description, options) => {
+    await generateSkillCommand(description, options);
+  });
+
 skills
   .command('edit <id>')
   .description('Edit existing skill (interactive)')
@@ -70,6 +110,21 @@ skills
     await editSkillCommand(id);
   });
 
+skills
+  .command('run <id> [prompt]')
+  .description('Run a skill directly, skipping classification')
+  .option(
+    '--input <key=value>',
+    'Input value for the skill (repeatable)',
+    (value: string, previous: string[] = []) => [...previous, value]
+  )
+  .option('--async', 'Run asynchronously')
+  .option('--request-id <id>', 'Custom request ID')
+  .option('--json', 'Output as JSON')
+  .action(async (id, prompt, options) => {
+    await runSkillCommand(id, prompt, options);
+  });
+
 skills
   .command('delete <id>')
   .description('Delete skill')
@@ -97,6 +152,21 @@ config
     await modelConfigCommand(action, value);
   });
 
+// ============================================
+// SECRETS COMMANDS
+// ============================================
+
+const secrets = program.command('secrets').description('Manage at-rest encryption of secrets');
+
+secrets
+  .command('migrate')
+  .description('Encrypt plaintext secrets and re-encrypt secrets under previous keys')
+  .option('--dry-run', 'Report what would change without writing')
+  .option('--json', 'Output as JSON')
+  .action(async (options) => {
+    await migrateSecretsCommand(options);
+  });
+
 // ============================================
 // RUN COMMAND
 // ============================================
@@ -108,11 +178,124 @@ program
   .option('--async', 'Run asynchronously')
   .option('--request-id <id>', 'Custom request ID')
   .option('--metadata <json>', 'Additional metadata (JSON string)')
+  .option(
+    '--input <key=value>',
+    'Input value for the matched skill (repeatable)',
+    (value: string, previous: string[] = []) => [...previous, value]
+  )
   .option('--json', 'Output as JSON')
   .action(async (prompt, options) => {
     await runCommand(prompt, options);
   });
 
+// ============================================
+// EXECUTIONS COMMANDS
+// ============================================
+
+const executions = program.command('executions').description('Inspect executions');
+
+executions
+  .command('get <id>')
+  .description('Show execution status and result')
+  .option('--wait', 'Wait until the execution has finished')
+  .option('--interval <seconds>', 'Poll interval when waiting', '2')
+  .option('--timeout <seconds>', 'Maximum time to wait', '600')
+  .option('--json', 'Output as JSON')
+  .action(async (id, options) => {
+    await getExecutionCommand(id, options);
+  });
+
+executions
+  .command('resume <id>')
+  .description('Resume a failed execution from its first incomplete step')
+  .option('--wait', 'Wait until the resumed execution has finished')
+  .option('--interval <seconds>', 'Poll interval when waiting', '2')
+  .option('--timeout <seconds>', 'Maximum time to wait', '600')
+  .option('--json', 'Output as JSON')
+  .action(async (id, options) => {
+    await resumeExecutionCommand(id, options);
+  });
+
+executions
+  .command('approve <id>')
+  .description('Approve a workflow step that waits for approval')
+  .option('--step <stepId>', 'Step to approve (if several are waiting)')
+  .option('--prompt <prompt>', 'Run the step with this prompt instead')
+  .option('--json', 'Output as JSON')
+  .action(async (id, options) => {
+    await approveExecutionCommand(id, options);
+  });
+
+executions
+  .command('reject <id>')
+  .description('Reject a workflow step that waits for approval (the step is skipped)')
+  .option('--step <stepId>', 'Step to reject (if several are waiting)')
+  .option('--reason <reason>', 'Why the step was rejected')
+  .option('--json', 'Output as JSON')
+  .action(async (id, options) => {
+    await rejectExecutionCommand(id, options);
+  });
+
+executions
+  .command('to-skill <id>')
+  .description('Draft a skill from a successful one-off run and review it before saving')
+  .option('--json', 'Print the draft instead of opening the editor')
+  .action(async (id, options) => {
+    await executionToSkillCommand(id, options);
+  });
+
+// ============================================
+// CLASSIFY COMMANDS
+// ============================================
+
+const classify = program.command('classify').description('Tune the workflow classifier');
+
+classify
+  .command('feedback <executionId>')
+  .description('Mark the classification of an execution as right or wrong (wrong ones become skill examples)')
+  .option('--correct', 'The classification was right')
+  .option('--correct-skill <skill>', "Skill (ID or name) that should have run, 'none' if no skill should have")
+  .option('--json', 'Output as JSON')
+  .action(async (executionId, options) => {
+    await classifyFeedbackCommand(executionId, options);
+  });
+
+// ============================================
+// MEMORY COMMANDS
+// ============================================
+
+const memory = program.command('memory').description("Manage the agent's long-term memory");
+
+memory
+  .command('list')
+  .description('List memories, newest first')
+  .option('--tag <tag>', 'Only memories with this tag')
+  .option('--limit <n>', 'Show at most this many memories')
+  .option('--json', 'Output as JSON')
+  .action(async (options) => {
+    await listMemoriesCommand(options);
+  });
+
+memory
+  .command('delete <id>')
+  .description('Delete a memory')
+  .option('-y, --yes', 'Skip confirmation')
+  .action(async (id, options) => {
+    await deleteMemoryCommand(id, options);
+  });
+
+// ============================================
+// CANCEL COMMAND
+// ============================================
+
+program
+  .command('cancel <id>')
+  .description('Cancel a queued or running execution')
+  .option('--json', 'Output as JSON')
+  .action(async (id, options) => {
+    await cancelCommand(id, options);
+  });
+
 // ============================================
 // HEALTH COMMAND
 // ============================================
@@ -9,6 +9,12 @@ import {
   HealthResponse,
   RunRequest,
   RunResponse,
+  ExecutionResponse,
+  CancelExecutionResponse,
+  ResumeExecutionResponse,
+  ApprovalDecisionResponse,
+  ClassificationFeedbackResponse,
+  SkillDraftResponse,
   ApiError,
 } from '../types.js';
 
@@ -66,4 +72,223 @@ export const api: AlfredApiClient = {
       );
     }
   },
+
+  async getExecution(id: string): Promise<ExecutionResponse> {
+    try {
+      const response = await axios.get(`${BASE_URL}/executions/${encodeURIComponent(id)}`);
+      return response.data;
+    } catch (error) {
+      if (error instanceof AxiosError && error.code === 'ECONNREFUSED') {
+        throw new ApiError(
+          'Alfred server is not running. Start it with: npm run dev'
+        );
+      }
+
+      if (error instanceof AxiosError) {
+        const statusCode = error.response?.status;
+        const errorMessage = error.response?.data?.message || error.message;
+        throw new ApiError(
+          `Failed to get execution: ${errorMessage}`,
+          statusCode
+        );
+      }
+
+      throw new ApiError(
+        `Failed to get execution: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  },
+  async cancelExecution(id: string): Promise<CancelExecutionResponse> {
+    try {
+      const response = await axios.post(`${BASE_URL}/executions/${encodeURIComponent(id)}/cancel`);
+      return response.data;
+    } catch (error) {
+      if (error instanceof AxiosError && error.code === 'ECONNREFUSED') {
+        throw new ApiError(
+          'Alfred server is not running. Start it with: npm run dev'
+        );
+      }
+
+      if (error instanceof AxiosError) {
+        const statusCode = error.response?.status;
+        const errorMessage = error.response?.data?.message || error.message;
+        throw new ApiError(
+          `Failed to cancel execution: ${errorMessage}`,
+          statusCode
+        );
+      }
+
+      throw new ApiError(
+        `Failed to cancel execution: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  },
+
+  async resumeExecution(id: string): Promise<ResumeExecutionResponse> {
+    try {
+      const response = await axios.post(`${BASE_URL}/executions/${encodeURIComponent(id)}/resume`);
+      return response.data;
+    } catch (error) {
+      if (error instanceof AxiosError && error.code === 'ECONNREFUSED') {
+        throw new ApiError(
+          'Alfred server is not running. Start it with: npm run dev'
+        );
+      }
+
+      if (error instanceof AxiosError) {
+        const statusCode = error.response?.status;
+        const errorMessage = error.response?.data?.message || error.message;
+        throw new ApiError(
+          `Failed to resume execution: ${errorMessage}`,
+          statusCode
+        );
+      }
+
+      throw new ApiError(
+        `Failed to resume execution: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  },
+
+  async approveExecution(
+    id: string,
+    options: { stepId?: number; prompt?: string } = {}
+  ): Promise<ApprovalDecisionResponse> {
+    try {
+      const response = await axios.post(`${BASE_URL}/executions/${encodeURIComponent(id)}/approve`, options);
+      return response.data;
+    } catch (error) {
+      if (error instanceof AxiosError && error.code === 'ECONNREFUSED') {
+        throw new ApiError(
+          'Alfred server is not running. Start it with: npm run dev'
+        );
+      }
+
+      if (error instanceof AxiosError) {
+        const statusCode = error.response?.status;
+        const errorMessage = error.response?.data?.message || error.message;
+        throw new ApiError(
+          `Failed to approve execution: ${errorMessage}`,
+          statusCode
+        );
+      }
+
+      throw new ApiError(
+        `Failed to approve execution: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  },
+
+  async rejectExecution(
+    id: string,
+    options: { stepId?: number; reason?: string } = {}
+  ): Promise<ApprovalDecisionResponse> {
+    try {
+      const response = await axios.post(`${BASE_URL}/executions/${encodeURIComponent(id)}/reject`, options);
+      return response.data;
+    } catch (error) {
+      if (error instanceof AxiosError && error.code === 'ECONNREFUSED') {
+        throw new ApiError(
+          'Alfred server is not running. Start it with: npm run dev'
+        );
+      }
+
+      if (error instanceof AxiosError) {
+        const statusCode = error.response?.status;
+        const errorMessage = error.response?.data?.message || error.message;
+        throw new ApiError(
+          `Failed to reject execution: ${errorMessage}`,
+          statusCode
+        );
+      }
+
+      throw new ApiError(
+        `Failed to reject execution: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  },
+
+  async sendClassificationFeedback(
+    id: string,
+    feedback: { correct: true } | { correctSkill: string | null }
+  ): Promise<ClassificationFeedbackResponse> {
+    try {
+      const response = await axios.post(
+        `${BASE_URL}/executions/${encodeURIComponent(id)}/classification/feedback`,
+        feedback
+      );
+      return response.data;
+    } catch (error) {
+      if (error instanceof AxiosError && error.code === 'ECONNREFUSED') {
+        throw new ApiError(
+          'Alfred server is not running. Start it with: npm run dev'
+        );
+      }
+
+      if (error instanceof AxiosError) {
+        const statusCode = error.response?.status;
+        const errorMessage = error.response?.data?.message || error.message;
+        throw new ApiError(
+          `Failed to send feedback: ${errorMessage}`,
+          statusCode
+        );
+      }
+
+      throw new ApiError(
+        `Failed to send feedback: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  },
+
+  async draftSkillFromExecution(id: string): Promise<SkillDraftResponse> {
+    try {
+      const response = await axios.post(`${BASE_URL}/executions/${encodeURIComponent(id)}/to-skill`);
+      return response.data;
+    } catch (error) {
+      if (error instanceof AxiosError && error.code === 'ECONNREFUSED') {
+        throw new ApiError(
+          'Alfred server is not running. Start it with: npm run dev'
+        );
+      }
+
+      if (error instanceof AxiosError) {
+        const statusCode = error.response?.status;
+        const errorMessage = error.response?.data?.message || error.message;
+        throw new ApiError(
+          `Failed to draft skill: ${errorMessage}`,
+          statusCode
+        );
+      }
+
+      throw new ApiError(
+        `Failed to draft skill: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  },
+
+  async generateSkill(description: string): Promise<SkillDraftResponse> {
+    try {
+      const response = await axios.post(`${BASE_URL}/skills/generate`, { description });
+      return response.data;
+    } catch (error) {
+      if (error instanceof AxiosError && error.code === 'ECONNREFUSED') {
+        throw new ApiError(
+          'Alfred server is not running. Start it with: npm run dev'
+        );
+      }
+
+      if (error instanceof AxiosError) {
+        const statusCode = error.response?.status;
+        const errorMessage = error.response?.data?.message || error.message;
+        throw new ApiError(
+          `Failed to generate skill: ${errorMessage}`,
+          statusCode
+        );
+      }
+
+      throw new ApiError(
+        `Failed to generate skill: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  },
 };
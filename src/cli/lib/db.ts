@@ -3,8 +3,9 @@
  * Agent 1 implementation: Database CRUD operations for skills
  */
 
+import { Prisma } from '@prisma/client';
 import prisma from '../../db/client.js';
-import { DatabaseClient, ListSkillsOptions, SkillCreateInput, SkillUpdateInput } from '../types.js';
+import { DatabaseClient, ListMemoriesOptions, ListSkillsOptions, SkillCreateInput, SkillUpdateInput } from '../types.js';
 import { afterSkillCreated, afterSkillUpdated, beforeSkillDeleted } from '../../services/composio/skill-hooks.js';
 
 export const db: DatabaseClient = {
@@ -40,9 +41,14 @@ export const db: DatabaseClient = {
         data: {
           name: data.name,
           description: data.description,
+          examples: data.examples || [],
+          negativeExamples: data.negativeExamples || [],
           triggerType: data.triggerType,
+          triggerConfig: data.triggerConfig,
           steps: data.steps as any,
           connectionNames: data.connectionNames || [],
+          outputSchema: data.outputSchema,
+          inputs: data.inputs,
           isActive: data.isActive,
           isSystem: false,
         },
@@ -68,9 +74,20 @@ export const db: DatabaseClient = {
         data: {
           ...(data.name !== undefined && { name: data.name }),
           ...(data.description !== undefined && { description: data.description }),
+          ...(data.examples !== undefined && { examples: data.examples }),
+          ...(data.negativeExamples !== undefined && { negativeExamples: data.negativeExamples }),
           ...(data.triggerType !== undefined && { triggerType: data.triggerType }),
+          ...(data.triggerConfig !== undefined && {
+            triggerConfig: data.triggerConfig === null ? Prisma.DbNull : data.triggerConfig,
+          }),
           ...(data.steps !== undefined && { steps: data.steps as any }),
           ...(data.connectionNames !== undefined && { connectionNames: data.connectionNames }),
+          ...(data.outputSchema !== undefined && {
+            outputSchema: data.outputSchema === null ? Prisma.DbNull : data.outputSchema,
+          }),
+          ...(data.inputs !== undefined && {
+            inputs: data.inputs === null ? Prisma.DbNull : data.inputs,
+          }),
           ...(data.isActive !== undefined && { isActive: data.isActive }),
         },
       });
@@ -104,4 +121,56 @@ export const db: DatabaseClient = {
       );
     }
   },
+
+  async listMemories(options?: ListMemoriesOptions) {
+    try {
+      return await prisma.memory.findMany({
+        where: options?.tag ? { tags: { has: options.tag.trim().toLowerCase() } } : undefined,
+        orderBy: { createdAt: 'desc' },
+        take: options?.limit,
+      });
+    } catch (error) {
+      throw new Error(
+        `Failed to list memories: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  },
+
+  async getMemory(id: string) {
+    try {
+      return await prisma.memory.findUnique({
+        where: { id },
+      });
+    } catch (error) {
+      throw new Error(
+        `Failed to get memory: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  },
+
+  async deleteMemory(id: string) {
+    try {
+      await prisma.memory.delete({
+        where: { id },
+      });
+    } catch (error) {
+      throw new Error(
+        `Failed to delete memory: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  },
+
+  async listConnectionNames() {
+    try {
+      const connections = await prisma.connection.findMany({
+        select: { name: true },
+        orderBy: { name: 'asc' },
+      });
+      return connections.map((connection) => connection.name);
+    } catch (error) {
+      throw new Error(
+        `Failed to list connections: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  },
 };
@@ -5,8 +5,18 @@
 
 import Table from 'cli-table3';
 import chalk from 'chalk';
-import { Skill } from '@prisma/client';
-import { Formatters, HealthResponse, RunResponse } from '../types.js';
+import { Memory, Skill } from '@prisma/client';
+import {
+  Formatters,
+  HealthResponse,
+  RunResponse,
+  ExecutionResponse,
+  StepConditionInput,
+  StepForEachInput,
+  StepErrorInput,
+} from '../types.js';
+import { formatConditionInput, formatForEachInput, formatSchemaInput } from './step-controls.js';
+import { getSkillInputFields } from '../../skill-inputs.js';
 
 export const formatters: Formatters = {
   formatSkillTable(skills: Skill[]): string {
@@ -51,6 +61,39 @@ export const formatters: Formatters = {
     return output + '\n' + chalk.gray("Use 'alfred skills view <id>' for details");
   },
 
+  formatMemoryTable(memories: Memory[]): string {
+    if (memories.length === 0) {
+      return chalk.yellow('No memories found');
+    }
+
+    const table = new Table({
+      head: [
+        chalk.cyan('ID'),
+        chalk.cyan('Memory'),
+        chalk.cyan('Tags'),
+        chalk.cyan('Saved'),
+      ],
+      colWidths: [38, 60, 20, 12],
+      style: {
+        head: [],
+        border: ['grey'],
+      },
+      wordWrap: true,
+    });
+
+    for (const memory of memories) {
+      table.push([
+        memory.id,
+        memory.content,
+        chalk.blue(memory.tags.join(', ')),
+        memory.createdAt.toISOString().slice(0, 10),
+      ]);
+    }
+
+    const output = table.toString();
+    return output + '\n' + chalk.gray("Use 'alfred memory delete <id>' to remove a memory");
+  },
+
   formatSkillDetail(skill: Skill): string {
     let output = '\n';
     output += chalk.bold.cyan('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n');
@@ -98,9 +141,64 @@ export const formatters: Formatters = {
           output +=
             chalk.gray(`    Connections: ${step.connectionNames.join(', ')}\n`);
         }
+        if (Array.isArray(step.dependsOn)) {
+          output +=
+            chalk.gray(`    Depends on: ${step.dependsOn.length > 0 ? step.dependsOn.map((id) => `step ${id}`).join(', ') : 'none (runs in parallel)'}\n`);
+        }
+        if (step.condition) {
+          output += chalk.gray(`    Condition: ${formatConditionInput(step.condition as StepConditionInput)}\n`);
+        }
+        if (step.forEach) {
+          output += chalk.gray(`    For each: ${formatForEachInput(step.forEach as StepForEachInput)}\n`);
+        }
+        if (step.outputSchema) {
+          output += chalk.gray(`    Output schema: ${formatSchemaInput(step.outputSchema as Record<string, any>)}\n`);
+        }
+        if (step.retry) {
+          output += chalk.gray(`    Retry: ${JSON.stringify(step.retry)}\n`);
+        }
+        if (step.requiresApproval) {
+          output += chalk.gray(`    Requires approval\n`);
+        }
+        if (step.onError) {
+          const onError = step.onError as StepErrorInput;
+          output += chalk.gray(
+            `    On error: ${onError.action}${onError.stepId !== undefined ? ` (step ${onError.stepId})` : ''}\n`
+          );
+        }
+      }
+    }
+
+    if (skill.examples.length > 0 || skill.negativeExamples.length > 0) {
+      output += '\n' + chalk.bold.cyan('Classifier Examples\n');
+      for (const example of skill.examples) {
+        output += chalk.gray(`  + ${example}\n`);
+      }
+      for (const example of skill.negativeExamples) {
+        output += chalk.gray(`  - ${example}\n`);
       }
     }
 
+    const inputFields = getSkillInputFields(skill.inputs as Record<string, any> | null);
+    if (inputFields.length > 0) {
+      output += '\n' + chalk.bold.cyan('Inputs\n');
+      for (const field of inputFields) {
+        output += chalk.gray(
+          `  ${field.name}: ${field.type}${field.required ? '' : ' (optional)'}` +
+            `${field.default !== undefined ? ` = ${JSON.stringify(field.default)}` : ''}` +
+            `${field.description ? ` - ${field.description}` : ''}\n`
+        );
+      }
+    }
+
+    if (skill.outputSchema) {
+      output +=
+        '\n' +
+        chalk.bold.cyan('Output Schema\n') +
+        chalk.gray(JSON.stringify(skill.outputSchema, null, 2)) +
+        '\n';
+    }
+
     if (skill.connectionNames.length > 0) {
       output +=
         '\n' +
@@ -186,6 +284,8 @@ export const formatters: Formatters = {
         chalk.green.bold('✓ Task Submitted Successfully\n') +
         chalk.gray('Request ID: ') +
         response.requestId +
+        '\n' +
+        chalk.gray(`Use 'alfred executions get ${response.executionId || response.requestId} --wait' for the result`) +
         '\n\n'
       );
     }
@@ -241,6 +341,79 @@ export const formatters: Formatters = {
     return output;
   },
 
+  formatExecution(execution: ExecutionResponse): string {
+    const statusColors: Record<string, (text: string) => string> = {
+      queued: chalk.gray,
+      running: chalk.yellow,
+      awaiting_approval: chalk.cyan,
+      completed: chalk.green,
+      failed: chalk.red,
+      cancelled: chalk.magenta,
+    };
+    const colorStatus = statusColors[execution.status] || chalk.white;
+
+    let output = '\n';
+    output += chalk.bold.cyan('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n');
+    output += chalk.bold.cyan('Execution Details\n');
+    output += chalk.bold.cyan('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n\n');
+
+    output += chalk.bold('ID:') + ' ' + execution.executionId + '\n';
+    output += chalk.bold('Status:') + ' ' + colorStatus(execution.status) + '\n';
+    output += chalk.bold('Trigger:') + ' ' + chalk.blue(execution.trigger) + '\n';
+    output += chalk.bold('Skill:') + ' ' + (execution.skill?.name || 'N/A') + '\n';
+    output += chalk.bold('Started:') + ' ' + new Date(execution.startedAt).toLocaleString() + '\n';
+
+    if (execution.completedAt) {
+      output += chalk.bold('Completed:') + ' ' + new Date(execution.completedAt).toLocaleString() + '\n';
+    }
+    if (execution.durationMs !== null) {
+      output += chalk.bold('Duration:') + ' ' + `${(execution.durationMs / 1000).toFixed(1)}s` + '\n';
+    }
+    if (execution.tokenCount !== null) {
+      output += chalk.bold('Tokens:') + ' ' + execution.tokenCount + '\n';
+    }
+    if (execution.costUsd !== null) {
+      output += chalk.bold('Cost:') + ' ' + `$${execution.costUsd.toFixed(4)}` + '\n';
+    }
+
+    if (execution.steps.length > 0) {
+      output += '\n' + chalk.bold.cyan('Steps\n');
+      for (const step of execution.steps) {
+        output += `  ${step.id}. ${(step.duration_ms / 1000).toFixed(1)}s`;
+        output += chalk.gray(` - ${step.num_turns} turn(s), $${step.total_cost_usd.toFixed(4)}`);
+        output += '\n';
+      }
+    }
+
+    if (execution.approvals && execution.approvals.length > 0) {
+      output += '\n' + chalk.bold.cyan('Waiting for Approval\n');
+      for (const approval of execution.approvals) {
+        output += `  Step ${approval.stepId}: ${approval.prompt}\n`;
+        output += chalk.gray(`    Expires ${new Date(approval.expiresAt).toLocaleString()}\n`);
+      }
+      output += chalk.gray(`  Decide with: alfred executions approve|reject ${execution.executionId}\n`);
+    }
+
+    if (execution.error) {
+      output += '\n' + chalk.bold.red('Error:\n') + execution.error + '\n';
+    }
+
+    if (execution.output) {
+      output += '\n' + chalk.bold('Response:\n') + execution.output + '\n';
+    }
+
+    if (execution.url.length > 0) {
+      output += '\n' + chalk.bold('References:\n');
+      for (const url of execution.url) {
+        output += chalk.blue(`  • ${url}\n`);
+      }
+    }
+
+    output += '\n';
+
+    return output;
+  },
+
   formatError(error: Error): string {
     return '\n' + chalk.red('✗ Error\n') + chalk.gray(error.message) + '\n\n';
   },
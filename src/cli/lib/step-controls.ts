@@ -0,0 +1,157 @@
+/**
+ * Step Controls - Condition, forEach, output schema and inputs fields of the skill wizards
+ * Converts between the single-line inputs of SkillBuilder/SkillEditor and skill fields:
+ * - Condition: "steps.1.output.count > 0", or "ask: Did any email need a reply?"
+ * - For each: "steps.1.output.emails", optionally followed by "max 5"
+ * - Output schema: JSON Schema on one line, e.g. {"type": "object", "required": ["issueUrl"]}
+ * - Inputs: "repo: string, since: date, limit?: integer" (? = optional), or a JSON Schema
+ * - Classifier examples: prompts separated by " | "
+ */
+
+import { StepConditionInput, StepForEachInput } from '../types.js';
+
+const ASK_PREFIX = /^ask:\s*/i;
+const FOR_EACH_PATTERN = /^(\S+)(?:\s+max\s+(\d+))?$/i;
+const INPUT_PATTERN = /^([a-zA-Z_][\w-]*)(\?)?\s*:\s*([\w-]+)$/;
+
+/** Shorthand input types and their JSON Schema */
+const INPUT_TYPES: Record<string, Record<string, string>> = {
+  string: { type: 'string' },
+  number: { type: 'number' },
+  integer: { type: 'integer' },
+  boolean: { type: 'boolean' },
+  date: { type: 'string', format: 'date' },
+  'date-time': { type: 'string', format: 'date-time' },
+};
+
+export function parseConditionInput(text: string): StepConditionInput | undefined {
+  const value = text.trim();
+  if (!value) return undefined;
+
+  return ASK_PREFIX.test(value)
+    ? { ask: value.replace(ASK_PREFIX, '').trim() }
+    : { expression: value };
+}
+
+export function formatConditionInput(condition?: StepConditionInput): string {
+  if (!condition) return '';
+  return condition.ask ? `ask: ${condition.ask}` : condition.expression || '';
+}
+
+/**
+ * @returns Parsed loop, or an error for input that is not "<path> [max N]"
+ */
+export function parseForEachInput(text: string): { forEach?: StepForEachInput; error?: string } {
+  const value = text.trim();
+  if (!value) return {};
+
+  const match = value.match(FOR_EACH_PATTERN);
+  if (!match || (match[2] !== undefined && parseInt(match[2], 10) < 1)) {
+    return { error: 'For each must be a path like "steps.1.output.emails", optionally followed by "max N"' };
+  }
+
+  return {
+    forEach: {
+      items: match[1],
+      ...(match[2] !== undefined && { maxItems: parseInt(match[2], 10) }),
+    },
+  };
+}
+
+export function formatForEachInput(forEach?: StepForEachInput): string {
+  if (!forEach) return '';
+  return forEach.maxItems ? `${forEach.items} max ${forEach.maxItems}` : forEach.items;
+}
+
+/**
+ * @returns Parsed schema, or an error for input that is not a JSON object
+ */
+export function parseSchemaInput(text: string): { schema?: Record<string, any>; error?: string } {
+  const value = text.trim();
+  if (!value) return {};
+
+  try {
+    const schema = JSON.parse(value);
+    if (typeof schema !== 'object' || schema === null || Array.isArray(schema)) {
+      return { error: 'Output schema must be a JSON Schema object' };
+    }
+    return { schema };
+  } catch (error) {
+    return { error: `Output schema is not valid JSON: ${error instanceof Error ? error.message : 'parse error'}` };
+  }
+}
+
+export function formatSchemaInput(schema?: Record<string, any> | null): string {
+  return schema ? JSON.stringify(schema) : '';
+}
+
+/**
+ * @returns Inputs schema, or an error for input that is neither shorthand nor a JSON Schema object
+ */
+export function parseInputsInput(text: string): { schema?: Record<string, any>; error?: string } {
+  const value = text.trim();
+  if (!value) return {};
+
+  if (value.startsWith('{')) {
+    const { schema, error } = parseSchemaInput(value);
+    return error ? { error: error.replace('Output schema', 'Inputs') } : { schema };
+  }
+
+  const properties: Record<string, Record<string, string>> = {};
+  const required: string[] = [];
+
+  for (const entry of value.split(',').map((part) => part.trim()).filter(Boolean)) {
+    const match = entry.match(INPUT_PATTERN);
+    if (!match || !INPUT_TYPES[match[3]]) {
+      return {
+        error: `Invalid input "${entry}" - use "name: type" (${Object.keys(INPUT_TYPES).join(', ')}), "name?: type" for optional ones`,
+      };
+    }
+
+    properties[match[1]] = INPUT_TYPES[match[3]];
+    if (!match[2]) required.push(match[1]);
+  }
+
+  return {
+    schema: {
+      type: 'object',
+      properties,
+      ...(required.length > 0 && { required }),
+    },
+  };
+}
+
+/**
+ * Format an inputs schema as shorthand, or as JSON when it uses more than names and types
+ */
+export function formatInputsInput(schema?: Record<string, any> | null): string {
+  if (!schema) return '';
+
+  const required: string[] = schema.required || [];
+  const entries = Object.entries((schema.properties || {}) as Record<string, Record<string, any>>).map(
+    ([name, property]) => {
+      const type = Object.keys(INPUT_TYPES).find(
+        (key) => JSON.stringify(INPUT_TYPES[key]) === JSON.stringify(property)
+      );
+      return type ? `${name}${required.includes(name) ? '' : '?'}: ${type}` : null;
+    }
+  );
+
+  const isShorthand =
+    entries.length > 0 &&
+    entries.every((entry) => entry !== null) &&
+    Object.keys(schema).every((key) => ['type', 'properties', 'required'].includes(key));
+
+  return isShorthand ? entries.join(', ') : formatSchemaInput(schema);
+}
+
+export function parseExamplesInput(text: string): string[] {
+  return text
+    .split('|')
+    .map((example) => example.trim())
+    .filter(Boolean);
+}
+
+export function formatExamplesInput(examples?: string[] | null): string {
+  return (examples || []).join(' | ');
+}
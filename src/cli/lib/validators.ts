@@ -59,4 +59,20 @@ export const validators: Validators = {
     }
     return { valid: true };
   },
+
+  parseInputAssignments(assignments: string[]): { inputs?: Record<string, string>; error?: string } {
+    const inputs: Record<string, string> = {};
+
+    for (const assignment of assignments) {
+      const separator = assignment.indexOf('=');
+      const key = assignment.slice(0, separator).trim();
+      if (separator < 1 || !key) {
+        return { error: `Invalid input "${assignment}" - use key=value` };
+      }
+      // Values are strings; the server converts them to the skill's input types
+      inputs[key] = assignment.slice(separator + 1);
+    }
+
+    return { inputs };
+  },
 };
@@ -8,7 +8,7 @@ import { Box, Text, useInput, useApp } from 'ink';
 import { EventSource } from 'eventsource';
 import { ChatInput } from './ChatInput.js';
 import { MessageHistory } from './MessageHistory.js';
-import { StreamingOutput } from './StreamingOutput.js';
+import { StreamingOutput, StreamingTool } from './StreamingOutput.js';
 import { SkillsMenu } from './SkillsMenu.js';
 import { ExecutionHistory } from './ExecutionHistory.js';
 import { ConnectionsMenu } from './ConnectionsMenu.js';
@@ -18,9 +18,12 @@ import { Header } from './Header.js';
 import { StatusBar } from './StatusBar.js';
 import { SuccessCard } from './SuccessCard.js';
 import { ErrorCard, getErrorSuggestion } from './ErrorCard.js';
+import { ApprovalCard } from './ApprovalCard.js';
+import { SkillRunForm } from './SkillRunForm.js';
+import type { PendingApprovalInfo } from '../types.js';
 import { brand, colors, getModeColor } from './theme.js';
 
-type AppMode = 'chat' | 'skills' | 'streaming' | 'history' | 'connections';
+type AppMode = 'chat' | 'skills' | 'streaming' | 'history' | 'connections' | 'run';
 type ExecutionMode = 'orchestrator' | 'classifier' | 'default';
 
 interface Message {
@@ -62,14 +65,30 @@ export const AlfredTUI: React.FC<AlfredTUIProps> = ({ onExit }) => {
   const [workflowName, setWorkflowName] = useState<string | null>(null);
   const [workflowSteps, setWorkflowSteps] = useState<WorkflowStep[]>([]);
 
+  // Live output of the running request (text deltas and tool calls)
+  const [streamText, setStreamText] = useState('');
+  const [streamTools, setStreamTools] = useState<StreamingTool[]>([]);
+
+  // Steps of the running request that wait for approval (the first one is shown)
+  const [pendingApprovals, setPendingApprovals] = useState<PendingApprovalInfo[]>([]);
+
+  // Skill name or ID typed after /run
+  const [runQuery, setRunQuery] = useState<string | undefined>(undefined);
+
+  // Server-side conversation the prompts belong to (follow-ups keep its context)
+  const [conversationId, setConversationId] = useState(() => `conv-${Date.now()}`);
+
   // Handle keyboard shortcuts
   useInput((input, key) => {
     if (key.escape) {
       if (isStreaming) {
-        // First escape: stop streaming
-        setIsStreaming(false);
-        setStreamingRequestId(null);
-        addSystemMessage('Interrupted');
+        // First escape: cancel the run (the 'cancelled' SSE event resets the view)
+        if (streamingRequestId) {
+          cancelRun(streamingRequestId);
+        } else {
+          setIsStreaming(false);
+          addSystemMessage('Interrupted');
+        }
       } else {
         // Second escape: exit
         exit();
@@ -101,6 +120,20 @@ export const AlfredTUI: React.FC<AlfredTUIProps> = ({ onExit }) => {
     addMessage({ type: 'system', content });
   };
 
+  const cancelRun = async (requestId: string) => {
+    addSystemMessage('Cancelling...');
+
+    try {
+      const { api } = await import('../lib/api-client.js');
+      await api.cancelExecution(requestId);
+    } catch (error: any) {
+      // Server unreachable or run already finished - stop streaming locally
+      setIsStreaming(false);
+      setStreamingRequestId(null);
+      addSystemMessage(`Interrupted (${error.message})`);
+    }
+  };
+
   const handleSubmit = async (input: string) => {
     const trimmed = input.trim();
     if (!trimmed) return;
@@ -146,6 +179,10 @@ export const AlfredTUI: React.FC<AlfredTUIProps> = ({ onExit }) => {
       case '/skills':
         setMode('skills');
         break;
+      case '/run':
+        setRunQuery(command.slice(cmd.length).trim() || undefined);
+        setMode('run');
+        break;
       case '/history':
         setMode('history');
         break;
@@ -160,7 +197,8 @@ export const AlfredTUI: React.FC<AlfredTUIProps> = ({ onExit }) => {
         setMessages([]);
         setTotalTokens(0);
         setTotalCost(0);
-        addSystemMessage('Chat cleared');
+        setConversationId(`conv-${Date.now()}`);
+        addSystemMessage('Chat cleared - new conversation started');
         break;
       case '/help':
         showHelp();
@@ -200,22 +238,304 @@ Database: ${health.database || 'connected'}`,
       type: 'system',
       content: `Available commands:
   /skills      - Manage skills (list, create, edit, delete)
+  /run <skill> - Run a skill directly (asks for its inputs)
   /connections - Manage service connections (or /conn)
   /history     - Browse execution history
   /health      - Check system health
-  /clear       - Clear chat history
+  /clear       - Clear chat history and start a new conversation
   /help        - Show this help message
 
 Tips:
   • Press Tab to cycle execution mode (orchestrator/classifier/default)
   • Type your prompt and press Enter to execute
   • Add "async" at the end to run asynchronously
-  • Press Escape to interrupt streaming or exit
+  • Press Escape to cancel the running request or exit
       `,
     });
   };
 
-  const executeWithStreaming = async (prompt: string, isAsync: boolean) => {
+  /**
+   * Follow the SSE stream of an execution (events after lastEventId, if given)
+   * Updates the messages, workflow progress and streamed output until the run ends.
+   */
+  const followExecution = (executionId: string, lastEventId?: number) => {
+    const baseUrl = process.env.ALFRED_URL || 'http://localhost:3001';
+    const query = lastEventId !== undefined ? `?lastEventId=${lastEventId}` : '';
+    const eventSource = new EventSource(`${baseUrl}/stream/${executionId}${query}`);
+
+    // Resolved once the stream has ended (keeps the TUI in streaming mode until then)
+    let finishStream: () => void = () => {};
+    const streamFinished = new Promise<void>((resolve) => {
+      finishStream = resolve;
+    });
+
+    setStreamingRequestId(executionId);
+    setStreamText('');
+    setStreamTools([]);
+    setPendingApprovals([]);
+
+    // Set up event handlers BEFORE sending request
+    eventSource.onmessage = (event: any) => {
+      try {
+        const data = JSON.parse(event.data);
+
+        switch (data.type) {
+          case 'connected':
+            // Connection established - no message needed
+            break;
+
+          case 'commentary':
+            // Show conversational commentary messages
+            addMessage({
+              type: 'assistant',
+              content: data.message,
+            });
+            break;
+
+          case 'workflow':
+            // Initialize workflow progress - show all steps upfront
+            setWorkflowName(data.workflow.name);
+            setWorkflowSteps(data.workflow.steps);
+            break;
+
+          case 'step':
+            // Update existing workflow step (don't append new message)
+            const step = data.step;
+
+            // Streamed text belongs to the running step
+            if (step.status === 'running') {
+              setStreamText('');
+            }
+
+            setWorkflowSteps((prev) =>
+              prev.map((s) =>
+                s.id === step.id
+                  ? {
+                      ...s,
+                      status: step.status,
+                      duration: step.duration,
+                      attempt: step.attempt,
+                      maxAttempts: step.maxAttempts,
+                      error: step.error,
+                      // Clear details when step completes or is skipped
+                      details: step.status === 'complete' || step.status === 'skipped' ? [] : s.details,
+                    }
+                  : s
+              )
+            );
+            break;
+
+          case 'step_detail':
+            // Add detail to current step's details array
+            const { stepId, detail } = data;
+            setWorkflowSteps((prev) =>
+              prev.map((s) =>
+                s.id === stepId
+                  ? {
+                      ...s,
+                      details: [...(s.details || []), detail],
+                    }
+                  : s
+              )
+            );
+            break;
+
+          case 'approval_required':
+            setPendingApprovals((prev) => [...prev, data.approval]);
+            break;
+
+          case 'approval_resolved':
+            setPendingApprovals((prev) => prev.filter((approval) => approval.stepId !== data.stepId));
+            break;
+
+          case 'text_delta':
+            setStreamText((prev) => prev + data.text);
+            break;
+
+          case 'tool_use':
+            setStreamTools((prev) => [
+              ...prev,
+              { id: data.toolUseId, name: data.name, input: data.input, status: 'running' },
+            ]);
+            break;
+
+          case 'tool_result':
+            setStreamTools((prev) =>
+              prev.map((tool) =>
+                tool.id === data.toolUseId
+                  ? { ...tool, status: data.isError ? 'error' : 'complete', output: data.output }
+                  : tool
+              )
+            );
+            break;
+
+          case 'complete':
+            eventSource.close();
+            setIsStreaming(false);
+            setStreamingRequestId(null);
+            finishStream();
+
+            // Clear workflow state
+            setWorkflowName(null);
+            setWorkflowSteps([]);
+            setPendingApprovals([]);
+
+            // Update totals
+            if (data.metadata?.tokenCount) {
+              setTotalTokens((prev) => prev + data.metadata.tokenCount);
+            }
+            if (data.metadata?.cost) {
+              setTotalCost((prev) => prev + data.metadata.cost);
+            }
+
+            // Add success card as a message (will be rendered by MessageHistory)
+            addMessage({
+              type: 'assistant',
+              content: `SUCCESS:${JSON.stringify({
+                result: data.output || 'Task completed',
+                duration: data.metadata?.duration,
+                cost: data.metadata?.cost,
+                metadata: data.metadata,
+              })}`,
+              metadata: {
+                requestId: executionId,
+                cost: data.metadata?.cost,
+                duration: data.metadata?.duration,
+                workflow: data.metadata?.workflow,
+              },
+            });
+            break;
+
+          case 'error':
+            eventSource.close();
+            setIsStreaming(false);
+            setStreamingRequestId(null);
+            finishStream();
+
+            // Clear workflow state
+            setWorkflowName(null);
+            setWorkflowSteps([]);
+            setPendingApprovals([]);
+
+            // Create error object and get suggestion
+            const error = new Error(data.message || 'Unknown error');
+            const suggestion = getErrorSuggestion(error);
+
+            // Add error card as a message (will be rendered by MessageHistory)
+            addMessage({
+              type: 'system',
+              content: `ERROR:${JSON.stringify({
+                message: error.message,
+                suggestion,
+              })}`,
+            });
+            break;
+
+          case 'cancelled':
+            eventSource.close();
+            setIsStreaming(false);
+            setStreamingRequestId(null);
+            finishStream();
+
+            // Clear workflow state
+            setWorkflowName(null);
+            setWorkflowSteps([]);
+            setPendingApprovals([]);
+
+            addSystemMessage('Cancelled');
+            break;
+        }
+      } catch (err) {
+        // Silently ignore parse errors
+      }
+    };
+
+    eventSource.onerror = (error: any) => {
+      eventSource.close();
+      setIsStreaming(false);
+      setStreamingRequestId(null);
+      finishStream();
+    };
+
+    return { eventSource, finishStream, streamFinished };
+  };
+
+  const decideApproval = async (approval: PendingApprovalInfo, decision: { approved: boolean; prompt?: string; reason?: string }) => {
+    if (!streamingRequestId) return;
+
+    try {
+      const { api } = await import('../lib/api-client.js');
+
+      if (decision.approved) {
+        await api.approveExecution(streamingRequestId, { stepId: approval.stepId, prompt: decision.prompt });
+      } else {
+        await api.rejectExecution(streamingRequestId, { stepId: approval.stepId, reason: decision.reason });
+      }
+    } catch (error) {
+      // Decided elsewhere or expired meanwhile (approval_resolved removes the card)
+      addSystemMessage(`✗ ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const handleResume = async (executionId: string) => {
+    setMode('streaming');
+    setIsStreaming(true);
+
+    try {
+      const { api } = await import('../lib/api-client.js');
+      const result = await api.resumeExecution(executionId);
+
+      // Only the events of the resumed run (the failed run's are still in the log)
+      const { streamFinished } = followExecution(executionId, result.lastEventId);
+      await streamFinished;
+    } catch (error) {
+      addMessage({
+        type: 'system',
+        content: `✗ Resume failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      });
+    } finally {
+      setIsStreaming(false);
+      setStreamingRequestId(null);
+      setMode('chat');
+    }
+  };
+
+  /**
+   * Run a skill picked with /run (skill mode, no classification)
+   */
+  const handleSkillRun = async (skill: { id: string; name: string }, inputs: Record<string, string>) => {
+    const summary = Object.entries(inputs).map(([key, value]) => `${key}=${value}`).join(' ');
+    addMessage({
+      type: 'user',
+      content: `/run ${skill.name}${summary ? ` ${summary}` : ''}`,
+    });
+
+    setIsStreaming(true);
+    setMode('streaming');
+
+    try {
+      await executeWithStreaming(undefined, false, { skillId: skill.id, inputs });
+    } catch (error) {
+      addMessage({
+        type: 'system',
+        content: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      });
+    } finally {
+      setIsStreaming(false);
+      setMode('chat');
+    }
+  };
+
+  const executeWithStreaming = async (
+    prompt: string | undefined,
+    isAsync: boolean,
+    skillRun?: { skillId: string; inputs: Record<string, string> }
+  ) => {
+    // Skill runs name their skill; chat prompts use the selected mode
+    const runOptions = skillRun
+      ? { mode: 'skill' as const, skillId: skillRun.skillId, inputs: skillRun.inputs, conversationId }
+      : { mode: executionMode, conversationId };
+
     try {
       // Import API client
       const { api } = await import('../lib/api-client.js');
@@ -226,136 +546,7 @@ Tips:
 
       // For sync mode with streaming: Connect to SSE FIRST, then trigger execution
       if (!isAsync) {
-        const baseUrl = process.env.ALFRED_URL || 'http://localhost:3001';
-        const eventSource = new EventSource(`${baseUrl}/stream/${executionId}`);
-
-        setStreamingRequestId(executionId);
-
-        // Set up event handlers BEFORE sending request
-        eventSource.onmessage = (event: any) => {
-          try {
-            const data = JSON.parse(event.data);
-
-            switch (data.type) {
-              case 'connected':
-                // Connection established - no message needed
-                break;
-
-              case 'commentary':
-                // Show conversational commentary messages
-                addMessage({
-                  type: 'assistant',
-                  content: data.message,
-                });
-                break;
-
-              case 'workflow':
-                // Initialize workflow progress - show all steps upfront
-                setWorkflowName(data.workflow.name);
-                setWorkflowSteps(data.workflow.steps);
-                break;
-
-              case 'step':
-                // Update existing workflow step (don't append new message)
-                const step = data.step;
-                setWorkflowSteps((prev) =>
-                  prev.map((s) =>
-                    s.id === step.id
-                      ? {
-                          ...s,
-                          status: step.status,
-                          duration: step.duration,
-                          // Clear details when step completes
-                          details: step.status === 'complete' ? [] : s.details,
-                        }
-                      : s
-                  )
-                );
-                break;
-
-              case 'step_detail':
-                // Add detail to current step's details array
-                const { stepId, detail } = data;
-                setWorkflowSteps((prev) =>
-                  prev.map((s) =>
-                    s.id === stepId
-                      ? {
-                          ...s,
-                          details: [...(s.details || []), detail],
-                        }
-                      : s
-                  )
-                );
-                break;
-
-              case 'complete':
-                eventSource.close();
-                setIsStreaming(false);
-                setStreamingRequestId(null);
-
-                // Clear workflow state
-                setWorkflowName(null);
-                setWorkflowSteps([]);
-
-                // Update totals
-                if (data.metadata?.tokenCount) {
-                  setTotalTokens((prev) => prev + data.metadata.tokenCount);
-                }
-                if (data.metadata?.cost) {
-                  setTotalCost((prev) => prev + data.metadata.cost);
-                }
-
-                // Add success card as a message (will be rendered by MessageHistory)
-                addMessage({
-                  type: 'assistant',
-                  content: `SUCCESS:${JSON.stringify({
-                    result: data.output || 'Task completed',
-                    duration: data.metadata?.duration,
-                    cost: data.metadata?.cost,
-                    metadata: data.metadata,
-                  })}`,
-                  metadata: {
-                    requestId: executionId,
-                    cost: data.metadata?.cost,
-                    duration: data.metadata?.duration,
-                    workflow: data.metadata?.workflow,
-                  },
-                });
-                break;
-
-              case 'error':
-                eventSource.close();
-                setIsStreaming(false);
-                setStreamingRequestId(null);
-
-                // Clear workflow state
-                setWorkflowName(null);
-                setWorkflowSteps([]);
-
-                // Create error object and get suggestion
-                const error = new Error(data.message || 'Unknown error');
-                const suggestion = getErrorSuggestion(error);
-
-                // Add error card as a message (will be rendered by MessageHistory)
-                addMessage({
-                  type: 'system',
-                  content: `ERROR:${JSON.stringify({
-                    message: error.message,
-                    suggestion,
-                  })}`,
-                });
-                break;
-            }
-          } catch (err) {
-            // Silently ignore parse errors
-          }
-        };
-
-        eventSource.onerror = (error: any) => {
-          eventSource.close();
-          setIsStreaming(false);
-          setStreamingRequestId(null);
-        };
+        const { eventSource, finishStream, streamFinished } = followExecution(executionId);
 
         // Small delay to ensure SSE connection is established
         await new Promise(resolve => setTimeout(resolve, 100));
@@ -364,17 +555,25 @@ Tips:
         api.run({
           prompt,
           async: false,
-          mode: executionMode,
+          ...runOptions,
           requestId: requestId,
+        }).then(() => {
+          finishStream();
         }).catch((error) => {
           eventSource.close();
           setIsStreaming(false);
+          finishStream();
+
+          // 409: the run was cancelled (reported by the 'cancelled' event)
+          if (error.statusCode === 409 && error.message.includes('was cancelled')) return;
+
           addMessage({
             type: 'system',
             content: `✗ Request failed: ${error.message}`,
           });
         });
 
+        await streamFinished;
         return;
       }
 
@@ -382,7 +581,7 @@ Tips:
       const response = await api.run({
         prompt,
         async: true,
-        mode: executionMode,
+        ...runOptions,
         requestId: requestId,
       });
 
@@ -418,6 +617,24 @@ Tips:
           setMode('chat');
           addSystemMessage('Returned to chat');
         }}
+        onResume={(execution) => {
+          handleResume(execution.id);
+        }}
+      />
+    );
+  }
+
+  if (mode === 'run') {
+    return (
+      <SkillRunForm
+        query={runQuery}
+        onRun={(skill, inputs) => {
+          handleSkillRun(skill, inputs);
+        }}
+        onBack={() => {
+          setMode('chat');
+          addSystemMessage('Returned to chat');
+        }}
       />
     );
   }
@@ -453,10 +670,20 @@ Tips:
         </Box>
       )}
 
+      {/* Approval card (the step waits until it is decided) */}
+      {isStreaming && pendingApprovals.length > 0 && (
+        <ApprovalCard
+          key={pendingApprovals[0].stepId}
+          approval={pendingApprovals[0]}
+          onApprove={(prompt) => decideApproval(pendingApprovals[0], { approved: true, prompt })}
+          onReject={(reason) => decideApproval(pendingApprovals[0], { approved: false, reason })}
+        />
+      )}
+
       {/* Streaming Output (if active) */}
       {isStreaming && mode === 'streaming' && (
         <Box marginBottom={1}>
-          <StreamingOutput requestId={streamingRequestId} />
+          <StreamingOutput text={streamText} tools={streamTools} />
         </Box>
       )}
 
@@ -0,0 +1,110 @@
+/**
+ * ApprovalCard Component
+ * Shows the proposed action of a workflow step that waits for approval
+ * Following Alfred TUI Design System
+ */
+
+import React, { useState } from 'react';
+import { Box, Text } from 'ink';
+import SelectInput from 'ink-select-input';
+import TextInput from 'ink-text-input';
+import figures from 'figures';
+import { colors } from './theme.js';
+import type { PendingApprovalInfo } from '../types.js';
+
+/**
+ * Props for ApprovalCard component
+ */
+export interface ApprovalCardProps {
+  /** Step waiting for approval (from the approval_required SSE event) */
+  approval: PendingApprovalInfo;
+  /** Called with the edited prompt, if the user changed it */
+  onApprove: (prompt?: string) => void;
+  /** Called with the optional reason */
+  onReject: (reason?: string) => void;
+}
+
+/**
+ * ApprovalCard Component
+ * Approve, edit and approve, or reject the proposed action
+ */
+export const ApprovalCard: React.FC<ApprovalCardProps> = ({ approval, onApprove, onReject }) => {
+  const [view, setView] = useState<'choose' | 'edit' | 'reject'>('choose');
+  const [prompt, setPrompt] = useState(approval.prompt);
+  const [reason, setReason] = useState('');
+
+  return (
+    <Box
+      flexDirection="column"
+      borderStyle="round"
+      borderColor={colors.status.awaiting_approval}
+      paddingX={2}
+      paddingY={1}
+      marginY={1}
+    >
+      {/* Approval header */}
+      <Box marginBottom={1}>
+        <Text color={colors.status.awaiting_approval} bold>
+          {figures.warning} Step {approval.stepId} needs your approval
+        </Text>
+      </Box>
+
+      {/* Proposed action */}
+      <Box flexDirection="column" marginBottom={1} borderLeft={true} borderColor={colors.text.tertiary} paddingLeft={1}>
+        <Text>{approval.prompt}</Text>
+        {approval.items && (
+          <Text dimColor>
+            For each of {approval.items.length} item(s): {JSON.stringify(approval.items).substring(0, 120)}
+          </Text>
+        )}
+      </Box>
+
+      <Box marginBottom={1}>
+        <Text dimColor>Expires {new Date(approval.expiresAt).toLocaleTimeString()}</Text>
+      </Box>
+
+      {view === 'choose' && (
+        <SelectInput
+          items={[
+            { label: `${figures.tick} Approve`, value: 'approve' },
+            { label: '✎ Edit and approve', value: 'edit' },
+            { label: `${figures.cross} Reject`, value: 'reject' },
+          ]}
+          onSelect={(item) => {
+            if (item.value === 'approve') {
+              onApprove();
+            } else {
+              setView(item.value as 'edit' | 'reject');
+            }
+          }}
+        />
+      )}
+
+      {view === 'edit' && (
+        <Box flexDirection="column">
+          <Text>Prompt:</Text>
+          <Box marginLeft={2}>
+            <TextInput
+              value={prompt}
+              onChange={setPrompt}
+              onSubmit={() => onApprove(prompt.trim() && prompt !== approval.prompt ? prompt.trim() : undefined)}
+            />
+          </Box>
+          <Text dimColor>Press Enter to approve</Text>
+        </Box>
+      )}
+
+      {view === 'reject' && (
+        <Box flexDirection="column">
+          <Text>Reason (optional):</Text>
+          <Box marginLeft={2}>
+            <TextInput value={reason} onChange={setReason} onSubmit={() => onReject(reason.trim() || undefined)} />
+          </Box>
+          <Text dimColor>Press Enter to reject</Text>
+        </Box>
+      )}
+    </Box>
+  );
+};
+
+export default ApprovalCard;
@@ -26,10 +26,11 @@ interface CommandItem {
 
 const AVAILABLE_COMMANDS: CommandItem[] = [
   { label: '/skills', value: '/skills', description: 'Manage and browse your AI workflows' },
+  { label: '/run', value: '/run', description: 'Run a skill directly' },
   { label: '/connections', value: '/connections', description: 'Manage service connections' },
   { label: '/history', value: '/history', description: 'View past execution history' },
   { label: '/health', value: '/health', description: 'Check system status' },
-  { label: '/clear', value: '/clear', description: 'Clear chat history' },
+  { label: '/clear', value: '/clear', description: 'Clear chat history, new conversation' },
   { label: '/help', value: '/help', description: 'Show all available commands' },
 ];
 
@@ -40,6 +41,7 @@ const getCommandHint = (input: string): string | null => {
   const cmd = input.toLowerCase();
   const hints: Record<string, string> = {
     '/sk': 'Press Tab to autocomplete "/skills"',
+    '/ru': 'Run a skill directly: /run <skill name or ID>',
     '/co': 'Press Tab to autocomplete "/connections"',
     '/he': 'Press Tab to autocomplete "/health"',
     '/hi': 'Press Tab to autocomplete "/history"',
@@ -50,7 +52,7 @@ const getCommandHint = (input: string): string | null => {
     '/conn': 'Manage service connections (alias)',
     '/history': 'View past execution history',
     '/health': 'Check system status',
-    '/clear': 'Clear chat history',
+    '/clear': 'Clear chat history and start a new conversation',
   };
 
   for (const [prefix, hint] of Object.entries(hints)) {
@@ -11,9 +11,10 @@ import type { Execution } from '@prisma/client';
 interface ExecutionHistoryProps {
   onBack: () => void;
   onSelect?: (execution: Execution) => void;
+  onResume?: (execution: Execution) => void;
 }
 
-export const ExecutionHistory: React.FC<ExecutionHistoryProps> = ({ onBack, onSelect }) => {
+export const ExecutionHistory: React.FC<ExecutionHistoryProps> = ({ onBack, onSelect, onResume }) => {
   const [executions, setExecutions] = useState<Execution[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -72,6 +73,8 @@ export const ExecutionHistory: React.FC<ExecutionHistoryProps> = ({ onBack, onSe
         return <Text color="red">✗</Text>;
       case 'running':
         return <Text color="yellow">⟳</Text>;
+      case 'awaiting_approval':
+        return <Text color="yellow">⏸</Text>;
       default:
         return <Text color="gray">○</Text>;
     }
@@ -173,8 +176,20 @@ export const ExecutionHistory: React.FC<ExecutionHistoryProps> = ({ onBack, onSe
 
         <Box marginTop={1}>
           <SelectInput
-            items={[{ label: '← Back to history', value: 'back' }]}
-            onSelect={() => setSelectedExecution(null)}
+            items={[
+              // Only skill runs are recorded step by step
+              ...(onResume && selectedExecution.status === 'failed' && selectedExecution.skillId
+                ? [{ label: '↻ Resume from failed step', value: 'resume' }]
+                : []),
+              { label: '← Back to history', value: 'back' },
+            ]}
+            onSelect={(item) => {
+              if (item.value === 'resume') {
+                onResume?.(selectedExecution);
+              } else {
+                setSelectedExecution(null);
+              }
+            }}
           />
         </Box>
       </Box>
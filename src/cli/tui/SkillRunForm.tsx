@@ -0,0 +1,159 @@
+/**
+ * SkillRunForm Component
+ * Picks a skill for /run and asks for its input parameters
+ * Following Alfred TUI Design System
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Box, Text } from 'ink';
+import SelectInput from 'ink-select-input';
+import TextInput from 'ink-text-input';
+import figures from 'figures';
+import { colors } from './theme.js';
+import { db } from '../lib/db.js';
+import { getSkillInputFields } from '../../skill-inputs.js';
+import type { Skill } from '@prisma/client';
+
+/**
+ * Props for SkillRunForm component
+ */
+export interface SkillRunFormProps {
+  /** Skill name or ID typed after /run (shows a picker if it matches no skill) */
+  query?: string;
+  /** Called with the skill and its input values (strings, converted by the server) */
+  onRun: (skill: Skill, inputs: Record<string, string>) => void;
+  onBack: () => void;
+}
+
+/**
+ * SkillRunForm Component
+ * One text field per input parameter, prefilled with its default
+ */
+export const SkillRunForm: React.FC<SkillRunFormProps> = ({ query, onRun, onBack }) => {
+  const [skills, setSkills] = useState<Skill[] | null>(null);
+  const [skill, setSkill] = useState<Skill | null>(null);
+  const [fieldIndex, setFieldIndex] = useState(0);
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [value, setValue] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const fields = getSkillInputFields(skill?.inputs as Record<string, any> | null);
+
+  useEffect(() => {
+    db.listSkills({ active: true })
+      .then((active) => {
+        const wanted = query?.trim().toLowerCase();
+        const match = wanted && active.find((s) => s.id === query!.trim() || s.name.toLowerCase() === wanted);
+
+        setSkills(active);
+        if (match) selectSkill(match);
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load skills'));
+  }, [query]);
+
+  const selectSkill = (selected: Skill) => {
+    const selectedFields = getSkillInputFields(selected.inputs as Record<string, any> | null);
+
+    if (selectedFields.length === 0) {
+      onRun(selected, {});
+      return;
+    }
+
+    setSkill(selected);
+    setFieldIndex(0);
+    setValues({});
+    setValue(formatDefault(selectedFields[0].default));
+  };
+
+  const submitField = () => {
+    const field = fields[fieldIndex];
+    const trimmed = value.trim();
+
+    if (!trimmed && field.required) {
+      setError(`${field.name} is required`);
+      return;
+    }
+
+    const nextValues = trimmed ? { ...values, [field.name]: trimmed } : values;
+    setError(null);
+
+    if (fieldIndex + 1 < fields.length) {
+      setValues(nextValues);
+      setFieldIndex(fieldIndex + 1);
+      setValue(formatDefault(fields[fieldIndex + 1].default));
+    } else {
+      onRun(skill!, nextValues);
+    }
+  };
+
+  return (
+    <Box flexDirection="column" borderStyle="round" borderColor={colors.primary} paddingX={2} paddingY={1}>
+      <Box marginBottom={1}>
+        <Text color={colors.primary} bold>
+          {figures.play} {skill ? `Run ${skill.name}` : 'Run a skill'}
+        </Text>
+      </Box>
+
+      {error && (
+        <Box marginBottom={1}>
+          <Text color={colors.error}>{figures.cross} {error}</Text>
+        </Box>
+      )}
+
+      {!skills && !error && <Text dimColor>Loading skills...</Text>}
+
+      {!skills && error && (
+        <SelectInput items={[{ label: '← Back to chat', value: 'back' }]} onSelect={() => onBack()} />
+      )}
+
+      {skills && !skill && (
+        <Box flexDirection="column">
+          {query && <Text dimColor>No active skill named "{query}" - pick one:</Text>}
+          <SelectInput
+            items={[
+              ...skills.map((s) => ({ label: s.name, value: s.id })),
+              { label: '← Back to chat', value: 'back' },
+            ]}
+            onSelect={(item) => {
+              const selected = skills.find((s) => s.id === item.value);
+              if (selected) {
+                selectSkill(selected);
+              } else {
+                onBack();
+              }
+            }}
+          />
+        </Box>
+      )}
+
+      {skill && fields[fieldIndex] && (
+        <Box flexDirection="column">
+          {/* Values entered so far */}
+          {fields.slice(0, fieldIndex).map((field) => (
+            <Text key={field.name} dimColor>
+              {figures.tick} {field.name}: {values[field.name] ?? '(empty)'}
+            </Text>
+          ))}
+
+          <Text>
+            {fields[fieldIndex].name} <Text dimColor>({fields[fieldIndex].type}{fields[fieldIndex].required ? ', required' : ''})</Text>
+            {fields[fieldIndex].description && <Text dimColor> - {fields[fieldIndex].description}</Text>}
+          </Text>
+          <Box marginLeft={2}>
+            <TextInput value={value} onChange={setValue} onSubmit={submitField} />
+          </Box>
+          <Text dimColor>
+            Input {fieldIndex + 1} of {fields.length} • Press Enter to {fieldIndex + 1 < fields.length ? 'continue' : 'run'}
+          </Text>
+        </Box>
+      )}
+    </Box>
+  );
+};
+
+function formatDefault(value: unknown): string {
+  if (value === undefined) return '';
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+export default SkillRunForm;
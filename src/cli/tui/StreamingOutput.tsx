@@ -1,73 +1,37 @@
 /**
  * Streaming Output Component
- * Displays real-time progress updates during task execution
+ * Displays the assistant's text and tool calls as they stream in (SSE text_delta,
+ * tool_use and tool_result events)
  */
 
-import React, { useState, useEffect } from 'react';
+import React from 'react';
 import { Box, Text } from 'ink';
 import Spinner from 'ink-spinner';
 
-interface StreamingStep {
-  id: number;
-  status: 'pending' | 'running' | 'complete' | 'error';
-  title: string;
-  duration?: number;
-  error?: string;
+export interface StreamingTool {
+  id: string;
+  name: string;
+  input: string;
+  status: 'running' | 'complete' | 'error';
+  output?: string;
 }
 
 interface StreamingOutputProps {
-  requestId: string | null;
+  /** Text streamed so far (current step for workflows) */
+  text: string;
+  /** Tool calls streamed so far */
+  tools: StreamingTool[];
 }
 
-export const StreamingOutput: React.FC<StreamingOutputProps> = ({ requestId }) => {
-  const [steps, setSteps] = useState<StreamingStep[]>([]);
-  const [currentStep, setCurrentStep] = useState(0);
+/** Tool calls shown (most recent) */
+const MAX_VISIBLE_TOOLS = 5;
 
-  useEffect(() => {
-    // TODO: Connect to SSE endpoint or WebSocket
-    // For now, simulate streaming steps
-    const simulateSteps = async () => {
-      const demoSteps: StreamingStep[] = [
-        { id: 1, status: 'pending', title: 'Analyzing request' },
-        { id: 2, status: 'pending', title: 'Classifying task' },
-        { id: 3, status: 'pending', title: 'Executing agent' },
-        { id: 4, status: 'pending', title: 'Processing response' },
-      ];
+/** Lines of streamed text shown (most recent) */
+const MAX_VISIBLE_LINES = 15;
 
-      setSteps(demoSteps);
-
-      // Simulate step progression
-      for (let i = 0; i < demoSteps.length; i++) {
-        setSteps((prev) =>
-          prev.map((step, idx) =>
-            idx === i
-              ? { ...step, status: 'running' }
-              : idx < i
-              ? { ...step, status: 'complete' }
-              : step
-          )
-        );
-        setCurrentStep(i);
-
-        await new Promise((resolve) => setTimeout(resolve, 800));
-
-        setSteps((prev) =>
-          prev.map((step, idx) =>
-            idx === i ? { ...step, status: 'complete', duration: 800 } : step
-          )
-        );
-      }
-    };
-
-    if (requestId) {
-      simulateSteps();
-    }
-  }, [requestId]);
-
-  const renderStepIcon = (status: StreamingStep['status']) => {
+export const StreamingOutput: React.FC<StreamingOutputProps> = ({ text, tools }) => {
+  const renderToolIcon = (status: StreamingTool['status']) => {
     switch (status) {
-      case 'pending':
-        return <Text color="gray">○</Text>;
       case 'running':
         return (
           <Text color="cyan">
@@ -83,9 +47,9 @@ export const StreamingOutput: React.FC<StreamingOutputProps> = ({ requestId }) =
     }
   };
 
-  if (!requestId || steps.length === 0) {
-    return null;
-  }
+  const visibleTools = tools.slice(-MAX_VISIBLE_TOOLS);
+  const lines = text.split('\n');
+  const visibleText = lines.slice(-MAX_VISIBLE_LINES).join('\n');
 
   return (
     <Box
@@ -95,34 +59,36 @@ export const StreamingOutput: React.FC<StreamingOutputProps> = ({ requestId }) =
       paddingY={0}
       flexDirection="column"
     >
-      <Text bold color="cyan">
-        Processing...
-      </Text>
+      <Box>
+        <Text color="cyan">
+          <Spinner type="dots" />
+        </Text>
+        <Text bold color="cyan"> Processing...</Text>
+      </Box>
 
-      {steps.map((step) => (
-        <Box key={step.id} marginY={0}>
-          {renderStepIcon(step.status)}
+      {tools.length > visibleTools.length && (
+        <Text dimColor>({tools.length - visibleTools.length} earlier tool call(s))</Text>
+      )}
+
+      {visibleTools.map((tool) => (
+        <Box key={tool.id} marginY={0}>
+          {renderToolIcon(tool.status)}
+          <Box marginLeft={1}>
+            <Text>{tool.name}</Text>
+          </Box>
           <Box marginLeft={1}>
-            <Text>{step.title}</Text>
+            <Text dimColor wrap="truncate-end">
+              {tool.status === 'running' ? tool.input : tool.output || tool.input}
+            </Text>
           </Box>
-          {step.duration && step.status === 'complete' && (
-            <Box marginLeft={1}>
-              <Text dimColor>({step.duration}ms)</Text>
-            </Box>
-          )}
-          {step.error && (
-            <Box marginLeft={1}>
-              <Text color="red">{step.error}</Text>
-            </Box>
-          )}
         </Box>
       ))}
 
-      <Box marginTop={1}>
-        <Text dimColor>
-          Step {currentStep + 1} of {steps.length}
-        </Text>
-      </Box>
+      {visibleText && (
+        <Box marginTop={visibleTools.length > 0 ? 1 : 0}>
+          <Text>{visibleText}</Text>
+        </Box>
+      )}
     </Box>
   );
 };
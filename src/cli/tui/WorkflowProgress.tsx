@@ -13,9 +13,15 @@ import { colors, getStatusColor } from './theme.js';
 export interface WorkflowStep {
   id: number;
   title: string;
-  status: 'pending' | 'running' | 'complete' | 'error';
+  status: 'pending' | 'running' | 'complete' | 'error' | 'skipped' | 'retrying' | 'awaiting_approval';
   duration?: number;
   details?: string[];  // Step execution details (tool usage, etc.)
+  dependsOn?: number[];  // Step IDs this step waits for
+  fallbackFor?: number[];  // Steps this fallback step runs in place of
+  requiresApproval?: boolean;  // Waits for a human decision before it runs
+  attempt?: number;  // Attempt about to start (retrying)
+  maxAttempts?: number;
+  error?: string;
 }
 
 interface WorkflowProgressProps {
@@ -30,7 +36,7 @@ export const WorkflowProgress: React.FC<WorkflowProgressProps> = ({
   workflowName,
 }) => {
   const totalSteps = steps.length;
-  const completedSteps = steps.filter(s => s.status === 'complete').length;
+  const completedSteps = steps.filter(s => s.status === 'complete' || s.status === 'skipped').length;
   const progressPercent = totalSteps > 0 ? completedSteps / totalSteps : 0;
 
   return (
@@ -60,6 +66,7 @@ export const WorkflowProgress: React.FC<WorkflowProgressProps> = ({
             key={step.id}
             step={step}
             index={index}
+            previousStepId={steps[index - 1]?.id}
             isLast={index === steps.length - 1}
           />
         ))}
@@ -71,12 +78,21 @@ export const WorkflowProgress: React.FC<WorkflowProgressProps> = ({
 const StepItem: React.FC<{
   step: WorkflowStep;
   index: number;
+  previousStepId?: number;
   isLast: boolean;
-}> = ({ step, index, isLast }) => {
+}> = ({ step, index, previousStepId, isLast }) => {
   const icon = getStepIcon(step.status);
   const color = getStatusColor(step.status);
   const isRunning = step.status === 'running';
 
+  // Only label dependencies that differ from "runs after the step above"
+  const dependsOn = step.dependsOn;
+  const isSequential =
+    !dependsOn ||
+    (index === 0
+      ? dependsOn.length === 0
+      : dependsOn.length === 1 && dependsOn[0] === previousStepId);
+
   return (
     <Box flexDirection="column">
       {/* Connection line to previous step */}
@@ -99,8 +115,19 @@ const StepItem: React.FC<{
 
         {/* Step content */}
         <Box flexDirection="column" flexGrow={1}>
-          <Text color={color} bold={isRunning}>
+          <Text color={color} bold={isRunning} strikethrough={step.status === 'skipped'}>
             Step {step.id}: {step.title}
+            {step.fallbackFor && (
+              <Text dimColor> (fallback for step {step.fallbackFor.join(', ')})</Text>
+            )}
+            {step.requiresApproval && step.status === 'pending' && (
+              <Text dimColor> (needs approval)</Text>
+            )}
+            {!isSequential && dependsOn && (
+              <Text dimColor>
+                {dependsOn.length > 0 ? ` (after step ${dependsOn.join(', ')})` : ' (parallel)'}
+              </Text>
+            )}
           </Text>
 
           {/* Expanded details for running step ONLY */}
@@ -122,6 +149,22 @@ const StepItem: React.FC<{
             </Box>
           )}
 
+          {/* Retry notice with the error of the failed attempt */}
+          {step.status === 'retrying' && (
+            <Box marginLeft={2}>
+              <Text color={color}>
+                Retrying (attempt {step.attempt}/{step.maxAttempts}){step.error ? `: ${step.error.substring(0, 80)}` : ''}
+              </Text>
+            </Box>
+          )}
+
+          {/* Approval notice (the approval card asks for the decision) */}
+          {step.status === 'awaiting_approval' && (
+            <Box marginLeft={2}>
+              <Text color={color}>Waiting for approval</Text>
+            </Box>
+          )}
+
           {/* Duration badge for completed steps */}
           {step.status === 'complete' && step.duration && (
             <Box marginTop={0}>
@@ -147,6 +190,9 @@ const getStepIcon = (status: WorkflowStep['status']): string => {
     'running': '',                      // (animated spinner)
     'complete': figures.tick,           // ✓
     'error': figures.cross,             // ✗
+    'skipped': figures.arrowDown,       // ↓ (condition not met)
+    'retrying': '↻',                    // ↻ (attempt failed, retrying)
+    'awaiting_approval': '⏸',           // ⏸ (waiting for approval)
   };
   return icons[status] || figures.circleDotted;
 };
@@ -37,6 +37,9 @@ export const colors = {
     running: '#00D9FF',    // Cyan - active
     complete: '#68D391',   // Green - done
     error: '#FC8181',      // Red - failed
+    skipped: '#A0AEC0',    // Light gray - condition not met
+    retrying: '#F6E05E',   // Yellow - attempt failed, retrying
+    awaiting_approval: '#F6AD55', // Orange - waiting for a human decision
   },
 
   // Mode colors
@@ -3,7 +3,7 @@
  * These contracts ensure all agents can work in parallel without conflicts
  */
 
-import { Skill } from '@prisma/client';
+import { Memory, Skill } from '@prisma/client';
 
 // ============================================
 // DATABASE LAYER (Agent 1)
@@ -15,27 +15,49 @@ export interface DatabaseClient {
   createSkill(data: SkillCreateInput): Promise<Skill>;
   updateSkill(id: string, data: SkillUpdateInput): Promise<Skill>;
   deleteSkill(id: string): Promise<void>;
+  listMemories(options?: ListMemoriesOptions): Promise<Memory[]>;
+  getMemory(id: string): Promise<Memory | null>;
+  deleteMemory(id: string): Promise<void>;
+  listConnectionNames(): Promise<string[]>;
 }
 
 export interface ListSkillsOptions {
   active?: boolean;
 }
 
+export interface ListMemoriesOptions {
+  tag?: string;
+  limit?: number;
+}
+
+/** Modes set in the skill wizards, and the triggers of imported skills ('schedule', 'webhook', ...) */
+export type SkillTriggerType = 'classifier' | 'orchestrator' | 'default' | 'manual' | 'schedule' | 'webhook' | 'chat';
+
 export interface SkillCreateInput {
   name: string;
   description: string;
-  triggerType: 'classifier' | 'orchestrator' | 'default';
+  examples?: string[];
+  negativeExamples?: string[];
+  triggerType: SkillTriggerType;
+  triggerConfig?: Record<string, any>;
   steps: StepInput[];
   connectionNames?: string[];
+  outputSchema?: Record<string, any>;
+  inputs?: Record<string, any>;
   isActive: boolean;
 }
 
 export interface SkillUpdateInput {
   name?: string;
   description?: string;
-  triggerType?: 'classifier' | 'orchestrator' | 'default';
+  examples?: string[];
+  negativeExamples?: string[];
+  triggerType?: SkillTriggerType;
+  triggerConfig?: Record<string, any> | null;
   steps?: StepInput[];
   connectionNames?: string[];
+  outputSchema?: Record<string, any> | null;
+  inputs?: Record<string, any> | null;
   isActive?: boolean;
 }
 
@@ -45,6 +67,39 @@ export interface StepInput {
   guidance?: string;
   allowedTools?: string[];
   connectionNames?: string[];
+  dependsOn?: number[];
+  condition?: StepConditionInput;
+  forEach?: StepForEachInput;
+  outputSchema?: Record<string, any>;
+  retry?: StepRetryInput;
+  onError?: StepErrorInput;
+  requiresApproval?: boolean;
+}
+
+/** Step runs only if the expression holds or Claude answers the question with yes */
+export interface StepConditionInput {
+  expression?: string;
+  ask?: string;
+}
+
+/** Step runs once per item of a list from an earlier step */
+export interface StepForEachInput {
+  items: string;
+  maxItems?: number;
+}
+
+/** Failed attempts are retried with exponential backoff */
+export interface StepRetryInput {
+  maxAttempts?: number;
+  backoffMs?: number;
+  backoffMultiplier?: number;
+  retryOn?: string[];
+}
+
+/** What happens when the step fails after its last attempt */
+export interface StepErrorInput {
+  action: 'fail' | 'continue' | 'fallbackStep' | 'goto';
+  stepId?: number;
 }
 
 // ============================================
@@ -54,6 +109,17 @@ export interface StepInput {
 export interface AlfredApiClient {
   health(): Promise<HealthResponse>;
   run(request: RunRequest): Promise<RunResponse>;
+  getExecution(id: string): Promise<ExecutionResponse>;
+  cancelExecution(id: string): Promise<CancelExecutionResponse>;
+  resumeExecution(id: string): Promise<ResumeExecutionResponse>;
+  approveExecution(id: string, options?: { stepId?: number; prompt?: string }): Promise<ApprovalDecisionResponse>;
+  rejectExecution(id: string, options?: { stepId?: number; reason?: string }): Promise<ApprovalDecisionResponse>;
+  sendClassificationFeedback(
+    id: string,
+    feedback: { correct: true } | { correctSkill: string | null }
+  ): Promise<ClassificationFeedbackResponse>;
+  draftSkillFromExecution(id: string): Promise<SkillDraftResponse>;
+  generateSkill(description: string): Promise<SkillDraftResponse>;
 }
 
 export interface HealthResponse {
@@ -69,11 +135,15 @@ export interface HealthResponse {
 }
 
 export interface RunRequest {
-  prompt: string;
-  mode?: 'classifier' | 'orchestrator' | 'default';
+  prompt?: string; // Optional in skill mode (defaults to the skill description)
+  mode?: 'classifier' | 'orchestrator' | 'default' | 'skill';
+  skillId?: string;
+  skillName?: string;
   async?: boolean;
   requestId?: string;
+  conversationId?: string; // Continue a conversation (created on first use)
   metadata?: Record<string, any>;
+  inputs?: Record<string, unknown>;
 }
 
 export interface RunResponse {
@@ -90,15 +160,87 @@ export interface RunResponse {
   };
 }
 
+export type ExecutionStatus = 'queued' | 'running' | 'awaiting_approval' | 'completed' | 'failed' | 'cancelled';
+
+/** Workflow step waiting for approval (GET /executions/:id, approval_required SSE event) */
+export interface PendingApprovalInfo {
+  stepId: number;
+  title: string;
+  prompt: string; // Proposed action
+  items?: unknown[]; // Items of a forEach step
+  requestedAt: string;
+  expiresAt: string;
+}
+
+export interface ExecutionResponse {
+  executionId: string;
+  status: ExecutionStatus;
+  trigger: string;
+  skill: { id: string; name: string } | null;
+  input?: Record<string, any> | null;
+  output: string | null;
+  error: string | null;
+  files: Array<{ name: string; url: string }>;
+  url: string[];
+  steps: Array<{ id: number; duration_ms: number; total_cost_usd: number; num_turns: number }>;
+  durationMs: number | null;
+  tokenCount: number | null;
+  costUsd: number | null;
+  startedAt: string;
+  completedAt: string | null;
+  approvals?: PendingApprovalInfo[];
+}
+
+export interface CancelExecutionResponse {
+  executionId: string;
+  status: 'cancelled';
+}
+
+export interface ApprovalDecisionResponse {
+  executionId: string;
+  stepId: number;
+  status: 'approved' | 'rejected';
+}
+
+export interface ClassificationFeedbackResponse {
+  executionId: string;
+  decisionId: string;
+  feedback: 'correct' | 'wrong';
+  chosenSkill: string | null; // null: the default agent ran
+  correctSkill: string | null;
+  examplesAdded: Array<{ skillId: string; skillName: string; kind: 'examples' | 'negativeExamples' }>;
+}
+
+/** Skill drafted from a one-off run or a description (POST /skills/generate) - not saved yet */
+export interface SkillDraftResponse {
+  sourceExecutionId?: string;
+  name: string;
+  description: string;
+  examples: string[];
+  steps: StepInput[];
+  connectionNames: string[];
+  unknownTools?: string[];
+}
+
+export interface ResumeExecutionResponse {
+  executionId: string;
+  status: 'running';
+  resumeFromStep: number | null; // null if only the final response is missing
+  completedSteps: number[];
+  lastEventId: number; // Follow the resumed run on /stream/:id?lastEventId=
+}
+
 // ============================================
 // FORMATTERS (Agent 3)
 // ============================================
 
 export interface Formatters {
   formatSkillTable(skills: Skill[]): string;
+  formatMemoryTable(memories: Memory[]): string;
   formatSkillDetail(skill: Skill): string;
   formatHealthStatus(health: HealthResponse): string;
   formatRunResponse(response: RunResponse, async: boolean): string;
+  formatExecution(execution: ExecutionResponse): string;
   formatError(error: Error): string;
 }
 
@@ -111,6 +253,7 @@ export interface Validators {
   validateSkillName(name: string): { valid: boolean; error?: string };
   validateJson(json: string): { valid: boolean; error?: string };
   validatePrompt(prompt: string): { valid: boolean; error?: string };
+  parseInputAssignments(assignments: string[]): { inputs?: Record<string, string>; error?: string };
 }
 
 // ============================================
@@ -123,7 +266,10 @@ export interface SkillBuilderProps {
 }
 
 export interface SkillEditorProps {
-  skillId: string;
+  /** Skill to edit (loaded from the database) */
+  skillId?: string;
+  /** New skill to review before it is created (instead of skillId) */
+  draft?: SkillDraftResponse;
   onSave: (skill: SkillUpdateInput) => Promise<void>;
   onCancel: () => void;
 }
@@ -137,6 +283,45 @@ export interface RunCommandOptions {
   async?: boolean;
   requestId?: string;
   metadata?: string; // JSON string
+  input?: string[]; // key=value skill inputs
+  json?: boolean;
+}
+
+export interface SkillRunCommandOptions {
+  async?: boolean;
+  requestId?: string;
+  input?: string[]; // key=value skill inputs
+  json?: boolean;
+}
+
+export interface ExecutionGetCommandOptions {
+  wait?: boolean;
+  interval?: string; // Poll interval in seconds
+  timeout?: string; // Max wait in seconds
+  json?: boolean;
+}
+
+export interface SkillGenerateCommandOptions {
+  json?: boolean; // Print the draft instead of opening the editor
+}
+
+export interface SkillExportCommandOptions {
+  output?: string; // File to write (default: stdout)
+  format?: 'yaml' | 'json'; // Default: from the file extension, else YAML
+}
+
+export interface SkillImportCommandOptions {
+  onConflict?: 'skip' | 'overwrite' | 'rename'; // When a skill with the same name exists (default: skip)
+  json?: boolean;
+}
+
+export interface ExecutionToSkillCommandOptions {
+  json?: boolean; // Print the draft instead of opening the editor
+}
+
+export interface ClassifyFeedbackCommandOptions {
+  correct?: boolean;
+  correctSkill?: string; // Skill ID or name, 'none' if no skill should have run
   json?: boolean;
 }
 
@@ -154,6 +339,12 @@ export interface DeleteCommandOptions {
   yes?: boolean;
 }
 
+export interface MemoryListCommandOptions {
+  tag?: string;
+  limit?: string;
+  json?: boolean;
+}
+
 // ============================================
 // CUSTOM ERRORS
 // ============================================
@@ -81,6 +81,12 @@ export const config = {
     url: process.env.DATABASE_URL,
   },
 
+  // At-rest encryption of stored secrets (connections, config)
+  encryption: {
+    secret: process.env.VM_ENCRYPTION_SECRET,
+    previousSecrets: parseStringArrayEnv(process.env.VM_ENCRYPTION_PREVIOUS_SECRETS), // Decrypt-only (key rotation)
+  },
+
   // File handling
   files: {
     maxSizeMb: parseIntEnv(process.env.MAX_FILE_SIZE_MB, 50),
@@ -111,6 +117,75 @@ export const config = {
     enabled: !!process.env.COMPOSIO_API_KEY,
     cacheToolkitListHours: parseIntEnv(process.env.COMPOSIO_CACHE_HOURS, 24),
   },
+
+  // Scheduler for skills with triggerType 'schedule'
+  scheduler: {
+    enabled: process.env.SCHEDULER_ENABLED !== 'false',
+    timezone: process.env.SCHEDULER_TIMEZONE || 'UTC', // Default when triggerConfig has none
+    pollIntervalMs: parseIntEnv(process.env.SCHEDULER_POLL_INTERVAL_MS, 60000), // Skill reload interval
+  },
+
+  // Workflow orchestration
+  workflow: {
+    maxParallelSteps: parseIntEnv(process.env.WORKFLOW_MAX_PARALLEL_STEPS, 3), // Independent steps run at the same time
+    maxForEachItems: parseIntEnv(process.env.WORKFLOW_MAX_FOREACH_ITEMS, 20), // Items a forEach step processes at most
+    outputRetries: parseIntEnv(process.env.WORKFLOW_OUTPUT_RETRIES, 2), // Corrections asked for answers that miss their outputSchema
+    maxStepAttempts: parseIntEnv(process.env.WORKFLOW_STEP_MAX_ATTEMPTS, 5), // Upper bound of a step's retry.maxAttempts
+  },
+
+  // Workflow classifier (orchestrator and classifier modes)
+  classifier: {
+    shortlistSize: parseIntEnv(process.env.CLASSIFIER_SHORTLIST_SIZE, 10), // Best keyword matches shown to Claude
+    minConfidence: process.env.CLASSIFIER_MIN_CONFIDENCE || 'medium', // Lower matches do not run the skill
+    belowMinConfidence: process.env.CLASSIFIER_LOW_CONFIDENCE_ACTION || 'default', // 'default' runs the default agent, 'clarify' asks
+    maxExamples: parseIntEnv(process.env.CLASSIFIER_MAX_EXAMPLES, 20), // Feedback examples kept per skill (newest win)
+  },
+
+  // Long-term memory (memory_save / memory_search / memory_delete tools)
+  memory: {
+    enabled: process.env.MEMORY_ENABLED !== 'false',
+    searchLimit: parseIntEnv(process.env.MEMORY_SEARCH_LIMIT, 10), // Most results memory_search returns
+    embeddingUrl: process.env.MEMORY_EMBEDDING_URL, // Local Ollama-compatible /api/embeddings endpoint (optional)
+    embeddingModel: process.env.MEMORY_EMBEDDING_MODEL || 'nomic-embed-text',
+  },
+
+  // Checkpoints of finished workflow steps (for resuming failed executions)
+  checkpoints: {
+    // Copies of the working directory after each step (hidden, so /tmp file detection skips it)
+    snapshotDir: process.env.CHECKPOINT_SNAPSHOT_DIR || '/tmp/.alfred-checkpoints',
+  },
+
+  // Human approval of workflow steps with requiresApproval
+  approvals: {
+    timeoutMs: parseIntEnv(process.env.APPROVAL_TIMEOUT_MS, 600000), // 10 minutes - then onTimeout applies
+    onTimeout: process.env.APPROVAL_TIMEOUT_ACTION || 'reject', // 'reject' skips the step, 'fail' fails the run
+  },
+
+  // Durable job queue for async webhook requests
+  queue: {
+    concurrency: parseIntEnv(process.env.QUEUE_CONCURRENCY, 2), // Jobs run at the same time
+    pollIntervalMs: parseIntEnv(process.env.QUEUE_POLL_INTERVAL_MS, 1000),
+    maxAttempts: parseIntEnv(process.env.QUEUE_MAX_ATTEMPTS, 3), // Including the first attempt
+    retryBaseDelayMs: parseIntEnv(process.env.QUEUE_RETRY_BASE_DELAY_MS, 30000), // Doubled per retry
+    lockTimeoutMs: parseIntEnv(process.env.QUEUE_LOCK_TIMEOUT_MS, 900000), // 15 minutes without a heartbeat - then requeued
+    shutdownGraceMs: parseIntEnv(process.env.QUEUE_SHUTDOWN_GRACE_MS, 30000), // Wait for running jobs on shutdown
+  },
+
+  // Completion callbacks (POST of the result to a request's callbackUrl)
+  callbacks: {
+    signingSecret: process.env.CALLBACK_SIGNING_SECRET, // HMAC key for X-Signature-256 (required for callbacks)
+    allowedHosts: parseStringArrayEnv(process.env.CALLBACK_ALLOWED_HOSTS).map((host) => host.toLowerCase()), // May be local or private
+    timeoutMs: parseIntEnv(process.env.CALLBACK_TIMEOUT_MS, 10000),
+    maxAttempts: parseIntEnv(process.env.CALLBACK_MAX_ATTEMPTS, 6),
+    retryBaseDelayMs: parseIntEnv(process.env.CALLBACK_RETRY_BASE_DELAY_MS, 10000), // Doubled per retry
+  },
+
+  // SSE streaming (per-execution event logs)
+  stream: {
+    heartbeatIntervalMs: parseIntEnv(process.env.STREAM_HEARTBEAT_INTERVAL_MS, 15000),
+    bufferSize: parseIntEnv(process.env.STREAM_BUFFER_SIZE, 1000), // Events kept per execution
+    retentionMs: parseIntEnv(process.env.STREAM_RETENTION_MS, 600000), // 10 minutes after the run finished
+  },
 } as const;
 
 /**
@@ -149,6 +224,18 @@ export function validateConfig(): ValidationResult {
     );
   }
 
+  if (!config.encryption.secret) {
+    warnings.push(
+      'VM_ENCRYPTION_SECRET is not set - connection credentials are stored unencrypted'
+    );
+  }
+
+  if (!config.callbacks.signingSecret) {
+    warnings.push(
+      'CALLBACK_SIGNING_SECRET is not set - requests with a callbackUrl are rejected'
+    );
+  }
+
   // Validate numeric ranges
   if (config.server.port < 1 || config.server.port > 65535) {
     errors.push(`PORT must be between 1 and 65535 (got ${config.server.port})`);
@@ -172,6 +259,78 @@ export function validateConfig(): ValidationResult {
     );
   }
 
+  if (config.queue.concurrency < 1) {
+    errors.push(
+      `QUEUE_CONCURRENCY must be at least 1 (got ${config.queue.concurrency})`
+    );
+  }
+
+  if (!['reject', 'fail'].includes(config.approvals.onTimeout)) {
+    errors.push(
+      `APPROVAL_TIMEOUT_ACTION must be 'reject' or 'fail' (got '${config.approvals.onTimeout}')`
+    );
+  }
+
+  if (!['high', 'medium', 'low'].includes(config.classifier.minConfidence)) {
+    errors.push(
+      `CLASSIFIER_MIN_CONFIDENCE must be 'high', 'medium' or 'low' (got '${config.classifier.minConfidence}')`
+    );
+  }
+
+  if (!['default', 'clarify'].includes(config.classifier.belowMinConfidence)) {
+    errors.push(
+      `CLASSIFIER_LOW_CONFIDENCE_ACTION must be 'default' or 'clarify' (got '${config.classifier.belowMinConfidence}')`
+    );
+  }
+
+  if (config.classifier.maxExamples < 1) {
+    errors.push(
+      `CLASSIFIER_MAX_EXAMPLES must be at least 1 (got ${config.classifier.maxExamples})`
+    );
+  }
+
+  if (config.classifier.shortlistSize < 1) {
+    errors.push(
+      `CLASSIFIER_SHORTLIST_SIZE must be at least 1 (got ${config.classifier.shortlistSize})`
+    );
+  }
+
+  if (config.memory.searchLimit < 1) {
+    errors.push(
+      `MEMORY_SEARCH_LIMIT must be at least 1 (got ${config.memory.searchLimit})`
+    );
+  }
+
+  if (config.workflow.maxParallelSteps < 1) {
+    errors.push(
+      `WORKFLOW_MAX_PARALLEL_STEPS must be at least 1 (got ${config.workflow.maxParallelSteps})`
+    );
+  }
+
+  if (config.workflow.maxForEachItems < 1) {
+    errors.push(
+      `WORKFLOW_MAX_FOREACH_ITEMS must be at least 1 (got ${config.workflow.maxForEachItems})`
+    );
+  }
+
+  if (config.workflow.outputRetries < 0) {
+    errors.push(
+      `WORKFLOW_OUTPUT_RETRIES must be at least 0 (got ${config.workflow.outputRetries})`
+    );
+  }
+
+  if (config.workflow.maxStepAttempts < 1) {
+    errors.push(
+      `WORKFLOW_STEP_MAX_ATTEMPTS must be at least 1 (got ${config.workflow.maxStepAttempts})`
+    );
+  }
+
+  if (config.stream.bufferSize < 1) {
+    errors.push(
+      `STREAM_BUFFER_SIZE must be at least 1 (got ${config.stream.bufferSize})`
+    );
+  }
+
   if (config.security.rateLimitMax < 1) {
     errors.push(
       `RATE_LIMIT_MAX must be at least 1 (got ${config.security.rateLimitMax})`
@@ -6,6 +6,7 @@
  */
 
 import prisma from './db/client.js';
+import { getEncryptedPrismaClient } from './services/encryption/prisma-extension.js';
 import {
   WorkflowStep,
   Workflow,
@@ -78,7 +79,7 @@ export function resolveConnectionNames(
 
 /**
  * Load connection configurations from database
- * Handles credential decryption (Prisma handles this automatically via field-level encryption)
+ * Credentials are decrypted transparently by the encryption Prisma extension
  *
  * @param connectionNames - Names of connections to load
  * @returns Resolved connection configurations
@@ -91,7 +92,7 @@ export async function loadConnectionsFromDatabase(
   }
 
   try {
-    const connections = await prisma.connection.findMany({
+    const connections = await getEncryptedPrismaClient().connection.findMany({
       where: {
         name: { in: connectionNames },
         isActive: true,
@@ -0,0 +1,218 @@
+/**
+ * Conversations
+ *
+ * Multi-turn chat sessions. A webhook request with a conversationId is a turn
+ * of that conversation (created on first use, recorded with trigger 'chat').
+ * One-off agent turns resume the SDK session of the previous turn; they run in
+ * the conversation's working directory because sessions are stored per
+ * directory. When there is no session to resume (the previous turn ran a
+ * skill, or the session is gone) the agent gets a summary of the earlier turns.
+ */
+
+import { getConversationById, getConversationTurns, getExecutionById } from './database.js';
+import {
+  claimConversationTurn,
+  createConversation,
+  deleteConversation as deleteConversationRecord,
+  hasUnfinishedTurn,
+  isPrismaError,
+  PrismaErrorCodes,
+  releaseConversationTurn,
+  updateConversation,
+} from './db/utils.js';
+import { cleanupWorkingDirectory } from './files.js';
+import { ConflictError, NotFoundError } from './utils/errors.js';
+import type { ConversationContext } from './types.js';
+
+/** Turns included in the summary (the most recent ones) */
+const SUMMARY_TURNS = 10;
+/** Characters kept of each prompt and response in the summary */
+const SUMMARY_TEXT_LENGTH = 1500;
+/** Characters of the first prompt used as the title */
+const TITLE_LENGTH = 60;
+/** Time a turn has to record its execution after claiming the conversation (then the claim was abandoned) */
+const TURN_CLAIM_GRACE_MS = 60_000;
+/** Execution statuses of a turn that has not finished */
+const UNFINISHED_STATUSES = ['queued', 'running', 'awaiting_approval'];
+
+/**
+ * Turn as stored on its Execution record
+ */
+export interface ConversationTurn {
+  id: string;
+  status: string;
+  input: unknown;
+  output: string | null;
+}
+
+function titleFromPrompt(prompt: string): string {
+  const line = prompt.trim().split('\n')[0];
+  return line.length > TITLE_LENGTH ? `${line.slice(0, TITLE_LENGTH - 1)}…` : line || 'New conversation';
+}
+
+function clip(text: string): string {
+  return text.length > SUMMARY_TEXT_LENGTH ? `${text.slice(0, SUMMARY_TEXT_LENGTH)} [...]` : text;
+}
+
+/**
+ * Summarize the completed turns of a conversation for an agent that cannot
+ * resume its session (the most recent turns, prompts and responses clipped)
+ *
+ * @returns The summary, or '' if there are no completed turns
+ */
+export function summarizeTurns(turns: ConversationTurn[]): string {
+  const completed = turns.filter((turn) => turn.status === 'completed' && turn.output);
+
+  if (completed.length === 0) {
+    return '';
+  }
+
+  const recent = completed.slice(-SUMMARY_TURNS);
+  const lines = recent.map((turn) => {
+    const prompt = String((turn.input as { prompt?: unknown } | null)?.prompt ?? '');
+    return `User: ${clip(prompt)}\nAssistant: ${clip(turn.output!)}`;
+  });
+
+  const omitted = completed.length - recent.length;
+  return [
+    'Earlier in this conversation' + (omitted > 0 ? ` (${omitted} older turns omitted)` : '') + ':',
+    ...lines,
+  ].join('\n\n');
+}
+
+/**
+ * Check whether the turn holding a conversation still runs
+ * A turn that finished without releasing the conversation (e.g. the server
+ * stopped, or it was cancelled while queued) no longer holds it.
+ *
+ * @param claimedAt - When the conversation was last updated (at the latest, when it was claimed)
+ */
+async function isTurnInProgress(turnId: string, claimedAt: Date): Promise<boolean> {
+  const execution = await getExecutionById(turnId);
+
+  if (!execution) {
+    return Date.now() - claimedAt.getTime() < TURN_CLAIM_GRACE_MS;
+  }
+  return UNFINISHED_STATUSES.includes(execution.status);
+}
+
+/**
+ * Get a conversation for a new turn, creating it on first use
+ * The turn holds the conversation until finishConversationTurn or
+ * releaseConversation; the claim is a conditional update, so of two concurrent
+ * turns only one gets it.
+ *
+ * @param id - Conversation ID (chosen by the client)
+ * @param prompt - Prompt of the turn (the title of a new conversation)
+ * @param requestId - Execution ID of the turn
+ * @throws ConflictError if an earlier turn has not finished yet
+ */
+export async function openConversation(id: string, prompt: string, requestId: string) {
+  const existing = await getConversationById(id);
+
+  if (existing) {
+    const heldBy = existing.activeTurnId;
+
+    if (
+      (heldBy && (await isTurnInProgress(heldBy, existing.updatedAt))) ||
+      !(await claimConversationTurn(id, requestId, heldBy))
+    ) {
+      throw new ConflictError(`Conversation '${id}' has a turn that has not finished yet`);
+    }
+    return existing;
+  }
+
+  try {
+    return await createConversation({
+      id,
+      title: titleFromPrompt(prompt),
+      workingDirectory: `/tmp/conversation-${id}`,
+      activeTurnId: requestId,
+    });
+  } catch (error) {
+    // Created by a concurrent first turn
+    if (isPrismaError(error) && error.code === PrismaErrorCodes.UNIQUE_CONSTRAINT) {
+      throw new ConflictError(`Conversation '${id}' has a turn that has not finished yet`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Load what a turn needs to continue the conversation
+ *
+ * @param requestId - Execution ID of the turn itself (left out of the summary)
+ * @throws NotFoundError if the conversation was deleted
+ */
+export async function getConversationContext(id: string, requestId: string): Promise<ConversationContext> {
+  const conversation = await getConversationById(id);
+
+  if (!conversation) {
+    throw new NotFoundError(`Conversation '${id}' not found`);
+  }
+
+  const turns = await getConversationTurns(id);
+
+  return {
+    id,
+    workingDirectory: conversation.workingDirectory,
+    sessionId: conversation.sessionId,
+    summary: summarizeTurns(turns.filter((turn) => turn.id !== requestId)),
+  };
+}
+
+/**
+ * Remember the session the next turn resumes and release the conversation
+ *
+ * @param requestId - Execution ID of the turn
+ * @param sessionId - Session of a one-off agent turn, or null if the turn ran a
+ *   skill (its work is not in any session, so the next turn gets a summary)
+ */
+export async function finishConversationTurn(id: string, requestId: string, sessionId: string | null): Promise<void> {
+  await releaseConversationTurn(id, requestId, sessionId);
+}
+
+/**
+ * Release the conversation after a turn that failed or was cancelled
+ * (the session of the previous turn is kept)
+ *
+ * @param requestId - Execution ID of the turn
+ */
+export async function releaseConversation(id: string, requestId: string): Promise<void> {
+  await releaseConversationTurn(id, requestId);
+}
+
+/**
+ * Rename a conversation
+ *
+ * @throws NotFoundError if the conversation does not exist
+ */
+export async function renameConversation(id: string, title: string) {
+  if (!(await getConversationById(id))) {
+    throw new NotFoundError(`Conversation '${id}' not found`);
+  }
+
+  return updateConversation(id, { title });
+}
+
+/**
+ * Delete a conversation and its working directory
+ * Its executions are kept (audit log) but no longer linked to it.
+ *
+ * @throws NotFoundError if the conversation does not exist
+ * @throws ConflictError if a turn has not finished yet
+ */
+export async function deleteConversation(id: string): Promise<void> {
+  const conversation = await getConversationById(id);
+
+  if (!conversation) {
+    throw new NotFoundError(`Conversation '${id}' not found`);
+  }
+
+  if (await hasUnfinishedTurn(id)) {
+    throw new ConflictError(`Conversation '${id}' has a turn that has not finished yet`);
+  }
+
+  await deleteConversationRecord(id);
+  await cleanupWorkingDirectory(conversation.workingDirectory);
+}
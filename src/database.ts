@@ -5,6 +5,7 @@
  */
 
 import prisma, { healthCheck } from './db/client.js';
+import { getEncryptedPrismaClient } from './services/encryption/prisma-extension.js';
 
 /**
  * Health check - verify Prisma database connection
@@ -41,6 +42,9 @@ export async function getAllSkills() {
         triggerType: true,
         steps: true,
         connectionNames: true,
+        inputs: true,
+        examples: true,
+        negativeExamples: true,
       },
       orderBy: { name: 'asc' },
     });
@@ -77,11 +81,87 @@ export async function getSkillById(id: string) {
 }
 
 /**
- * Get connection by name
+ * Get skill by name (case-insensitive, with steps)
+ */
+export async function getSkillByName(name: string) {
+  try {
+    const skill = await prisma.skill.findFirst({
+      where: { name: { equals: name, mode: 'insensitive' } },
+      include: { connections: true },
+      // Names are not unique - prefer the active, most recently edited skill
+      orderBy: [{ isActive: 'desc' }, { updatedAt: 'desc' }],
+    });
+
+    if (!skill) {
+      console.log(`[DB] Skill not found: ${name}`);
+      return null;
+    }
+
+    console.log(`[DB] Fetched skill: ${skill.name}`);
+    return skill;
+  } catch (error) {
+    console.error('[DB] Failed to fetch skill:', error);
+    return null;
+  }
+}
+
+/**
+ * Get all active skills triggered on a schedule
+ */
+export async function getScheduledSkills() {
+  try {
+    return await prisma.skill.findMany({
+      where: { isActive: true, triggerType: 'schedule' },
+      select: {
+        id: true,
+        name: true,
+        description: true,
+        triggerConfig: true,
+        lastScheduledFor: true,
+        createdAt: true,
+      },
+      orderBy: { name: 'asc' },
+    });
+  } catch (error) {
+    console.error('[DB] Failed to fetch scheduled skills:', error);
+    return [];
+  }
+}
+
+/**
+ * Get start time of the most recent scheduled run of a skill
+ */
+export async function getLastScheduledRunAt(skillId: string): Promise<Date | null> {
+  try {
+    const execution = await prisma.execution.findFirst({
+      where: { skillId, trigger: 'schedule' },
+      orderBy: { startedAt: 'desc' },
+      select: { startedAt: true },
+    });
+
+    return execution?.startedAt || null;
+  } catch (error) {
+    console.error('[DB] Failed to fetch last scheduled run:', error);
+    return null;
+  }
+}
+
+/**
+ * Check whether a scheduled run of a skill has not finished (on any server instance)
+ */
+export async function hasUnfinishedScheduledRun(skillId: string): Promise<boolean> {
+  const count = await prisma.execution.count({
+    where: { skillId, trigger: 'schedule', status: { in: ['queued', 'running', 'awaiting_approval'] } },
+  });
+  return count > 0;
+}
+
+/**
+ * Get connection by name (credentials decrypted)
  */
 export async function getConnectionByName(name: string) {
   try {
-    const connection = await prisma.connection.findUnique({
+    const connection = await getEncryptedPrismaClient().connection.findUnique({
       where: { name },
     });
 
@@ -97,3 +177,181 @@ export async function getConnectionByName(name: string) {
     return null;
   }
 }
+
+/**
+ * Get the tools of the active connections (no credentials)
+ * Throws on database errors.
+ */
+export async function getConnectionTools() {
+  return prisma.connection.findMany({
+    where: { isActive: true },
+    select: { name: true, tools: true },
+    orderBy: { name: 'asc' },
+  });
+}
+
+/**
+ * Get the tools of the cached Composio toolkits
+ * Throws on database errors.
+ */
+export async function getComposioToolkitTools() {
+  return prisma.composioToolkit.findMany({
+    select: { name: true, displayName: true, description: true, tools: true },
+    orderBy: { name: 'asc' },
+  });
+}
+
+/**
+ * Filters for listing executions
+ */
+export interface ExecutionListFilters {
+  skillId?: string;
+  status?: string;
+  trigger?: string;
+  /** Only executions started at or after this time */
+  from?: Date;
+  /** Only executions started before this time */
+  to?: Date;
+  /** ID of the last execution of the previous page */
+  cursor?: string;
+  limit: number;
+}
+
+/**
+ * Get execution by ID (including the skill name)
+ * Throws on database errors so callers can tell them apart from "not found".
+ */
+export async function getExecutionById(id: string) {
+  return prisma.execution.findUnique({
+    where: { id },
+    include: { skill: { select: { id: true, name: true } } },
+  });
+}
+
+/**
+ * Get the most recent classifier decision of an execution (null if it was not classified)
+ * Throws on database errors so callers can tell them apart from "not found".
+ */
+export async function getLatestClassifierDecision(executionId: string) {
+  return prisma.classifierDecision.findFirst({
+    where: { executionId },
+    orderBy: { createdAt: 'desc' },
+  });
+}
+
+/**
+ * Get the memories a search ranks, newest first (optionally only those with all the tags)
+ * Embeddings are included for semantic ranking.
+ */
+export async function getMemoriesForSearch(tags: string[] = []) {
+  return prisma.memory.findMany({
+    where: tags.length > 0 ? { tags: { hasEvery: tags } } : undefined,
+    select: { id: true, content: true, tags: true, embedding: true, createdAt: true },
+    orderBy: { createdAt: 'desc' },
+  });
+}
+
+/**
+ * Get a conversation by ID (null if it does not exist)
+ * Throws on database errors so callers can tell them apart from "not found".
+ */
+export async function getConversationById(id: string) {
+  return prisma.conversation.findUnique({ where: { id } });
+}
+
+/**
+ * List conversations, most recently active first, with cursor pagination
+ *
+ * @returns One page of conversations (with their turn count) and the cursor of the next page
+ */
+export async function listConversations(filters: { cursor?: string; limit: number }) {
+  const rows = await prisma.conversation.findMany({
+    select: {
+      id: true,
+      title: true,
+      createdAt: true,
+      updatedAt: true,
+      _count: { select: { executions: true } },
+    },
+    orderBy: [{ updatedAt: 'desc' }, { id: 'desc' }],
+    ...(filters.cursor && { cursor: { id: filters.cursor }, skip: 1 }),
+    take: filters.limit + 1, // One extra row tells whether there is a next page
+  });
+
+  const hasMore = rows.length > filters.limit;
+  const conversations = hasMore ? rows.slice(0, filters.limit) : rows;
+
+  return {
+    conversations: conversations.map(({ _count, ...conversation }) => ({
+      ...conversation,
+      turnCount: _count.executions,
+    })),
+    nextCursor: hasMore ? conversations[conversations.length - 1].id : null,
+  };
+}
+
+/**
+ * Get the turns (executions) of a conversation, oldest first
+ * The full trace is not loaded.
+ */
+export async function getConversationTurns(conversationId: string) {
+  return prisma.execution.findMany({
+    where: { conversationId },
+    select: {
+      id: true,
+      status: true,
+      input: true,
+      output: true,
+      error: true,
+      startedAt: true,
+      completedAt: true,
+      skill: { select: { id: true, name: true } },
+    },
+    orderBy: [{ startedAt: 'asc' }, { id: 'asc' }],
+  });
+}
+
+/**
+ * List executions, newest first, with cursor pagination
+ * The full trace is not loaded (see getExecutionById).
+ *
+ * @returns One page of executions and the cursor of the next page (null on the last page)
+ */
+export async function listExecutions(filters: ExecutionListFilters) {
+  const rows = await prisma.execution.findMany({
+    where: {
+      ...(filters.skillId && { skillId: filters.skillId }),
+      ...(filters.status && { status: filters.status }),
+      ...(filters.trigger && { trigger: filters.trigger }),
+      ...((filters.from || filters.to) && {
+        startedAt: {
+          ...(filters.from && { gte: filters.from }),
+          ...(filters.to && { lt: filters.to }),
+        },
+      }),
+    },
+    select: {
+      id: true,
+      status: true,
+      trigger: true,
+      error: true,
+      startedAt: true,
+      completedAt: true,
+      durationMs: true,
+      tokenCount: true,
+      costUsd: true,
+      skill: { select: { id: true, name: true } },
+    },
+    orderBy: [{ startedAt: 'desc' }, { id: 'desc' }],
+    ...(filters.cursor && { cursor: { id: filters.cursor }, skip: 1 }),
+    take: filters.limit + 1, // One extra row tells whether there is a next page
+  });
+
+  const hasMore = rows.length > filters.limit;
+  const executions = hasMore ? rows.slice(0, filters.limit) : rows;
+
+  return {
+    executions,
+    nextCursor: hasMore ? executions[executions.length - 1].id : null,
+  };
+}
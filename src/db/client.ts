@@ -26,6 +26,19 @@ const DATABASE_CONFIG = {
  */
 let prismaInstance: PrismaClient | null = null;
 
+/**
+ * Tasks that must finish before the client disconnects on shutdown
+ */
+const beforeDisconnectHooks: Array<() => Promise<void>> = [];
+
+/**
+ * Register a task to run before the client disconnects on SIGTERM/SIGINT
+ * (e.g. handing in-flight work back to the database)
+ */
+export function onBeforeDisconnect(hook: () => Promise<void>): void {
+  beforeDisconnectHooks.push(hook);
+}
+
 /**
  * Initialize and return Prisma client with connection pooling
  * Implements singleton pattern to ensure single instance across application
@@ -79,6 +92,8 @@ export function getPrismaClient(): PrismaClient {
     // Handle graceful shutdown
     const shutdownHandler = async () => {
       if (prismaInstance) {
+        await Promise.allSettled(beforeDisconnectHooks.map((hook) => hook()));
+
         console.log('[Database] Disconnecting Prisma client...');
         await prismaInstance.$disconnect();
         prismaInstance = null;
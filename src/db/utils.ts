@@ -4,7 +4,7 @@
  * Common patterns and helpers for database operations on user VMs
  */
 
-import { PrismaClient } from '@prisma/client';
+import { Prisma, PrismaClient } from '@prisma/client';
 import { getPrismaClient } from './client.js';
 
 /**
@@ -166,15 +166,20 @@ export async function detailedHealthCheck(): Promise<{
 /**
  * Skill execution transaction helper
  * Creates execution record and updates skill metadata atomically
- * @param skillId - Skill ID
- * @param executionData - Initial execution data
+ * @param skillId - Skill ID (null for one-off agent runs)
+ * @param executionData - Initial execution data (id defaults to a generated UUID,
+ *   status to 'running'; use 'queued' for runs that wait in the job queue;
+ *   conversationId makes the run a turn of that conversation)
  * @returns Promise with created execution
  */
 export async function createSkillExecution(
-  skillId: string,
+  skillId: string | null,
   executionData: {
+    id?: string;
     trigger: string;
     input?: any;
+    status?: 'queued' | 'running';
+    conversationId?: string;
   }
 ) {
   const client = getPrismaClient();
@@ -183,14 +188,46 @@ export async function createSkillExecution(
     // Create execution record
     const execution = await tx.execution.create({
       data: {
+        ...(executionData.id && { id: executionData.id }),
         skillId,
-        status: 'running',
+        status: executionData.status || 'running',
         trigger: executionData.trigger,
         input: executionData.input || null,
+        ...(executionData.conversationId && { conversationId: executionData.conversationId }),
       },
     });
 
     // Update skill run count and last run time
+    if (skillId) {
+      await tx.skill.update({
+        where: { id: skillId },
+        data: {
+          runCount: { increment: 1 },
+          lastRunAt: new Date(),
+        },
+      });
+    }
+
+    return execution;
+  });
+}
+
+/**
+ * Link a running execution to the skill it ended up executing
+ * Used when the skill is only known after classification (orchestrator mode)
+ * @param executionId - Execution ID
+ * @param skillId - Matched skill ID
+ * @returns Promise with updated execution
+ */
+export async function linkExecutionToSkill(executionId: string, skillId: string) {
+  const client = getPrismaClient();
+
+  return client.$transaction(async (tx) => {
+    const execution = await tx.execution.update({
+      where: { id: executionId },
+      data: { skillId },
+    });
+
     await tx.skill.update({
       where: { id: skillId },
       data: {
@@ -203,12 +240,461 @@ export async function createSkillExecution(
   });
 }
 
+/**
+ * Store the validated skill inputs of a run on its execution (Execution.input.inputs)
+ * A resumed run reads them back, as they may have been extracted by the classifier
+ * or filled in with defaults rather than sent with the request.
+ * @param executionId - Execution ID
+ * @param inputs - Resolved input values
+ * @returns true if the execution exists
+ */
+export async function saveExecutionInputs(executionId: string, inputs: Record<string, unknown>): Promise<boolean> {
+  const client = getPrismaClient();
+
+  return client.$transaction(async (tx) => {
+    const execution = await tx.execution.findUnique({
+      where: { id: executionId },
+      select: { input: true },
+    });
+    if (!execution) return false;
+
+    await tx.execution.update({
+      where: { id: executionId },
+      data: { input: { ...((execution.input as Record<string, any>) || {}), inputs } as Prisma.InputJsonValue },
+    });
+    return true;
+  });
+}
+
+/**
+ * Claim a fire time of a scheduled skill, so only one scheduler instance runs it
+ * @param skillId - Skill ID
+ * @param scheduledFor - Fire time of the run
+ * @param previous - For catch-up runs: the last claimed fire time seen on startup
+ *   (the claim fails if another instance claimed one since). Otherwise any
+ *   earlier fire time is replaced.
+ * @returns true if this instance runs the fire time
+ */
+export async function claimScheduledRun(
+  skillId: string,
+  scheduledFor: Date,
+  previous?: Date | null
+): Promise<boolean> {
+  const client = getPrismaClient();
+
+  const result = await client.skill.updateMany({
+    where: {
+      id: skillId,
+      ...(previous !== undefined
+        ? { lastScheduledFor: previous }
+        : { OR: [{ lastScheduledFor: null }, { lastScheduledFor: { lt: scheduledFor } }] }),
+    },
+    data: { lastScheduledFor: scheduledFor },
+  });
+  return result.count > 0;
+}
+
+/**
+ * Mark an existing execution as running (queued run picked up, or retried)
+ * Clears the outcome of any previous attempt. Other executions are left alone:
+ * finished ones (e.g. cancelled while the job was being picked up), and those
+ * waiting for approval or failed on restart, whose job was requeued on shutdown.
+ * @param executionId - Execution ID
+ * @returns true if the execution was queued or running and is now running
+ */
+export async function markExecutionRunning(executionId: string): Promise<boolean> {
+  const client = getPrismaClient();
+
+  const { count } = await client.execution.updateMany({
+    where: { id: executionId, status: { in: ['queued', 'running'] } },
+    data: {
+      status: 'running',
+      output: null,
+      error: null,
+      completedAt: null,
+      startedAt: new Date(),
+    },
+  });
+
+  return count > 0;
+}
+
+/**
+ * Mark a failed execution as running again (resumed)
+ * Only one caller can resume a failed execution.
+ * @param executionId - Execution ID
+ * @returns true if the execution was failed and is now running
+ */
+export async function markExecutionResumed(executionId: string): Promise<boolean> {
+  const client = getPrismaClient();
+
+  const { count } = await client.execution.updateMany({
+    where: { id: executionId, status: 'failed' },
+    data: {
+      status: 'running',
+      output: null,
+      error: null,
+      completedAt: null,
+      startedAt: new Date(),
+    },
+  });
+
+  return count > 0;
+}
+
+/**
+ * Mark a running execution as waiting for a human decision on one of its steps
+ * @param executionId - Execution ID
+ * @returns true if the execution was running
+ */
+export async function markExecutionAwaitingApproval(executionId: string): Promise<boolean> {
+  const client = getPrismaClient();
+
+  const { count } = await client.execution.updateMany({
+    where: { id: executionId, status: 'running' },
+    data: { status: 'awaiting_approval' },
+  });
+
+  return count > 0;
+}
+
+/**
+ * Mark an execution waiting for approval as running again (once its steps are decided)
+ * @param executionId - Execution ID
+ * @returns true if the execution was waiting for approval
+ */
+export async function markExecutionApprovalDecided(executionId: string): Promise<boolean> {
+  const client = getPrismaClient();
+
+  const { count } = await client.execution.updateMany({
+    where: { id: executionId, status: 'awaiting_approval' },
+    data: { status: 'running' },
+  });
+
+  return count > 0;
+}
+
+/**
+ * Fail executions left waiting for approval by a previous server process
+ * Their runs are gone; they can be resumed with POST /executions/:id/resume.
+ * @returns Number of failed executions
+ */
+export async function failInterruptedApprovals(): Promise<number> {
+  const client = getPrismaClient();
+
+  const { count } = await client.execution.updateMany({
+    where: { status: 'awaiting_approval' },
+    data: {
+      status: 'failed',
+      error: 'Server restarted while the execution was waiting for approval',
+      completedAt: new Date(),
+    },
+  });
+
+  return count;
+}
+
+/**
+ * Record a finished workflow step of an execution (replaces an earlier record of the step)
+ * @param executionId - Execution ID
+ * @param step - Step checkpoint
+ * @returns Promise with the step record
+ */
+export async function saveExecutionStep(
+  executionId: string,
+  step: {
+    stepId: number;
+    status: string;
+    sessionId: string | null;
+    ownsSession: boolean;
+    output: string;
+    value?: any;
+    error?: string;
+    workingDirectory: string;
+    snapshotPath: string | null;
+  }
+) {
+  const client = getPrismaClient();
+  const data = {
+    status: step.status,
+    sessionId: step.sessionId,
+    ownsSession: step.ownsSession,
+    output: step.output,
+    value: step.value === undefined ? Prisma.DbNull : step.value,
+    error: step.error ?? null,
+    workingDirectory: step.workingDirectory,
+    snapshotPath: step.snapshotPath,
+    completedAt: new Date(),
+  };
+
+  return client.executionStep.upsert({
+    where: { executionId_stepId: { executionId, stepId: step.stepId } },
+    create: { executionId, stepId: step.stepId, ...data },
+    update: data,
+  });
+}
+
+/**
+ * Get the finished workflow steps of an execution, in the order they finished
+ * @param executionId - Execution ID
+ */
+export async function getExecutionSteps(executionId: string) {
+  const client = getPrismaClient();
+
+  return client.executionStep.findMany({
+    where: { executionId },
+    orderBy: { completedAt: 'asc' },
+  });
+}
+
+/**
+ * Record how the classifier decided on the prompt of an execution
+ * @param executionId - Execution ID
+ * @param decision - Candidates, match and the resulting action
+ * @returns Promise with the decision record
+ */
+export async function saveClassifierDecision(
+  executionId: string,
+  decision: {
+    mode: string;
+    prompt: string;
+    candidates: { skillId: string; name: string; score: number }[];
+    skillId: string | null;
+    skillName: string | null;
+    confidence: string;
+    reasoning?: string;
+    action: 'skill' | 'default' | 'clarify' | 'none';
+  }
+) {
+  const client = getPrismaClient();
+
+  return client.classifierDecision.create({
+    data: {
+      executionId,
+      ...decision,
+      reasoning: decision.reasoning ?? null,
+    },
+  });
+}
+
+/**
+ * Record user feedback on a classifier decision (replaces earlier feedback)
+ * @param decisionId - Classifier decision ID
+ * @param feedback - Whether the outcome was right, and the skill that should have been chosen
+ * @returns Promise with the updated decision
+ */
+export async function saveClassificationFeedback(
+  decisionId: string,
+  feedback: {
+    feedback: 'correct' | 'wrong';
+    correctSkillId: string | null;
+    correctSkillName: string | null;
+  }
+) {
+  const client = getPrismaClient();
+
+  return client.classifierDecision.update({
+    where: { id: decisionId },
+    data: { ...feedback, feedbackAt: new Date() },
+  });
+}
+
+/**
+ * Add a prompt to a skill's classifier examples (no-op if already there)
+ * Only the newest `limit` examples are kept.
+ * @param skillId - Skill ID
+ * @param kind - 'examples' (prompts the skill is for) or 'negativeExamples' (prompts it is not for)
+ * @param prompt - Example prompt
+ * @returns true if the example was added
+ */
+export async function addSkillExample(
+  skillId: string,
+  kind: 'examples' | 'negativeExamples',
+  prompt: string,
+  limit: number
+): Promise<boolean> {
+  const client = getPrismaClient();
+
+  return client.$transaction(async (tx) => {
+    const skill = await tx.skill.findUniqueOrThrow({
+      where: { id: skillId },
+      select: { examples: true, negativeExamples: true },
+    });
+    const existing = skill[kind];
+
+    if (existing.some((example) => example.trim().toLowerCase() === prompt.trim().toLowerCase())) {
+      return false;
+    }
+
+    await tx.skill.update({
+      where: { id: skillId },
+      data: { [kind]: [...existing, prompt].slice(-limit) },
+    });
+    return true;
+  });
+}
+
+/**
+ * Create a conversation
+ * @param conversation - ID (chosen by the client), title, working directory and the turn that holds it
+ * @returns Promise with the created conversation
+ */
+export async function createConversation(conversation: {
+  id: string;
+  title: string;
+  workingDirectory: string;
+  activeTurnId?: string;
+}) {
+  const client = getPrismaClient();
+
+  return client.conversation.create({ data: conversation });
+}
+
+/**
+ * Update the title or the resumable session of a conversation
+ * @param id - Conversation ID
+ * @param data - Fields to change (sessionId null: the next turn cannot resume a session)
+ * @returns Promise with the updated conversation
+ */
+export async function updateConversation(
+  id: string,
+  data: { title?: string; sessionId?: string | null }
+) {
+  const client = getPrismaClient();
+
+  return client.conversation.update({ where: { id }, data });
+}
+
+/**
+ * Claim a conversation for a turn
+ * Only succeeds while the conversation is still held by `heldBy` (null: by no
+ * turn), so of two concurrent turns only one gets it.
+ * @param id - Conversation ID
+ * @param turnId - Execution ID of the new turn
+ * @param heldBy - Turn the caller found holding the conversation
+ * @returns true if the turn now holds the conversation
+ */
+export async function claimConversationTurn(id: string, turnId: string, heldBy: string | null): Promise<boolean> {
+  const client = getPrismaClient();
+
+  const result = await client.conversation.updateMany({
+    where: { id, activeTurnId: heldBy },
+    data: { activeTurnId: turnId },
+  });
+  return result.count > 0;
+}
+
+/**
+ * Release a conversation held by a turn (left alone if another turn holds it)
+ * @param id - Conversation ID
+ * @param turnId - Execution ID of the turn
+ * @param sessionId - Session the next turn resumes (undefined: unchanged)
+ * @returns true if the turn held the conversation
+ */
+export async function releaseConversationTurn(
+  id: string,
+  turnId: string,
+  sessionId?: string | null
+): Promise<boolean> {
+  const client = getPrismaClient();
+
+  const result = await client.conversation.updateMany({
+    where: { id, activeTurnId: turnId },
+    data: { activeTurnId: null, ...(sessionId !== undefined && { sessionId }) },
+  });
+  return result.count > 0;
+}
+
+/**
+ * Delete a conversation (its executions are kept, unlinked)
+ * @param id - Conversation ID
+ * @returns true if the conversation existed
+ */
+export async function deleteConversation(id: string): Promise<boolean> {
+  const client = getPrismaClient();
+
+  const { count } = await client.conversation.deleteMany({ where: { id } });
+  return count > 0;
+}
+
+/**
+ * Check whether a conversation has a turn that has not finished
+ * (queued, running or waiting for approval)
+ * @param conversationId - Conversation ID
+ */
+export async function hasUnfinishedTurn(conversationId: string): Promise<boolean> {
+  const client = getPrismaClient();
+
+  const count = await client.execution.count({
+    where: { conversationId, status: { in: ['queued', 'running', 'awaiting_approval'] } },
+  });
+  return count > 0;
+}
+
+/**
+ * Save a memory
+ * @param memory - Content, tags, embedding (empty if none) and the execution that saved it
+ * @returns Promise with the created memory
+ */
+export async function createMemory(memory: {
+  content: string;
+  tags: string[];
+  embedding: number[];
+  executionId?: string;
+}) {
+  const client = getPrismaClient();
+
+  return client.memory.create({ data: memory });
+}
+
+/**
+ * Delete a memory
+ * @param id - Memory ID
+ * @returns true if the memory existed
+ */
+export async function deleteMemory(id: string): Promise<boolean> {
+  const client = getPrismaClient();
+
+  const { count } = await client.memory.deleteMany({ where: { id } });
+  return count > 0;
+}
+
+/**
+ * Mark a queued, running or approval-waiting execution as cancelled
+ * Executions that already finished are left unchanged.
+ * @param executionId - Execution ID
+ * @returns true if the execution was cancelled
+ */
+export async function markExecutionCancelled(executionId: string): Promise<boolean> {
+  const client = getPrismaClient();
+
+  const execution = await client.execution.findUnique({
+    where: { id: executionId },
+    select: { startedAt: true },
+  });
+
+  if (!execution) return false;
+
+  const { count } = await client.execution.updateMany({
+    where: { id: executionId, status: { in: ['queued', 'running', 'awaiting_approval'] } },
+    data: {
+      status: 'cancelled',
+      error: 'Cancelled by user',
+      completedAt: new Date(),
+      durationMs: Date.now() - execution.startedAt.getTime(),
+    },
+  });
+
+  return count > 0;
+}
+
 /**
  * Complete skill execution transaction helper
- * Updates execution and skill metadata atomically
+ * Updates execution and skill metadata atomically. Executions that already
+ * finished (e.g. cancelled while the run was completing) are left alone.
  * @param executionId - Execution ID
  * @param result - Execution result
- * @returns Promise with updated execution
+ * @returns true if the execution was unfinished and is now completed or failed
  */
 export async function completeSkillExecution(
   executionId: string,
@@ -221,11 +707,11 @@ export async function completeSkillExecution(
     tokenCount?: number;
     costUsd?: number;
   }
-) {
+): Promise<boolean> {
   const client = getPrismaClient();
 
-  return client.execution.update({
-    where: { id: executionId },
+  const { count } = await client.execution.updateMany({
+    where: { id: executionId, status: { in: ['queued', 'running', 'awaiting_approval'] } },
     data: {
       status: result.status,
       output: result.output,
@@ -237,4 +723,6 @@ export async function completeSkillExecution(
       costUsd: result.costUsd,
     },
   });
+
+  return count > 0;
 }
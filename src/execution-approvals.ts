@@ -0,0 +1,142 @@
+/**
+ * Execution Approvals
+ *
+ * In-process registry of workflow steps waiting for a human decision
+ * (steps with requiresApproval). The orchestrator waits in requestApproval()
+ * until POST /executions/:id/approve or /reject decides the step, the
+ * execution is cancelled (its AbortController aborts), or APPROVAL_TIMEOUT_MS
+ * has passed.
+ */
+
+import { getExecutionById } from './database.js';
+import { markExecutionApprovalDecided, markExecutionAwaitingApproval } from './db/utils.js';
+import { sendStreamUpdate } from './routes/stream.js';
+import { getAbortController } from './execution-cancellation.js';
+import { ConflictError, NotFoundError, ValidationError } from './utils/errors.js';
+import { config } from './config/index.js';
+import type { ApprovalDecision, PendingApproval } from './types.js';
+
+interface PendingEntry {
+  approval: PendingApproval;
+  settle: (decision: ApprovalDecision) => void;
+}
+
+/** Pending approvals by execution ID, then step ID */
+const pending = new Map<string, Map<number, PendingEntry>>();
+
+/**
+ * Wait for a human decision on a step
+ * Marks the Execution as awaiting_approval (best-effort) and emits the
+ * 'approval_required' SSE event with the proposed action.
+ */
+export async function requestApproval(
+  request: Omit<PendingApproval, 'requestedAt' | 'expiresAt'>
+): Promise<ApprovalDecision> {
+  const { executionId, stepId } = request;
+  const requestedAt = new Date();
+  const approval: PendingApproval = {
+    ...request,
+    requestedAt: requestedAt.toISOString(),
+    expiresAt: new Date(requestedAt.getTime() + config.approvals.timeoutMs).toISOString(),
+  };
+
+  const entries = pending.get(executionId) || new Map<number, PendingEntry>();
+  pending.set(executionId, entries);
+
+  const decision = new Promise<ApprovalDecision>((resolve) => {
+    const signal = getAbortController(executionId)?.signal;
+    const onAbort = () => settle({ status: 'cancelled' });
+    const timer = setTimeout(() => settle({ status: 'expired' }), config.approvals.timeoutMs);
+
+    const settle = (result: ApprovalDecision) => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+      entries.delete(stepId);
+      if (entries.size === 0 && pending.get(executionId) === entries) {
+        pending.delete(executionId);
+      }
+      resolve(result);
+    };
+
+    entries.set(stepId, { approval, settle });
+    if (signal?.aborted) {
+      onAbort();
+    } else {
+      signal?.addEventListener('abort', onAbort, { once: true });
+    }
+  });
+
+  try {
+    await markExecutionAwaitingApproval(executionId);
+  } catch (error: any) {
+    console.warn(`[Approvals] Failed to mark ${executionId} as awaiting approval (non-fatal): ${error.message}`);
+  }
+
+  console.log(`[Approvals] Step ${stepId} of ${executionId} is waiting for approval (until ${approval.expiresAt})`);
+  sendStreamUpdate(executionId, { type: 'approval_required', approval });
+
+  const result = await decision;
+
+  console.log(`[Approvals] Step ${stepId} of ${executionId}: ${result.status}`);
+  sendStreamUpdate(executionId, { type: 'approval_resolved', stepId, status: result.status });
+
+  // Parallel steps may still be waiting
+  if (result.status !== 'cancelled' && !pending.has(executionId)) {
+    try {
+      await markExecutionApprovalDecided(executionId);
+    } catch (error: any) {
+      console.warn(`[Approvals] Failed to mark ${executionId} as running (non-fatal): ${error.message}`);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Get the steps of an execution that are waiting for approval
+ */
+export function getPendingApprovals(executionId: string): PendingApproval[] {
+  return [...(pending.get(executionId)?.values() || [])].map((entry) => entry.approval);
+}
+
+/**
+ * Approve or reject a step waiting for approval
+ * stepId can be omitted while only one step of the execution is waiting.
+ *
+ * @returns The approval that was decided
+ * @throws NotFoundError if the execution does not exist
+ * @throws ConflictError if the execution (or step) is not waiting for approval
+ * @throws ValidationError if several steps are waiting and stepId is missing
+ */
+export async function decideApproval(
+  executionId: string,
+  stepId: number | undefined,
+  decision: Extract<ApprovalDecision, { status: 'approved' | 'rejected' }>
+): Promise<PendingApproval> {
+  const entries = pending.get(executionId);
+
+  if (!entries || entries.size === 0) {
+    const execution = await getExecutionById(executionId);
+
+    if (!execution) {
+      throw new NotFoundError(`Execution '${executionId}' not found`);
+    }
+
+    throw new ConflictError(`Execution '${executionId}' is not waiting for approval (${execution.status})`);
+  }
+
+  if (stepId === undefined && entries.size > 1) {
+    throw new ValidationError(
+      `Execution '${executionId}' is waiting for approval of steps ${[...entries.keys()].join(', ')} - pass a stepId`
+    );
+  }
+
+  const entry = stepId === undefined ? [...entries.values()][0] : entries.get(stepId);
+
+  if (!entry) {
+    throw new ConflictError(`Step ${stepId} of execution '${executionId}' is not waiting for approval`);
+  }
+
+  entry.settle(decision);
+  return entry.approval;
+}
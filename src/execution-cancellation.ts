@@ -0,0 +1,88 @@
+/**
+ * Execution Cancellation
+ *
+ * In-process registry of AbortControllers for running executions
+ * (execution ID = request ID). Runners register when they start; cancelling
+ * aborts the in-flight SDK query() and stops the orchestrator between steps.
+ */
+
+import { getExecutionById } from './database.js';
+import { markExecutionCancelled } from './db/utils.js';
+import { sendCancelled } from './routes/stream.js';
+import { ConflictError, ExecutionCancelledError, NotFoundError } from './utils/errors.js';
+
+const controllers = new Map<string, AbortController>();
+
+/**
+ * Register a run so it can be cancelled
+ * Pair with unregisterExecution() in a finally block.
+ */
+export function registerExecution(executionId: string): AbortController {
+  const controller = new AbortController();
+  controllers.set(executionId, controller);
+  return controller;
+}
+
+/**
+ * Remove a finished run from the registry
+ */
+export function unregisterExecution(executionId: string, controller: AbortController): void {
+  if (controllers.get(executionId) === controller) {
+    controllers.delete(executionId);
+  }
+}
+
+/**
+ * Get the AbortController of a running execution (passed to the SDK query())
+ */
+export function getAbortController(executionId: string): AbortController | undefined {
+  return controllers.get(executionId);
+}
+
+/**
+ * Check if a running execution has been cancelled
+ */
+export function isExecutionCancelled(executionId: string): boolean {
+  return controllers.get(executionId)?.signal.aborted === true;
+}
+
+/**
+ * Stop a run at a safe point (e.g. between workflow steps)
+ * @throws ExecutionCancelledError if the execution has been cancelled
+ */
+export function throwIfCancelled(executionId: string): void {
+  if (isExecutionCancelled(executionId)) {
+    throw new ExecutionCancelledError(`Execution '${executionId}' was cancelled`);
+  }
+}
+
+/**
+ * Cancel a queued or running execution
+ * Marks the Execution as cancelled, aborts the run and emits the 'cancelled' SSE event.
+ *
+ * @throws NotFoundError if the execution does not exist
+ * @throws ConflictError if the execution has already finished
+ */
+export async function cancelExecution(executionId: string): Promise<void> {
+  const execution = await getExecutionById(executionId);
+
+  if (!execution) {
+    throw new NotFoundError(`Execution '${executionId}' not found`);
+  }
+
+  if (!(await markExecutionCancelled(executionId))) {
+    throw new ConflictError(`Execution '${executionId}' has already finished (${execution.status})`);
+  }
+
+  const controller = controllers.get(executionId);
+  controller?.abort();
+
+  console.log(
+    `[Cancel] Cancelled execution ${executionId}${controller ? ' (run aborted)' : ''}`
+  );
+
+  sendCancelled(executionId, {
+    message: 'Execution cancelled',
+    metadata: { duration: Date.now() - execution.startedAt.getTime() },
+  });
+}
@@ -0,0 +1,110 @@
+/**
+ * Execution Checkpoints
+ *
+ * Workflow steps are recorded as they finish: their session, output and a copy
+ * of the working directory. A failed execution can then resume from the first
+ * incomplete step, forking the last good session, instead of repeating steps
+ * (and their side effects, such as sent emails) that already succeeded.
+ *
+ * Recording is best-effort, like the Execution record itself.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { logger } from './middleware/logging.js';
+import { getExecutionSteps, saveExecutionStep } from './db/utils.js';
+import { config } from './config/index.js';
+import type { StepCheckpoint, WorkflowResumeState } from './types.js';
+
+function getSnapshotDirectory(executionId: string): string {
+  return path.join(config.checkpoints.snapshotDir, executionId);
+}
+
+/**
+ * Create the onStepFinished callback of a workflow run
+ * Each finished step gets a snapshot of the working directory and an ExecutionStep row.
+ */
+export function createCheckpointRecorder(executionId: string, correlationId: string) {
+  return async (checkpoint: StepCheckpoint, workingDirectory: string): Promise<void> => {
+    let snapshotPath: string | null = path.join(getSnapshotDirectory(executionId), `step-${checkpoint.stepId}`);
+
+    try {
+      await fs.rm(snapshotPath, { recursive: true, force: true });
+      await fs.cp(workingDirectory, snapshotPath, { recursive: true });
+    } catch (error: any) {
+      logger.warn(correlationId, 'checkpoint', `Failed to snapshot the working directory after step ${checkpoint.stepId} (non-fatal)`, {
+        error: error.message,
+      });
+      snapshotPath = null;
+    }
+
+    try {
+      await saveExecutionStep(executionId, { ...checkpoint, workingDirectory, snapshotPath });
+    } catch (error: any) {
+      logger.warn(correlationId, 'checkpoint', `Failed to record the checkpoint of step ${checkpoint.stepId} (non-fatal)`, {
+        error: error.message,
+      });
+    }
+  };
+}
+
+/**
+ * Load the checkpoints of a failed execution and restore its working directory
+ *
+ * The directory is restored from the snapshot of the step that finished last, at
+ * its original path (the agent stores its sessions per working directory).
+ * Without checkpoints the run starts over in a new working directory.
+ */
+export async function restoreCheckpoints(
+  executionId: string,
+  correlationId: string
+): Promise<WorkflowResumeState> {
+  const steps = await getExecutionSteps(executionId);
+
+  if (steps.length === 0) {
+    return { workingDirectory: `/tmp/${executionId}-${Date.now()}`, checkpoints: [] };
+  }
+
+  const last = steps[steps.length - 1];
+  const workingDirectory = last.workingDirectory;
+
+  // Drop the partial work of the failed step. Restored files count as new,
+  // so the resumed run uploads them (the failed run never did).
+  await fs.rm(workingDirectory, { recursive: true, force: true });
+
+  try {
+    if (!last.snapshotPath) {
+      throw new Error(`step ${last.stepId} has no snapshot`);
+    }
+    await fs.cp(last.snapshotPath, workingDirectory, { recursive: true });
+  } catch (error: any) {
+    logger.warn(correlationId, 'checkpoint', 'Failed to restore the working directory - resuming with an empty one', {
+      error: error.message,
+    });
+    await fs.mkdir(workingDirectory, { recursive: true });
+  }
+
+  return {
+    workingDirectory,
+    checkpoints: steps.map((step) => ({
+      stepId: step.stepId,
+      status: step.status as StepCheckpoint['status'],
+      sessionId: step.sessionId,
+      ownsSession: step.ownsSession,
+      output: step.output,
+      ...(step.value !== null && { value: step.value }),
+      ...(step.error !== null && { error: step.error }),
+    })),
+  };
+}
+
+/**
+ * Remove the working-directory snapshots of an execution (once it has completed)
+ */
+export async function discardSnapshots(executionId: string): Promise<void> {
+  try {
+    await fs.rm(getSnapshotDirectory(executionId), { recursive: true, force: true });
+  } catch (error: any) {
+    console.warn(`[Checkpoints] Failed to remove snapshots of ${executionId} (non-fatal): ${error.message}`);
+  }
+}
@@ -0,0 +1,116 @@
+/**
+ * Execution Records
+ *
+ * Best-effort persistence of runs as Execution rows (execution ID = request ID).
+ * Shared by every entry point that starts agent work (webhook, scheduler, ...).
+ */
+
+import { ExecutionCancelledError, ValidationError } from './utils/errors.js';
+import { logger } from './middleware/logging.js';
+import { getExecutionById } from './database.js';
+import {
+  createSkillExecution,
+  completeSkillExecution,
+  markExecutionRunning,
+  isPrismaError,
+  PrismaErrorCodes,
+} from './db/utils.js';
+
+/**
+ * Create the Execution record for a run (execution ID = request ID)
+ *
+ * Recording is best-effort: a database outage must not block the agent.
+ * A reused request ID is rejected because it doubles as the execution ID.
+ *
+ * @param requestId - Request ID (used as execution ID)
+ * @param skillId - Skill being executed (null if not known yet)
+ * @param trigger - What started the run ('webhook', 'schedule', ...)
+ * @param input - Input payload to store on the record
+ * @param correlationId - Correlation ID for logging
+ * @param status - Initial status ('queued' for runs waiting in the job queue)
+ * @param conversationId - Conversation the run is a turn of
+ * @returns true if the record was created
+ */
+export async function startExecutionRecord(
+  requestId: string,
+  skillId: string | null,
+  trigger: string,
+  input: Record<string, any>,
+  correlationId: string,
+  status: 'queued' | 'running' = 'running',
+  conversationId?: string
+): Promise<boolean> {
+  try {
+    await createSkillExecution(skillId, { id: requestId, trigger, input, status, conversationId });
+    return true;
+  } catch (error: any) {
+    if (isPrismaError(error) && error.code === PrismaErrorCodes.UNIQUE_CONSTRAINT) {
+      throw new ValidationError(`Request ID '${requestId}' has already been used`);
+    }
+
+    logger.warn(correlationId, 'execution', 'Failed to create execution record (non-fatal)', {
+      error: error.message,
+    });
+    return false;
+  }
+}
+
+/**
+ * Mark an existing Execution record as running (non-fatal on failure)
+ * Used when a queued run is picked up by a worker or retried.
+ *
+ * @returns true if the record was updated
+ * @throws ExecutionCancelledError if the execution was cancelled (or finished) before it could start
+ */
+export async function resumeExecutionRecord(
+  requestId: string,
+  correlationId: string
+): Promise<boolean> {
+  try {
+    if (await markExecutionRunning(requestId)) return true;
+  } catch (error: any) {
+    logger.warn(correlationId, 'execution', 'Failed to update execution record (non-fatal)', {
+      error: error.message,
+    });
+    return false;
+  }
+
+  // Not updated: the record is missing (recording is best-effort), or the run
+  // stopped being queued or running (e.g. cancelled while it was picked up)
+  const execution = await getExecutionById(requestId).catch(() => null);
+  if (execution) {
+    throw new ExecutionCancelledError(
+      execution.status === 'cancelled'
+        ? `Execution '${requestId}' was cancelled`
+        : `Execution '${requestId}' is ${execution.status} and is not run again`
+    );
+  }
+  return false;
+}
+
+/**
+ * Complete the Execution record for a run (non-fatal on failure)
+ * A record that was cancelled in the meantime keeps its cancelled status.
+ */
+export async function finishExecutionRecord(
+  requestId: string,
+  result: Parameters<typeof completeSkillExecution>[1],
+  correlationId: string
+): Promise<void> {
+  try {
+    if (!(await completeSkillExecution(requestId, result))) {
+      logger.info(correlationId, 'execution', `Execution already finished (e.g. cancelled) - not marked ${result.status}`);
+    }
+  } catch (error: any) {
+    logger.warn(correlationId, 'execution', 'Failed to complete execution record (non-fatal)', {
+      error: error.message,
+    });
+  }
+}
+
+/**
+ * Format an error (and its cause) for the Execution record
+ */
+export function formatExecutionError(error: any): string {
+  return error.cause?.message ? `${error.message}: ${error.cause.message}` : error.message;
+}
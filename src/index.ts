@@ -6,7 +6,8 @@
 
 import express, { Request, Response } from 'express';
 import cors from 'cors';
-import { webhookHandler } from './webhook.js';
+import { webhookHandler, processWebhookJob } from './webhook.js';
+import { processSkillJob } from './skill-runner.js';
 import { loggingMiddleware } from './middleware/logging.js';
 import { timeoutMiddleware } from './middleware/timeout.js';
 import {
@@ -21,10 +22,20 @@ import {
 } from './middleware/error-handler.js';
 import { metrics, getUptimeString } from './utils/monitoring.js';
 import { checkDatabaseHealth } from './database.js';
+import { failInterruptedApprovals } from './db/utils.js';
 import { createEnvConnectionsMiddleware } from './middleware/connections.js';
 import streamRoutes from './routes/stream.js';
+import skillTriggerRoutes from './routes/skill-triggers.js';
+import skillRoutes from './routes/skills.js';
+import executionRoutes from './routes/executions.js';
+import conversationRoutes from './routes/conversations.js';
 import { syncToolkitsIfNeeded } from './services/composio/toolkit-sync.js';
 import { checkConnectionsOnStartup } from './services/composio/connection-status-checker.js';
+import { startSkillScheduler, getSkillScheduler } from './services/scheduler/skill-scheduler.js';
+import { getJobWorker, getQueueStats } from './services/queue/job-queue.js';
+import { deliverCallbackJob } from './services/callbacks/callbacks.js';
+import { CallbackError } from './utils/errors.js';
+import { config } from './config/index.js';
 
 const app = express();
 
@@ -42,7 +53,15 @@ app.use(
 app.use(securityHeadersMiddleware);
 
 // 3. Body parser (must be before logging to read req.body)
-app.use(express.json({ limit: '10mb' }));
+// Keeps the raw body for webhook signature verification
+app.use(
+  express.json({
+    limit: '10mb',
+    verify: (req: Request, res, buf) => {
+      req.rawBody = buf;
+    },
+  })
+);
 
 // 4. Logging middleware
 app.use(loggingMiddleware);
@@ -65,6 +84,18 @@ app.use(createEnvConnectionsMiddleware());
 app.post('/webhook', asyncHandler(webhookHandler));
 app.post('/webhooks/prompt', asyncHandler(webhookHandler)); // Alias
 
+// Skill authoring (generate drafts)
+app.use('/skills', skillRoutes);
+
+// Per-skill inbound webhooks (HMAC-verified)
+app.use('/skills', skillTriggerRoutes);
+
+// Execution status, results and traces
+app.use('/executions', executionRoutes);
+
+// Multi-turn conversations (list, rename, delete)
+app.use('/conversations', conversationRoutes);
+
 // SSE Streaming endpoint
 app.use('/stream', streamRoutes);
 
@@ -78,6 +109,7 @@ app.get(
   asyncHandler(async (req: Request, res: Response) => {
     const health = metrics.getHealth();
     const dbHealthy = await checkDatabaseHealth();
+    const queue = dbHealthy ? await getQueueStats().catch(() => null) : null;
 
     const overallHealthy = dbHealthy && health.status !== 'unhealthy';
 
@@ -86,6 +118,7 @@ app.get(
       uptime: getUptimeString(health.uptime),
       timestamp: health.timestamp,
       database: dbHealthy ? 'connected' : 'disconnected',
+      queue,
       metrics: health.metrics,
     };
 
@@ -121,6 +154,8 @@ const server = app.listen(PORT, async () => {
   console.log(`[Server] Health check: http://localhost:${PORT}/health`);
   console.log(`[Server] Metrics: http://localhost:${PORT}/metrics`);
   console.log(`[Server] Webhook: POST http://localhost:${PORT}/webhook`);
+  console.log(`[Server] Skill triggers: POST http://localhost:${PORT}/skills/:id/trigger`);
+  console.log(`[Server] Executions: GET http://localhost:${PORT}/executions/:id`);
 
   // Composio: Sync toolkits and check connection status
   try {
@@ -129,12 +164,50 @@ const server = app.listen(PORT, async () => {
   } catch (error) {
     console.error('[Composio] Startup tasks failed:', error);
   }
+
+  // Approvals: Runs that were waiting for approval did not survive the restart
+  try {
+    const failed = await failInterruptedApprovals();
+    if (failed > 0) {
+      console.warn(`[Approvals] Marked ${failed} execution(s) left waiting for approval as failed (see POST /executions/:id/resume)`);
+    }
+  } catch (error) {
+    console.error('[Approvals] Failed to clean up interrupted approvals:', error);
+  }
+
+  // Job queue: Run queued async webhook requests
+  try {
+    const worker = getJobWorker();
+    worker.registerHandler('webhook', processWebhookJob);
+    worker.registerHandler('skill', processSkillJob, { isRetryable: () => false });
+    worker.registerHandler('callback', deliverCallbackJob, {
+      isRetryable: (error) => error instanceof CallbackError,
+      retryBaseDelayMs: config.callbacks.retryBaseDelayMs,
+    });
+    await worker.start();
+  } catch (error) {
+    console.error('[Queue] Failed to start worker:', error);
+  }
+
+  // Scheduler: Run skills with triggerType 'schedule'
+  try {
+    await startSkillScheduler();
+  } catch (error) {
+    console.error('[Scheduler] Failed to start:', error);
+  }
 });
 
 // Graceful shutdown
 function gracefulShutdown(signal: string) {
   console.log(`\n[Server] Received ${signal}, starting graceful shutdown...`);
 
+  getSkillScheduler().stop();
+
+  // Hand running jobs back to the queue so the next start picks them up
+  getJobWorker()
+    .stop()
+    .catch((error) => console.error('[Queue] Failed to stop worker:', error));
+
   server.close(() => {
     console.log('[Server] HTTP server closed');
 
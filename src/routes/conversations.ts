@@ -0,0 +1,115 @@
+/**
+ * Conversation Routes
+ * Multi-turn chats started by webhook requests with a conversationId
+ *
+ * - GET /conversations - List conversations, most recently active first (cursor pagination)
+ * - GET /conversations/:id - Conversation with its turns
+ * - PATCH /conversations/:id - Rename a conversation
+ * - DELETE /conversations/:id - Delete a conversation (its executions are kept)
+ */
+
+import express, { Request, Response } from 'express';
+import { getConversationById, getConversationTurns, listConversations } from '../database.js';
+import { conversationListQuerySchema, renameConversationSchema } from '../validation.js';
+import { NotFoundError, ValidationError } from '../utils/errors.js';
+import { asyncHandler } from '../middleware/error-handler.js';
+import { deleteConversation, renameConversation } from '../conversations.js';
+
+const router = express.Router();
+
+/**
+ * List conversations
+ * GET /conversations?cursor=&limit=
+ */
+router.get(
+  '/',
+  asyncHandler(async (req: Request, res: Response) => {
+    const validation = conversationListQuerySchema.safeParse(req.query);
+
+    if (!validation.success) {
+      throw new ValidationError(
+        'Invalid query parameters',
+        new Error(JSON.stringify(validation.error.errors))
+      );
+    }
+
+    res.json(await listConversations(validation.data));
+  })
+);
+
+/**
+ * Get a conversation and its turns (oldest first)
+ * GET /conversations/:id
+ */
+router.get(
+  '/:id',
+  asyncHandler(async (req: Request, res: Response) => {
+    const conversation = await getConversationById(req.params.id);
+
+    if (!conversation) {
+      throw new NotFoundError(`Conversation '${req.params.id}' not found`);
+    }
+
+    const turns = await getConversationTurns(conversation.id);
+
+    res.json({
+      id: conversation.id,
+      title: conversation.title,
+      createdAt: conversation.createdAt,
+      updatedAt: conversation.updatedAt,
+      turns: turns.map((turn) => ({
+        executionId: turn.id,
+        status: turn.status,
+        prompt: (turn.input as { prompt?: string } | null)?.prompt ?? null,
+        output: turn.output,
+        error: turn.error,
+        skill: turn.skill,
+        startedAt: turn.startedAt,
+        completedAt: turn.completedAt,
+      })),
+    });
+  })
+);
+
+/**
+ * Rename a conversation
+ * PATCH /conversations/:id
+ * Body: { title }
+ */
+router.patch(
+  '/:id',
+  asyncHandler(async (req: Request, res: Response) => {
+    const validation = renameConversationSchema.safeParse(req.body);
+
+    if (!validation.success) {
+      throw new ValidationError(
+        'Invalid request body',
+        new Error(JSON.stringify(validation.error.errors))
+      );
+    }
+
+    const conversation = await renameConversation(req.params.id, validation.data.title);
+
+    res.json({
+      id: conversation.id,
+      title: conversation.title,
+      createdAt: conversation.createdAt,
+      updatedAt: conversation.updatedAt,
+    });
+  })
+);
+
+/**
+ * Delete a conversation and its working directory
+ * DELETE /conversations/:id
+ */
+router.delete(
+  '/:id',
+  asyncHandler(async (req: Request, res: Response) => {
+    await deleteConversation(req.params.id);
+
+    res.json({ id: req.params.id, deleted: true });
+  })
+);
+
+export default router;
@@ -0,0 +1,299 @@
+/**
+ * Execution Routes
+ * Status and result polling for runs (execution ID = request ID)
+ *
+ * - GET /executions - List executions (filters + cursor pagination)
+ * - GET /executions/:id - Status, output, files, step metadata, cost and error
+ * - GET /executions/:id/trace - Full Claude Agent SDK trace
+ * - POST /executions/:id/cancel - Cancel a queued, running or approval-waiting execution
+ * - POST /executions/:id/resume - Resume a failed execution from its first incomplete step
+ * - POST /executions/:id/approve - Approve a step waiting for approval (optionally edited)
+ * - POST /executions/:id/reject - Reject a step waiting for approval (the step is skipped)
+ * - POST /executions/:id/classification/feedback - Mark the classification as right or wrong
+ * - POST /executions/:id/to-skill - Draft a skill from a successful one-off run (not saved)
+ * - GET /executions/:id/callbacks - Recorded completion callback attempts
+ * - POST /executions/:id/callbacks/replay - Deliver the completion callback again
+ */
+
+import express, { Request, Response } from 'express';
+import { getExecutionById, listExecutions } from '../database.js';
+import {
+  approveExecutionSchema,
+  classificationFeedbackSchema,
+  executionListQuerySchema,
+  rejectExecutionSchema,
+} from '../validation.js';
+import { NotFoundError, ValidationError } from '../utils/errors.js';
+import { asyncHandler } from '../middleware/error-handler.js';
+import { listCallbackDeliveries, replayCallback } from '../services/callbacks/callbacks.js';
+import { cancelExecution } from '../execution-cancellation.js';
+import { decideApproval, getPendingApprovals } from '../execution-approvals.js';
+import { resumeExecution } from '../skill-runner.js';
+import { recordClassificationFeedback } from '../classifier-feedback.js';
+import { draftSkillFromExecution } from '../skill-drafts.js';
+import { getCorrelationId } from '../middleware/logging.js';
+import type { FileMetadata } from '../types.js';
+
+const router = express.Router();
+
+/**
+ * Convert a Prisma Decimal cost to a number
+ */
+function toCost(costUsd: { toString(): string } | null): number | null {
+  return costUsd === null ? null : Number(costUsd.toString());
+}
+
+/**
+ * List executions, newest first
+ * GET /executions?skillId=&status=&trigger=&from=&to=&cursor=&limit=
+ */
+router.get(
+  '/',
+  asyncHandler(async (req: Request, res: Response) => {
+    const validation = executionListQuerySchema.safeParse(req.query);
+
+    if (!validation.success) {
+      throw new ValidationError(
+        'Invalid query parameters',
+        new Error(JSON.stringify(validation.error.errors))
+      );
+    }
+
+    const { executions, nextCursor } = await listExecutions(validation.data);
+
+    res.json({
+      executions: executions.map((execution) => ({
+        executionId: execution.id,
+        status: execution.status,
+        trigger: execution.trigger,
+        skill: execution.skill,
+        error: execution.error,
+        durationMs: execution.durationMs,
+        tokenCount: execution.tokenCount,
+        costUsd: toCost(execution.costUsd),
+        startedAt: execution.startedAt,
+        completedAt: execution.completedAt,
+      })),
+      nextCursor,
+    });
+  })
+);
+
+/**
+ * Get execution status and result
+ * GET /executions/:id
+ */
+router.get(
+  '/:id',
+  asyncHandler(async (req: Request, res: Response) => {
+    const execution = await getExecutionById(req.params.id);
+
+    if (!execution) {
+      throw new NotFoundError(`Execution '${req.params.id}' not found`);
+    }
+
+    const trace = (execution.trace || {}) as {
+      stepMetadata?: any[];
+      classification?: any;
+      files?: FileMetadata[];
+    };
+    const files = trace.files || [];
+
+    res.json({
+      executionId: execution.id,
+      status: execution.status,
+      trigger: execution.trigger,
+      skill: execution.skill,
+      input: execution.input,
+      output: execution.output,
+      error: execution.error,
+      files,
+      url: files.map((file) => file.url),
+      steps: trace.stepMetadata || [],
+      classification: trace.classification,
+      durationMs: execution.durationMs,
+      tokenCount: execution.tokenCount,
+      costUsd: toCost(execution.costUsd),
+      startedAt: execution.startedAt,
+      completedAt: execution.completedAt,
+      ...(execution.status === 'awaiting_approval' && {
+        approvals: getPendingApprovals(execution.id),
+      }),
+    });
+  })
+);
+
+/**
+ * Get the full SDK trace of an execution
+ * GET /executions/:id/trace
+ */
+router.get(
+  '/:id/trace',
+  asyncHandler(async (req: Request, res: Response) => {
+    const execution = await getExecutionById(req.params.id);
+
+    if (!execution) {
+      throw new NotFoundError(`Execution '${req.params.id}' not found`);
+    }
+
+    const trace = (execution.trace || {}) as { messages?: any[] };
+
+    res.json({
+      executionId: execution.id,
+      status: execution.status,
+      messages: trace.messages || [],
+    });
+  })
+);
+
+/**
+ * Cancel a queued, running or approval-waiting execution
+ * POST /executions/:id/cancel
+ */
+router.post(
+  '/:id/cancel',
+  asyncHandler(async (req: Request, res: Response) => {
+    await cancelExecution(req.params.id);
+
+    res.json({
+      executionId: req.params.id,
+      status: 'cancelled',
+    });
+  })
+);
+
+/**
+ * Resume a failed execution from its first incomplete step
+ * POST /executions/:id/resume
+ *
+ * Responds 202 once the run has restarted; follow it on /stream/:id?lastEventId=
+ */
+router.post(
+  '/:id/resume',
+  asyncHandler(async (req: Request, res: Response) => {
+    const result = await resumeExecution(req.params.id, getCorrelationId(req));
+
+    res.status(202).json(result);
+  })
+);
+
+/**
+ * Approve a step waiting for approval
+ * POST /executions/:id/approve
+ * Body: { stepId?, prompt? } - prompt replaces the proposed one
+ */
+router.post(
+  '/:id/approve',
+  asyncHandler(async (req: Request, res: Response) => {
+    const validation = approveExecutionSchema.safeParse(req.body ?? {});
+
+    if (!validation.success) {
+      throw new ValidationError(
+        'Invalid request body',
+        new Error(JSON.stringify(validation.error.errors))
+      );
+    }
+
+    const { stepId, prompt } = validation.data;
+    const approval = await decideApproval(req.params.id, stepId, { status: 'approved', prompt });
+
+    res.json({
+      executionId: req.params.id,
+      stepId: approval.stepId,
+      status: 'approved',
+    });
+  })
+);
+
+/**
+ * Reject a step waiting for approval (the step is skipped)
+ * POST /executions/:id/reject
+ * Body: { stepId?, reason? }
+ */
+router.post(
+  '/:id/reject',
+  asyncHandler(async (req: Request, res: Response) => {
+    const validation = rejectExecutionSchema.safeParse(req.body ?? {});
+
+    if (!validation.success) {
+      throw new ValidationError(
+        'Invalid request body',
+        new Error(JSON.stringify(validation.error.errors))
+      );
+    }
+
+    const { stepId, reason } = validation.data;
+    const approval = await decideApproval(req.params.id, stepId, { status: 'rejected', reason });
+
+    res.json({
+      executionId: req.params.id,
+      stepId: approval.stepId,
+      status: 'rejected',
+    });
+  })
+);
+
+/**
+ * Mark the classification of an execution as right or wrong
+ * POST /executions/:id/classification/feedback
+ * Body: { correct: true } or { correctSkill: "<id or name>" | null } - wrong outcomes become classifier examples
+ */
+router.post(
+  '/:id/classification/feedback',
+  asyncHandler(async (req: Request, res: Response) => {
+    const validation = classificationFeedbackSchema.safeParse(req.body ?? {});
+
+    if (!validation.success) {
+      throw new ValidationError(
+        'Invalid request body',
+        new Error(JSON.stringify(validation.error.errors))
+      );
+    }
+
+    res.json(await recordClassificationFeedback(req.params.id, validation.data));
+  })
+);
+
+/**
+ * Draft a skill from a completed one-off run (reviewed and saved by the caller)
+ * POST /executions/:id/to-skill
+ */
+router.post(
+  '/:id/to-skill',
+  asyncHandler(async (req: Request, res: Response) => {
+    res.json(await draftSkillFromExecution(req.params.id));
+  })
+);
+
+/**
+ * List recorded completion callback attempts of an execution
+ * GET /executions/:id/callbacks
+ */
+router.get(
+  '/:id/callbacks',
+  asyncHandler(async (req: Request, res: Response) => {
+    res.json({
+      executionId: req.params.id,
+      deliveries: await listCallbackDeliveries(req.params.id),
+    });
+  })
+);
+
+/**
+ * Deliver the completion callback again (same URL, headers and body)
+ * POST /executions/:id/callbacks/replay
+ */
+router.post(
+  '/:id/callbacks/replay',
+  asyncHandler(async (req: Request, res: Response) => {
+    const deliveryId = await replayCallback(req.params.id);
+
+    res.status(202).json({
+      status: 'queued',
+      executionId: req.params.id,
+      deliveryId,
+    });
+  })
+);
+
+export default router;
@@ -0,0 +1,183 @@
+/**
+ * Skill Trigger Routes
+ * Inbound webhooks that run a specific skill (triggerType 'webhook')
+ *
+ * Trigger config: {secret, allowedOrigins?, prompt?}
+ * - secret: Shared HMAC secret (see utils/signatures.ts for supported headers)
+ * - allowedOrigins: Origin header values or client IPs allowed to call (default: any)
+ * - prompt: Prompt for each run (defaults to the skill description)
+ */
+
+import crypto from 'crypto';
+import express, { Request, Response } from 'express';
+import { getExecutionById, getSkillById } from '../database.js';
+import { runSkill, SkillJobPayload } from '../skill-runner.js';
+import { startExecutionRecord, finishExecutionRecord } from '../execution-records.js';
+import { enqueueJob } from '../services/queue/job-queue.js';
+import { resolveSkillInputs } from '../skill-inputs.js';
+import { verifySignature } from '../utils/signatures.js';
+import { AuthenticationError, ForbiddenError, NotFoundError } from '../utils/errors.js';
+import { asyncHandler } from '../middleware/error-handler.js';
+import { logger, getCorrelationId } from '../middleware/logging.js';
+import type { Workflow } from '../types.js';
+
+const router = express.Router();
+
+/**
+ * Webhook trigger configuration stored on Skill.triggerConfig
+ */
+export interface WebhookTriggerConfig {
+  secret?: string;
+  allowedOrigins?: string[];
+  prompt?: string;
+}
+
+/**
+ * Check the caller against the skill's allowed origins
+ * Entries match the Origin header or the client IP; empty or '*' allows any caller.
+ */
+function isCallerAllowed(req: Request, allowedOrigins?: string[]): boolean {
+  if (!allowedOrigins || allowedOrigins.length === 0 || allowedOrigins.includes('*')) {
+    return true;
+  }
+
+  const origin = req.headers.origin;
+  return (
+    (!!origin && allowedOrigins.includes(origin)) ||
+    (!!req.ip && allowedOrigins.includes(req.ip))
+  );
+}
+
+/**
+ * Delivery ID the provider sends with an event (X-GitHub-Delivery, or the ID of
+ * a Stripe event); redeliveries of the event carry the same one
+ */
+function getDeliveryId(req: Request): string | null {
+  const githubDelivery = req.headers['x-github-delivery'];
+  if (typeof githubDelivery === 'string' && githubDelivery) {
+    return githubDelivery;
+  }
+
+  if (req.headers['stripe-signature'] && typeof req.body?.id === 'string' && req.body.id) {
+    return req.body.id;
+  }
+
+  return null;
+}
+
+/**
+ * Trigger a skill from an external system
+ * POST /skills/:id/trigger[?wait=true]
+ *
+ * The JSON body is passed to the first step as structured input (validated
+ * against the skill's inputs, if declared - 400 when required ones are missing).
+ * Responds 202 with the execution ID, or with the full result when wait=true.
+ * A redelivered event (same provider delivery ID) is not run again: the
+ * response is 200 with the status of its execution.
+ */
+router.post(
+  '/:id/trigger',
+  asyncHandler(async (req: Request, res: Response) => {
+    const correlationId = getCorrelationId(req);
+    const { id } = req.params;
+
+    const skill = await getSkillById(id);
+
+    // Same response for missing and inactive skills
+    if (!skill || !skill.isActive) {
+      throw new NotFoundError(`No active skill with ID '${id}'`);
+    }
+
+    if (skill.triggerType !== 'webhook') {
+      throw new ForbiddenError('Skill is not triggered by webhooks');
+    }
+
+    const triggerConfig = (skill.triggerConfig || {}) as WebhookTriggerConfig;
+
+    if (!triggerConfig.secret) {
+      throw new ForbiddenError('Skill has no webhook secret configured');
+    }
+
+    if (!isCallerAllowed(req, triggerConfig.allowedOrigins)) {
+      logger.warn(correlationId, 'skill-trigger', 'Caller not in allowedOrigins', {
+        skillId: id,
+        origin: req.headers.origin,
+        ip: req.ip,
+      });
+      throw new ForbiddenError('Caller is not allowed to trigger this skill');
+    }
+
+    if (!verifySignature(triggerConfig.secret, req.rawBody || Buffer.alloc(0), req.headers)) {
+      logger.warn(correlationId, 'skill-trigger', 'Invalid webhook signature', { skillId: id });
+      throw new AuthenticationError('Invalid or missing webhook signature');
+    }
+
+    const payload = resolveSkillInputs(
+      skill as any as Workflow, // Type cast for Prisma result
+      req.body && typeof req.body === 'object' ? req.body : {}
+    );
+    const deliveryId = getDeliveryId(req);
+    const requestId = deliveryId ? `webhook-${skill.id}-${deliveryId}` : crypto.randomUUID();
+
+    const delivered = deliveryId ? await getExecutionById(requestId) : null;
+    if (delivered) {
+      logger.info(correlationId, 'skill-trigger', `Skipped redelivered event ${deliveryId}`, { requestId });
+      res.json({ status: delivered.status, requestId, executionId: requestId, duplicate: true });
+      return;
+    }
+
+    const prompt =
+      triggerConfig.prompt || skill.description || `Run the "${skill.name}" skill.`;
+
+    const input = { origin: req.headers.origin || req.ip };
+
+    logger.info(correlationId, 'skill-trigger', `Triggering skill "${skill.name}"`, { requestId });
+
+    if (req.query.wait === 'true') {
+      res.json(
+        await runSkill({
+          skill: skill as any as Workflow, // Type cast for Prisma result
+          prompt,
+          trigger: 'webhook',
+          requestId,
+          payload,
+          input,
+          correlationId,
+        })
+      );
+      return;
+    }
+
+    // Queue the run (durable across restarts) and respond immediately
+    await startExecutionRecord(requestId, skill.id, 'webhook', { prompt, payload, ...input }, correlationId, 'queued');
+
+    const job: SkillJobPayload = {
+      skillId: skill.id,
+      prompt,
+      trigger: 'webhook',
+      requestId,
+      payload,
+      input,
+      correlationId,
+    };
+    const jobId = await enqueueJob('skill', job).catch(async (error) => {
+      // Nothing would ever run the recorded execution
+      await finishExecutionRecord(
+        requestId,
+        { status: 'failed', error: `Failed to queue the request: ${error.message}`, durationMs: 0 },
+        correlationId
+      );
+      throw error;
+    });
+
+    logger.info(correlationId, 'skill-trigger', `Queued as job ${jobId}`, { requestId });
+
+    res.status(202).json({
+      status: 'queued',
+      requestId,
+      executionId: requestId,
+    });
+  })
+);
+
+export default router;
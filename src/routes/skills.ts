@@ -0,0 +1,37 @@
+/**
+ * Skill Routes
+ * Skill authoring helpers (skills are created and edited with the CLI)
+ *
+ * - POST /skills/generate - Draft a skill from a description, using only the available tools
+ */
+
+import express, { Request, Response } from 'express';
+import { generateSkillSchema } from '../validation.js';
+import { ValidationError } from '../utils/errors.js';
+import { asyncHandler } from '../middleware/error-handler.js';
+import { generateSkill } from '../skill-generator.js';
+
+const router = express.Router();
+
+/**
+ * Draft a skill from a description (not saved)
+ * POST /skills/generate
+ * Body: { description }
+ */
+router.post(
+  '/generate',
+  asyncHandler(async (req: Request, res: Response) => {
+    const validation = generateSkillSchema.safeParse(req.body);
+
+    if (!validation.success) {
+      throw new ValidationError(
+        'Invalid request body',
+        new Error(JSON.stringify(validation.error.errors))
+      );
+    }
+
+    res.json(await generateSkill(validation.data.description));
+  })
+);
+
+export default router;
@@ -1,15 +1,34 @@
 /**
  * SSE Streaming Routes
  * Server-Sent Events for real-time task updates
+ *
+ * Events are appended to a per-execution event log (see services/streaming),
+ * so several clients can follow the same run and late joiners see it from the start.
+ * Clients resume with the Last-Event-ID header (or ?lastEventId=) after a reconnect.
  */
 
 import express, { Request, Response } from 'express';
 import prisma from '../db/client.js';
+import { config } from '../config/index.js';
+import { getExecutionEventLog, ExecutionEvent } from '../services/streaming/event-log.js';
+import { getAbortController } from '../execution-cancellation.js';
 
 const router = express.Router();
 
-// Active SSE connections
-const connections = new Map<string, Response>();
+/**
+ * Parse the ID of the last event a client has seen (0 if none)
+ */
+function parseLastEventId(value: unknown): number {
+  const id = parseInt(String(value ?? ''), 10);
+  return isNaN(id) || id < 0 ? 0 : id;
+}
+
+/**
+ * Write an event in SSE wire format
+ */
+function writeEvent(res: Response, event: ExecutionEvent) {
+  res.write(`id: ${event.id}\ndata: ${JSON.stringify(event.data)}\n\n`);
+}
 
 /**
  * SSE endpoint for streaming task updates
@@ -17,6 +36,8 @@ const connections = new Map<string, Response>();
  */
 router.get('/:executionId', async (req: Request, res: Response) => {
   const { executionId } = req.params;
+  const eventLog = getExecutionEventLog();
+  const lastEventId = parseLastEventId(req.header('Last-Event-ID') ?? req.query.lastEventId);
 
   // Set SSE headers
   res.setHeader('Content-Type', 'text/event-stream');
@@ -27,24 +48,60 @@ router.get('/:executionId', async (req: Request, res: Response) => {
   // Send initial connection event
   res.write(`data: ${JSON.stringify({ type: 'connected', executionId })}\n\n`);
 
-  // Store connection
-  connections.set(executionId, res);
+  // Keep proxies from closing idle connections
+  const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), config.stream.heartbeatIntervalMs);
+  let unsubscribe: (() => void) | null = null;
+  let closed = false;
+
+  const close = () => {
+    if (closed) return;
+    closed = true;
+    clearInterval(heartbeat);
+    unsubscribe?.();
+  };
+
+  // Replay buffered events, then follow the run until it finishes
+  unsubscribe = eventLog.subscribe(executionId, lastEventId, {
+    send: (event) => writeEvent(res, event),
+    end: () => {
+      close();
+      res.end();
+    },
+  });
+
+  if (closed) return;
 
-  console.log(`[SSE] Client connected for execution ${executionId}`);
+  console.log(
+    `[SSE] Client connected for execution ${executionId} (${eventLog.getSubscriberCount(executionId)} subscriber(s), last event: ${lastEventId})`
+  );
 
-  // Check if execution exists and send history
-  try {
-    const execution = await prisma.execution.findUnique({
-      where: { id: executionId },
-    });
+  // Handle client disconnect
+  req.on('close', () => {
+    close();
+    console.log(`[SSE] Client disconnected from execution ${executionId}`);
+  });
 
-    if (execution) {
-      // Send execution status
-      const trace = execution.trace as any;
-      if (trace?.steps) {
-        for (const step of trace.steps) {
-          res.write(`data: ${JSON.stringify({ type: 'step', step })}\n\n`);
+  // No events in this server's log (e.g. after a restart): send the state of the record
+  if (!eventLog.hasEvents(executionId)) {
+    try {
+      const execution = await prisma.execution.findUnique({
+        where: { id: executionId },
+      });
+
+      // Unknown runs may not have started yet - keep waiting for their events
+      if (closed || !execution || eventLog.hasEvents(executionId)) return;
+
+      if (['queued', 'running', 'awaiting_approval'].includes(execution.status)) {
+        res.write(`data: ${JSON.stringify({ type: 'status', status: execution.status })}\n\n`);
+
+        // Queued runs stream once a worker starts them; started runs only stream from the
+        // server running them, so without a run in this process there is nothing to wait for
+        if (execution.status !== 'queued' && !getAbortController(executionId)) {
+          console.log(`[SSE] Execution ${executionId} is ${execution.status} but not running here - closing stream`);
+          close();
+          res.end();
         }
+        return;
       }
 
       if (execution.status === 'completed' || execution.status === 'failed') {
@@ -58,32 +115,30 @@ router.get('/:executionId', async (req: Request, res: Response) => {
             cost: execution.costUsd,
           },
         })}\n\n`);
+        close();
+        res.end();
       }
+
+      if (execution.status === 'cancelled') {
+        res.write(`data: ${JSON.stringify({
+          type: 'cancelled',
+          message: execution.error || 'Execution cancelled',
+          metadata: { duration: execution.durationMs },
+        })}\n\n`);
+        close();
+        res.end();
+      }
+    } catch (error) {
+      console.error('[SSE] Error fetching execution:', error);
     }
-  } catch (error) {
-    console.error('[SSE] Error fetching execution:', error);
   }
-
-  // Handle client disconnect
-  req.on('close', () => {
-    connections.delete(executionId);
-    console.log(`[SSE] Client disconnected from execution ${executionId}`);
-  });
 });
 
 /**
  * Send update to all connected clients for an execution
  */
 export function sendStreamUpdate(executionId: string, data: any) {
-  const connection = connections.get(executionId);
-  if (connection) {
-    try {
-      connection.write(`data: ${JSON.stringify(data)}\n\n`);
-    } catch (error) {
-      console.error('[SSE] Error sending update:', error);
-      connections.delete(executionId);
-    }
-  }
+  getExecutionEventLog().append(executionId, data);
 }
 
 /**
@@ -92,9 +147,12 @@ export function sendStreamUpdate(executionId: string, data: any) {
 export function sendStepUpdate(executionId: string, step: {
   id: number;
   title: string;
-  status: 'running' | 'complete' | 'error';
+  status: 'running' | 'complete' | 'error' | 'skipped' | 'retrying' | 'awaiting_approval';
   duration?: number;
   error?: string;
+  attempt?: number;  // Attempt about to start (retrying)
+  maxAttempts?: number;
+  fallbackFor?: number;  // Step the fallback step runs in place of
 }) {
   console.log(`[SSE] Sending step update for ${executionId}:`, step.id, step.title, step.status);
   sendStreamUpdate(executionId, {
@@ -104,7 +162,7 @@ export function sendStepUpdate(executionId: string, step: {
 }
 
 /**
- * Helper to send completion
+ * Helper to send completion (ends the stream)
  */
 export function sendCompletion(executionId: string, data: {
   status: 'completed' | 'failed';
@@ -120,14 +178,25 @@ export function sendCompletion(executionId: string, data: {
     ...data,
   });
 
-  // Close connection after completion
-  setTimeout(() => {
-    const connection = connections.get(executionId);
-    if (connection) {
-      connection.end();
-      connections.delete(executionId);
-    }
-  }, 100);
+  getExecutionEventLog().finish(executionId);
+}
+
+/**
+ * Helper to send cancellation (ends the stream like a completion)
+ */
+export function sendCancelled(executionId: string, data: {
+  message?: string;
+  metadata?: {
+    duration?: number;
+  };
+}) {
+  sendStreamUpdate(executionId, {
+    type: 'cancelled',
+    ...data,
+    message: data.message || 'Execution cancelled',
+  });
+
+  getExecutionEventLog().finish(executionId);
 }
 
 export default router;
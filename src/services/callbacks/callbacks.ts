@@ -0,0 +1,352 @@
+/**
+ * Completion Callbacks
+ *
+ * POSTs the final WebhookResponse of a run to the caller's callbackUrl.
+ * Deliveries run as 'callback' jobs, so they survive restarts and are retried
+ * with exponential backoff until the receiver answers with a 2xx status.
+ *
+ * Every HTTP attempt is recorded in callback_deliveries and can be replayed.
+ *
+ * Callbacks require CALLBACK_SIGNING_SECRET, and may not reach this host or
+ * private networks (SSRF) unless the host is listed in CALLBACK_ALLOWED_HOSTS.
+ *
+ * Request headers:
+ * - X-Signature-256: sha256=<hex> - HMAC-SHA256 of the raw body (CALLBACK_SIGNING_SECRET)
+ * - X-Execution-Id, X-Delivery-Id, X-Delivery-Attempt
+ * - Caller-supplied callbackHeaders (cannot override the headers above)
+ */
+
+import crypto from 'crypto';
+import dns from 'dns';
+import net from 'net';
+import axios from 'axios';
+import { getPrismaClient } from '../../db/client.js';
+import { enqueueJob, JobContext } from '../queue/job-queue.js';
+import { getEncryptionService } from '../encryption/encryption.js';
+import { computeSignature } from '../../utils/signatures.js';
+import { CallbackError, NotFoundError, ValidationError } from '../../utils/errors.js';
+import { config } from '../../config/index.js';
+import type { WebhookResponse } from '../../types.js';
+
+/** Characters of the receiver's response body kept on the attempt record */
+const MAX_RESPONSE_BODY_LENGTH = 2000;
+
+/** Addresses callbacks may not reach: this host, private and link-local networks */
+const BLOCKED_ADDRESSES = new net.BlockList();
+BLOCKED_ADDRESSES.addSubnet('0.0.0.0', 8, 'ipv4');
+BLOCKED_ADDRESSES.addSubnet('10.0.0.0', 8, 'ipv4');
+BLOCKED_ADDRESSES.addSubnet('100.64.0.0', 10, 'ipv4'); // Carrier-grade NAT
+BLOCKED_ADDRESSES.addSubnet('127.0.0.0', 8, 'ipv4');
+BLOCKED_ADDRESSES.addSubnet('169.254.0.0', 16, 'ipv4'); // Link-local (cloud metadata)
+BLOCKED_ADDRESSES.addSubnet('172.16.0.0', 12, 'ipv4');
+BLOCKED_ADDRESSES.addSubnet('192.168.0.0', 16, 'ipv4');
+BLOCKED_ADDRESSES.addAddress('::', 'ipv6');
+BLOCKED_ADDRESSES.addAddress('::1', 'ipv6');
+BLOCKED_ADDRESSES.addSubnet('fc00::', 7, 'ipv6'); // Unique local
+BLOCKED_ADDRESSES.addSubnet('fe80::', 10, 'ipv6'); // Link-local
+
+/**
+ * Where to deliver the result of a run
+ */
+export interface CallbackTarget {
+  url: string;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Payload of a queued 'callback' job
+ */
+export interface CallbackJobPayload {
+  executionId: string;
+  deliveryId: string;
+  url: string;
+  /** Caller-supplied headers (sealed: encrypted when a key is set) */
+  headers?: string;
+  body: WebhookResponse;
+}
+
+/**
+ * Build the X-Signature-256 header value for a callback body
+ */
+export function signCallbackBody(secret: string, body: string): string {
+  return `sha256=${computeSignature(secret, body)}`;
+}
+
+/**
+ * Check that a request's callbackUrl may be used
+ * Hosts in CALLBACK_ALLOWED_HOSTS skip the address check.
+ *
+ * @throws ValidationError if callbacks are not configured, or the URL targets
+ *   this host or a private network
+ */
+export async function validateCallbackUrl(url: string): Promise<void> {
+  if (!config.callbacks.signingSecret) {
+    throw new ValidationError('callbackUrl requires CALLBACK_SIGNING_SECRET to be set on the server');
+  }
+
+  const host = getCallbackHost(url);
+  if (config.callbacks.allowedHosts.includes(host)) return;
+
+  let addresses = [host];
+  if (!net.isIP(host)) {
+    try {
+      addresses = (await dns.promises.lookup(host, { all: true })).map((entry) => entry.address);
+    } catch (error: any) {
+      throw new ValidationError(`Callback host '${host}' could not be resolved`, error);
+    }
+  }
+
+  const blocked = addresses.find(isBlockedAddress);
+  if (blocked) {
+    throw new ValidationError(`callbackUrl must not target a local or private address (${host}: ${blocked})`);
+  }
+}
+
+/**
+ * Queue delivery of a run's result to its callback URL (non-fatal on failure)
+ */
+export async function scheduleCallback(
+  executionId: string,
+  target: CallbackTarget,
+  body: WebhookResponse
+): Promise<void> {
+  try {
+    const deliveryId = await enqueueCallback({
+      executionId,
+      deliveryId: crypto.randomUUID(),
+      url: target.url,
+      headers: target.headers ? getEncryptionService().seal(target.headers) : undefined,
+      body,
+    });
+
+    console.log(`[Callbacks] Queued delivery ${deliveryId} for execution ${executionId}`);
+  } catch (error: any) {
+    console.error(`[Callbacks] Failed to queue callback for execution ${executionId}:`, error.message);
+  }
+}
+
+/**
+ * Deliver a callback again, using the URL, headers and body of its latest attempt
+ *
+ * @returns ID of the new delivery
+ * @throws NotFoundError if the execution has no callback deliveries
+ */
+export async function replayCallback(executionId: string): Promise<string> {
+  const prisma = getPrismaClient();
+
+  const latest = await prisma.callbackDelivery.findFirst({
+    where: { executionId },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  if (!latest) {
+    throw new NotFoundError(`Execution '${executionId}' has no callback deliveries`);
+  }
+
+  const deliveryId = await enqueueCallback({
+    executionId,
+    deliveryId: crypto.randomUUID(),
+    url: latest.url,
+    headers: latest.headers || undefined,
+    body: latest.payload as unknown as WebhookResponse,
+  });
+
+  console.log(`[Callbacks] Replaying callback of execution ${executionId} (delivery ${deliveryId})`);
+  return deliveryId;
+}
+
+/**
+ * List the recorded delivery attempts of an execution, oldest first
+ * Stored headers are not returned (they may hold credentials).
+ */
+export async function listCallbackDeliveries(executionId: string) {
+  const prisma = getPrismaClient();
+
+  return prisma.callbackDelivery.findMany({
+    where: { executionId },
+    orderBy: { createdAt: 'asc' },
+    select: {
+      id: true,
+      deliveryId: true,
+      attempt: true,
+      url: true,
+      success: true,
+      statusCode: true,
+      responseBody: true,
+      error: true,
+      durationMs: true,
+      createdAt: true,
+    },
+  });
+}
+
+/**
+ * Make one delivery attempt (registered with the job worker as 'callback')
+ * Hostnames are checked against BLOCKED_ADDRESSES when they are resolved for
+ * the request, so a host cannot be re-pointed at a private address later.
+ *
+ * @throws ValidationError if the delivery is refused (not retried)
+ * @throws CallbackError if the receiver did not answer with a 2xx status
+ */
+export async function deliverCallbackJob(
+  payload: CallbackJobPayload,
+  context: JobContext
+): Promise<void> {
+  const host = getCallbackHost(payload.url);
+  const isAllowedHost = config.callbacks.allowedHosts.includes(host);
+
+  // Settings may have changed since the delivery was queued
+  const refusal = !config.callbacks.signingSecret
+    ? 'CALLBACK_SIGNING_SECRET is not set'
+    : !isAllowedHost && net.isIP(host) && isBlockedAddress(host)
+      ? `${host} is a local or private address`
+      : null;
+
+  if (refusal) {
+    await recordAttempt(payload, context.attempt, {
+      success: false,
+      statusCode: null,
+      responseBody: null,
+      error: refusal,
+      durationMs: 0,
+    });
+    throw new ValidationError(`Callback to ${payload.url} refused: ${refusal}`);
+  }
+
+  const signingSecret = config.callbacks.signingSecret!;
+  const body = JSON.stringify(payload.body);
+  const callerHeaders = payload.headers
+    ? getEncryptionService().unseal<Record<string, string>>(payload.headers)
+    : {};
+
+  const headers: Record<string, string> = {
+    ...callerHeaders,
+    'Content-Type': 'application/json',
+    'X-Execution-Id': payload.executionId,
+    'X-Delivery-Id': payload.deliveryId,
+    'X-Delivery-Attempt': String(context.attempt),
+    'X-Signature-256': signCallbackBody(signingSecret, body),
+  };
+
+  const startTime = Date.now();
+  let statusCode: number | null = null;
+  let responseBody: string | null = null;
+  let error: string | null = null;
+
+  try {
+    const response = await axios.post(payload.url, body, {
+      headers,
+      timeout: config.callbacks.timeoutMs,
+      maxRedirects: 0,
+      lookup: isAllowedHost ? undefined : lookupPublicAddress,
+      responseType: 'text',
+      transformResponse: (data) => data,
+      validateStatus: () => true,
+    });
+
+    statusCode = response.status;
+    responseBody = typeof response.data === 'string'
+      ? response.data.slice(0, MAX_RESPONSE_BODY_LENGTH)
+      : null;
+  } catch (requestError: any) {
+    error = requestError.message;
+  }
+
+  const success = statusCode !== null && statusCode >= 200 && statusCode < 300;
+
+  await recordAttempt(payload, context.attempt, {
+    success,
+    statusCode,
+    responseBody,
+    error,
+    durationMs: Date.now() - startTime,
+  });
+
+  if (!success) {
+    throw new CallbackError(
+      `Callback to ${payload.url} failed: ${error || `HTTP ${statusCode}`}`
+    );
+  }
+
+  console.log(
+    `[Callbacks] Delivered execution ${payload.executionId} to ${payload.url} (attempt ${context.attempt}, HTTP ${statusCode})`
+  );
+}
+
+/**
+ * Host of a callback URL (lower-case, IPv6 without brackets)
+ */
+function getCallbackHost(url: string): string {
+  return new URL(url).hostname.replace(/^\[|\]$/g, '');
+}
+
+/**
+ * Check if an IP address belongs to this host or a private network
+ */
+function isBlockedAddress(address: string): boolean {
+  return BLOCKED_ADDRESSES.check(address, net.isIPv6(address) ? 'ipv6' : 'ipv4');
+}
+
+/**
+ * DNS lookup for callback requests that refuses local and private addresses
+ */
+function lookupPublicAddress(
+  hostname: string,
+  _options: object,
+  callback: (error: Error | null, addresses: string[]) => void
+): void {
+  dns.lookup(hostname, { all: true }, (error, entries) => {
+    if (error) return callback(error, []);
+
+    const addresses = entries.map((entry) => entry.address);
+    const blocked = addresses.find(isBlockedAddress);
+    if (blocked) {
+      return callback(new Error(`${hostname} resolves to a local or private address (${blocked})`), []);
+    }
+
+    callback(null, addresses);
+  });
+}
+
+/**
+ * Queue a delivery as a 'callback' job
+ * @returns Delivery ID
+ */
+async function enqueueCallback(payload: CallbackJobPayload): Promise<string> {
+  await enqueueJob('callback', payload, { maxAttempts: config.callbacks.maxAttempts });
+  return payload.deliveryId;
+}
+
+/**
+ * Record a delivery attempt (non-fatal on failure)
+ */
+async function recordAttempt(
+  payload: CallbackJobPayload,
+  attempt: number,
+  outcome: {
+    success: boolean;
+    statusCode: number | null;
+    responseBody: string | null;
+    error: string | null;
+    durationMs: number;
+  }
+): Promise<void> {
+  try {
+    await getPrismaClient().callbackDelivery.create({
+      data: {
+        executionId: payload.executionId,
+        deliveryId: payload.deliveryId,
+        attempt,
+        url: payload.url,
+        headers: payload.headers || null,
+        payload: payload.body as any,
+        ...outcome,
+      },
+    });
+  } catch (error: any) {
+    console.warn(
+      `[Callbacks] Failed to record delivery attempt for execution ${payload.executionId} (non-fatal):`,
+      error.message
+    );
+  }
+}
@@ -0,0 +1,243 @@
+/**
+ * Encryption Service
+ *
+ * AES-256-GCM encryption for secrets stored at rest (Connection.config credentials
+ * and Config values). Keys are derived from VM_ENCRYPTION_SECRET.
+ *
+ * Stored value formats:
+ * - "encrypted:<keyId>:<base64(iv | authTag | ciphertext)>" - encrypted secret
+ * - "plain:<value>" - intentionally unencrypted value (e.g. public keys)
+ * - anything else - legacy plaintext (encrypted by `alfred secrets migrate`)
+ *
+ * Key rotation: set a new VM_ENCRYPTION_SECRET, move the old one to
+ * VM_ENCRYPTION_PREVIOUS_SECRETS, then run `alfred secrets migrate`.
+ */
+
+import crypto from 'crypto';
+import { config } from '../../config/index.js';
+import { EncryptionError } from '../../utils/errors.js';
+
+export const ENCRYPTED_PREFIX = 'encrypted:';
+export const PLAIN_PREFIX = 'plain:';
+
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+const AUTH_TAG_LENGTH = 16;
+const KEY_DERIVATION_SALT = 'async-agent:encryption:v1';
+
+/** Connection.config fields that hold credentials */
+const CONNECTION_SECRET_FIELDS = ['env', 'headers', 'auth'];
+
+interface EncryptionKey {
+  id: string;
+  key: Buffer;
+}
+
+/**
+ * Derive a 256-bit key (and its short ID) from a secret
+ */
+function deriveKey(secret: string): EncryptionKey {
+  const key = Buffer.from(
+    crypto.hkdfSync('sha256', secret, KEY_DERIVATION_SALT, 'aes-256-gcm', 32)
+  );
+  const id = crypto.createHash('sha256').update(key).digest('hex').slice(0, 8);
+  return { id, key };
+}
+
+export class EncryptionService {
+  private readonly currentKey: EncryptionKey | null;
+  private readonly keys = new Map<string, EncryptionKey>();
+
+  /**
+   * @param secret - Current encryption secret (null disables encryption)
+   * @param previousSecrets - Retired secrets still accepted for decryption
+   */
+  constructor(secret: string | null | undefined, previousSecrets: string[] = []) {
+    this.currentKey = secret ? deriveKey(secret) : null;
+
+    for (const s of [...(secret ? [secret] : []), ...previousSecrets]) {
+      const key = deriveKey(s);
+      this.keys.set(key.id, key);
+    }
+  }
+
+  /**
+   * Whether a current key is configured
+   */
+  isEnabled(): boolean {
+    return this.currentKey !== null;
+  }
+
+  /**
+   * Check if a stored value is encrypted
+   */
+  isEncrypted(value: string): boolean {
+    return value.startsWith(ENCRYPTED_PREFIX);
+  }
+
+  /**
+   * Check if a stored value should be (re-)encrypted with the current key
+   * True for legacy plaintext and for values encrypted with a previous key.
+   */
+  needsEncryption(value: string): boolean {
+    if (!this.currentKey || value.startsWith(PLAIN_PREFIX)) return false;
+    if (!this.isEncrypted(value)) return true;
+    return this.getKeyId(value) !== this.currentKey.id;
+  }
+
+  /**
+   * Encrypt a plaintext value with the current key
+   * @throws EncryptionError if no key is configured
+   */
+  encrypt(plaintext: string): string {
+    if (!this.currentKey) {
+      throw new EncryptionError('VM_ENCRYPTION_SECRET is not set - cannot encrypt secrets');
+    }
+
+    const iv = crypto.randomBytes(IV_LENGTH);
+    const cipher = crypto.createCipheriv(ALGORITHM, this.currentKey.key, iv, {
+      authTagLength: AUTH_TAG_LENGTH,
+    });
+    const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+    const payload = Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64');
+
+    return `${ENCRYPTED_PREFIX}${this.currentKey.id}:${payload}`;
+  }
+
+  /**
+   * Decrypt a stored value
+   * "plain:" values are unwrapped; legacy plaintext is returned unchanged.
+   * @throws EncryptionError if the key is unknown or the value was tampered with
+   */
+  decrypt(value: string): string {
+    if (value.startsWith(PLAIN_PREFIX)) return value.slice(PLAIN_PREFIX.length);
+    if (!this.isEncrypted(value)) return value;
+
+    const keyId = this.getKeyId(value);
+    const key = keyId ? this.keys.get(keyId) : undefined;
+
+    if (!key) {
+      throw new EncryptionError(
+        `No encryption key available for stored secret (key ID: ${keyId || 'unknown'})`
+      );
+    }
+
+    try {
+      const payload = Buffer.from(value.slice(ENCRYPTED_PREFIX.length + keyId!.length + 1), 'base64');
+      const iv = payload.subarray(0, IV_LENGTH);
+      const authTag = payload.subarray(IV_LENGTH, IV_LENGTH + AUTH_TAG_LENGTH);
+      const ciphertext = payload.subarray(IV_LENGTH + AUTH_TAG_LENGTH);
+
+      const decipher = crypto.createDecipheriv(ALGORITHM, key.key, iv, {
+        authTagLength: AUTH_TAG_LENGTH,
+      });
+      decipher.setAuthTag(authTag);
+
+      return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+    } catch (error: any) {
+      throw new EncryptionError('Failed to decrypt stored secret', error);
+    }
+  }
+
+  /**
+   * Encrypt a stored value for writing (re-encrypts values under previous keys)
+   */
+  encryptValue(value: string): string {
+    return this.needsEncryption(value) ? this.encrypt(this.decrypt(value)) : value;
+  }
+
+  /**
+   * Serialize a JSON value that carries credentials for storage
+   * (e.g. MCP connections or callback headers in a job payload)
+   * Encrypted when a key is configured, plain JSON otherwise.
+   */
+  seal(value: unknown): string {
+    const json = JSON.stringify(value);
+    return this.isEnabled() ? this.encrypt(json) : json;
+  }
+
+  /**
+   * Restore a value serialized with seal()
+   */
+  unseal<T>(sealed: string): T {
+    return JSON.parse(this.decrypt(sealed)) as T;
+  }
+
+  /**
+   * Encrypt credential fields (env, headers, auth) of a Connection.config
+   */
+  encryptConnectionConfig<T>(connectionConfig: T): T {
+    return this.mapSecretFields(connectionConfig, (value) => this.encryptValue(value));
+  }
+
+  /**
+   * Decrypt credential fields (env, headers, auth) of a Connection.config
+   */
+  decryptConnectionConfig<T>(connectionConfig: T): T {
+    return this.mapSecretFields(connectionConfig, (value) => this.decrypt(value));
+  }
+
+  /**
+   * Check if any credential in a Connection.config needs (re-)encryption
+   */
+  connectionConfigNeedsEncryption(connectionConfig: unknown): boolean {
+    let needed = false;
+    this.mapSecretFields(connectionConfig, (value) => {
+      needed = needed || this.needsEncryption(value);
+      return value;
+    });
+    return needed;
+  }
+
+  private getKeyId(value: string): string | null {
+    const match = value.slice(ENCRYPTED_PREFIX.length).match(/^([0-9a-f]{8}):/);
+    return match ? match[1] : null;
+  }
+
+  private mapSecretFields<T>(connectionConfig: T, fn: (value: string) => string): T {
+    if (!connectionConfig || typeof connectionConfig !== 'object' || Array.isArray(connectionConfig)) {
+      return connectionConfig;
+    }
+
+    const result: Record<string, any> = { ...(connectionConfig as Record<string, any>) };
+
+    for (const field of CONNECTION_SECRET_FIELDS) {
+      if (result[field] !== undefined) {
+        result[field] = mapStrings(result[field], fn);
+      }
+    }
+
+    return result as T;
+  }
+}
+
+/**
+ * Apply a function to every string in a (nested) JSON value
+ */
+function mapStrings(value: any, fn: (value: string) => string): any {
+  if (typeof value === 'string') return fn(value);
+  if (Array.isArray(value)) return value.map((item) => mapStrings(item, fn));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, mapStrings(item, fn)])
+    );
+  }
+  return value;
+}
+
+// SINGLETON: Export singleton instance
+let encryptionInstance: EncryptionService | null = null;
+
+export function getEncryptionService(): EncryptionService {
+  if (!encryptionInstance) {
+    encryptionInstance = new EncryptionService(
+      config.encryption.secret,
+      config.encryption.previousSecrets
+    );
+
+    if (!encryptionInstance.isEnabled()) {
+      console.warn('[Encryption] VM_ENCRYPTION_SECRET is not set - secrets are stored unencrypted');
+    }
+  }
+  return encryptionInstance;
+}
@@ -0,0 +1,100 @@
+/**
+ * Secret Migration
+ *
+ * Encrypts existing plaintext secrets and re-encrypts secrets stored under a
+ * previous key (key rotation). Safe to run repeatedly.
+ */
+
+import { getPrismaClient } from '../../db/client.js';
+import { getEncryptionService } from './encryption.js';
+import { EncryptionError } from '../../utils/errors.js';
+
+export interface SecretMigrationReport {
+  connections: { scanned: number; updated: number };
+  config: { scanned: number; updated: number };
+  failures: Array<{ table: 'connections' | 'config'; id: string; error: string }>;
+  dryRun: boolean;
+}
+
+/**
+ * Encrypt all plaintext or stale-key secrets with the current key
+ *
+ * @param options.dryRun - Only report what would change
+ * @throws EncryptionError if VM_ENCRYPTION_SECRET is not set
+ */
+export async function migrateSecrets(
+  options: { dryRun?: boolean } = {}
+): Promise<SecretMigrationReport> {
+  const service = getEncryptionService();
+  const dryRun = options.dryRun === true;
+
+  if (!service.isEnabled()) {
+    throw new EncryptionError('VM_ENCRYPTION_SECRET is not set - cannot encrypt secrets');
+  }
+
+  // Raw client: values are read and written exactly as stored
+  const prisma = getPrismaClient();
+  const report: SecretMigrationReport = {
+    connections: { scanned: 0, updated: 0 },
+    config: { scanned: 0, updated: 0 },
+    failures: [],
+    dryRun,
+  };
+
+  const connections = await prisma.connection.findMany({
+    select: { id: true, name: true, config: true },
+  });
+
+  for (const connection of connections) {
+    report.connections.scanned++;
+
+    if (!service.connectionConfigNeedsEncryption(connection.config)) continue;
+
+    try {
+      const encrypted = service.encryptConnectionConfig(connection.config);
+
+      if (!dryRun) {
+        await prisma.connection.update({
+          where: { id: connection.id },
+          data: { config: encrypted as any },
+        });
+      }
+
+      report.connections.updated++;
+    } catch (error: any) {
+      report.failures.push({ table: 'connections', id: connection.name, error: error.message });
+    }
+  }
+
+  const entries = await prisma.config.findMany();
+
+  for (const entry of entries) {
+    report.config.scanned++;
+
+    if (!service.needsEncryption(entry.value)) continue;
+
+    try {
+      const encrypted = service.encryptValue(entry.value);
+
+      if (!dryRun) {
+        await prisma.config.update({
+          where: { key: entry.key },
+          data: { value: encrypted },
+        });
+      }
+
+      report.config.updated++;
+    } catch (error: any) {
+      report.failures.push({ table: 'config', id: entry.key, error: error.message });
+    }
+  }
+
+  console.log(
+    `[Encryption] Secret migration${dryRun ? ' (dry run)' : ''}: ` +
+      `${report.connections.updated}/${report.connections.scanned} connections, ` +
+      `${report.config.updated}/${report.config.scanned} config values, ` +
+      `${report.failures.length} failure(s)`
+  );
+
+  return report;
+}
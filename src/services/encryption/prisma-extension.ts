@@ -0,0 +1,115 @@
+/**
+ * Prisma Encryption Extension
+ *
+ * Transparently encrypts secrets on write and decrypts them on read for:
+ * - Connection.config (env, headers, auth)
+ * - Config.value (except "plain:" values)
+ *
+ * Only top-level queries on these models are covered; relations loaded via
+ * `include` (e.g. skill.connections) still hold encrypted values.
+ */
+
+import { Prisma } from '@prisma/client';
+import { getPrismaClient } from '../../db/client.js';
+import { getEncryptionService } from './encryption.js';
+
+const WRITE_OPERATIONS = new Set(['create', 'createMany', 'update', 'updateMany', 'upsert']);
+
+type Transform = (record: Record<string, any>) => Record<string, any>;
+
+/**
+ * Apply a transform to the data payload(s) of a write operation
+ */
+function transformWriteArgs(operation: string, args: any, transform: Transform): any {
+  if (!WRITE_OPERATIONS.has(operation)) return args;
+
+  const apply = (data: any) =>
+    Array.isArray(data) ? data.map(transform) : data ? transform(data) : data;
+
+  if (operation === 'upsert') {
+    return { ...args, create: apply(args.create), update: apply(args.update) };
+  }
+
+  return { ...args, data: apply(args.data) };
+}
+
+/**
+ * Apply a transform to query results (single record, list, or null)
+ */
+function transformResult(result: any, field: string, transform: Transform): any {
+  if (Array.isArray(result)) {
+    return result.map((item) => transformResult(item, field, transform));
+  }
+
+  if (result && typeof result === 'object' && field in result) {
+    return transform(result);
+  }
+
+  return result;
+}
+
+const encryptConnection: Transform = (record) =>
+  record.config !== undefined
+    ? { ...record, config: getEncryptionService().encryptConnectionConfig(record.config) }
+    : record;
+
+const decryptConnection: Transform = (record) => ({
+  ...record,
+  config: getEncryptionService().decryptConnectionConfig(record.config),
+});
+
+const encryptConfig: Transform = (record) => {
+  const service = getEncryptionService();
+
+  if (typeof record.value === 'string') {
+    return { ...record, value: service.encryptValue(record.value) };
+  }
+
+  if (typeof record.value?.set === 'string') {
+    return { ...record, value: { set: service.encryptValue(record.value.set) } };
+  }
+
+  return record;
+};
+
+const decryptConfig: Transform = (record) =>
+  typeof record.value === 'string'
+    ? { ...record, value: getEncryptionService().decrypt(record.value) }
+    : record;
+
+export const encryptionExtension = Prisma.defineExtension({
+  name: 'encryption',
+  query: {
+    connection: {
+      async $allOperations({ operation, args, query }) {
+        const result = await query(transformWriteArgs(operation, args, encryptConnection));
+        return transformResult(result, 'config', decryptConnection);
+      },
+    },
+    config: {
+      async $allOperations({ operation, args, query }) {
+        const result = await query(transformWriteArgs(operation, args, encryptConfig));
+        return transformResult(result, 'value', decryptConfig);
+      },
+    },
+  },
+});
+
+/**
+ * Prisma client with transparent secret encryption
+ */
+export type EncryptedPrismaClient = ReturnType<typeof createEncryptedPrismaClient>;
+
+function createEncryptedPrismaClient() {
+  return getPrismaClient().$extends(encryptionExtension);
+}
+
+// SINGLETON: Export singleton instance
+let encryptedClientInstance: EncryptedPrismaClient | null = null;
+
+export function getEncryptedPrismaClient(): EncryptedPrismaClient {
+  if (!encryptedClientInstance) {
+    encryptedClientInstance = createEncryptedPrismaClient();
+  }
+  return encryptedClientInstance;
+}
@@ -0,0 +1,123 @@
+/**
+ * Memory MCP Server
+ *
+ * In-process MCP server (Claude Agent SDK) that gives the agent its long-term
+ * memory: memory_save, memory_search and memory_delete. It is added to the MCP
+ * servers of every run - one-off agents and workflow steps - when the query
+ * starts. It is never part of the stored mcpConnections: server instances
+ * cannot be serialized into queued jobs.
+ */
+
+import { createSdkMcpServer, tool } from '@anthropic-ai/claude-agent-sdk';
+import { z } from 'zod';
+import { saveMemory, searchMemories, deleteMemory } from './memory.js';
+import { config } from '../../config/index.js';
+
+/** MCP server name (tools are called mcp__memory__memory_save, ...) */
+export const MEMORY_SERVER_NAME = 'memory';
+
+function textResult(text: string, isError = false) {
+  return { content: [{ type: 'text' as const, text }], ...(isError && { isError: true }) };
+}
+
+function errorResult(action: string, error: unknown) {
+  console.error(`[Memory] ${action} failed:`, error);
+  return textResult(`${action} failed: ${error instanceof Error ? error.message : 'Unknown error'}`, true);
+}
+
+/**
+ * Create the memory server for a run
+ *
+ * @param executionId - Execution whose agent uses it (recorded on saved memories)
+ */
+export function createMemoryServer(executionId: string) {
+  return createSdkMcpServer({
+    name: MEMORY_SERVER_NAME,
+    version: '1.0.0',
+    tools: [
+      tool(
+        'memory_save',
+        'Save a fact or preference to long-term memory so later runs know it (e.g. "The user wants reports as PDF"). ' +
+          'Save one self-contained fact per call, only things worth knowing next time.',
+        {
+          content: z.string().min(1).max(5000).describe('The fact or preference, understandable without this conversation'),
+          tags: z.array(z.string().min(1).max(50)).max(10).optional().describe('Labels for filtering, e.g. ["preference", "acme"]'),
+        },
+        async ({ content, tags }) => {
+          try {
+            const memory = await saveMemory(content, tags, executionId);
+            return textResult(`Saved memory ${memory.id}`);
+          } catch (error) {
+            return errorResult('Saving the memory', error);
+          }
+        }
+      ),
+      tool(
+        'memory_search',
+        'Search long-term memory for facts and preferences saved in earlier runs. ' +
+          'Search before asking the user for something they may have told you before.',
+        {
+          query: z.string().min(1).max(1000).describe('What to look for'),
+          tags: z.array(z.string().min(1).max(50)).max(10).optional().describe('Only memories with all of these tags'),
+          limit: z.number().int().min(1).max(50).optional().describe('Most results to return'),
+        },
+        async ({ query, tags, limit }) => {
+          try {
+            const matches = await searchMemories(query, { tags, limit });
+
+            if (matches.length === 0) {
+              return textResult('No matching memories.');
+            }
+
+            return textResult(
+              matches
+                .map((match) => {
+                  const labels = match.tags.length > 0 ? ` [${match.tags.join(', ')}]` : '';
+                  return `- ${match.id}${labels} (${match.createdAt.toISOString().slice(0, 10)}): ${match.content}`;
+                })
+                .join('\n')
+            );
+          } catch (error) {
+            return errorResult('Searching memory', error);
+          }
+        }
+      ),
+      tool(
+        'memory_delete',
+        'Delete a memory that is wrong or outdated (IDs are listed by memory_search).',
+        {
+          id: z.string().min(1).max(100).describe('Memory ID'),
+        },
+        async ({ id }) => {
+          try {
+            return (await deleteMemory(id))
+              ? textResult(`Deleted memory ${id}`)
+              : textResult(`No memory with ID ${id}`, true);
+          } catch (error) {
+            return errorResult('Deleting the memory', error);
+          }
+        }
+      ),
+    ],
+  });
+}
+
+/**
+ * Add the memory server to the MCP servers of a run (unless MEMORY_ENABLED=false)
+ * A connection named "memory" takes precedence over the built-in server.
+ */
+export function withMemoryServer<T extends Record<string, unknown>>(
+  mcpServers: T,
+  executionId: string
+): Record<string, unknown> {
+  if (!config.memory.enabled) {
+    return mcpServers;
+  }
+
+  if (MEMORY_SERVER_NAME in mcpServers) {
+    console.warn(`[Memory] A connection is named "${MEMORY_SERVER_NAME}" - the built-in memory server is not added`);
+    return mcpServers;
+  }
+
+  return { ...mcpServers, [MEMORY_SERVER_NAME]: createMemoryServer(executionId) };
+}
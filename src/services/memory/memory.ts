@@ -0,0 +1,190 @@
+/**
+ * Memory Store
+ *
+ * Long-term memory of the agent: user preferences and facts saved with the
+ * memory_save tool and found again in later runs with memory_search
+ * (see memory-server.ts). Memories are ranked by keywords (BM25, as for the
+ * skill shortlist). With MEMORY_EMBEDDING_URL pointing at a local embedding
+ * model, they are also ranked by meaning (cosine similarity of embeddings).
+ */
+
+import axios from 'axios';
+import { getMemoriesForSearch } from '../../database.js';
+import { createMemory, deleteMemory as deleteMemoryRecord } from '../../db/utils.js';
+import { bm25Scores } from '../../skill-index.js';
+import { config } from '../../config/index.js';
+
+/** Time allowed for one embedding request */
+const EMBEDDING_TIMEOUT_MS = 10000;
+/** Share of the keyword score in the rank when embeddings are compared */
+const KEYWORD_WEIGHT = 0.3;
+/** Similarity from which a memory matches without sharing a keyword */
+const MIN_SIMILARITY = 0.5;
+
+/**
+ * Memory as ranked by a search
+ */
+export interface RankableMemory {
+  id: string;
+  content: string;
+  tags: string[];
+  embedding: number[];
+  createdAt: Date;
+}
+
+/**
+ * Memory found by a search (score: 0-1, best first)
+ */
+export interface MemoryMatch {
+  id: string;
+  content: string;
+  tags: string[];
+  createdAt: Date;
+  score: number;
+}
+
+/**
+ * Lowercase, trimmed and deduplicated tags
+ */
+export function normalizeTags(tags: string[] = []): string[] {
+  return [...new Set(tags.map((tag) => tag.trim().toLowerCase()).filter(Boolean))];
+}
+
+/**
+ * Embed text with the local embedding model (Ollama /api/embeddings format)
+ *
+ * @returns The embedding, or [] if no model is configured or the request failed
+ */
+export async function embedText(text: string): Promise<number[]> {
+  if (!config.memory.embeddingUrl) {
+    return [];
+  }
+
+  try {
+    const response = await axios.post(
+      config.memory.embeddingUrl,
+      { model: config.memory.embeddingModel, prompt: text },
+      { timeout: EMBEDDING_TIMEOUT_MS }
+    );
+    const embedding = response.data?.embedding;
+
+    return Array.isArray(embedding) ? embedding : [];
+  } catch (error) {
+    console.warn(
+      `[Memory] Embedding failed (keyword search only): ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+    return [];
+  }
+}
+
+/**
+ * Cosine similarity of two embeddings (0 if they cannot be compared)
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length === 0 || a.length !== b.length) {
+    return 0;
+  }
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * Rank memories for a query, best match first
+ * Memories that match neither by keyword nor by meaning are left out; equal
+ * scores keep their order (newest first from getMemoriesForSearch).
+ *
+ * @param queryEmbedding - Embedding of the query ([] for keyword ranking only)
+ */
+export function rankMemories(
+  query: string,
+  memories: RankableMemory[],
+  queryEmbedding: number[],
+  limit: number
+): MemoryMatch[] {
+  const keywordScores = bm25Scores(
+    query,
+    memories.map((memory) => `${memory.content}\n${memory.tags.join(' ')}`)
+  );
+  const maxKeywordScore = Math.max(0, ...keywordScores);
+
+  return memories
+    .map((memory, index) => {
+      const keyword = maxKeywordScore > 0 ? keywordScores[index] / maxKeywordScore : 0;
+      const similarity = cosineSimilarity(queryEmbedding, memory.embedding);
+      const compared = queryEmbedding.length > 0 && memory.embedding.length > 0;
+
+      let score = keyword;
+      if (compared) {
+        score = keyword > 0 || similarity >= MIN_SIMILARITY
+          ? (1 - KEYWORD_WEIGHT) * Math.max(similarity, 0) + KEYWORD_WEIGHT * keyword
+          : 0;
+      }
+
+      const { embedding, ...match } = memory;
+      return { ...match, score };
+    })
+    .filter((match) => match.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+/**
+ * Save a memory (embedded when an embedding model is configured)
+ *
+ * @param executionId - Execution whose agent saved it
+ */
+export async function saveMemory(content: string, tags: string[] = [], executionId?: string) {
+  const text = content.trim();
+  const memory = await createMemory({
+    content: text,
+    tags: normalizeTags(tags),
+    embedding: await embedText(text),
+    executionId,
+  });
+
+  console.log(`[Memory] Saved ${memory.id}${memory.tags.length > 0 ? ` (${memory.tags.join(', ')})` : ''}`);
+  return memory;
+}
+
+/**
+ * Search memories
+ *
+ * @param options.tags - Only memories with all of these tags
+ * @param options.limit - Most results (default MEMORY_SEARCH_LIMIT)
+ */
+export async function searchMemories(
+  query: string,
+  options: { tags?: string[]; limit?: number } = {}
+): Promise<MemoryMatch[]> {
+  const memories = await getMemoriesForSearch(normalizeTags(options.tags));
+  const queryEmbedding = memories.some((memory) => memory.embedding.length > 0)
+    ? await embedText(query)
+    : [];
+
+  return rankMemories(query, memories, queryEmbedding, options.limit ?? config.memory.searchLimit);
+}
+
+/**
+ * Delete a memory
+ *
+ * @returns true if the memory existed
+ */
+export async function deleteMemory(id: string): Promise<boolean> {
+  const deleted = await deleteMemoryRecord(id);
+
+  if (deleted) {
+    console.log(`[Memory] Deleted ${id}`);
+  }
+
+  return deleted;
+}
@@ -0,0 +1,435 @@
+/**
+ * Job Queue
+ *
+ * Postgres-backed queue for background work (async webhook requests, callbacks).
+ * Jobs survive restarts: a worker claims them with FOR UPDATE SKIP LOCKED,
+ * so several workers (or server instances) never run the same job.
+ *
+ * - Up to QUEUE_CONCURRENCY jobs run at the same time
+ * - Failed jobs are retried with exponential backoff (by default only
+ *   transient agent errors; see JobHandlerOptions)
+ * - On shutdown the worker stops claiming and waits for its running jobs (up
+ *   to QUEUE_SHUTDOWN_GRACE_MS)
+ * - The worker refreshes the locks of its running jobs (heartbeat); jobs whose
+ *   worker died or stopped while they ran are requeued once their lock expires
+ */
+
+import os from 'os';
+import crypto from 'crypto';
+import { getPrismaClient, onBeforeDisconnect } from '../../db/client.js';
+import { isTransientError } from '../../utils/errors.js';
+import { config } from '../../config/index.js';
+
+/**
+ * Attempt details passed to job handlers
+ */
+export interface JobContext {
+  jobId: string;
+  /** Current attempt (1-based) */
+  attempt: number;
+  maxAttempts: number;
+  /** True if a failure will not be retried */
+  isFinalAttempt: boolean;
+}
+
+export type JobHandler = (payload: any, context: JobContext) => Promise<void>;
+
+/**
+ * Retry policy of a job type
+ */
+export interface JobHandlerOptions {
+  /** Whether a failed attempt should be retried (default: transient agent errors) */
+  isRetryable?: (error: unknown) => boolean;
+  /** Delay before the first retry, doubled per retry (default: QUEUE_RETRY_BASE_DELAY_MS) */
+  retryBaseDelayMs?: number;
+}
+
+interface RegisteredHandler extends Required<JobHandlerOptions> {
+  handle: JobHandler;
+}
+
+export interface QueueStats {
+  /** Jobs waiting to run (including scheduled retries) */
+  depth: number;
+  /** Jobs currently claimed by a worker */
+  running: number;
+  /** Age of the oldest waiting job (null if the queue is empty) */
+  oldestJobAgeMs: number | null;
+}
+
+interface ClaimedJob {
+  id: string;
+  type: string;
+  payload: any;
+  attempts: number;
+  maxAttempts: number;
+}
+
+/** Upper bound for the retry delay */
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000; // 1 hour
+
+/**
+ * Delay before retrying a job after a failed attempt
+ * Doubles with every attempt: base, 2x base, 4x base, ...
+ *
+ * @param attempt - Attempt that failed (1-based)
+ * @param baseDelayMs - Delay after the first attempt
+ */
+export function getRetryDelayMs(attempt: number, baseDelayMs: number): number {
+  return Math.min(baseDelayMs * 2 ** Math.max(attempt - 1, 0), MAX_RETRY_DELAY_MS);
+}
+
+/**
+ * Add a job to the queue
+ *
+ * @param type - Job type (selects the registered handler)
+ * @param payload - JSON payload passed to the handler
+ * @param options.maxAttempts - Attempts before the job is marked failed
+ * @returns Created job ID
+ */
+export async function enqueueJob(
+  type: string,
+  payload: Record<string, any>,
+  options: { maxAttempts?: number } = {}
+): Promise<string> {
+  const prisma = getPrismaClient();
+
+  const job = await prisma.job.create({
+    data: {
+      type,
+      payload,
+      maxAttempts: options.maxAttempts ?? config.queue.maxAttempts,
+    },
+    select: { id: true },
+  });
+
+  return job.id;
+}
+
+/**
+ * Get queue depth and the age of the oldest waiting job
+ */
+export async function getQueueStats(): Promise<QueueStats> {
+  const prisma = getPrismaClient();
+
+  const [row] = await prisma.$queryRaw<
+    Array<{ depth: number; running: number; oldest: Date | null }>
+  >`
+    SELECT
+      count(*) FILTER (WHERE status = 'queued')::int AS depth,
+      count(*) FILTER (WHERE status = 'running')::int AS running,
+      min(created_at) FILTER (WHERE status = 'queued') AS oldest
+    FROM jobs
+    WHERE status IN ('queued', 'running')
+  `;
+
+  return {
+    depth: row?.depth || 0,
+    running: row?.running || 0,
+    oldestJobAgeMs: row?.oldest ? Math.max(Date.now() - new Date(row.oldest).getTime(), 0) : null,
+  };
+}
+
+export class JobWorker {
+  readonly id = `${os.hostname()}:${process.pid}:${crypto.randomUUID().slice(0, 8)}`;
+
+  private handlers = new Map<string, RegisteredHandler>();
+  /** Running jobs (job ID → run) */
+  private active = new Map<string, Promise<void>>();
+  private timer: NodeJS.Timeout | null = null;
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+  private polling = false;
+  private started = false;
+  private stopping: Promise<void> | null = null;
+  private lastReapAt = 0;
+
+  /**
+   * Register the handler for a job type
+   */
+  registerHandler(type: string, handler: JobHandler, options: JobHandlerOptions = {}): void {
+    this.handlers.set(type, {
+      handle: handler,
+      isRetryable: options.isRetryable || isTransientError,
+      retryBaseDelayMs: options.retryBaseDelayMs ?? config.queue.retryBaseDelayMs,
+    });
+  }
+
+  /**
+   * Start claiming and running jobs
+   */
+  async start(): Promise<void> {
+    if (this.started) return;
+    this.started = true;
+    this.stopping = null;
+
+    // Let running jobs finish before the database client disconnects
+    onBeforeDisconnect(() => this.stop());
+
+    await this.reapStaleJobs();
+
+    // Refresh locks on a timer of its own, so they stay fresh however long a poll takes
+    this.heartbeatTimer = setInterval(() => void this.heartbeat(), config.queue.lockTimeoutMs / 3);
+    this.heartbeatTimer.unref();
+
+    console.log(
+      `[Queue] Worker ${this.id} started (concurrency: ${config.queue.concurrency}, handlers: ${[...this.handlers.keys()].join(', ') || 'none'})`
+    );
+
+    this.schedulePoll(0);
+  }
+
+  /**
+   * Stop claiming jobs and wait for the running ones (up to QUEUE_SHUTDOWN_GRACE_MS)
+   * Jobs still running then keep their lock, which is no longer refreshed: they
+   * are requeued by the stale-lock reaper (of another worker, or the next start).
+   */
+  stop(): Promise<void> {
+    if (!this.stopping) {
+      this.stopping = this.shutdown();
+    }
+    return this.stopping;
+  }
+
+  /**
+   * Get worker state (for diagnostics)
+   */
+  getStatus(): { workerId: string; started: boolean; activeJobs: string[] } {
+    return { workerId: this.id, started: this.started, activeJobs: [...this.active.keys()] };
+  }
+
+  private async shutdown(): Promise<void> {
+    const wasStarted = this.started;
+    this.started = false;
+
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    if (!wasStarted) return;
+
+    // Handing back a job whose handler still runs would let another worker run it twice
+    if (this.active.size > 0) {
+      console.log(
+        `[Queue] Waiting up to ${config.queue.shutdownGraceMs}ms for ${this.active.size} running job(s)`
+      );
+
+      let graceTimer: NodeJS.Timeout | undefined;
+      await Promise.race([
+        Promise.allSettled(this.active.values()),
+        new Promise((resolve) => {
+          graceTimer = setTimeout(resolve, config.queue.shutdownGraceMs);
+        }),
+      ]);
+      clearTimeout(graceTimer);
+    }
+
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+
+    if (this.active.size > 0) {
+      console.warn(
+        `[Queue] ${this.active.size} job(s) still running - they are requeued once their lock expires`
+      );
+    }
+
+    console.log('[Queue] Worker stopped');
+  }
+
+  /**
+   * Arm the poll timer (one pending poll at a time)
+   */
+  private schedulePoll(delayMs: number): void {
+    if (!this.started) return;
+
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.poll()
+        .catch((error) => console.error('[Queue] Poll failed:', error.message))
+        .finally(() => {
+          if (!this.timer) this.schedulePoll(config.queue.pollIntervalMs);
+        });
+    }, delayMs);
+
+    // Never keep the process alive just for polling
+    this.timer.unref();
+  }
+
+  /**
+   * Claim jobs until the concurrency limit is reached or the queue is empty
+   */
+  private async poll(): Promise<void> {
+    if (this.polling) return;
+    this.polling = true;
+
+    try {
+      if (Date.now() - this.lastReapAt >= config.queue.lockTimeoutMs / 2) {
+        await this.reapStaleJobs();
+      }
+
+      while (this.started && this.active.size < config.queue.concurrency) {
+        const job = await this.claim();
+        if (!job) break;
+
+        this.active.set(
+          job.id,
+          this.run(job).finally(() => {
+            this.active.delete(job.id);
+            this.schedulePoll(0); // A slot is free - look for more work
+          })
+        );
+      }
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  /**
+   * Atomically claim the next due job of a registered type
+   */
+  private async claim(): Promise<ClaimedJob | null> {
+    const types = [...this.handlers.keys()];
+    if (types.length === 0) return null;
+
+    const prisma = getPrismaClient();
+
+    const rows = await prisma.$queryRaw<ClaimedJob[]>`
+      UPDATE jobs
+      SET status = 'running', locked_at = now(), locked_by = ${this.id},
+          attempts = attempts + 1, updated_at = now()
+      WHERE id = (
+        SELECT id FROM jobs
+        WHERE status = 'queued' AND run_at <= now() AND type = ANY(${types})
+        ORDER BY run_at, created_at
+        FOR UPDATE SKIP LOCKED
+        LIMIT 1
+      )
+      RETURNING id, type, payload, attempts, max_attempts AS "maxAttempts"
+    `;
+
+    return rows[0] || null;
+  }
+
+  /**
+   * Run a claimed job and record the outcome
+   * Only the worker holding the lock may record it (the job may have been
+   * requeued by the stale-lock reaper in the meantime).
+   */
+  private async run(job: ClaimedJob): Promise<void> {
+    const prisma = getPrismaClient();
+    const handler = this.handlers.get(job.type)!;
+    const isFinalAttempt = job.attempts >= job.maxAttempts;
+    const owned = { id: job.id, lockedBy: this.id, status: 'running' };
+
+    console.log(`[Queue] Running ${job.type} job ${job.id} (attempt ${job.attempts}/${job.maxAttempts})`);
+
+    try {
+      await handler.handle(job.payload, {
+        jobId: job.id,
+        attempt: job.attempts,
+        maxAttempts: job.maxAttempts,
+        isFinalAttempt,
+      });
+
+      await prisma.job.updateMany({
+        where: owned,
+        data: { status: 'completed', completedAt: new Date(), lockedAt: null, lockedBy: null },
+      });
+
+      console.log(`[Queue] Completed ${job.type} job ${job.id}`);
+    } catch (error: any) {
+      const lastError = error.cause?.message ? `${error.message}: ${error.cause.message}` : error.message;
+
+      try {
+        if (!isFinalAttempt && handler.isRetryable(error)) {
+          const delayMs = getRetryDelayMs(job.attempts, handler.retryBaseDelayMs);
+
+          await prisma.job.updateMany({
+            where: owned,
+            data: {
+              status: 'queued',
+              runAt: new Date(Date.now() + delayMs),
+              lockedAt: null,
+              lockedBy: null,
+              lastError,
+            },
+          });
+
+          console.warn(
+            `[Queue] ${job.type} job ${job.id} failed - retrying in ${Math.round(delayMs / 1000)}s: ${lastError}`
+          );
+          return;
+        }
+
+        await prisma.job.updateMany({
+          where: owned,
+          data: { status: 'failed', completedAt: new Date(), lockedAt: null, lockedBy: null, lastError },
+        });
+      } catch (updateError: any) {
+        console.error(`[Queue] Failed to record outcome of job ${job.id}:`, updateError.message);
+      }
+
+      console.error(`[Queue] ${job.type} job ${job.id} failed: ${lastError}`);
+    }
+  }
+
+  /**
+   * Refresh the locks of the jobs this worker is running, so long jobs are not
+   * mistaken for jobs of a dead worker
+   */
+  private async heartbeat(): Promise<void> {
+    if (this.active.size === 0) return;
+    const prisma = getPrismaClient();
+
+    try {
+      await prisma.$executeRaw`
+        UPDATE jobs
+        SET locked_at = now(), updated_at = now()
+        WHERE id = ANY(${[...this.active.keys()]}) AND locked_by = ${this.id} AND status = 'running'
+      `;
+    } catch (error: any) {
+      console.error('[Queue] Failed to refresh job locks:', error.message);
+    }
+  }
+
+  /**
+   * Requeue jobs whose lock expired (worker crashed or was killed)
+   * Jobs that already used all attempts are marked failed instead. Jobs of
+   * this worker are still running (their locks are refreshed by the heartbeat).
+   */
+  private async reapStaleJobs(): Promise<void> {
+    this.lastReapAt = Date.now();
+    const prisma = getPrismaClient();
+
+    const reaped = await prisma.$executeRaw`
+      UPDATE jobs
+      SET status = CASE WHEN attempts >= max_attempts THEN 'failed' ELSE 'queued' END,
+          completed_at = CASE WHEN attempts >= max_attempts THEN now() ELSE NULL END,
+          last_error = 'Worker stopped responding (lock expired)',
+          locked_at = NULL, locked_by = NULL, updated_at = now()
+      WHERE status = 'running'
+        AND locked_by IS DISTINCT FROM ${this.id}
+        AND locked_at < now() - (${config.queue.lockTimeoutMs}::int * interval '1 millisecond')
+    `;
+
+    if (reaped > 0) {
+      console.warn(`[Queue] Recovered ${reaped} job(s) with expired locks`);
+    }
+  }
+}
+
+// SINGLETON: Export singleton instance
+let workerInstance: JobWorker | null = null;
+
+export function getJobWorker(): JobWorker {
+  if (!workerInstance) {
+    workerInstance = new JobWorker();
+  }
+  return workerInstance;
+}
@@ -0,0 +1,273 @@
+/**
+ * Cron Expression Parser
+ *
+ * Parses standard 5-field cron expressions (minute hour day-of-month month day-of-week)
+ * and computes fire times in an IANA timezone.
+ *
+ * Supported syntax: `*`, lists (`1,15`), ranges (`1-5`), steps (`*\/15`, `0-30/5`),
+ * month/day names (`JAN`, `MON`) and macros (`@daily`, `@hourly`, ...).
+ */
+
+export interface CronSchedule {
+  expression: string;
+  timezone: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  /** Day-of-month field matches every day (e.g. '*', '*\/1', '1-31'; affects day matching semantics) */
+  anyDayOfMonth: boolean;
+  /** Day-of-week field matches every day (e.g. '*', '0-6'; affects day matching semantics) */
+  anyDayOfWeek: boolean;
+}
+
+export class CronParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CronParseError';
+  }
+}
+
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+const MONTH_NAMES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+const DAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+
+/** Upper bound for the next-fire search (covers leap-day schedules) */
+const MAX_SEARCH_YEARS = 8;
+
+/**
+ * Parse a single cron field into the set of matching values
+ */
+function parseField(
+  field: string,
+  min: number,
+  max: number,
+  label: string,
+  names?: string[],
+  nameOffset: number = 0
+): Set<number> {
+  const values = new Set<number>();
+
+  const toNumber = (token: string): number => {
+    const upper = token.toUpperCase();
+    if (names) {
+      const index = names.indexOf(upper);
+      if (index !== -1) return index + nameOffset;
+    }
+    if (!/^\d+$/.test(token)) {
+      throw new CronParseError(`Invalid ${label} value "${token}"`);
+    }
+    return parseInt(token, 10);
+  };
+
+  for (const part of field.split(',')) {
+    const [rangePart, stepPart] = part.split('/');
+    const step = stepPart === undefined ? 1 : parseInt(stepPart, 10);
+
+    if (stepPart !== undefined && (!/^\d+$/.test(stepPart) || step < 1)) {
+      throw new CronParseError(`Invalid ${label} step "${stepPart}"`);
+    }
+
+    let start: number;
+    let end: number;
+
+    if (rangePart === '*') {
+      start = min;
+      end = max;
+    } else if (rangePart.includes('-')) {
+      const [from, to] = rangePart.split('-');
+      start = toNumber(from);
+      end = toNumber(to);
+    } else {
+      start = toNumber(rangePart);
+      // "5/15" means "from 5 to max every 15"
+      end = stepPart !== undefined ? max : start;
+    }
+
+    if (start < min || end > max || start > end) {
+      throw new CronParseError(`${label} range "${rangePart}" is outside ${min}-${max}`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Verify that a timezone is a valid IANA identifier
+ */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Parse a cron expression
+ *
+ * @param expression - 5-field cron expression or macro
+ * @param timezone - IANA timezone the expression is evaluated in
+ * @throws CronParseError if the expression or timezone is invalid
+ */
+export function parseCron(expression: string, timezone: string = 'UTC'): CronSchedule {
+  const trimmed = expression.trim();
+  const normalized = MACROS[trimmed.toLowerCase()] || trimmed;
+  const fields = normalized.split(/\s+/);
+
+  if (fields.length !== 5) {
+    throw new CronParseError(
+      `Cron expression must have 5 fields (got ${fields.length}): "${expression}"`
+    );
+  }
+
+  if (!isValidTimezone(timezone)) {
+    throw new CronParseError(`Unknown timezone "${timezone}"`);
+  }
+
+  const [minuteField, hourField, domField, monthField, dowField] = fields;
+
+  const daysOfWeek = parseField(dowField, 0, 7, 'day-of-week', DAY_NAMES);
+  // Both 0 and 7 mean Sunday
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.delete(7);
+    daysOfWeek.add(0);
+  }
+
+  const daysOfMonth = parseField(domField, 1, 31, 'day-of-month');
+
+  return {
+    expression: trimmed,
+    timezone,
+    minutes: parseField(minuteField, 0, 59, 'minute'),
+    hours: parseField(hourField, 0, 23, 'hour'),
+    daysOfMonth,
+    months: parseField(monthField, 1, 12, 'month', MONTH_NAMES, 1),
+    daysOfWeek,
+    anyDayOfMonth: daysOfMonth.size === 31,
+    anyDayOfWeek: daysOfWeek.size === 7,
+  };
+}
+
+/**
+ * Get wall-clock time in a timezone, encoded as a UTC timestamp
+ * (i.e. the UTC fields of the result equal the local fields)
+ */
+function toWallClock(date: Date, timezone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(date);
+
+  const get = (type: string) =>
+    parseInt(parts.find((p) => p.type === type)?.value || '0', 10);
+
+  return Date.UTC(
+    get('year'),
+    get('month') - 1,
+    get('day'),
+    get('hour'),
+    get('minute'),
+    get('second')
+  );
+}
+
+/**
+ * Convert wall-clock time in a timezone back to an instant
+ * Wall times skipped by a DST transition resolve to the shifted instant.
+ */
+function fromWallClock(wall: number, timezone: string): Date {
+  let guess = wall;
+  // Two passes settle the offset, including across DST transitions
+  for (let i = 0; i < 2; i++) {
+    const offset = toWallClock(new Date(guess), timezone) - guess;
+    guess = wall - offset;
+  }
+  return new Date(guess);
+}
+
+/**
+ * Check whether a calendar day matches the day-of-month/day-of-week fields
+ * Standard cron semantics: if both fields are restricted, either may match.
+ */
+function matchesDay(schedule: CronSchedule, day: Date): boolean {
+  const domMatch = schedule.daysOfMonth.has(day.getUTCDate());
+  const dowMatch = schedule.daysOfWeek.has(day.getUTCDay());
+
+  if (schedule.anyDayOfMonth && schedule.anyDayOfWeek) return true;
+  if (schedule.anyDayOfMonth) return dowMatch;
+  if (schedule.anyDayOfWeek) return domMatch;
+  return domMatch || dowMatch;
+}
+
+/**
+ * Compute the next fire time strictly after a given instant
+ *
+ * @param schedule - Parsed cron schedule
+ * @param after - Reference instant
+ * @returns Next fire time, or null if none within the search window
+ */
+export function getNextFireTime(schedule: CronSchedule, after: Date): Date | null {
+  // Start at the next whole minute in wall-clock time
+  let wall = Math.floor(toWallClock(after, schedule.timezone) / 60000) * 60000 + 60000;
+  const limit = wall + MAX_SEARCH_YEARS * 366 * 24 * 60 * 60 * 1000;
+
+  while (wall <= limit) {
+    const d = new Date(wall);
+    const year = d.getUTCFullYear();
+    const month = d.getUTCMonth();
+    const day = d.getUTCDate();
+    const hour = d.getUTCHours();
+
+    if (!schedule.months.has(month + 1)) {
+      wall = Date.UTC(year, month + 1, 1);
+      continue;
+    }
+
+    if (!matchesDay(schedule, d)) {
+      wall = Date.UTC(year, month, day + 1);
+      continue;
+    }
+
+    if (!schedule.hours.has(hour)) {
+      wall = Date.UTC(year, month, day, hour + 1);
+      continue;
+    }
+
+    if (!schedule.minutes.has(d.getUTCMinutes())) {
+      wall += 60000;
+      continue;
+    }
+
+    const instant = fromWallClock(wall, schedule.timezone);
+    if (instant.getTime() > after.getTime()) {
+      return instant;
+    }
+
+    // Repeated wall time (DST fall-back) already fired - keep searching
+    wall += 60000;
+  }
+
+  return null;
+}
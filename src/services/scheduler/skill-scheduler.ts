@@ -0,0 +1,349 @@
+/**
+ * Skill Scheduler
+ *
+ * Runs active skills with triggerType 'schedule' at the fire times of their
+ * cron expression (triggerConfig: {cron, timezone?, prompt?, catchUp?, inputs?}).
+ *
+ * - Skills are reloaded periodically, so created/edited skills are picked up
+ * - Each fire time is claimed in the database (Skill.lastScheduledFor), so with
+ *   several server instances only one of them runs it
+ * - A skill never runs twice at the same time (overlapping fires are skipped)
+ * - Fire times missed while the server was down are caught up with one run
+ */
+
+import crypto from 'crypto';
+import { parseCron, getNextFireTime, CronSchedule } from './cron.js';
+import {
+  getScheduledSkills,
+  getLastScheduledRunAt,
+  getSkillById,
+  hasUnfinishedScheduledRun,
+} from '../../database.js';
+import { claimScheduledRun } from '../../db/utils.js';
+import { runSkill } from '../../skill-runner.js';
+import { config } from '../../config/index.js';
+import type { Workflow } from '../../types.js';
+
+/**
+ * Schedule trigger configuration stored on Skill.triggerConfig
+ */
+export interface ScheduleTriggerConfig {
+  /** 5-field cron expression or macro (e.g. "0 9 * * 1-5", "@daily") */
+  cron: string;
+  /** IANA timezone (defaults to SCHEDULER_TIMEZONE) */
+  timezone?: string;
+  /** Prompt for each run (defaults to the skill description) */
+  prompt?: string;
+  /** Run once on startup if fire times were missed (default: true) */
+  catchUp?: boolean;
+  /** Values for the skill's input parameters (see Skill.inputs) */
+  inputs?: Record<string, unknown>;
+}
+
+interface ScheduledSkill {
+  id: string;
+  name: string;
+  prompt: string;
+  inputs?: Record<string, unknown>;
+  schedule: CronSchedule;
+  nextFireAt: Date | null;
+  /** Missed run owed on startup (claimed only if no instance ran a fire time after lastScheduledFor) */
+  catchUp?: { lastScheduledFor: Date | null };
+}
+
+export class SkillScheduler {
+  private skills = new Map<string, ScheduledSkill>();
+  private running = new Set<string>();
+  private timer: NodeJS.Timeout | null = null;
+  private lastReloadAt = 0;
+  private started = false;
+
+  /**
+   * Load scheduled skills and start firing them
+   */
+  async start(): Promise<void> {
+    if (this.started) return;
+    this.started = true;
+
+    await this.reload();
+    console.log(`[Scheduler] Started with ${this.skills.size} scheduled skill(s)`);
+
+    this.scheduleTick();
+  }
+
+  /**
+   * Stop firing skills (runs already in progress are not interrupted)
+   */
+  stop(): void {
+    this.started = false;
+
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    console.log('[Scheduler] Stopped');
+  }
+
+  /**
+   * Get current schedule (for diagnostics)
+   */
+  getStatus(): Array<{ skillId: string; name: string; cron: string; timezone: string; nextFireAt: string | null; running: boolean }> {
+    return [...this.skills.values()].map((skill) => ({
+      skillId: skill.id,
+      name: skill.name,
+      cron: skill.schedule.expression,
+      timezone: skill.schedule.timezone,
+      nextFireAt: skill.nextFireAt?.toISOString() || null,
+      running: this.running.has(skill.id),
+    }));
+  }
+
+  /**
+   * Reload scheduled skills from the database
+   * Unchanged schedules keep their next fire time.
+   */
+  async reload(): Promise<void> {
+    this.lastReloadAt = Date.now();
+    const rows = await getScheduledSkills();
+    const seen = new Set<string>();
+
+    for (const row of rows) {
+      const triggerConfig = (row.triggerConfig || {}) as Partial<ScheduleTriggerConfig>;
+
+      if (typeof triggerConfig.cron !== 'string' || !triggerConfig.cron.trim()) {
+        console.warn(`[Scheduler] Skill "${row.name}" has no cron expression - skipping`);
+        continue;
+      }
+
+      let schedule: CronSchedule;
+      try {
+        schedule = parseCron(triggerConfig.cron, triggerConfig.timezone || config.scheduler.timezone);
+      } catch (error: any) {
+        console.warn(`[Scheduler] Skill "${row.name}" has an invalid schedule - skipping: ${error.message}`);
+        continue;
+      }
+
+      seen.add(row.id);
+
+      const prompt =
+        triggerConfig.prompt || row.description || `Run the "${row.name}" skill.`;
+      const existing = this.skills.get(row.id);
+
+      if (
+        existing &&
+        existing.schedule.expression === schedule.expression &&
+        existing.schedule.timezone === schedule.timezone
+      ) {
+        existing.name = row.name;
+        existing.prompt = prompt;
+        existing.inputs = triggerConfig.inputs;
+        continue;
+      }
+
+      // An edited schedule starts fresh; a newly loaded one may owe a missed run
+      const { nextFireAt, catchUp } = existing
+        ? { nextFireAt: getNextFireTime(schedule, new Date()), catchUp: undefined }
+        : await this.computeInitialFireTime(
+            row.id,
+            row.name,
+            schedule,
+            row.lastScheduledFor,
+            row.createdAt,
+            triggerConfig.catchUp !== false
+          );
+
+      this.skills.set(row.id, {
+        id: row.id,
+        name: row.name,
+        prompt,
+        inputs: triggerConfig.inputs,
+        schedule,
+        nextFireAt,
+        catchUp,
+      });
+
+      console.log(
+        `[Scheduler] Scheduled "${row.name}" (${schedule.expression} ${schedule.timezone}) - next run: ${nextFireAt?.toISOString() || 'never'}`
+      );
+    }
+
+    // Drop skills that were deleted, deactivated or unscheduled
+    for (const id of this.skills.keys()) {
+      if (!seen.has(id)) {
+        console.log(`[Scheduler] Unscheduled "${this.skills.get(id)!.name}"`);
+        this.skills.delete(id);
+      }
+    }
+  }
+
+  /**
+   * Determine the first fire time of a newly loaded schedule
+   * If a fire time passed since the last scheduled run, the skill is due now.
+   *
+   * @param lastScheduledFor - Last claimed fire time (null for skills that never
+   *   ran since claims were introduced - their last scheduled execution counts)
+   */
+  private async computeInitialFireTime(
+    skillId: string,
+    skillName: string,
+    schedule: CronSchedule,
+    lastScheduledFor: Date | null,
+    createdAt: Date,
+    catchUp: boolean
+  ): Promise<Pick<ScheduledSkill, 'nextFireAt' | 'catchUp'>> {
+    const now = new Date();
+    const anchor = lastScheduledFor || (await getLastScheduledRunAt(skillId)) || createdAt;
+    const missed = getNextFireTime(schedule, anchor);
+
+    if (missed && missed <= now) {
+      if (catchUp) {
+        console.log(
+          `[Scheduler] "${skillName}" missed its run at ${missed.toISOString()} - catching up`
+        );
+        return { nextFireAt: now, catchUp: { lastScheduledFor } };
+      }
+
+      console.log(`[Scheduler] "${skillName}" missed its run at ${missed.toISOString()} - skipping`);
+    }
+
+    return { nextFireAt: getNextFireTime(schedule, now) };
+  }
+
+  /**
+   * Arm the timer for the next due skill or reload, whichever is sooner
+   */
+  private scheduleTick(): void {
+    if (!this.started) return;
+
+    const now = Date.now();
+    let delay = Math.max(this.lastReloadAt + config.scheduler.pollIntervalMs - now, 0);
+
+    for (const skill of this.skills.values()) {
+      if (skill.nextFireAt) {
+        delay = Math.min(delay, Math.max(skill.nextFireAt.getTime() - now, 0));
+      }
+    }
+
+    this.timer = setTimeout(() => {
+      this.tick()
+        .catch((error) => console.error('[Scheduler] Tick failed:', error))
+        .finally(() => this.scheduleTick());
+    }, Math.max(delay, 1000));
+
+    // Never keep the process alive just for the scheduler
+    this.timer.unref();
+  }
+
+  /**
+   * Fire due skills and periodically reload the schedule
+   */
+  private async tick(): Promise<void> {
+    if (Date.now() - this.lastReloadAt >= config.scheduler.pollIntervalMs) {
+      await this.reload();
+    }
+
+    const now = new Date();
+
+    for (const skill of this.skills.values()) {
+      if (!skill.nextFireAt || skill.nextFireAt > now) continue;
+
+      const scheduledFor = skill.nextFireAt;
+      const catchUp = skill.catchUp;
+      skill.nextFireAt = getNextFireTime(skill.schedule, now);
+      skill.catchUp = undefined;
+
+      this.fire(skill, scheduledFor, catchUp);
+    }
+  }
+
+  /**
+   * Run a skill in the background unless its previous run is still going
+   */
+  private fire(skill: ScheduledSkill, scheduledFor: Date, catchUp?: ScheduledSkill['catchUp']): void {
+    if (this.running.has(skill.id)) {
+      console.warn(
+        `[Scheduler] "${skill.name}" is still running - skipping run scheduled for ${scheduledFor.toISOString()}`
+      );
+      return;
+    }
+
+    this.running.add(skill.id);
+
+    this.execute(skill, scheduledFor, catchUp)
+      .catch((error) => {
+        console.error(`[Scheduler] Scheduled run of "${skill.name}" failed:`, error.message);
+      })
+      .finally(() => {
+        this.running.delete(skill.id);
+      });
+  }
+
+  private async execute(
+    skill: ScheduledSkill,
+    scheduledFor: Date,
+    catchUp?: ScheduledSkill['catchUp']
+  ): Promise<void> {
+    if (!(await claimScheduledRun(skill.id, scheduledFor, catchUp?.lastScheduledFor))) {
+      console.log(
+        `[Scheduler] "${skill.name}" run scheduled for ${scheduledFor.toISOString()} is handled by another instance`
+      );
+      return;
+    }
+
+    // The previous run may be going on another instance
+    if (await hasUnfinishedScheduledRun(skill.id)) {
+      console.warn(
+        `[Scheduler] "${skill.name}" is still running - skipping run scheduled for ${scheduledFor.toISOString()}`
+      );
+      return;
+    }
+
+    const workflow = await getSkillById(skill.id);
+
+    if (!workflow) {
+      console.warn(`[Scheduler] Skill "${skill.name}" no longer exists - skipping`);
+      return;
+    }
+
+    const requestId = crypto.randomUUID();
+    console.log(`[Scheduler] Running "${skill.name}" (execution: ${requestId})`);
+
+    await runSkill({
+      skill: workflow as any as Workflow, // Type cast for Prisma result
+      prompt: skill.prompt,
+      trigger: 'schedule',
+      requestId,
+      payload: skill.inputs,
+      input: {
+        scheduledFor: scheduledFor.toISOString(),
+        cron: skill.schedule.expression,
+        timezone: skill.schedule.timezone,
+      },
+    });
+
+    console.log(`[Scheduler] Completed "${skill.name}" (execution: ${requestId})`);
+  }
+}
+
+// SINGLETON: Export singleton instance
+let schedulerInstance: SkillScheduler | null = null;
+
+export function getSkillScheduler(): SkillScheduler {
+  if (!schedulerInstance) {
+    schedulerInstance = new SkillScheduler();
+  }
+  return schedulerInstance;
+}
+
+/**
+ * Helper function to start the scheduler (used on startup)
+ */
+export async function startSkillScheduler(): Promise<void> {
+  if (!config.scheduler.enabled) {
+    console.log('[Scheduler] Disabled (SCHEDULER_ENABLED=false)');
+    return;
+  }
+
+  await getSkillScheduler().start();
+}
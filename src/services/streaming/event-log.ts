@@ -0,0 +1,178 @@
+/**
+ * Execution Event Log
+ *
+ * In-memory log of the SSE events of each execution (execution ID = request ID).
+ * Every event gets an ID that increases monotonically within its execution,
+ * so clients can reconnect with Last-Event-ID and replay what they missed.
+ *
+ * - Any number of subscribers per execution
+ * - Up to STREAM_BUFFER_SIZE events are kept per execution (oldest dropped first)
+ * - Logs of finished runs are kept for STREAM_RETENTION_MS for late joiners
+ * - Appending to a finished log reopens it (e.g. a resumed run)
+ */
+
+import { config } from '../../config/index.js';
+
+/**
+ * An event of an execution's stream
+ */
+export interface ExecutionEvent {
+  /** Monotonically increasing within the execution (1-based) */
+  id: number;
+  data: Record<string, any>;
+}
+
+/**
+ * Receiver of an execution's events (e.g. an SSE response)
+ */
+export interface EventSubscriber {
+  send(event: ExecutionEvent): void;
+  /** Called once the run has finished (after its final event) */
+  end(): void;
+}
+
+interface ExecutionLog {
+  events: ExecutionEvent[];
+  lastId: number;
+  subscribers: Set<EventSubscriber>;
+  finished: boolean;
+  evictTimer: NodeJS.Timeout | null;
+}
+
+export class ExecutionEventLog {
+  private logs = new Map<string, ExecutionLog>();
+
+  /**
+   * Append an event and deliver it to the current subscribers
+   */
+  append(executionId: string, data: Record<string, any>): ExecutionEvent {
+    const log = this.getOrCreate(executionId);
+
+    if (log.finished) {
+      log.finished = false;
+      this.cancelEviction(log);
+    }
+
+    const event: ExecutionEvent = { id: ++log.lastId, data };
+    log.events.push(event);
+
+    if (log.events.length > config.stream.bufferSize) {
+      log.events.shift();
+    }
+
+    for (const subscriber of log.subscribers) {
+      try {
+        subscriber.send(event);
+      } catch (error: any) {
+        console.error(`[SSE] Error sending event to subscriber of ${executionId}:`, error.message);
+        log.subscribers.delete(subscriber);
+      }
+    }
+
+    return event;
+  }
+
+  /**
+   * Mark the run as finished: ends all subscriptions and starts the retention period
+   */
+  finish(executionId: string): void {
+    const log = this.logs.get(executionId);
+    if (!log) return;
+
+    log.finished = true;
+
+    const subscribers = [...log.subscribers];
+    log.subscribers.clear();
+
+    for (const subscriber of subscribers) {
+      subscriber.end();
+    }
+
+    this.cancelEviction(log);
+    log.evictTimer = setTimeout(() => this.logs.delete(executionId), config.stream.retentionMs);
+    log.evictTimer.unref();
+  }
+
+  /**
+   * Subscribe to an execution's events
+   * Replays the buffered events after lastEventId first. If the run has already
+   * finished, the subscriber is ended right after the replay.
+   *
+   * @param lastEventId - ID of the last event the client has seen (0 for all)
+   * @returns Function that removes the subscriber
+   */
+  subscribe(executionId: string, lastEventId: number, subscriber: EventSubscriber): () => void {
+    const log = this.getOrCreate(executionId);
+
+    for (const event of log.events) {
+      if (event.id > lastEventId) {
+        subscriber.send(event);
+      }
+    }
+
+    if (log.finished) {
+      subscriber.end();
+      return () => {};
+    }
+
+    log.subscribers.add(subscriber);
+
+    return () => {
+      log.subscribers.delete(subscriber);
+
+      // Drop logs that were only opened by a subscriber (no run has written to them)
+      if (log.subscribers.size === 0 && log.lastId === 0 && this.logs.get(executionId) === log) {
+        this.logs.delete(executionId);
+      }
+    };
+  }
+
+  /**
+   * Check if an execution has any events in memory
+   */
+  hasEvents(executionId: string): boolean {
+    return (this.logs.get(executionId)?.lastId || 0) > 0;
+  }
+
+  /**
+   * Get the ID of an execution's latest event (0 if none)
+   */
+  getLastEventId(executionId: string): number {
+    return this.logs.get(executionId)?.lastId || 0;
+  }
+
+  /**
+   * Get the number of subscribers of an execution
+   */
+  getSubscriberCount(executionId: string): number {
+    return this.logs.get(executionId)?.subscribers.size || 0;
+  }
+
+  private getOrCreate(executionId: string): ExecutionLog {
+    let log = this.logs.get(executionId);
+
+    if (!log) {
+      log = { events: [], lastId: 0, subscribers: new Set(), finished: false, evictTimer: null };
+      this.logs.set(executionId, log);
+    }
+
+    return log;
+  }
+
+  private cancelEviction(log: ExecutionLog): void {
+    if (log.evictTimer) {
+      clearTimeout(log.evictTimer);
+      log.evictTimer = null;
+    }
+  }
+}
+
+// SINGLETON: Export singleton instance
+let eventLogInstance: ExecutionEventLog | null = null;
+
+export function getExecutionEventLog(): ExecutionEventLog {
+  if (!eventLogInstance) {
+    eventLogInstance = new ExecutionEventLog();
+  }
+  return eventLogInstance;
+}
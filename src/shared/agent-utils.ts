@@ -137,3 +137,34 @@ export function parseDisallowedTools(): string[] {
     .map((t) => t.trim())
     .filter(Boolean);
 }
+
+/**
+ * Sum token usage and cost across all result messages in a trace
+ *
+ * Workflow traces contain one result message per step (plus synthesis),
+ * so totals must be accumulated rather than read from the last message.
+ *
+ * @param trace - Conversation trace (SDK messages)
+ * @returns Total token count and cost in USD
+ */
+export function summarizeUsage(trace: any[] | undefined): {
+  tokenCount: number;
+  costUsd: number;
+} {
+  let tokenCount = 0;
+  let costUsd = 0;
+
+  for (const message of trace || []) {
+    if (message?.type !== 'result') continue;
+
+    const usage = message.usage || {};
+    tokenCount +=
+      (usage.input_tokens || 0) +
+      (usage.output_tokens || 0) +
+      (usage.cache_creation_input_tokens || 0) +
+      (usage.cache_read_input_tokens || 0);
+    costUsd += message.total_cost_usd || 0;
+  }
+
+  return { tokenCount, costUsd };
+}
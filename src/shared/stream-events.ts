@@ -0,0 +1,137 @@
+/**
+ * Agent Stream Events
+ *
+ * Forwards SDK messages of a query() loop to SSE clients as typed events:
+ * - text_delta: partial assistant text (requires includePartialMessages)
+ * - tool_use: tool call with a summary of its input
+ * - tool_result: summary of a tool's output
+ *
+ * Workflow steps tag their events with stepId. Messages of subagents
+ * (parent_tool_use_id set) are not forwarded.
+ */
+
+import { sendStreamUpdate } from '../routes/stream.js';
+
+/** Text deltas are sent in batches so a long answer does not flood the event log */
+const TEXT_FLUSH_INTERVAL_MS = 100;
+
+/** Characters kept of tool inputs and outputs */
+const MAX_SUMMARY_LENGTH = 200;
+
+/**
+ * Shorten a tool input or output for display
+ */
+export function summarizeToolContent(content: unknown): string {
+  let text: string;
+
+  if (typeof content === 'string') {
+    text = content;
+  } else if (Array.isArray(content)) {
+    // Tool results are lists of content blocks
+    text = content
+      .map((block: any) => (block?.type === 'text' ? block.text : `[${block?.type}]`))
+      .join(' ');
+  } else {
+    text = JSON.stringify(content ?? '');
+  }
+
+  text = text.replace(/\s+/g, ' ').trim();
+  return text.length > MAX_SUMMARY_LENGTH ? `${text.substring(0, MAX_SUMMARY_LENGTH)}...` : text;
+}
+
+export class AgentStreamForwarder {
+  private pendingText = '';
+  private flushTimer: NodeJS.Timeout | null = null;
+  private hasStreamedText = false;
+
+  /**
+   * @param requestId - Execution to send events to
+   * @param stepId - Workflow step the events belong to (omitted for one-off runs)
+   */
+  constructor(
+    private readonly requestId: string,
+    private readonly stepId?: number
+  ) {}
+
+  /**
+   * Forward an SDK message (call for every message of the query() loop)
+   */
+  handle(message: any): void {
+    if (message.parent_tool_use_id) return;
+
+    if (message.type === 'stream_event') {
+      this.handleStreamEvent(message.event);
+    } else if (message.type === 'assistant') {
+      for (const block of message.message?.content || []) {
+        if (block.type === 'tool_use') {
+          this.send({
+            type: 'tool_use',
+            toolUseId: block.id,
+            name: block.name,
+            input: summarizeToolContent(block.input),
+          });
+        }
+      }
+    } else if (message.type === 'user' && Array.isArray(message.message?.content)) {
+      for (const block of message.message.content) {
+        if (block.type === 'tool_result') {
+          this.send({
+            type: 'tool_result',
+            toolUseId: block.tool_use_id,
+            isError: block.is_error === true,
+            output: summarizeToolContent(block.content),
+          });
+        }
+      }
+    }
+  }
+
+  /**
+   * Send buffered text (call when the query() loop ends)
+   */
+  flush(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+
+    if (!this.pendingText) return;
+
+    const text = this.pendingText;
+    this.pendingText = '';
+    sendStreamUpdate(this.requestId, this.withStep({ type: 'text_delta', text }));
+  }
+
+  private handleStreamEvent(event: any): void {
+    if (event?.type === 'content_block_start' && event.content_block?.type === 'text') {
+      // Separate the text of consecutive assistant turns
+      if (this.hasStreamedText) {
+        this.appendText('\n\n');
+      }
+    } else if (event?.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
+      this.hasStreamedText = true;
+      this.appendText(event.delta.text);
+    }
+  }
+
+  private appendText(text: string): void {
+    this.pendingText += text;
+
+    if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => this.flush(), TEXT_FLUSH_INTERVAL_MS);
+      this.flushTimer.unref();
+    }
+  }
+
+  /**
+   * Send a non-text event (after the text that preceded it)
+   */
+  private send(data: Record<string, any>): void {
+    this.flush();
+    sendStreamUpdate(this.requestId, this.withStep(data));
+  }
+
+  private withStep(data: Record<string, any>): Record<string, any> {
+    return this.stepId === undefined ? data : { ...data, stepId: this.stepId };
+  }
+}
@@ -0,0 +1,211 @@
+/**
+ * Skill Bundles
+ *
+ * File format for sharing skills and keeping them in git
+ * (`alfred skills export` / `alfred skills import`). A bundle is YAML or JSON:
+ *
+ *   version: 1
+ *   skills:
+ *     - name: Issue Digest
+ *       description: Posts a digest of open GitHub issues to Slack
+ *       triggerType: schedule
+ *       triggerConfig: {cron: "0 9 * * 1"}
+ *       connectionNames: [github, slack]
+ *       steps:
+ *         - {id: 1, prompt: "List the open issues", allowedTools: [github]}
+ *
+ * Bundles carry no IDs (skills are matched by name on import) and no secrets:
+ * webhook secrets are left out on export. Each skill is validated like a run
+ * validates it (step dependencies, controls, output schemas, retry policies).
+ */
+
+import { parse, stringify } from 'yaml';
+import { z } from 'zod';
+import { buildStepGraph } from './workflow-dag.js';
+import { validateStepControls } from './workflow-conditions.js';
+import { validateWorkflowOutputs } from './workflow-outputs.js';
+import { validateStepPolicies } from './workflow-retry.js';
+import { ValidationError } from './utils/errors.js';
+import type { WorkflowStep } from './types.js';
+
+/** Bundle format version written on export */
+export const SKILL_BUNDLE_VERSION = 1;
+
+const jsonObject = z.record(z.any());
+
+const stepSchema = z
+  .object({
+    id: z.number().int().positive(),
+    prompt: z.string().min(1, 'Prompt is required'),
+    guidance: z.string().optional(),
+    allowedTools: z.array(z.string()).optional(),
+    disallowedTools: z.array(z.string()).optional(),
+    connectionNames: z.array(z.string()).optional(),
+    dependsOn: z.array(z.number().int().positive()).optional(),
+    condition: z.object({ expression: z.string().optional(), ask: z.string().optional() }).strict().optional(),
+    forEach: z.object({ items: z.string(), maxItems: z.number().int().positive().optional() }).strict().optional(),
+    outputSchema: jsonObject.optional(),
+    retry: jsonObject.optional(),
+    onError: jsonObject.optional(),
+    requiresApproval: z.boolean().optional(),
+  })
+  .strict();
+
+const skillSchema = z
+  .object({
+    name: z.string().trim().min(1, 'Name is required').max(200),
+    description: z.string().optional().default(''),
+    examples: z.array(z.string()).optional().default([]),
+    negativeExamples: z.array(z.string()).optional().default([]),
+    triggerType: z
+      .enum(['manual', 'schedule', 'webhook', 'chat', 'classifier', 'orchestrator', 'default'])
+      .optional()
+      .default('manual'),
+    triggerConfig: jsonObject.nullable().optional(),
+    connectionNames: z.array(z.string()).optional().default([]),
+    inputs: jsonObject.nullable().optional(),
+    outputSchema: jsonObject.nullable().optional(),
+    isActive: z.boolean().optional().default(true),
+    steps: z.array(stepSchema).min(1, 'At least one step is required'),
+  })
+  .strict();
+
+/**
+ * Schema of a skill bundle file
+ */
+export const skillBundleSchema = z
+  .object({
+    version: z.number().int().positive(),
+    exportedAt: z.string().optional(),
+    skills: z.array(skillSchema).min(1, 'The bundle has no skills'),
+  })
+  .strict();
+
+export type SkillBundle = z.infer<typeof skillBundleSchema>;
+export type BundledSkill = SkillBundle['skills'][number];
+
+/**
+ * Skill fields written to a bundle (a Skill record)
+ */
+export interface ExportableSkill {
+  name: string;
+  description: string | null;
+  examples: string[];
+  negativeExamples: string[];
+  triggerType: string;
+  triggerConfig: unknown;
+  connectionNames: string[];
+  inputs: unknown;
+  outputSchema: unknown;
+  isActive: boolean;
+  steps: unknown;
+}
+
+/**
+ * Bundle skills (webhook secrets are left out)
+ */
+export function createSkillBundle(skills: ExportableSkill[]): SkillBundle {
+  return {
+    version: SKILL_BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    skills: skills.map((skill) => {
+      const { secret: _secret, ...triggerConfig } = (skill.triggerConfig as Record<string, any> | null) ?? {};
+
+      return {
+        name: skill.name,
+        description: skill.description ?? '',
+        examples: skill.examples,
+        negativeExamples: skill.negativeExamples,
+        triggerType: skill.triggerType as BundledSkill['triggerType'],
+        ...(Object.keys(triggerConfig).length > 0 && { triggerConfig }),
+        connectionNames: skill.connectionNames,
+        ...(skill.inputs != null && { inputs: skill.inputs as Record<string, any> }),
+        ...(skill.outputSchema != null && { outputSchema: skill.outputSchema as Record<string, any> }),
+        isActive: skill.isActive,
+        steps: skill.steps as BundledSkill['steps'],
+      };
+    }),
+  };
+}
+
+/**
+ * Write a bundle as YAML or JSON
+ */
+export function serializeSkillBundle(bundle: SkillBundle, format: 'yaml' | 'json'): string {
+  return format === 'json' ? `${JSON.stringify(bundle, null, 2)}\n` : stringify(bundle);
+}
+
+/**
+ * Read and validate a bundle (YAML or JSON - JSON is valid YAML)
+ *
+ * @throws ValidationError listing what is wrong with the file
+ */
+export function parseSkillBundle(text: string): SkillBundle {
+  let data: unknown;
+  try {
+    data = parse(text);
+  } catch (error: any) {
+    throw new ValidationError(`Not a valid YAML or JSON file: ${error.message}`);
+  }
+
+  const version = (data as { version?: unknown } | null)?.version;
+  if (typeof version === 'number' && version > SKILL_BUNDLE_VERSION) {
+    throw new ValidationError(
+      `Bundle version ${version} is newer than this version of Alfred supports (${SKILL_BUNDLE_VERSION})`
+    );
+  }
+
+  const validation = skillBundleSchema.safeParse(data);
+  if (!validation.success) {
+    const issues = validation.error.errors.map((issue) => `${issue.path.join('.') || 'bundle'}: ${issue.message}`);
+    throw new ValidationError(`Invalid skill bundle:\n${issues.join('\n')}`);
+  }
+
+  const bundle = validation.data;
+  const names = new Set<string>();
+
+  for (const skill of bundle.skills) {
+    const key = skill.name.toLowerCase();
+    if (names.has(key)) {
+      throw new ValidationError(`Invalid skill bundle: skill "${skill.name}" appears more than once`);
+    }
+    names.add(key);
+
+    try {
+      const graph = buildStepGraph(skill.steps as WorkflowStep[]);
+      validateStepControls(graph);
+      validateWorkflowOutputs({ id: '', ...skill, steps: skill.steps as WorkflowStep[] }, graph);
+      validateStepPolicies(graph);
+    } catch (error: any) {
+      throw new ValidationError(`Invalid skill bundle: skill "${skill.name}": ${error.message}`);
+    }
+  }
+
+  return bundle;
+}
+
+/**
+ * Connections a skill needs (its own and those of its steps)
+ */
+export function getRequiredConnections(skill: BundledSkill): string[] {
+  const names = new Set(skill.connectionNames);
+  for (const step of skill.steps) {
+    step.connectionNames?.forEach((name) => names.add(name));
+  }
+  return [...names];
+}
+
+/**
+ * Name for an imported skill that does not clash with existing ones
+ * ("Issue Digest" becomes "Issue Digest (2)", then "(3)", ...)
+ */
+export function renameForImport(name: string, existingNames: string[]): string {
+  const taken = new Set(existingNames.map((existing) => existing.toLowerCase()));
+
+  for (let n = 2; ; n++) {
+    const candidate = `${name} (${n})`;
+    if (!taken.has(candidate.toLowerCase())) {
+      return candidate;
+    }
+  }
+}
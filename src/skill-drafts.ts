@@ -0,0 +1,246 @@
+/**
+ * Skill Drafts ("Teach New Skill")
+ *
+ * Turns a successful one-off run into a draft skill (POST /executions/:id/to-skill).
+ * The tool calls are read from the run's SDK trace; Claude groups them into
+ * ordered steps and writes the step prompts and a description for the
+ * classifier. Each step may only use the tools its tool calls used, and the
+ * skill uses the connections those tools came from. The draft is not saved -
+ * the user reviews it first (`alfred executions to-skill`).
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import { getExecutionById } from './database.js';
+import { isSDKBuiltinTool } from './connection-resolver.js';
+import { MEMORY_SERVER_NAME } from './services/memory/memory-server.js';
+import { AgentError, ConflictError, NotFoundError, ValidationError } from './utils/errors.js';
+import { config } from './config/index.js';
+import type { SkillDraft, WorkflowStep } from './types.js';
+
+/** Characters of each tool input shown to Claude */
+const TOOL_INPUT_LENGTH = 300;
+/** Characters of the run's final response shown to Claude */
+const OUTPUT_LENGTH = 3000;
+/** Tool calls shown to Claude at most (the first ones) */
+const MAX_TOOL_CALLS = 100;
+
+let anthropic: Anthropic | null = null;
+
+/**
+ * Tool call found in an SDK trace
+ */
+export interface TraceToolCall {
+  /** Name as the SDK reports it (e.g. "Bash", "mcp__github__create_issue") */
+  name: string;
+  input: unknown;
+  /** The tool returned an error */
+  failed: boolean;
+}
+
+/**
+ * Tool reference for a step's allowedTools and the connection it needs
+ * SDK tools keep their name; MCP tools become "<connection>__<tool>"
+ * (the names in Connection.tools). Tools of the built-in memory server are
+ * available to every step, so they need no reference (null).
+ */
+export function toAllowedTool(toolName: string): { tool: string; connection?: string } | null {
+  const mcp = toolName.match(/^mcp__(.+?)__(.+)$/);
+
+  if (!mcp) {
+    return isSDKBuiltinTool(toolName) ? { tool: toolName } : null;
+  }
+
+  const [, server, tool] = mcp;
+  if (server === MEMORY_SERVER_NAME) {
+    return null;
+  }
+
+  return { tool: `${server}__${tool}`, connection: server };
+}
+
+/**
+ * Collect the tool calls of an SDK trace in the order they were made
+ */
+export function extractToolCalls(messages: any[]): TraceToolCall[] {
+  const calls: TraceToolCall[] = [];
+  const byId = new Map<string, TraceToolCall>();
+
+  for (const message of messages) {
+    const content = message?.message?.content;
+    if (!Array.isArray(content)) continue;
+
+    for (const block of content) {
+      if (message.type === 'assistant' && block?.type === 'tool_use') {
+        const call = { name: String(block.name), input: block.input, failed: false };
+        calls.push(call);
+        byId.set(block.id, call);
+      } else if (message.type === 'user' && block?.type === 'tool_result' && block.is_error) {
+        const call = byId.get(block.tool_use_id);
+        if (call) call.failed = true;
+      }
+    }
+  }
+
+  return calls;
+}
+
+function clip(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length)} [...]` : text;
+}
+
+/**
+ * Build the draft from Claude's step grouping
+ * Steps only get the tools of the calls they list; calls that failed are left out.
+ *
+ * @param plan - Parsed response ({name, description, steps: [{prompt, guidance?, toolCalls}]})
+ * @throws Error if the response has no usable steps
+ */
+export function buildSkillDraft(
+  executionId: string,
+  prompt: string,
+  calls: TraceToolCall[],
+  plan: any
+): SkillDraft {
+  if (!Array.isArray(plan?.steps) || plan.steps.length === 0) {
+    throw new Error('The response has no steps');
+  }
+
+  const connectionNames = new Set<string>();
+
+  const steps: WorkflowStep[] = plan.steps.map((planned: any, index: number) => {
+    if (typeof planned?.prompt !== 'string' || !planned.prompt.trim()) {
+      throw new Error(`Step ${index + 1} has no prompt`);
+    }
+
+    const tools = new Set<string>();
+    const callIndexes: unknown[] = Array.isArray(planned.toolCalls) ? planned.toolCalls : [];
+
+    for (const callIndex of callIndexes) {
+      const call = typeof callIndex === 'number' ? calls[callIndex - 1] : undefined;
+      const allowed = call && !call.failed ? toAllowedTool(call.name) : null;
+
+      if (allowed) {
+        tools.add(allowed.tool);
+        if (allowed.connection) connectionNames.add(allowed.connection);
+      }
+    }
+
+    return {
+      id: index + 1,
+      prompt: planned.prompt.trim(),
+      ...(typeof planned.guidance === 'string' && planned.guidance.trim() && { guidance: planned.guidance.trim() }),
+      allowedTools: [...tools],
+    };
+  });
+
+  return {
+    sourceExecutionId: executionId,
+    name: typeof plan.name === 'string' && plan.name.trim() ? plan.name.trim() : 'New skill',
+    description: typeof plan.description === 'string' ? plan.description.trim() : '',
+    examples: [prompt],
+    steps,
+    connectionNames: [...connectionNames],
+  };
+}
+
+/**
+ * Draft a skill from a completed one-off run
+ *
+ * @throws NotFoundError if the execution does not exist
+ * @throws ConflictError if the execution has not completed
+ * @throws ValidationError if the execution ran a skill or has no trace
+ * @throws AgentError if Claude's draft cannot be used
+ */
+export async function draftSkillFromExecution(executionId: string): Promise<SkillDraft> {
+  const execution = await getExecutionById(executionId);
+
+  if (!execution) {
+    throw new NotFoundError(`Execution '${executionId}' not found`);
+  }
+
+  if (execution.status !== 'completed') {
+    throw new ConflictError(`Execution '${executionId}' has not completed (status: ${execution.status})`);
+  }
+
+  if (execution.skillId) {
+    throw new ValidationError(`Execution '${executionId}' ran a skill - only one-off runs can become skills`);
+  }
+
+  const messages = (execution.trace as { messages?: any[] } | null)?.messages;
+  const prompt = String((execution.input as { prompt?: unknown } | null)?.prompt ?? '');
+
+  if (!Array.isArray(messages) || messages.length === 0 || !prompt) {
+    throw new ValidationError(`Execution '${executionId}' has no recorded trace to learn from`);
+  }
+
+  const calls = extractToolCalls(messages).slice(0, MAX_TOOL_CALLS);
+  const toolList = calls
+    .map((call, index) => {
+      const input = clip(JSON.stringify(call.input ?? {}), TOOL_INPUT_LENGTH);
+      return `${index + 1}. ${call.name}${call.failed ? ' (FAILED)' : ''} ${input}`;
+    })
+    .join('\n');
+
+  const draftPrompt = `An AI agent completed the request below with the tool calls listed. Turn what it did into a reusable skill: a workflow that does the same kind of task again for similar requests.
+
+REQUEST:
+${JSON.stringify(prompt)}
+
+TOOL CALLS (in order):
+${toolList || '(none)'}
+
+FINAL RESPONSE:
+${clip(execution.output || '', OUTPUT_LENGTH)}
+
+Respond with JSON ONLY in this exact format:
+
+{
+  "name": "short skill name (Title Case)",
+  "description": "one or two sentences saying which requests this skill is for (used to match future requests)",
+  "steps": [
+    { "prompt": "instruction for this step", "guidance": "optional hints", "toolCalls": [1, 2] }
+  ]
+}
+
+RULES:
+- Group the tool calls into a few ordered steps (one step per logical phase, 1-6 steps)
+- "toolCalls" lists the numbers of the calls the step makes; leave out failed and exploratory calls that were not needed
+- Step prompts describe the task in general terms, not the specific values of this run, so they work for similar requests
+- The last step produces the final response`;
+
+  if (!anthropic) {
+    anthropic = new Anthropic({
+      apiKey: process.env.ANTHROPIC_API_KEY,
+    });
+  }
+
+  console.log(`[Skill Drafts] Drafting a skill from ${executionId} (${calls.length} tool calls)`);
+
+  try {
+    const response = await anthropic.messages.create({
+      model: config.agent.model,
+      max_tokens: 2000,
+      messages: [{ role: 'user', content: draftPrompt }],
+    });
+
+    const content = response.content[0];
+    if (content.type !== 'text') {
+      throw new Error('Unexpected response type from Claude');
+    }
+
+    const jsonMatch = content.text.match(/\{[\s\S]*\}/);
+    if (!jsonMatch) {
+      throw new Error('The response is not JSON');
+    }
+
+    const draft = buildSkillDraft(executionId, prompt, calls, JSON.parse(jsonMatch[0]));
+
+    console.log(
+      `[Skill Drafts] Drafted "${draft.name}" with ${draft.steps.length} steps (connections: ${draft.connectionNames.join(', ') || 'none'})`
+    );
+    return draft;
+  } catch (error) {
+    console.error(`[Skill Drafts] Drafting from ${executionId} failed:`, error);
+    throw new AgentError('Failed to draft a skill from the execution', error instanceof Error ? error : undefined);
+  }
+}
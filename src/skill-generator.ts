@@ -0,0 +1,225 @@
+/**
+ * Skill Generator
+ *
+ * Drafts a skill from a plain-language description (POST /skills/generate).
+ * Claude only gets the tools that exist here: the SDK tools, the tools of the
+ * active connections and those of the cached Composio toolkits (the toolkits
+ * that best match the description). Every tool in the response is checked
+ * against them; unknown ones are left out and reported. Like drafts of a run,
+ * the draft is not saved - the user refines it first (`alfred skills generate`).
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import { getComposioToolkitTools, getConnectionTools } from './database.js';
+import { isSDKBuiltinTool } from './connection-resolver.js';
+import { bm25Scores } from './skill-index.js';
+import { AgentError } from './utils/errors.js';
+import { config } from './config/index.js';
+import type { SkillDraft, WorkflowStep } from './types.js';
+
+/** Composio toolkits shown to Claude at most (the best matches) */
+const TOOLKIT_SHORTLIST = 5;
+/** Tools shown per connection or toolkit at most */
+const TOOLS_PER_SOURCE = 150;
+
+/** SDK tools offered to every generated skill */
+const SDK_TOOLS = ['Read', 'Write', 'Edit', 'Glob', 'Grep', 'Bash', 'WebFetch', 'WebSearch'];
+
+let anthropic: Anthropic | null = null;
+
+/**
+ * Tools that exist here, by where they come from
+ */
+export interface ToolCatalog {
+  /** Active connections and their tools ("<connection>__<tool>", or Composio tool names) */
+  connections: Array<{ name: string; tools: string[] }>;
+  /** Cached Composio toolkits and their tools (e.g. "GITHUB_CREATE_ISSUE") */
+  toolkits: Array<{ name: string; description?: string; tools: string[] }>;
+}
+
+/**
+ * Load the tools a generated skill may use
+ */
+export async function loadToolCatalog(): Promise<ToolCatalog> {
+  const [connections, toolkits] = await Promise.all([getConnectionTools(), getComposioToolkitTools()]);
+  return { connections, toolkits };
+}
+
+/**
+ * Pick the Composio toolkits that match a description (BM25 over their name,
+ * description and tool names; toolkits without any matching term are left out)
+ */
+export function shortlistToolkits(description: string, catalog: ToolCatalog, size = TOOLKIT_SHORTLIST) {
+  const scores = bm25Scores(
+    description,
+    catalog.toolkits.map((toolkit) => [toolkit.name, toolkit.name, toolkit.description || '', ...toolkit.tools].join('\n'))
+  );
+
+  return catalog.toolkits
+    .map((toolkit, index) => ({ toolkit, score: scores[index] }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, size)
+    .map(({ toolkit }) => toolkit);
+}
+
+/**
+ * Check a tool name against the catalog
+ *
+ * @returns The connection the tool needs ('' for SDK and Composio toolkit
+ *   tools, which need none), or null if the tool does not exist
+ */
+export function resolveTool(tool: string, catalog: ToolCatalog): string | null {
+  if (isSDKBuiltinTool(tool)) {
+    return '';
+  }
+
+  // A connection name allows all of its tools
+  const connection = catalog.connections.find(
+    (candidate) => candidate.name === tool || candidate.tools.includes(tool)
+  );
+  if (connection) {
+    return connection.name;
+  }
+
+  return catalog.toolkits.some((toolkit) => toolkit.tools.includes(tool)) ? '' : null;
+}
+
+/**
+ * Build the draft from Claude's response, keeping only tools that exist
+ *
+ * @param plan - Parsed response ({name, description, steps: [{prompt, guidance?, allowedTools}]})
+ * @throws Error if the response has no usable steps
+ */
+export function buildGeneratedSkill(plan: any, catalog: ToolCatalog): SkillDraft {
+  if (!Array.isArray(plan?.steps) || plan.steps.length === 0) {
+    throw new Error('The response has no steps');
+  }
+
+  const connectionNames = new Set<string>();
+  const unknownTools = new Set<string>();
+
+  const steps: WorkflowStep[] = plan.steps.map((planned: any, index: number) => {
+    if (typeof planned?.prompt !== 'string' || !planned.prompt.trim()) {
+      throw new Error(`Step ${index + 1} has no prompt`);
+    }
+
+    const tools = new Set<string>();
+    const requested: unknown[] = Array.isArray(planned.allowedTools) ? planned.allowedTools : [];
+
+    for (const tool of requested) {
+      if (typeof tool !== 'string' || !tool.trim()) continue;
+
+      const connection = resolveTool(tool.trim(), catalog);
+      if (connection === null) {
+        unknownTools.add(tool.trim());
+        continue;
+      }
+
+      tools.add(tool.trim());
+      if (connection) connectionNames.add(connection);
+    }
+
+    return {
+      id: index + 1,
+      prompt: planned.prompt.trim(),
+      ...(typeof planned.guidance === 'string' && planned.guidance.trim() && { guidance: planned.guidance.trim() }),
+      allowedTools: [...tools],
+    };
+  });
+
+  return {
+    name: typeof plan.name === 'string' && plan.name.trim() ? plan.name.trim() : 'New skill',
+    description: typeof plan.description === 'string' ? plan.description.trim() : '',
+    examples: [],
+    steps,
+    connectionNames: [...connectionNames],
+    unknownTools: [...unknownTools],
+  };
+}
+
+function toolList(tools: string[]): string {
+  const shown = tools.slice(0, TOOLS_PER_SOURCE).join(', ');
+  return tools.length > TOOLS_PER_SOURCE ? `${shown}, ... (${tools.length - TOOLS_PER_SOURCE} more)` : shown;
+}
+
+/**
+ * Draft a skill from a description
+ *
+ * @throws AgentError if Claude's draft cannot be used
+ */
+export async function generateSkill(description: string): Promise<SkillDraft> {
+  const catalog = await loadToolCatalog();
+  const toolkits = shortlistToolkits(description, catalog);
+
+  const sources = [
+    `SDK tools: ${SDK_TOOLS.join(', ')}`,
+    ...catalog.connections
+      .filter((connection) => connection.tools.length > 0)
+      .map((connection) => `Connection "${connection.name}": ${toolList(connection.tools)}`),
+    ...toolkits.map((toolkit) => `Composio toolkit "${toolkit.name}": ${toolList(toolkit.tools)}`),
+  ];
+
+  const generatePrompt = `Design a reusable skill (a multi-step workflow run by an AI agent) for the description below.
+
+DESCRIPTION:
+${JSON.stringify(description)}
+
+AVAILABLE TOOLS (use only these exact names):
+${sources.join('\n')}
+
+Respond with JSON ONLY in this exact format:
+
+{
+  "name": "short skill name (Title Case)",
+  "description": "one or two sentences saying which requests this skill is for (used to match future requests)",
+  "steps": [
+    { "prompt": "instruction for this step", "guidance": "optional hints", "allowedTools": ["exact tool names"] }
+  ]
+}
+
+RULES:
+- Use a few ordered steps (one step per logical phase, 1-6 steps)
+- "allowedTools" lists only the tools the step needs, copied exactly from AVAILABLE TOOLS; a connection name allows all of its tools
+- If the description needs a service that has no tools above, write the step anyway with the tools that exist and say in "guidance" what is missing
+- Step prompts describe the task in general terms so they work for similar requests
+- The last step produces the final response`;
+
+  if (!anthropic) {
+    anthropic = new Anthropic({
+      apiKey: process.env.ANTHROPIC_API_KEY,
+    });
+  }
+
+  console.log(
+    `[Skill Generator] Generating a skill (${catalog.connections.length} connections, ${toolkits.length} of ${catalog.toolkits.length} toolkits)`
+  );
+
+  try {
+    const response = await anthropic.messages.create({
+      model: config.agent.model,
+      max_tokens: 2000,
+      messages: [{ role: 'user', content: generatePrompt }],
+    });
+
+    const content = response.content[0];
+    if (content.type !== 'text') {
+      throw new Error('Unexpected response type from Claude');
+    }
+
+    const jsonMatch = content.text.match(/\{[\s\S]*\}/);
+    if (!jsonMatch) {
+      throw new Error('The response is not JSON');
+    }
+
+    const draft = buildGeneratedSkill(JSON.parse(jsonMatch[0]), catalog);
+
+    console.log(
+      `[Skill Generator] Generated "${draft.name}" with ${draft.steps.length} steps (connections: ${draft.connectionNames.join(', ') || 'none'}, unknown tools: ${draft.unknownTools!.join(', ') || 'none'})`
+    );
+    return draft;
+  } catch (error) {
+    console.error('[Skill Generator] Generation failed:', error);
+    throw new AgentError('Failed to generate a skill', error instanceof Error ? error : undefined);
+  }
+}
@@ -0,0 +1,128 @@
+/**
+ * Skill Index
+ *
+ * Local BM25 keyword index over the active skills, used to shortlist the
+ * candidates the classifier shows to Claude (instead of every skill).
+ * A skill's document is its name (counted twice), description, example
+ * prompts, input parameters and step prompts. The index is rebuilt per classification -
+ * skill lists are small and change at any time.
+ */
+
+import { getSkillInputFields } from './skill-inputs.js';
+
+/** BM25 term frequency saturation */
+const K1 = 1.2;
+/** BM25 document length normalization */
+const B = 0.75;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'do', 'for', 'from', 'get', 'has', 'have',
+  'i', 'in', 'into', 'is', 'it', 'its', 'me', 'my', 'of', 'on', 'or', 'our', 'please', 'so', 'that',
+  'the', 'their', 'them', 'then', 'this', 'to', 'up', 'us', 'was', 'we', 'what', 'when', 'with', 'you', 'your',
+]);
+
+/**
+ * Skill fields the index reads
+ */
+export interface IndexableSkill {
+  id: string;
+  name: string;
+  description?: string | null;
+  examples?: string[];
+  inputs?: unknown;
+  steps?: unknown;
+}
+
+/**
+ * Skill with its BM25 score for a prompt
+ */
+export interface ScoredSkill<T extends IndexableSkill> {
+  skill: T;
+  score: number;
+}
+
+/**
+ * Split text into lowercase terms, without stop words and with plural and
+ * verb endings stripped ("reports" and "reporting" both become "report")
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((word) => word.length > 1 && !STOP_WORDS.has(word))
+    .map(stem);
+}
+
+function stem(word: string): string {
+  if (word.length > 4 && word.endsWith('ies')) return `${word.slice(0, -3)}y`;
+  if (word.length > 5 && word.endsWith('ing')) return word.slice(0, -3);
+  if (word.length > 4 && word.endsWith('ed')) return word.slice(0, -2);
+  if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+  return word;
+}
+
+function skillText(skill: IndexableSkill): string {
+  const inputs = getSkillInputFields(skill.inputs as Record<string, any> | null).map(
+    (field) => `${field.name.replace(/_/g, ' ')} ${field.description || ''}`
+  );
+  const steps = Array.isArray(skill.steps)
+    ? skill.steps.map((step: any) => (typeof step?.prompt === 'string' ? step.prompt : ''))
+    : [];
+
+  return [skill.name, skill.name, skill.description || '', ...(skill.examples || []), ...inputs, ...steps].join('\n');
+}
+
+/**
+ * Score documents against a query with BM25 (one score per document, 0 if no
+ * term matches). Also used to search memories.
+ */
+export function bm25Scores(query: string, documents: string[]): number[] {
+  const tokenized = documents.map(tokenize);
+  const averageLength = tokenized.reduce((sum, terms) => sum + terms.length, 0) / (tokenized.length || 1);
+
+  // Number of documents each term appears in
+  const documentFrequency = new Map<string, number>();
+  for (const terms of tokenized) {
+    for (const term of new Set(terms)) {
+      documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+    }
+  }
+
+  const queryTerms = [...new Set(tokenize(query))];
+
+  return tokenized.map((terms) => {
+    let score = 0;
+
+    for (const term of queryTerms) {
+      const frequency = terms.filter((t) => t === term).length;
+      if (frequency === 0) continue;
+
+      const n = documentFrequency.get(term)!;
+      const idf = Math.log(1 + (documents.length - n + 0.5) / (n + 0.5));
+      score += (idf * frequency * (K1 + 1)) / (frequency + K1 * (1 - B + (B * terms.length) / (averageLength || 1)));
+    }
+
+    return score;
+  });
+}
+
+/**
+ * Score every skill against a prompt with BM25 (best match first)
+ * Skills with equal scores keep their order.
+ */
+export function rankSkills<T extends IndexableSkill>(prompt: string, skills: T[]): ScoredSkill<T>[] {
+  const scores = bm25Scores(prompt, skills.map(skillText));
+
+  return skills
+    .map((skill, index) => ({ skill, score: scores[index] }))
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Pick the skills the classifier should consider for a prompt
+ * The `size` best BM25 matches, even if some did not match any term
+ * (the prompt may describe a skill in other words).
+ */
+export function shortlistSkills<T extends IndexableSkill>(prompt: string, skills: T[], size: number): ScoredSkill<T>[] {
+  return rankSkills(prompt, skills).slice(0, size);
+}
@@ -0,0 +1,130 @@
+/**
+ * Skill Inputs
+ *
+ * Skills can declare typed input parameters as a JSON Schema object
+ * (Skill.inputs), e.g. {"type": "object", "properties": {"repo": {"type": "string"},
+ * "since": {"type": "string", "format": "date"}}, "required": ["repo"]}.
+ *
+ * Values are passed explicitly (webhook `inputs`, trigger payload, schedule
+ * triggerConfig.inputs) or extracted from the prompt by the classifier. They are
+ * validated before a run and reach the steps as {{input.<name>}} placeholders.
+ */
+
+import Ajv, { ValidateFunction } from 'ajv';
+import { ValidationError } from './utils/errors.js';
+import type { Workflow } from './types.js';
+
+// Values typed on a command line or in a form arrive as strings
+const ajv = new Ajv({ allErrors: true, strict: false, coerceTypes: true, useDefaults: true });
+
+ajv.addFormat('date', /^\d{4}-\d{2}-\d{2}$/);
+ajv.addFormat('date-time', (value: string) => !isNaN(Date.parse(value)));
+ajv.addFormat('email', /^[^\s@]+@[^\s@]+\.[^\s@]+$/);
+
+/** Compiled validators by schema object */
+const validators = new WeakMap<object, ValidateFunction>();
+
+/**
+ * Input parameter of a skill (a property of its inputs schema)
+ */
+export interface SkillInputField {
+  name: string;
+  /** JSON Schema type, with the format if any (e.g. "string (date)") */
+  type: string;
+  required: boolean;
+  description?: string;
+  default?: unknown;
+  enum?: unknown[];
+}
+
+function getValidator(skill: Workflow): ValidateFunction {
+  const schema = skill.inputs!;
+  let validate = validators.get(schema);
+
+  if (!validate) {
+    if (typeof schema !== 'object' || Array.isArray(schema) || (schema.type && schema.type !== 'object')) {
+      throw new ValidationError(`Skill "${skill.name}" inputs must be a JSON Schema object with type "object"`);
+    }
+
+    try {
+      validate = ajv.compile(schema);
+    } catch (error: any) {
+      throw new ValidationError(`Skill "${skill.name}" inputs schema is invalid: ${error.message}`);
+    }
+    validators.set(schema, validate);
+  }
+
+  return validate;
+}
+
+/**
+ * List the input parameters declared by an inputs schema
+ */
+export function getSkillInputFields(schema?: Record<string, any> | null): SkillInputField[] {
+  if (!schema || typeof schema.properties !== 'object' || schema.properties === null) {
+    return [];
+  }
+
+  const required: string[] = Array.isArray(schema.required) ? schema.required : [];
+
+  return Object.entries(schema.properties as Record<string, any>).map(([name, property]) => ({
+    name,
+    type: `${property?.type || 'any'}${property?.format ? ` (${property.format})` : ''}`,
+    required: required.includes(name),
+    ...(property?.description && { description: property.description }),
+    ...(property?.default !== undefined && { default: property.default }),
+    ...(Array.isArray(property?.enum) && { enum: property.enum }),
+  }));
+}
+
+/**
+ * Describe the input parameters of a skill, one per line (for the classifier prompt)
+ */
+export function describeSkillInputs(schema?: Record<string, any> | null): string {
+  return getSkillInputFields(schema)
+    .map((field) => {
+      const details = [
+        field.type,
+        field.required ? 'required' : 'optional',
+        ...(field.enum ? [`one of ${field.enum.map((value) => JSON.stringify(value)).join(', ')}`] : []),
+      ];
+      return `  - ${field.name} (${details.join(', ')})${field.description ? `: ${field.description}` : ''}`;
+    })
+    .join('\n');
+}
+
+/**
+ * Validate input values against the skill's inputs schema
+ * Defaults are applied and values are coerced to their declared types
+ * (e.g. "5" to 5 for an integer). Skills without inputs accept any values.
+ *
+ * @returns The validated values
+ * @throws ValidationError listing missing required inputs, or describing invalid ones
+ */
+export function resolveSkillInputs(
+  skill: Workflow,
+  values: Record<string, unknown> = {}
+): Record<string, unknown> {
+  if (!skill.inputs) {
+    return values;
+  }
+
+  const validate = getValidator(skill);
+  const resolved = structuredClone(values);
+
+  if (validate(resolved)) {
+    return resolved;
+  }
+
+  const missing = (validate.errors || [])
+    .filter((error) => error.keyword === 'required' && error.instancePath === '')
+    .map((error) => error.params.missingProperty as string);
+
+  if (missing.length > 0) {
+    throw new ValidationError(`Skill "${skill.name}" is missing required inputs: ${missing.join(', ')}`);
+  }
+
+  throw new ValidationError(
+    `Skill "${skill.name}" has invalid inputs: ${ajv.errorsText(validate.errors, { dataVar: 'inputs', separator: '; ' })}`
+  );
+}
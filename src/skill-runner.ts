@@ -0,0 +1,459 @@
+/**
+ * Skill Runner
+ *
+ * Runs a known skill directly through the workflow orchestrator (no classification).
+ * Used by non-chat triggers such as the scheduler and skill webhooks, and to
+ * resume failed executions (as queued 'skill' jobs):
+ * Execution Record → Orchestrator (with step checkpoints) → File Processing → Completion
+ */
+
+import { executeWorkflowOrchestrator } from './workflow-orchestrator.js';
+import { cleanupWorkingDirectory } from './files.js';
+import {
+  AgentError,
+  ConflictError,
+  ExecutionCancelledError,
+  NotFoundError,
+  ValidationError,
+  getStepAttempts,
+} from './utils/errors.js';
+import { logger } from './middleware/logging.js';
+import { metrics } from './utils/monitoring.js';
+import { loadSystemPrompt } from './prompts.js';
+import { sendCompletion, sendStreamUpdate } from './routes/stream.js';
+import { getExecutionEventLog } from './services/streaming/event-log.js';
+import { getExecutionById, getSkillById } from './database.js';
+import { getExecutionSteps, markExecutionResumed, saveExecutionInputs } from './db/utils.js';
+import { requestApproval } from './execution-approvals.js';
+import { resolveSkillInputs } from './skill-inputs.js';
+import { summarizeUsage } from './shared/agent-utils.js';
+import { processGeneratedFiles, formatFilesForResponse } from './webhook.js';
+import {
+  startExecutionRecord,
+  resumeExecutionRecord,
+  finishExecutionRecord,
+  formatExecutionError,
+} from './execution-records.js';
+import {
+  createCheckpointRecorder,
+  discardSnapshots,
+  restoreCheckpoints,
+} from './execution-checkpoints.js';
+import {
+  registerExecution,
+  unregisterExecution,
+  isExecutionCancelled,
+  throwIfCancelled,
+} from './execution-cancellation.js';
+import { enqueueJob, JobContext } from './services/queue/job-queue.js';
+import { Workflow, WebhookResponse, WorkflowResumeState } from './types.js';
+
+/**
+ * Options for running a skill
+ */
+export interface RunSkillOptions {
+  /** Skill to execute (with steps) */
+  skill: Workflow;
+
+  /** Prompt describing what the run should accomplish */
+  prompt: string;
+
+  /** What started the run (stored as Execution.trigger) */
+  trigger: string;
+
+  /** Unique request identifier (used as execution ID) */
+  requestId: string;
+
+  /** Structured input passed to the first step (e.g. webhook payload), validated against skill.inputs */
+  payload?: Record<string, any>;
+
+  /** Additional trigger details stored on the Execution record */
+  input?: Record<string, any>;
+
+  /** System prompt override (defaults to the configured system prompt) */
+  systemPrompt?: string;
+
+  /** Correlation ID for logging */
+  correlationId?: string;
+
+  /** Finished steps of a failed execution (the existing record is resumed instead of created) */
+  resume?: WorkflowResumeState;
+
+  /** The Execution record was created when the run was queued (it is marked running instead) */
+  queued?: boolean;
+}
+
+/**
+ * Payload of a queued 'skill' job (asynchronous skill webhook triggers and resumed executions)
+ */
+export interface SkillJobPayload {
+  skillId: string;
+  prompt: string;
+  trigger: string;
+  requestId: string;
+  /** Validated inputs for the first step */
+  payload?: Record<string, any>;
+  input?: Record<string, any>;
+  systemPrompt?: string;
+  correlationId: string;
+  /** Continue the failed execution from its checkpoints (see resumeExecution) */
+  resume?: boolean;
+}
+
+/**
+ * Result of resuming a failed execution
+ */
+export interface ResumeExecutionResult {
+  executionId: string;
+  status: 'running';
+  /** First step that runs again (null if only the final response is missing) */
+  resumeFromStep: number | null;
+  /** Steps that are not repeated */
+  completedSteps: number[];
+  /** Last SSE event of the failed run (follow /stream/:id?lastEventId= for the resumed run) */
+  lastEventId: number;
+}
+
+/**
+ * Run a skill and record it as an Execution
+ *
+ * @throws ValidationError if the payload does not match the skill's inputs (the Execution is marked failed)
+ * @throws AgentError if the workflow fails (the Execution is marked failed)
+ * @throws ExecutionCancelledError if the run was cancelled
+ */
+export async function runSkill(options: RunSkillOptions): Promise<WebhookResponse> {
+  const { skill, prompt, trigger, requestId, input, resume, queued } = options;
+  let payload = options.payload;
+  const correlationId = options.correlationId || requestId;
+  const startTime = Date.now();
+  let workingDirectory: string | null = null;
+  let executionRecorded = false;
+  const controller = registerExecution(requestId);
+
+  try {
+    // A resumed execution was already marked running (see POST /executions/:id/resume)
+    executionRecorded = resume
+      ? true
+      : queued
+      ? await resumeExecutionRecord(requestId, correlationId)
+      : await startExecutionRecord(
+          requestId,
+          skill.id,
+          trigger,
+          { prompt, payload, ...input },
+          correlationId
+        );
+
+    if (skill.inputs) {
+      payload = resolveSkillInputs(skill, payload);
+
+      // Defaults filled in - a resumed run reads the resolved inputs back
+      if (executionRecorded && !resume) {
+        await saveExecutionInputs(requestId, payload).catch((error) =>
+          logger.warn(correlationId, 'skill-runner', 'Failed to save skill inputs', { error: error.message })
+        );
+      }
+    }
+
+    logger.info(
+      correlationId,
+      'skill-runner',
+      `${resume ? 'Resuming' : 'Running'} skill "${skill.name}" (trigger: ${trigger})`
+    );
+
+    const systemPrompt = options.systemPrompt || (await loadSystemPrompt());
+
+    let result;
+    try {
+      result = await executeWorkflowOrchestrator(skill, prompt, requestId, systemPrompt, payload, {
+        onStepFinished: createCheckpointRecorder(requestId, correlationId),
+        resume,
+        requestApproval,
+      });
+    } catch (error: any) {
+      throw new AgentError('Skill execution failed', error);
+    }
+
+    workingDirectory = result.workingDirectory;
+    throwIfCancelled(requestId);
+
+    const uploadedFiles = await processGeneratedFiles(
+      workingDirectory,
+      requestId,
+      startTime,
+      correlationId
+    );
+
+    const output = result.text + formatFilesForResponse(uploadedFiles);
+    const usage = summarizeUsage(result.trace);
+
+    if (executionRecorded) {
+      await finishExecutionRecord(
+        requestId,
+        {
+          status: 'completed',
+          output,
+          trace: {
+            messages: result.trace || [],
+            stepMetadata: result.steps,
+            stepOutputs: result.stepOutputs,
+            stepAttempts: result.stepAttempts,
+            files: uploadedFiles,
+          },
+          durationMs: Date.now() - startTime,
+          tokenCount: usage.tokenCount,
+          costUsd: usage.costUsd,
+        },
+        correlationId
+      );
+    }
+
+    metrics.recordRequest(true, Date.now() - startTime);
+    await discardSnapshots(requestId);
+
+    sendCompletion(requestId, {
+      status: 'completed',
+      output,
+      metadata: {
+        duration: Date.now() - startTime,
+        tokenCount: usage.tokenCount,
+        cost: usage.costUsd,
+      },
+    });
+
+    return {
+      response: output,
+      url: uploadedFiles.map((f) => f.url),
+      requestId,
+      executionId: requestId,
+      ...(result.output !== undefined && { output: result.output }),
+      metadata: {
+        workflowId: skill.id,
+        workflowName: skill.name,
+        steps: result.steps,
+      },
+    };
+  } catch (error: any) {
+    if (error instanceof ExecutionCancelledError || isExecutionCancelled(requestId)) {
+      // cancelExecution already finalized the record and the SSE stream
+      logger.info(correlationId, 'skill-runner', `Skill "${skill.name}" cancelled`);
+      throw error instanceof ExecutionCancelledError
+        ? error
+        : new ExecutionCancelledError(`Execution '${requestId}' was cancelled`);
+    }
+
+    logger.error(correlationId, 'skill-runner', `Skill "${skill.name}" failed`, {
+      error: error.message,
+      name: error.name,
+    });
+
+    metrics.recordRequest(false, Date.now() - startTime);
+    metrics.recordError(error.name || 'UnknownError');
+
+    if (executionRecorded) {
+      await finishExecutionRecord(
+        requestId,
+        {
+          status: 'failed',
+          error: formatExecutionError(error),
+          trace: { stepAttempts: getStepAttempts(error) },
+          durationMs: Date.now() - startTime,
+        },
+        correlationId
+      );
+    }
+
+    sendCompletion(requestId, {
+      status: 'failed',
+      output: error.message,
+      metadata: {
+        duration: Date.now() - startTime,
+      },
+    });
+
+    throw error;
+  } finally {
+    unregisterExecution(requestId, controller);
+
+    if (workingDirectory) {
+      cleanupWorkingDirectory(workingDirectory).catch((error) => {
+        logger.warn(correlationId, 'cleanup', 'Cleanup warning (non-fatal)', {
+          error: error.message,
+        });
+      });
+    }
+  }
+}
+
+/**
+ * Run a queued 'skill' job (registered with the job worker)
+ * A failed run is finalized like any skill run (and can be resumed), so the
+ * job is not retried.
+ */
+export async function processSkillJob(job: SkillJobPayload, context: JobContext): Promise<void> {
+  logger.info(
+    job.correlationId,
+    'skill-job',
+    `Processing queued skill run: ${job.requestId} (attempt ${context.attempt}/${context.maxAttempts})`
+  );
+
+  // Cancelled while it was waiting, or failed while its job was requeued on shutdown
+  const execution = await getExecutionById(job.requestId).catch(() => null);
+  if (execution && !['queued', 'running'].includes(execution.status)) {
+    logger.info(job.correlationId, 'skill-job', `Skipped run ${job.requestId}: execution is ${execution.status}`);
+    return;
+  }
+
+  const skill = (await getSkillById(job.skillId)) as any as Workflow | null; // Type cast for Prisma result
+
+  if (!skill) {
+    const error = `Skill '${job.skillId}' was deleted while the run was queued`;
+    await finishExecutionRecord(job.requestId, { status: 'failed', error, durationMs: 0 }, job.correlationId);
+    sendCompletion(job.requestId, { status: 'failed', output: error, metadata: { duration: 0 } });
+    return;
+  }
+
+  // Restored by the job, so the working directory is on the server that runs the steps
+  let resume: WorkflowResumeState | undefined;
+  if (job.resume) {
+    try {
+      resume = await restoreCheckpoints(job.requestId, job.correlationId);
+    } catch (error: any) {
+      const message = `Resume failed: ${error.message}`;
+      await finishExecutionRecord(job.requestId, { status: 'failed', error: message, durationMs: 0 }, job.correlationId);
+      sendCompletion(job.requestId, { status: 'failed', output: message, metadata: { duration: 0 } });
+      return;
+    }
+  }
+
+  try {
+    await runSkill({
+      skill,
+      prompt: job.prompt,
+      trigger: job.trigger,
+      requestId: job.requestId,
+      payload: job.payload,
+      input: job.input,
+      systemPrompt: job.systemPrompt,
+      correlationId: job.correlationId,
+      resume,
+      queued: !job.resume,
+    });
+  } catch (error) {
+    // Cancelled runs are finished - complete the job
+    if (error instanceof ExecutionCancelledError) {
+      logger.info(job.correlationId, 'skill-job', `Skipped cancelled run: ${job.requestId}`);
+      return;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Resume a failed skill execution from its first incomplete step
+ * The run is queued as a 'skill' job under the same execution ID (so it survives
+ * restarts), forking the session of the last step that finished.
+ *
+ * @throws NotFoundError if the execution or its skill does not exist
+ * @throws ValidationError if the execution did not run a skill
+ * @throws ConflictError if the execution has not failed (or is already being resumed)
+ */
+export async function resumeExecution(
+  executionId: string,
+  correlationId: string
+): Promise<ResumeExecutionResult> {
+  const execution = await getExecutionById(executionId);
+
+  if (!execution) {
+    throw new NotFoundError(`Execution '${executionId}' not found`);
+  }
+
+  if (execution.status !== 'failed') {
+    throw new ConflictError(
+      `Execution '${executionId}' is ${execution.status} - only failed executions can be resumed`
+    );
+  }
+
+  if (!execution.skillId) {
+    throw new ValidationError(`Execution '${executionId}' did not run a skill and cannot be resumed`);
+  }
+
+  const skill = (await getSkillById(execution.skillId)) as any as Workflow | null; // Type cast for Prisma result
+
+  if (!skill) {
+    throw new NotFoundError(`Skill '${execution.skillId}' of execution '${executionId}' not found`);
+  }
+
+  if (!(await markExecutionResumed(executionId))) {
+    throw new ConflictError(`Execution '${executionId}' is already being resumed`);
+  }
+
+  // The job restores the checkpoints; the recorded steps tell where it will continue
+  let recordedSteps;
+  try {
+    recordedSteps = await getExecutionSteps(executionId);
+  } catch (error: any) {
+    await finishExecutionRecord(
+      executionId,
+      { status: 'failed', error: `Resume failed: ${error.message}`, durationMs: 0 },
+      correlationId
+    );
+    throw error;
+  }
+
+  // Fallback steps only run in place of a failed step
+  const fallbackIds = new Set(
+    skill.steps.flatMap((step) => (step.onError?.action === 'fallbackStep' ? [step.onError.stepId] : []))
+  );
+  const completedSteps = recordedSteps.map((step) => step.stepId).sort((a, b) => a - b);
+  const resumeFromStep =
+    skill.steps
+      .map((step) => step.id)
+      .sort((a, b) => a - b)
+      .find((id) => !completedSteps.includes(id) && !fallbackIds.has(id)) ?? null;
+
+  // Reopens the SSE stream of the failed run before clients follow it
+  const lastEventId = getExecutionEventLog().getLastEventId(executionId);
+  sendStreamUpdate(executionId, {
+    type: 'commentary',
+    message: resumeFromStep !== null
+      ? `Resuming from Step ${resumeFromStep}...`
+      : 'Resuming with the final response...',
+  });
+
+  logger.info(correlationId, 'skill-runner', `Resuming execution ${executionId}`, {
+    skillId: skill.id,
+    resumeFromStep,
+    completedSteps,
+  });
+
+  // Resolved inputs are stored as `inputs` (skill triggers also keep the request `payload`)
+  const input = (execution.input || {}) as {
+    prompt?: string;
+    systemPrompt?: string;
+    inputs?: Record<string, any>;
+    payload?: Record<string, any>;
+  };
+
+  const job: SkillJobPayload = {
+    skillId: skill.id,
+    prompt: input.prompt || skill.description || `Run the "${skill.name}" skill.`,
+    trigger: execution.trigger,
+    requestId: executionId,
+    payload: input.inputs ?? input.payload,
+    systemPrompt: input.systemPrompt,
+    correlationId,
+    resume: true,
+  };
+
+  try {
+    await enqueueJob('skill', job);
+  } catch (error: any) {
+    const message = `Resume failed: ${error.message}`;
+    await finishExecutionRecord(executionId, { status: 'failed', error: message, durationMs: 0 }, correlationId);
+    sendCompletion(executionId, { status: 'failed', output: message, metadata: { duration: 0 } });
+    throw error;
+  }
+
+  return { executionId, status: 'running', resumeFromStep, completedSteps, lastEventId };
+}
@@ -7,8 +7,9 @@
  * - classifier: Only classify the prompt, return match info (no execution)
  * - orchestrator: Classify and execute if workflow match found, fallback to default
  * - default: Skip classification, execute as regular one-off agent
+ * - skill: Run the skill named in the request directly (no classification)
  */
-export type ExecutionMode = 'classifier' | 'orchestrator' | 'default';
+export type ExecutionMode = 'classifier' | 'orchestrator' | 'default' | 'skill';
 
 /**
  * MCP Server configuration
@@ -49,6 +50,34 @@ export interface AgentResponse {
 
   /** Execution step metadata (for workflows) */
   steps?: ExecutionStepMetadata[];
+
+  /** Structured final response (skills with an outputSchema) */
+  output?: unknown;
+
+  /** Validated outputs of steps with an outputSchema, by step ID */
+  stepOutputs?: Record<number, unknown>;
+
+  /** Attempts of each workflow step, in the order they ran */
+  stepAttempts?: StepAttempt[];
+
+  /** SDK session of a one-off agent run (resumed by the next turn of a conversation) */
+  sessionId?: string;
+}
+
+/**
+ * Conversation a run continues (webhook requests with a conversationId)
+ */
+export interface ConversationContext {
+  id: string;
+
+  /** Working directory shared by the turns (SDK sessions are stored per directory) */
+  workingDirectory: string;
+
+  /** SDK session to resume (null: start a new one) */
+  sessionId: string | null;
+
+  /** Summary of the earlier turns, given to the agent when no session can be resumed ('' for the first turn) */
+  summary: string;
 }
 
 /**
@@ -109,6 +138,9 @@ export interface WebhookResponse {
   /** The actual response text from the agent */
   response: string;
 
+  /** Structured response of skills with an outputSchema (response holds it as JSON text) */
+  output?: unknown;
+
   /** Array of file URLs generated */
   url: string[];
 
@@ -118,6 +150,12 @@ export interface WebhookResponse {
   /** Execution ID for SSE streaming */
   executionId?: string;
 
+  /** Final status (completion callbacks only) */
+  status?: 'completed' | 'failed' | 'cancelled';
+
+  /** Error message of a failed run (completion callbacks only) */
+  error?: string;
+
   /** Execution metadata */
   metadata?: {
     workflowId?: string;
@@ -135,9 +173,32 @@ export interface Workflow {
   description: string;
   steps: WorkflowStep[];
   connectionNames?: string[];  // Skill-level connection names (fallback for steps)
+  outputSchema?: Record<string, any> | null;  // JSON Schema of the final response (typed JSON instead of prose)
+  inputs?: Record<string, any> | null;  // JSON Schema of the input parameters (steps use {{input.<name>}})
   created_at?: string;
 }
 
+/**
+ * Skill drafted from a successful one-off run (POST /executions/:id/to-skill)
+ * or from a description (POST /skills/generate)
+ * Not saved: the user reviews and saves it (e.g. in the CLI skill editor).
+ */
+export interface SkillDraft {
+  /** Execution the draft was made from (drafts of a run) */
+  sourceExecutionId?: string;
+  name: string;
+  /** Description for the classifier */
+  description: string;
+  /** Example prompts (the prompt of the run) */
+  examples: string[];
+  /** Ordered steps with the tools each may use */
+  steps: WorkflowStep[];
+  /** Connections whose tools the steps use */
+  connectionNames: string[];
+  /** Tools Claude named that do not exist (generated drafts; left out of the steps) */
+  unknownTools?: string[];
+}
+
 /**
  * Individual step within a workflow
  */
@@ -148,6 +209,125 @@ export interface WorkflowStep {
   allowedTools?: string[];      // SDK tools, MCP tool names, MCP server names
   disallowedTools?: string[];   // SDK tools, MCP tool names, MCP server names
   connectionNames?: string[];   // Per-step connection names (fallback to skill-level)
+  dependsOn?: number[];         // Step IDs that must complete first (omitted everywhere: sequential)
+  condition?: StepCondition;    // Step is skipped unless the condition holds
+  forEach?: StepForEach;        // Run the step once per item of a list from an earlier step
+  outputSchema?: Record<string, any>;  // JSON Schema the step's final answer must match
+  retry?: StepRetryPolicy;      // Retry failed attempts (default: one attempt)
+  onError?: StepErrorPolicy;    // What happens when the step fails (default: fail the run)
+  requiresApproval?: boolean;   // Pause before the step until a human approves or rejects it
+}
+
+/**
+ * Error classes a step failure is sorted into (see workflow-retry.ts)
+ */
+export type StepErrorClass =
+  | 'timeout'
+  | 'rate_limit'
+  | 'overloaded'
+  | 'network'
+  | 'output_schema'
+  | 'other';
+
+/**
+ * Retry policy of a workflow step
+ */
+export interface StepRetryPolicy {
+  maxAttempts?: number;         // Including the first attempt (default 3, capped by WORKFLOW_STEP_MAX_ATTEMPTS)
+  backoffMs?: number;           // Delay before the first retry (default 2000)
+  backoffMultiplier?: number;   // Factor applied to the delay per retry (default 2)
+  retryOn?: StepErrorClass[];   // Error classes worth retrying (default: timeout, rate_limit, overloaded, network)
+}
+
+/**
+ * What happens when a step fails after its last attempt
+ * - fail: the run fails (default)
+ * - continue: the step is marked failed and its dependents run anyway
+ * - fallbackStep: another step runs in its place (the fallback is not run otherwise)
+ * - goto: steps between this one and the target are skipped, then the target runs
+ */
+export type StepErrorPolicy =
+  | { action: 'fail' }
+  | { action: 'continue' }
+  | { action: 'fallbackStep'; stepId: number }
+  | { action: 'goto'; stepId: number };
+
+/**
+ * One attempt of a workflow step (recorded in the execution trace)
+ */
+export interface StepAttempt {
+  stepId: number;
+  item?: number;                // 0-based item index of forEach steps
+  attempt: number;              // 1-based
+  status: 'completed' | 'failed';
+  errorClass?: StepErrorClass;
+  error?: string;
+  startedAt: string;
+  durationMs: number;
+}
+
+/**
+ * State of a finished workflow step, recorded so a failed run can resume after it
+ */
+export interface StepCheckpoint {
+  stepId: number;
+  status: 'completed' | 'skipped' | 'failed';
+  sessionId: string | null;     // Session dependents fork (inherited if the step has none of its own)
+  ownsSession: boolean;         // sessionId contains this step's own work
+  output: string;
+  value?: unknown;              // Validated output (steps with an outputSchema)
+  error?: string;               // Why the step failed (onError continue or goto)
+}
+
+/**
+ * Workflow step waiting for a human decision (see execution-approvals.ts)
+ */
+export interface PendingApproval {
+  executionId: string;
+  stepId: number;
+  title: string;
+  prompt: string;               // Proposed action: the step prompt with its placeholders filled in
+  items?: unknown[];            // Items a forEach step would process
+  requestedAt: string;
+  expiresAt: string;            // Then APPROVAL_TIMEOUT_ACTION applies
+}
+
+/**
+ * Decision on a pending approval
+ * - approved: the step runs (with the edited prompt, if given)
+ * - rejected: the step is skipped
+ * - expired: nobody decided within APPROVAL_TIMEOUT_MS
+ * - cancelled: the execution was cancelled while waiting
+ */
+export type ApprovalDecision =
+  | { status: 'approved'; prompt?: string }
+  | { status: 'rejected'; reason?: string }
+  | { status: 'expired' }
+  | { status: 'cancelled' };
+
+/**
+ * Finished steps of a failed run that is resumed
+ */
+export interface WorkflowResumeState {
+  workingDirectory: string;     // Working directory of the failed run (restored from its last snapshot)
+  checkpoints: StepCheckpoint[];
+}
+
+/**
+ * Condition of a workflow step (exactly one of expression or ask)
+ * See workflow-conditions.ts for the expression syntax.
+ */
+export interface StepCondition {
+  expression?: string;  // e.g. steps.1.output.count > 0 && steps.2.status == "completed"
+  ask?: string;         // Yes/no question judged by Claude from the earlier steps' results
+}
+
+/**
+ * Loop of a workflow step over a list produced by an earlier step
+ */
+export interface StepForEach {
+  items: string;       // Path to the list, e.g. steps.1.output.emails
+  maxItems?: number;   // Items processed at most (capped by WORKFLOW_MAX_FOREACH_ITEMS)
 }
 
 /**
@@ -158,6 +338,19 @@ export interface ClassificationResult {
   workflowData: Workflow | null;
   confidence: 'high' | 'medium' | 'low' | 'none';
   reasoning?: string;
+  /** Input parameter values extracted from the prompt (skills with inputs) */
+  inputs?: Record<string, unknown>;
+  /** Skills shown to the classifier (keyword shortlist), best match first */
+  candidates?: ClassifierCandidate[];
+}
+
+/**
+ * Skill the classifier considered, with its keyword (BM25) score for the prompt
+ */
+export interface ClassifierCandidate {
+  skillId: string;
+  name: string;
+  score: number;
 }
 
 /**
@@ -197,6 +390,9 @@ declare global {
       /** Correlation ID for request tracking */
       correlationId?: string;
 
+      /** Raw request body (for signature verification) */
+      rawBody?: Buffer;
+
       /** Request start time for duration tracking */
       startTime?: number;
     }
@@ -2,6 +2,8 @@
  * Custom error classes for the async agent
  */
 
+import type { StepAttempt } from '../types.js';
+
 export class AppError extends Error {
   public readonly statusCode: number;
   public readonly isOperational: boolean;
@@ -30,6 +32,27 @@ export class ValidationError extends AppError {
   }
 }
 
+export class AuthenticationError extends AppError {
+  constructor(message: string, cause?: Error) {
+    super(message, 401, true, cause);
+    this.name = 'AuthenticationError';
+  }
+}
+
+export class ForbiddenError extends AppError {
+  constructor(message: string, cause?: Error) {
+    super(message, 403, true, cause);
+    this.name = 'ForbiddenError';
+  }
+}
+
+export class NotFoundError extends AppError {
+  constructor(message: string, cause?: Error) {
+    super(message, 404, true, cause);
+    this.name = 'NotFoundError';
+  }
+}
+
 export class AgentError extends AppError {
   constructor(message: string, cause?: Error) {
     super(message, 500, true, cause);
@@ -51,6 +74,52 @@ export class DatabaseError extends AppError {
   }
 }
 
+export class EncryptionError extends AppError {
+  constructor(message: string, cause?: Error) {
+    super(message, 500, true, cause);
+    this.name = 'EncryptionError';
+  }
+}
+
+export class ConflictError extends AppError {
+  constructor(message: string, cause?: Error) {
+    super(message, 409, true, cause);
+    this.name = 'ConflictError';
+  }
+}
+
+export class ExecutionCancelledError extends AppError {
+  constructor(message: string, cause?: Error) {
+    super(message, 409, true, cause);
+    this.name = 'ExecutionCancelledError';
+  }
+}
+
+export class CallbackError extends AppError {
+  constructor(message: string, cause?: Error) {
+    super(message, 502, true, cause);
+    this.name = 'CallbackError';
+  }
+}
+
+export class StepOutputError extends AppError {
+  constructor(message: string, cause?: Error) {
+    super(message, 422, true, cause);
+    this.name = 'StepOutputError';
+  }
+}
+
+export class WorkflowError extends AppError {
+  /** Attempts of the steps that ran before the workflow failed */
+  public readonly stepAttempts: StepAttempt[];
+
+  constructor(message: string, stepAttempts: StepAttempt[] = [], cause?: Error) {
+    super(message, 500, true, cause);
+    this.name = 'WorkflowError';
+    this.stepAttempts = stepAttempts;
+  }
+}
+
 export class TimeoutError extends AppError {
   constructor(message: string, cause?: Error) {
     super(message, 504, true, cause);
@@ -75,6 +144,40 @@ export function isOperationalError(error: Error): boolean {
   return false;
 }
 
+/**
+ * Patterns of agent failures that are likely to succeed on retry
+ * (timeouts, rate limits, overloaded API, dropped connections)
+ */
+const TRANSIENT_ERROR_PATTERN =
+  /timeout|timed out|rate.?limit|overloaded|\b(429|500|502|503|504|529)\b|ECONNRESET|ECONNREFUSED|ETIMEDOUT|EAI_AGAIN|socket hang up/i;
+
+/**
+ * Determine if an agent error is transient (worth retrying)
+ */
+export function isTransientError(error: unknown): boolean {
+  if (!(error instanceof AgentError)) {
+    return false;
+  }
+
+  return TRANSIENT_ERROR_PATTERN.test(`${error.message} ${error.cause?.message || ''}`);
+}
+
+/**
+ * Find the step attempts of a failed workflow in an error or its causes
+ */
+export function getStepAttempts(error: unknown): StepAttempt[] | undefined {
+  let current: unknown = error;
+
+  while (current instanceof Error) {
+    if (current instanceof WorkflowError) {
+      return current.stepAttempts;
+    }
+    current = (current as AppError).cause;
+  }
+
+  return undefined;
+}
+
 /**
  * Convert unknown error to AppError
  */
@@ -0,0 +1,78 @@
+/**
+ * HMAC signature helpers for inbound webhooks
+ *
+ * Supported signature headers:
+ * - X-Hub-Signature-256: sha256=<hex>   (GitHub style, HMAC of the raw body)
+ * - X-Signature-256: sha256=<hex>       (generic, same scheme as GitHub)
+ * - Stripe-Signature: t=<ts>,v1=<hex>   (Stripe style, HMAC of "<ts>.<raw body>")
+ */
+
+import crypto from 'crypto';
+
+/** Maximum age of a timestamped (Stripe-style) signature */
+const DEFAULT_TOLERANCE_SECONDS = 300;
+
+type Headers = Record<string, string | string[] | undefined>;
+
+/**
+ * Compute a hex-encoded HMAC-SHA256 signature
+ */
+export function computeSignature(secret: string, payload: string | Buffer): string {
+  return crypto.createHmac('sha256', secret).update(payload).digest('hex');
+}
+
+/**
+ * Constant-time comparison of two hex signatures
+ */
+function signaturesMatch(expected: string, received: string): boolean {
+  const a = Buffer.from(expected, 'hex');
+  const b = Buffer.from(received, 'hex');
+  return a.length > 0 && a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+function getHeader(headers: Headers, name: string): string | undefined {
+  const value = headers[name.toLowerCase()];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Verify the signature of an inbound webhook request
+ *
+ * @param secret - Shared secret configured on the skill
+ * @param rawBody - Exact request body bytes
+ * @param headers - Request headers (lower-cased keys, as provided by Node)
+ * @param toleranceSeconds - Maximum age of timestamped signatures
+ * @returns true if any supported signature header is present and valid
+ */
+export function verifySignature(
+  secret: string,
+  rawBody: Buffer,
+  headers: Headers,
+  toleranceSeconds: number = DEFAULT_TOLERANCE_SECONDS
+): boolean {
+  const hubSignature =
+    getHeader(headers, 'x-hub-signature-256') || getHeader(headers, 'x-signature-256');
+
+  if (hubSignature) {
+    const [scheme, signature] = hubSignature.split('=', 2);
+    return scheme === 'sha256' && !!signature && signaturesMatch(computeSignature(secret, rawBody), signature);
+  }
+
+  const stripeSignature = getHeader(headers, 'stripe-signature');
+
+  if (stripeSignature) {
+    const pairs = stripeSignature.split(',').map((part) => part.trim().split('=', 2));
+    const timestamp = pairs.find(([key]) => key === 't')?.[1];
+    const signatures = pairs.filter(([key]) => key === 'v1').map(([, value]) => value);
+
+    if (!timestamp || signatures.length === 0) return false;
+
+    const age = Math.abs(Date.now() / 1000 - parseInt(timestamp, 10));
+    if (!Number.isFinite(age) || age > toleranceSeconds) return false;
+
+    const expected = computeSignature(secret, `${timestamp}.${rawBody.toString('utf8')}`);
+    return signatures.some((signature) => signaturesMatch(expected, signature));
+  }
+
+  return false;
+}
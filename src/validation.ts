@@ -5,11 +5,17 @@
 import { z } from 'zod';
 
 export const webhookRequestSchema = z.object({
-  /** User's prompt - required */
-  prompt: z.string().min(1, 'Prompt is required').max(100000),
+  /** User's prompt - required except in skill mode (defaults to the skill description) */
+  prompt: z.string().min(1, 'Prompt is required').max(100000).optional(),
 
   /** Execution mode - defaults to 'default' */
-  mode: z.enum(['classifier', 'orchestrator', 'default']).optional().default('default'),
+  mode: z.enum(['classifier', 'orchestrator', 'default', 'skill']).optional().default('default'),
+
+  /** Skill to run in skill mode (by ID) */
+  skillId: z.string().min(1).max(100).optional(),
+
+  /** Skill to run in skill mode (by name, case-insensitive) */
+  skillName: z.string().min(1).max(100).optional(),
 
   /** Optional request identifier */
   requestId: z
@@ -18,6 +24,13 @@ export const webhookRequestSchema = z.object({
     .max(100)
     .optional(),
 
+  /** Conversation the request is a turn of (created on first use, see /conversations) */
+  conversationId: z
+    .string()
+    .regex(/^[a-zA-Z0-9_-]+$/, 'Conversation ID must be alphanumeric with _ or -')
+    .max(100)
+    .optional(),
+
   /** Optional system prompt override */
   systemPrompt: z.string().max(50000).optional(),
 
@@ -26,6 +39,130 @@ export const webhookRequestSchema = z.object({
 
   /** Additional metadata */
   metadata: z.record(z.any()).optional(),
+
+  /** Input parameter values for the matched or named skill (see Skill.inputs) */
+  inputs: z.record(z.any()).optional(),
+
+  /** URL that receives the final result (POST, HMAC-signed) when the run finishes */
+  callbackUrl: z
+    .string()
+    .url()
+    .max(2000)
+    .refine((url) => /^https?:\/\//i.test(url), 'Callback URL must use http or https')
+    .optional(),
+
+  /** Extra headers sent with the callback (e.g. Authorization) */
+  callbackHeaders: z.record(z.string().max(4000)).optional(),
+}).superRefine((data, ctx) => {
+  if (data.mode === 'skill') {
+    if (!data.skillId === !data.skillName) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['skillId'],
+        message: 'Skill mode requires either skillId or skillName',
+      });
+    }
+    return;
+  }
+
+  if (data.skillId || data.skillName) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: [data.skillId ? 'skillId' : 'skillName'],
+      message: "skillId and skillName require mode 'skill'",
+    });
+  }
+  if (!data.prompt) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['prompt'], message: 'Prompt is required' });
+  }
 });
 
 export type WebhookRequest = z.infer<typeof webhookRequestSchema>;
+
+/** Execution statuses (see Execution.status) */
+export const executionStatusSchema = z.enum(['queued', 'running', 'awaiting_approval', 'completed', 'failed', 'cancelled']);
+
+/**
+ * Query parameters of GET /executions
+ */
+export const executionListQuerySchema = z.object({
+  /** Only executions of this skill */
+  skillId: z.string().max(100).optional(),
+
+  /** Only executions with this status */
+  status: executionStatusSchema.optional(),
+
+  /** Only executions started by this trigger ('webhook', 'schedule', ...) */
+  trigger: z.string().max(50).optional(),
+
+  /** Started at or after (ISO 8601) */
+  from: z.coerce.date().optional(),
+
+  /** Started before (ISO 8601) */
+  to: z.coerce.date().optional(),
+
+  /** Cursor from the previous page (nextCursor) */
+  cursor: z.string().max(100).optional(),
+
+  /** Page size */
+  limit: z.coerce.number().int().min(1).max(100).optional().default(20),
+});
+
+export type ExecutionListQuery = z.infer<typeof executionListQuerySchema>;
+
+/**
+ * Body of POST /executions/:id/approve
+ */
+export const approveExecutionSchema = z.object({
+  /** Step to approve (optional while only one step is waiting) */
+  stepId: z.number().int().positive().optional(),
+
+  /** Edited prompt the step runs with instead of the proposed one */
+  prompt: z.string().min(1).max(100000).optional(),
+});
+
+/**
+ * Body of POST /executions/:id/classification/feedback
+ * Either { correct: true }, or the skill (ID or name) that should have run - null for none
+ */
+export const classificationFeedbackSchema = z.union([
+  z.object({ correct: z.literal(true) }).strict(),
+  z.object({ correctSkill: z.string().min(1).max(200).nullable() }).strict(),
+]);
+
+/**
+ * Body of POST /executions/:id/reject
+ */
+export const rejectExecutionSchema = z.object({
+  /** Step to reject (optional while only one step is waiting) */
+  stepId: z.number().int().positive().optional(),
+
+  /** Why the step was rejected (shown in the skip commentary) */
+  reason: z.string().max(2000).optional(),
+});
+
+/**
+ * Query parameters of GET /conversations
+ */
+export const conversationListQuerySchema = z.object({
+  /** Cursor from the previous page (nextCursor) */
+  cursor: z.string().max(100).optional(),
+
+  /** Page size */
+  limit: z.coerce.number().int().min(1).max(100).optional().default(20),
+});
+
+/**
+ * Body of PATCH /conversations/:id
+ */
+export const renameConversationSchema = z.object({
+  title: z.string().trim().min(1, 'Title is required').max(200),
+});
+
+/**
+ * Body of POST /skills/generate
+ */
+export const generateSkillSchema = z.object({
+  /** What the skill should do, in plain language */
+  description: z.string().trim().min(1, 'Description is required').max(5000),
+});
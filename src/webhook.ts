@@ -3,27 +3,91 @@
  *
  * Processes incoming prompts through the agent pipeline:
  * Request → Validation → Agent Execution → File Processing → Response
+ *
+ * Async requests are queued as 'webhook' jobs and run by the job worker.
+ * Requests with a conversationId are turns of that conversation (trigger 'chat').
  */
 
+import crypto from 'crypto';
 import { Request, Response } from 'express';
 import { webhookRequestSchema } from './validation.js';
-import { executeWithMode } from './agent-executor.js';
+import { executeWithMode, findSkill } from './agent-executor.js';
+import { resolveSkillInputs } from './skill-inputs.js';
 import {
   detectFiles,
   uploadAllFiles,
   cleanupWorkingDirectory,
 } from './files.js';
-import { AgentError, ValidationError } from './utils/errors.js';
+import {
+  AgentError,
+  ValidationError,
+  NotFoundError,
+  ExecutionCancelledError,
+  getStepAttempts,
+  isTransientError,
+} from './utils/errors.js';
 import { logger, getCorrelationId } from './middleware/logging.js';
 import { metrics } from './utils/monitoring.js';
 import { loadSystemPrompt, loadUserPromptPrefix } from './prompts.js';
-import { WebhookResponse, ExecutionMode } from './types.js';
+import {
+  WebhookResponse,
+  ExecutionMode,
+  FileMetadata,
+  McpConnections,
+  StepAttempt,
+  ConversationContext,
+} from './types.js';
 import { sendCompletion } from './routes/stream.js';
+import { summarizeUsage } from './shared/agent-utils.js';
+import {
+  startExecutionRecord,
+  resumeExecutionRecord,
+  finishExecutionRecord,
+  formatExecutionError,
+} from './execution-records.js';
+import { discardSnapshots } from './execution-checkpoints.js';
+import { enqueueJob, JobContext } from './services/queue/job-queue.js';
+import { getEncryptionService } from './services/encryption/encryption.js';
+import { scheduleCallback, validateCallbackUrl, CallbackTarget } from './services/callbacks/callbacks.js';
+import {
+  registerExecution,
+  unregisterExecution,
+  isExecutionCancelled,
+  throwIfCancelled,
+} from './execution-cancellation.js';
+import { getExecutionById } from './database.js';
+import {
+  openConversation,
+  getConversationContext,
+  finishConversationTurn,
+  releaseConversation,
+} from './conversations.js';
+
+/**
+ * Payload of a queued 'webhook' job
+ */
+export interface WebhookJobPayload {
+  prompt: string;
+  requestId: string;
+  systemPrompt?: string;
+  mode: ExecutionMode;
+  /** Skill to run in skill mode (resolved from skillId/skillName when queued) */
+  skillId?: string;
+  metadata?: Record<string, any>;
+  inputs?: Record<string, unknown>;
+  /** Conversation the request is a turn of */
+  conversationId?: string;
+  correlationId: string;
+  /** MCP connections resolved for the request (encrypted when a key is set) */
+  connections: string;
+  /** Completion callback (headers sealed like connections) */
+  callback?: { url: string; headers?: string };
+}
 
 /**
  * Format uploaded files as text to append to agent response
  */
-function formatFilesForResponse(files: any[]): string {
+export function formatFilesForResponse(files: any[]): string {
   if (files.length === 0) return '';
 
   const fileList = files
@@ -35,6 +99,57 @@ function formatFilesForResponse(files: any[]): string {
   return `\n\n--- Files Generated ---\n${fileList}`;
 }
 
+/**
+ * Detect and upload files generated during a run (non-fatal on failure)
+ *
+ * @returns Uploaded file metadata
+ */
+export async function processGeneratedFiles(
+  workingDirectory: string | null,
+  requestId: string,
+  startTime: number,
+  correlationId: string
+): Promise<FileMetadata[]> {
+  logger.info(correlationId, 'files', 'Processing generated files');
+  let uploadedFiles: FileMetadata[] = [];
+
+  try {
+    if (workingDirectory) {
+      const detectedFiles = await detectFiles(workingDirectory, startTime);
+
+      if (detectedFiles.length > 0) {
+        logger.info(
+          correlationId,
+          'files',
+          `Detected ${detectedFiles.length} files`
+        );
+        metrics.recordFileGenerated();
+
+        uploadedFiles = await uploadAllFiles(detectedFiles, requestId);
+
+        if (uploadedFiles.length > 0) {
+          logger.info(
+            correlationId,
+            'files',
+            `Successfully uploaded ${uploadedFiles.length}/${detectedFiles.length} files`
+          );
+          uploadedFiles.forEach(() => metrics.recordFileUploaded());
+        }
+      } else {
+        logger.info(correlationId, 'files', 'No files detected');
+      }
+    }
+  } catch (error: any) {
+    // File processing is non-fatal
+    logger.error(correlationId, 'files', 'File processing error (non-fatal)', {
+      error: error.message,
+    });
+    metrics.recordError('StorageError');
+  }
+
+  return uploadedFiles;
+}
+
 /**
  * Main webhook handler
  */
@@ -55,47 +170,97 @@ export async function webhookHandler(req: Request, res: Response) {
     }
 
     const {
-      prompt,
       requestId: providedRequestId,
       systemPrompt: requestSystemPrompt,
       async: isAsync,
       mode,
       metadata,
+      inputs,
+      conversationId,
+      callbackUrl,
+      callbackHeaders,
     } = validation.data;
 
-    // Generate request ID if not provided
-    const requestId = providedRequestId || `req-${Date.now()}`;
+    if (callbackUrl) {
+      await validateCallbackUrl(callbackUrl);
+    }
+
+    // Skill mode: unknown skills and missing inputs are rejected before anything is recorded
+    const skill = mode === 'skill'
+      ? await findSkill(validation.data.skillId, validation.data.skillName)
+      : null;
+    if (skill) {
+      resolveSkillInputs(skill, inputs);
+    }
+
+    // Only skill mode may omit the prompt (see webhookRequestSchema)
+    const prompt =
+      validation.data.prompt || skill?.description || `Run the "${skill?.name}" skill.`;
+    const skillId = skill?.id;
+
+    // Generate request ID if not provided (it is the Execution ID, so it must be unique)
+    const requestId = providedRequestId || crypto.randomUUID();
+    const callback: CallbackTarget | undefined = callbackUrl
+      ? { url: callbackUrl, headers: callbackHeaders }
+      : undefined;
 
-    // If async=true, respond immediately and continue in background
+    // One turn at a time per conversation (409 while the previous one runs)
+    if (conversationId) {
+      await openConversation(conversationId, prompt, requestId);
+    }
+
+    // If async=true, queue the run and respond immediately
     if (isAsync) {
-      logger.info(
-        correlationId,
-        'webhook',
-        'Async mode enabled - responding immediately'
-      );
-      res.status(202).json({
-        status: 'processing',
+      // Record the run first: a reused request ID is rejected before queueing
+      await startExecutionRecord(
         requestId,
-        executionId: requestId  // Use requestId as executionId for SSE streaming
+        skillId ?? null,
+        conversationId ? 'chat' : 'webhook',
+        { prompt, mode, systemPrompt: requestSystemPrompt, metadata, inputs },
+        correlationId,
+        'queued',
+        conversationId
+      ).catch(async (error) => {
+        if (conversationId) await releaseConversation(conversationId, requestId);
+        throw error;
       });
 
-      // Continue execution in background
-      processWebhookAsync(
-        req,
+      const payload: WebhookJobPayload = {
         prompt,
         requestId,
-        requestSystemPrompt,
+        systemPrompt: requestSystemPrompt,
         mode,
+        skillId,
         metadata,
+        inputs,
+        conversationId,
         correlationId,
-        startTime
-      ).catch((error) => {
-        logger.error(correlationId, 'webhook-async', 'Background execution failed', {
-          error: error.message,
-          name: error.name,
-        });
-        metrics.recordRequest(false, Date.now() - startTime);
-        metrics.recordError(error.name || 'UnknownError');
+        connections: getEncryptionService().seal(req.mcpConnections || {}),
+        callback: callback && {
+          url: callback.url,
+          headers: callback.headers && getEncryptionService().seal(callback.headers),
+        },
+      };
+      const jobId = await enqueueJob('webhook', payload).catch(async (error) => {
+        // Nothing would ever run the recorded execution - fail it and free the conversation
+        await finishExecutionRecord(
+          requestId,
+          { status: 'failed', error: `Failed to queue the request: ${error.message}`, durationMs: 0 },
+          correlationId
+        );
+        if (conversationId) await releaseConversation(conversationId, requestId);
+        throw error;
+      });
+
+      logger.info(
+        correlationId,
+        'webhook',
+        `Async mode enabled - queued as job ${jobId}`
+      );
+      res.status(202).json({
+        status: 'queued',
+        requestId,
+        executionId: requestId  // Use requestId as executionId for SSE streaming
       });
 
       return;
@@ -105,14 +270,18 @@ export async function webhookHandler(req: Request, res: Response) {
     logger.info(correlationId, 'webhook', `Processing request: ${requestId}`);
 
     const response = await processWebhook(
-      req,
+      req.mcpConnections || {},
       prompt,
       requestId,
       requestSystemPrompt,
       mode,
+      skillId,
       metadata,
+      inputs,
+      conversationId,
       correlationId,
-      startTime
+      startTime,
+      { callback }
     );
 
     res.json(response);
@@ -129,24 +298,139 @@ export async function webhookHandler(req: Request, res: Response) {
   }
 }
 
+/**
+ * Run a queued 'webhook' job (registered with the job worker)
+ * Failures are rethrown so the worker can retry transient errors.
+ */
+export async function processWebhookJob(
+  payload: WebhookJobPayload,
+  context: JobContext
+): Promise<void> {
+  logger.info(
+    payload.correlationId,
+    'webhook-job',
+    `Processing queued request: ${payload.requestId} (attempt ${context.attempt}/${context.maxAttempts})`
+  );
+
+  const callback: CallbackTarget | undefined = payload.callback && {
+    url: payload.callback.url,
+    headers: payload.callback.headers
+      ? getEncryptionService().unseal<Record<string, string>>(payload.callback.headers)
+      : undefined,
+  };
+
+  // The run may have been cancelled while it was waiting, or failed while its job was
+  // requeued on shutdown (e.g. waiting for approval) - it must not run again
+  const execution = await getExecutionById(payload.requestId).catch(() => null);
+  if (execution && !['queued', 'running'].includes(execution.status)) {
+    logger.info(
+      payload.correlationId,
+      'webhook-job',
+      `Skipped request ${payload.requestId}: execution is ${execution.status}`
+    );
+
+    if (callback && execution.status === 'cancelled') {
+      await scheduleCancelledCallback(payload.requestId, callback);
+    }
+    return;
+  }
+
+  try {
+    await processWebhook(
+      payload.connections ? getEncryptionService().unseal<McpConnections>(payload.connections) : {},
+      payload.prompt,
+      payload.requestId,
+      payload.systemPrompt,
+      payload.mode,
+      payload.skillId,
+      payload.metadata,
+      payload.inputs,
+      payload.conversationId,
+      payload.correlationId,
+      Date.now(),
+      {
+        queued: true,
+        retryable: !context.isFinalAttempt,
+        callback,
+      }
+    );
+  } catch (error) {
+    // Cancelled runs are finished - complete the job instead of retrying it
+    if (error instanceof ExecutionCancelledError) {
+      logger.info(payload.correlationId, 'webhook-job', `Skipped cancelled request: ${payload.requestId}`);
+      return;
+    }
+    throw error;
+  }
+}
+
 /**
  * Process webhook request - returns response object
+ *
+ * @param mcpConnections - MCP connections for the agent (set by connections middleware)
+ * @param skillId - Skill to run (skill mode)
+ * @param inputs - Input parameter values for the skill (orchestrator and skill modes)
+ * @param conversationId - Conversation the request is a turn of (opened by the handler)
+ * @param options.queued - The Execution record was created when the job was queued
+ * @param options.retryable - Transient failures will be retried (record stays open)
+ * @param options.callback - Where to POST the final response (completed, failed or cancelled)
+ * @throws ExecutionCancelledError if the run was cancelled (already finalized by cancelExecution)
  */
 async function processWebhook(
-  req: Request,
+  mcpConnections: McpConnections,
   prompt: string,
   requestId: string,
   requestSystemPrompt: string | undefined,
   mode: ExecutionMode,
+  skillId: string | undefined,
   metadata: Record<string, any> | undefined,
+  inputs: Record<string, unknown> | undefined,
+  conversationId: string | undefined,
   correlationId: string,
-  startTime: number
+  startTime: number,
+  options: { queued?: boolean; retryable?: boolean; callback?: CallbackTarget } = {}
 ): Promise<WebhookResponse> {
   let workingDirectory: string | null = null;
+  let conversation: ConversationContext | undefined;
+  let executionRecorded = false;
+  const controller = registerExecution(requestId);
+
+  // A conversation's directory holds its SDK session - only per-run directories are removed
+  const isTemporaryDirectory = (directory: string | null): directory is string =>
+    !!directory && directory !== conversation?.workingDirectory;
+
+  // A turn that failed or was cancelled lets the next one start (a retried turn keeps the conversation)
+  const releaseTurn = async () => {
+    if (!conversationId) return;
+    await releaseConversation(conversationId, requestId).catch((error) =>
+      logger.warn(correlationId, 'webhook', 'Failed to release the conversation (non-fatal)', {
+        error: error.message,
+      })
+    );
+  };
 
   try {
-    // Get MCP connections from request (set by connections middleware)
-    const mcpConnections = req.mcpConnections || {};
+    // Record the run before doing any work so it is visible while running
+    executionRecorded = options.queued
+      ? await resumeExecutionRecord(requestId, correlationId)
+      : await startExecutionRecord(
+          requestId,
+          skillId ?? null,
+          conversationId ? 'chat' : 'webhook',
+          { prompt, mode, systemPrompt: requestSystemPrompt, metadata, inputs },
+          correlationId,
+          'running',
+          conversationId
+        );
+
+    if (conversationId) {
+      conversation = await getConversationContext(conversationId, requestId);
+      logger.info(
+        correlationId,
+        'webhook',
+        `Conversation ${conversationId}: ${conversation.sessionId ? `resuming session ${conversation.sessionId}` : 'no session to resume'}`
+      );
+    }
 
     if (Object.keys(mcpConnections).length === 0) {
       logger.warn(
@@ -174,6 +458,10 @@ async function processWebhook(
     let classification: any = undefined;
     let workflow: any = undefined;
     let executionSteps: any[] | undefined;
+    let structuredOutput: unknown;
+    let stepOutputs: Record<number, unknown> | undefined;
+    let stepAttempts: StepAttempt[] | undefined;
+    let sessionId: string | undefined;
 
     try {
       const result = await executeWithMode({
@@ -183,6 +471,9 @@ async function processWebhook(
         mcpConnections,
         systemPrompt,
         userPromptPrefix: userPromptPrefix || undefined,
+        inputs,
+        skillId,
+        conversation,
         correlationId,
       });
 
@@ -192,6 +483,10 @@ async function processWebhook(
       classification = result.classification;
       workflow = result.workflow;
       executionSteps = result.steps;
+      structuredOutput = result.output;
+      stepOutputs = result.stepOutputs;
+      stepAttempts = result.stepAttempts;
+      sessionId = result.sessionId;
 
       const duration = ((Date.now() - startTime) / 1000).toFixed(2);
       logger.info(
@@ -200,49 +495,25 @@ async function processWebhook(
         `Agent execution completed (duration: ${duration}s)`
       );
     } catch (error: any) {
+      // e.g. missing required skill inputs, or a skill deleted while the run was queued
+      if (error instanceof ValidationError || error instanceof NotFoundError) {
+        throw error;
+      }
       if (error.message?.includes('timeout')) {
         throw new AgentError('Agent execution timeout', error);
       }
       throw new AgentError('Agent execution failed', error);
     }
 
-    // Process files
-    logger.info(correlationId, 'files', 'Processing generated files');
-    let uploadedFiles: any[] = [];
-
-    try {
-      if (workingDirectory) {
-        const detectedFiles = await detectFiles(workingDirectory, startTime);
+    throwIfCancelled(requestId);
 
-        if (detectedFiles.length > 0) {
-          logger.info(
-            correlationId,
-            'files',
-            `Detected ${detectedFiles.length} files`
-          );
-          metrics.recordFileGenerated();
-
-          uploadedFiles = await uploadAllFiles(detectedFiles, requestId);
-
-          if (uploadedFiles.length > 0) {
-            logger.info(
-              correlationId,
-              'files',
-              `Successfully uploaded ${uploadedFiles.length}/${detectedFiles.length} files`
-            );
-            uploadedFiles.forEach(() => metrics.recordFileUploaded());
-          }
-        } else {
-          logger.info(correlationId, 'files', 'No files detected');
-        }
-      }
-    } catch (error: any) {
-      // File processing is non-fatal
-      logger.error(correlationId, 'files', 'File processing error (non-fatal)', {
-        error: error.message,
-      });
-      metrics.recordError('StorageError');
-    }
+    // Process files
+    const uploadedFiles = await processGeneratedFiles(
+      workingDirectory,
+      requestId,
+      startTime,
+      correlationId
+    );
 
     // Append file information to response text
     if (uploadedFiles.length > 0) {
@@ -254,11 +525,38 @@ async function processWebhook(
       );
     }
 
-    // Note: Result storage removed - using Prisma for skills/executions only
-    // Files are stored locally and traces are returned in the response
+    // Persist the outcome on the Execution record
+    const usage = summarizeUsage(conversationTrace);
+
+    if (executionRecorded) {
+      await finishExecutionRecord(
+        requestId,
+        {
+          status: 'completed',
+          output: agentResponse,
+          trace: {
+            messages: conversationTrace || [],
+            stepMetadata: executionSteps,
+            stepOutputs,
+            stepAttempts,
+            classification,
+            files: uploadedFiles,
+          },
+          durationMs: Date.now() - startTime,
+          tokenCount: usage.tokenCount,
+          costUsd: usage.costUsd,
+        },
+        correlationId
+      );
+    }
+
+    // Only one-off agent turns leave a session the next turn can resume
+    if (conversationId) {
+      await finishConversationTurn(conversationId, requestId, sessionId ?? null);
+    }
 
     // Cleanup working directory
-    if (workingDirectory) {
+    if (isTemporaryDirectory(workingDirectory)) {
       cleanupWorkingDirectory(workingDirectory).catch((error) => {
         logger.warn(correlationId, 'cleanup', 'Cleanup warning (non-fatal)', {
           error: error.message,
@@ -275,6 +573,7 @@ async function processWebhook(
     );
 
     metrics.recordRequest(true, Date.now() - startTime);
+    await discardSnapshots(requestId);
 
     // Build simplified response
     const response: WebhookResponse = {
@@ -282,6 +581,7 @@ async function processWebhook(
       url: uploadedFiles.map(f => f.url),
       requestId,
       executionId: requestId, // Use requestId as executionId for SSE streaming
+      ...(structuredOutput !== undefined && { output: structuredOutput }),
     };
 
     // Include metadata if workflow was executed
@@ -300,11 +600,41 @@ async function processWebhook(
       output: agentResponse,
       metadata: {
         duration: executionTime,
+        tokenCount: usage.tokenCount,
+        cost: usage.costUsd,
       },
     });
 
+    if (options.callback) {
+      await scheduleCallback(requestId, options.callback, { ...response, status: 'completed' });
+    }
+
     return response;
   } catch (error: any) {
+    if (error instanceof ExecutionCancelledError || isExecutionCancelled(requestId)) {
+      // cancelExecution already finalized the record and the SSE stream
+      logger.info(correlationId, 'webhook', 'Request cancelled');
+      await releaseTurn();
+
+      // A queued run refused by resumeExecutionRecord may have ended otherwise (e.g. failed)
+      const wasCancelled =
+        executionRecorded ||
+        !options.queued ||
+        (await getExecutionById(requestId).catch(() => null))?.status === 'cancelled';
+
+      if (options.callback && wasCancelled) {
+        await scheduleCancelledCallback(requestId, options.callback);
+      }
+
+      if (isTemporaryDirectory(workingDirectory)) {
+        cleanupWorkingDirectory(workingDirectory).catch(() => {});
+      }
+
+      throw error instanceof ExecutionCancelledError
+        ? error
+        : new ExecutionCancelledError(`Execution '${requestId}' was cancelled`);
+    }
+
     logger.error(correlationId, 'webhook', 'Request failed', {
       error: error.message,
       name: error.name,
@@ -313,16 +643,51 @@ async function processWebhook(
     metrics.recordRequest(false, Date.now() - startTime);
     metrics.recordError(error.name || 'UnknownError');
 
-    // Send SSE error event
-    sendCompletion(requestId, {
-      status: 'failed',
-      output: error.message,
-      metadata: {
-        duration: Date.now() - startTime,
-      },
-    });
+    // A retried run keeps its record and SSE stream open for the next attempt
+    const willRetry = options.retryable === true && isTransientError(error);
 
-    if (workingDirectory) {
+    if (willRetry) {
+      logger.warn(correlationId, 'webhook', 'Transient failure - the run will be retried', {
+        error: formatExecutionError(error),
+      });
+    } else {
+      await releaseTurn();
+
+      if (executionRecorded) {
+        await finishExecutionRecord(
+          requestId,
+          {
+            status: 'failed',
+            error: formatExecutionError(error),
+            trace: { stepAttempts: getStepAttempts(error) },
+            durationMs: Date.now() - startTime,
+          },
+          correlationId
+        );
+      }
+
+      // Send SSE error event
+      sendCompletion(requestId, {
+        status: 'failed',
+        output: error.message,
+        metadata: {
+          duration: Date.now() - startTime,
+        },
+      });
+
+      if (options.callback) {
+        await scheduleCallback(requestId, options.callback, {
+          response: '',
+          url: [],
+          requestId,
+          executionId: requestId,
+          status: 'failed',
+          error: formatExecutionError(error),
+        });
+      }
+    }
+
+    if (isTemporaryDirectory(workingDirectory)) {
       cleanupWorkingDirectory(workingDirectory).catch((cleanupErr) => {
         logger.warn(correlationId, 'cleanup', 'Cleanup error during error handling', {
           error: cleanupErr.message,
@@ -331,38 +696,21 @@ async function processWebhook(
     }
 
     throw error;
+  } finally {
+    unregisterExecution(requestId, controller);
   }
 }
 
 /**
- * Process webhook request asynchronously (fire and forget)
+ * Tell the caller that a run was cancelled (its final callback)
  */
-async function processWebhookAsync(
-  req: Request,
-  prompt: string,
-  requestId: string,
-  requestSystemPrompt: string | undefined,
-  mode: ExecutionMode,
-  metadata: Record<string, any> | undefined,
-  correlationId: string,
-  startTime: number
-): Promise<void> {
-  try {
-    await processWebhook(
-      req,
-      prompt,
-      requestId,
-      requestSystemPrompt,
-      mode,
-      metadata,
-      correlationId,
-      startTime
-    );
-  } catch (error: any) {
-    logger.error(correlationId, 'webhook-async', 'Async processing failed', {
-      error: error.message,
-      name: error.name,
-    });
-    throw error;
-  }
+async function scheduleCancelledCallback(requestId: string, callback: CallbackTarget): Promise<void> {
+  await scheduleCallback(requestId, callback, {
+    response: '',
+    url: [],
+    requestId,
+    executionId: requestId,
+    status: 'cancelled',
+    error: 'Execution cancelled',
+  });
 }
@@ -15,6 +15,9 @@ import { resolveStepConnections, isSDKBuiltinTool } from './connection-resolver.
 import { sendStreamUpdate } from './routes/stream.js';
 import { getMcpServerManager } from './services/composio/mcp-server-manager.js';
 import { isComposioAvailable } from './services/composio/client.js';
+import { getAbortController } from './execution-cancellation.js';
+import { AgentStreamForwarder } from './shared/stream-events.js';
+import { withMemoryServer } from './services/memory/memory-server.js';
 
 // Parse global disallowed tools from environment
 const GLOBAL_DISALLOWED_TOOLS = parseDisallowedTools();
@@ -29,9 +32,30 @@ export interface ExecuteWorkflowAgentOptions {
   sessionId: string | null;
   forkSession: boolean;
   systemPrompt?: string;
+  input?: Record<string, any>;  // Structured input (e.g. webhook payload) for this step
+  dependencyResults?: StepResultContext[];  // Results of dependencies not in the forked session
+  forEachItem?: ForEachItem;  // Item of a forEach step this run processes
+  outputErrors?: string;  // Why the previous answer missed step.outputSchema (run asks for a corrected answer)
   // mcpConnections removed - resolved per-step now
 }
 
+/**
+ * Result of an earlier step, passed to steps that merge several branches
+ */
+export interface StepResultContext {
+  stepId: number;
+  text: string;
+}
+
+/**
+ * Item of a forEach step, processed by one run of the step
+ */
+export interface ForEachItem {
+  index: number;  // 0-based
+  total: number;
+  value: unknown;
+}
+
 /**
  * Execute a single workflow step as an agent call
  */
@@ -48,6 +72,10 @@ export async function executeWorkflowAgent(
     sessionId,
     forkSession,
     systemPrompt,
+    input,
+    dependencyResults,
+    forEachItem,
+    outputErrors,
   } = options;
 
   try {
@@ -80,8 +108,10 @@ export async function executeWorkflowAgent(
     const baseSystemPrompt = systemPrompt || (await loadSystemPrompt());
     const stepSystemPrompt = buildStepSystemPrompt(baseSystemPrompt, step);
 
-    // Construct step prompt
-    const stepUserPrompt = constructStepPrompt(userPrompt, step);
+    // Construct step prompt (corrections continue the step's own session)
+    const stepUserPrompt = outputErrors
+      ? constructCorrectionPrompt(step, outputErrors)
+      : constructStepPrompt(userPrompt, step, !forkSession, input, dependencyResults, forEachItem);
 
     // Build tool restrictions (SDK tools only - MCP tools already filtered by resolver)
     const { disallowedTools } = buildToolRestrictions(step, stepConnections.availableTools);
@@ -125,9 +155,11 @@ export async function executeWorkflowAgent(
     const queryOptions: any = {
       model: config.agent.model,
       systemPrompt: stepSystemPrompt,
-      mcpServers: allMcpServers,  // Merged standard + Composio MCP servers
+      mcpServers: withMemoryServer(allMcpServers, requestId),  // Merged standard + Composio MCP servers, plus memory
       cwd: workingDirectory,
       permissionMode: 'bypassPermissions',
+      abortController: getAbortController(requestId), // Aborted by POST /executions/:id/cancel
+      includePartialMessages: true, // Text deltas for SSE clients
     };
 
     // Add session management for forking
@@ -158,46 +190,56 @@ export async function executeWorkflowAgent(
     let messageCount = 0;
     let extractedSessionId: string | null = null;
     const conversationTrace: any[] = [];
+    const stream = new AgentStreamForwarder(requestId, step.id);
 
     const executionPromise = (async () => {
-      for await (const message of queryInstance) {
-        messageCount++;
-        conversationTrace.push(message);
-
-        // Extract sessionId from system init message
-        if (message.type === 'system' && message.subtype === 'init') {
-          extractedSessionId = message.session_id || null;
-          console.log(`[WorkflowAgent] INIT - session_id: ${extractedSessionId}`);
-        }
+      try {
+        for await (const message of queryInstance) {
+          stream.handle(message);
+
+          // Partial messages are only streamed, not traced
+          if (message.type === 'stream_event') continue;
+
+          messageCount++;
+          conversationTrace.push(message);
+
+          // Extract sessionId from system init message
+          if (message.type === 'system' && message.subtype === 'init') {
+            extractedSessionId = message.session_id || null;
+            console.log(`[WorkflowAgent] INIT - session_id: ${extractedSessionId}`);
+          }
 
-        // Log messages
-        if (message.type === 'result') {
-          console.log(`\n[WorkflowAgent] Step ${step.id} RESULT`);
-          console.log(
-            `[WorkflowAgent]   Duration: ${(message.duration_ms / 1000).toFixed(2)}s`
-          );
-          console.log(
-            `[WorkflowAgent]   Cost: $${message.total_cost_usd?.toFixed(4) || '0'}`
-          );
-          console.log(`[WorkflowAgent]   Turns: ${message.num_turns}`);
-          finalResult = message;
-        } else if (message.type === 'assistant') {
-          const content = message.message?.content;
-          if (Array.isArray(content)) {
-            content.forEach((block: any) => {
-              if (block.type === 'tool_use') {
-                console.log(`[WorkflowAgent]   Tool: ${block.name}`);
-                // Send SSE: Tool usage
-                console.log(`[WorkflowAgent] Sending step_detail: Using ${block.name} tool`);
-                sendStreamUpdate(requestId, {
-                  type: 'step_detail',
-                  stepId: step.id,
-                  detail: `Using ${block.name} tool`,
-                });
-              }
-            });
+          // Log messages
+          if (message.type === 'result') {
+            console.log(`\n[WorkflowAgent] Step ${step.id} RESULT`);
+            console.log(
+              `[WorkflowAgent]   Duration: ${(message.duration_ms / 1000).toFixed(2)}s`
+            );
+            console.log(
+              `[WorkflowAgent]   Cost: $${message.total_cost_usd?.toFixed(4) || '0'}`
+            );
+            console.log(`[WorkflowAgent]   Turns: ${message.num_turns}`);
+            finalResult = message;
+          } else if (message.type === 'assistant') {
+            const content = message.message?.content;
+            if (Array.isArray(content)) {
+              content.forEach((block: any) => {
+                if (block.type === 'tool_use') {
+                  console.log(`[WorkflowAgent]   Tool: ${block.name}`);
+                  // Send SSE: Tool usage
+                  console.log(`[WorkflowAgent] Sending step_detail: Using ${block.name} tool`);
+                  sendStreamUpdate(requestId, {
+                    type: 'step_detail',
+                    stepId: step.id,
+                    detail: `Using ${block.name} tool`,
+                  });
+                }
+              });
+            }
           }
         }
+      } finally {
+        stream.flush();
       }
       return finalResult;
     })();
@@ -281,19 +323,62 @@ Complete this task now.`;
 
 /**
  * Construct step-specific user prompt
+ *
+ * @param isNewSession - Step starts a new session (needs the original request)
+ * @param dependencyResults - Results of other branches this step merges
+ * @param forEachItem - Item to process ({{item}} in the step prompt, or appended)
  */
-function constructStepPrompt(originalPrompt: string, step: WorkflowStep): string {
+function constructStepPrompt(
+  originalPrompt: string,
+  step: WorkflowStep,
+  isNewSession: boolean,
+  input?: Record<string, any>,
+  dependencyResults?: StepResultContext[],
+  forEachItem?: ForEachItem
+): string {
   const AUTONOMY_INSTRUCTION = `
 
 IMPORTANT: YOU ARE A HIGHLY AUTONOMOUS AGENT. YOU CAN MAKE DECISIONS AND INFER IF NOT ENOUGH DATA IS AVAILABLE. YOU MUST ALWAYS COMPLETE YOUR TASK WITHOUT FURTHER APPROVAL. NEVER ASK FOR CONFIRMATION, YOU ARE ON YOUR OWN.`;
 
   let basePrompt: string;
+  let stepPrompt = step.prompt;
+
+  // forEach steps process one item per run
+  if (forEachItem) {
+    const item =
+      typeof forEachItem.value === 'string'
+        ? forEachItem.value
+        : JSON.stringify(forEachItem.value, null, 2);
+    const position = `item ${forEachItem.index + 1} of ${forEachItem.total}`;
+
+    stepPrompt = stepPrompt.includes('{{item}}')
+      ? `${stepPrompt.split('{{item}}').join(item)}\n\n(This is ${position}.)`
+      : `${stepPrompt}\n\nProcess only this item (${position}):\n${item}`;
+  }
 
-  // For step 1, include full original prompt
-  if (step.id === 1) {
-    basePrompt = `Original request: "${originalPrompt}"\n\n${step.prompt}`;
+  // Steps that start a new session include the full original prompt
+  if (isNewSession) {
+    basePrompt = `Original request: "${originalPrompt}"\n\n${stepPrompt}`;
   } else {
-    basePrompt = step.prompt;
+    basePrompt = stepPrompt;
+  }
+
+  // Include structured input (e.g. webhook payload) verbatim
+  if (input) {
+    basePrompt += `\n\nInput (JSON):\n\`\`\`json\n${JSON.stringify(input, null, 2)}\n\`\`\``;
+  }
+
+  // Include results of the other branches (only one session can be forked)
+  if (dependencyResults && dependencyResults.length > 0) {
+    basePrompt += '\n\nResults of earlier steps:';
+    for (const result of dependencyResults) {
+      basePrompt += `\n\n### Step ${result.stepId}\n${result.text}`;
+    }
+  }
+
+  // Structured answers are extracted and validated by the orchestrator
+  if (step.outputSchema) {
+    basePrompt += `\n\n${formatOutputSchemaInstruction(step.outputSchema)}`;
   }
 
   // Add allowed tools guidance if specified
@@ -305,6 +390,20 @@ IMPORTANT: YOU ARE A HIGHLY AUTONOMOUS AGENT. YOU CAN MAKE DECISIONS AND INFER I
   return basePrompt + toolsGuidance + AUTONOMY_INSTRUCTION;
 }
 
+/**
+ * Ask for an answer matching the step's outputSchema
+ */
+function formatOutputSchemaInstruction(schema: Record<string, any>): string {
+  return `Finish with your answer as a single JSON value (no other text) that matches this JSON Schema:\n\`\`\`json\n${JSON.stringify(schema, null, 2)}\n\`\`\``;
+}
+
+/**
+ * Construct the prompt asking a step to correct an answer that missed its outputSchema
+ */
+function constructCorrectionPrompt(step: WorkflowStep, outputErrors: string): string {
+  return `Your previous answer does not match the required output schema:\n${outputErrors}\n\n${formatOutputSchemaInstruction(step.outputSchema || {})}`;
+}
+
 /**
  * SDK built-in tools
  */
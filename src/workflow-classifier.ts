@@ -2,13 +2,19 @@
  * Workflow Classifier
  *
  * Uses Claude to classify if a user prompt matches a known workflow.
- * Workflows are fetched from Prisma database.
+ * Workflows are fetched from Prisma database; only the best keyword matches
+ * of the prompt (CLASSIFIER_SHORTLIST_SIZE, see skill-index.ts) are shown to Claude.
  */
 
 import Anthropic from '@anthropic-ai/sdk';
 import { getAllSkills, getSkillById } from './database.js';
-import { ClassificationResult, Workflow } from './types.js';
+import { ClassificationResult, ClassifierCandidate } from './types.js';
 import { config } from './config/index.js';
+import { describeSkillInputs } from './skill-inputs.js';
+import { shortlistSkills } from './skill-index.js';
+
+/** Examples per skill shown to Claude (the newest ones) */
+const PROMPT_EXAMPLES = 5;
 
 const anthropic = new Anthropic({
   apiKey: process.env.ANTHROPIC_API_KEY,
@@ -36,9 +42,31 @@ export async function classifyWorkflow(
       };
     }
 
-    // Build classification prompt
-    const workflowList = skills
-      .map((s: any) => `- ${s.name}: ${s.description}`)
+    // Only the best keyword matches go into the prompt
+    const shortlist = shortlistSkills(userPrompt, skills, config.classifier.shortlistSize);
+    const candidates: ClassifierCandidate[] = shortlist.map(({ skill, score }) => ({
+      skillId: skill.id,
+      name: skill.name,
+      score: Math.round(score * 1000) / 1000,
+    }));
+
+    console.log(
+      `[Classifier] Shortlisted ${shortlist.length} of ${skills.length} skills: ${candidates.map((c) => `${c.name} (${c.score})`).join(', ')}`
+    );
+
+    // Build classification prompt (with the example prompts and input parameters of each skill)
+    const workflowList = shortlist
+      .map(({ skill: s }) => {
+        const examples = formatExamples(s.examples);
+        const negativeExamples = formatExamples(s.negativeExamples);
+        const inputs = describeSkillInputs(s.inputs as Record<string, any> | null);
+        return [
+          `- ${s.name}: ${s.description}`,
+          ...(examples ? [`  Example requests: ${examples}`] : []),
+          ...(negativeExamples ? [`  NOT for requests like: ${negativeExamples}`] : []),
+          ...(inputs ? [`  Inputs:\n${inputs}`] : []),
+        ].join('\n');
+      })
       .join('\n');
 
     const classificationPrompt = `You are a workflow classifier.
@@ -54,26 +82,31 @@ USER REQUEST:
 INSTRUCTIONS:
 1. Analyze the user's request
 2. Determine if it clearly matches one of the available workflows
-3. Respond with JSON ONLY in this exact format:
+3. If the workflow has inputs, extract the values the request states for them
+4. Respond with JSON ONLY in this exact format:
 
 {
   "match": true/false,
   "workflowName": "exact_workflow_name" or null,
   "confidence": "high/medium/low/none",
-  "reasoning": "brief explanation"
+  "reasoning": "brief explanation",
+  "inputs": {"input_name": value} or {}
 }
 
 RULES:
 - Only match if you're confident the workflow fits the request
 - Use exact workflow names from the list above
+- Requests similar to a workflow's "NOT for" examples do not match it
 - If uncertain or request is custom/ad-hoc, return match: false
-- Confidence "high" = clearly matches, "medium" = likely matches, "low" = might match, "none" = no match`;
+- Confidence "high" = clearly matches, "medium" = likely matches, "low" = might match, "none" = no match
+- Only include inputs the request actually states; never guess values
+- Dates are YYYY-MM-DD (resolve relative dates like "last Monday" against today, ${new Date().toISOString().slice(0, 10)})`;
 
     console.log('[Classifier] Sending classification request to Claude');
 
     const response = await anthropic.messages.create({
       model: config.agent.model,
-      max_tokens: 300,
+      max_tokens: 500,
       messages: [
         {
           role: 'user',
@@ -98,13 +131,14 @@ RULES:
         workflowData: null,
         confidence: parsed.confidence || 'none',
         reasoning: parsed.reasoning,
+        candidates,
       };
     }
 
     // Find skill by exact name match
-    const matchedSkill = skills.find(
-      (s: any) => s.name.toLowerCase() === parsed.workflowName!.toLowerCase()
-    );
+    const matchedSkill = shortlist.find(
+      ({ skill: s }) => s.name.toLowerCase() === parsed.workflowName!.toLowerCase()
+    )?.skill;
 
     if (!matchedSkill) {
       console.warn(
@@ -115,6 +149,7 @@ RULES:
         workflowData: null,
         confidence: 'none',
         reasoning: 'Suggested skill not found in database',
+        candidates,
       };
     }
 
@@ -129,6 +164,7 @@ RULES:
         workflowId: null,
         workflowData: null,
         confidence: 'none',
+        candidates,
       };
     }
 
@@ -141,6 +177,8 @@ RULES:
       workflowData: workflowData as any,  // Type cast for Prisma result
       confidence: parsed.confidence || 'medium',
       reasoning: parsed.reasoning,
+      ...(workflowData.inputs && { inputs: parsed.inputs }),
+      candidates,
     };
   } catch (error) {
     console.error('[Classifier] Classification failed:', error);
@@ -153,6 +191,16 @@ RULES:
   }
 }
 
+/**
+ * Quote the newest example prompts of a skill for the classification prompt
+ */
+function formatExamples(examples: string[]): string {
+  return examples
+    .slice(-PROMPT_EXAMPLES)
+    .map((example) => JSON.stringify(example))
+    .join('; ');
+}
+
 /**
  * Parse classification response from Claude
  */
@@ -161,6 +209,7 @@ function parseClassificationResponse(text: string): {
   workflowName: string | null;
   confidence: 'high' | 'medium' | 'low' | 'none';
   reasoning?: string;
+  inputs: Record<string, unknown>;
 } {
   // Extract JSON from response (handle markdown code blocks)
   const jsonMatch = text.match(/\{[\s\S]*\}/);
@@ -169,6 +218,7 @@ function parseClassificationResponse(text: string): {
       match: false,
       workflowName: null,
       confidence: 'none',
+      inputs: {},
     };
   }
 
@@ -179,12 +229,18 @@ function parseClassificationResponse(text: string): {
       workflowName: parsed.workflowName ?? null,
       confidence: parsed.confidence ?? 'none',
       reasoning: parsed.reasoning,
+      inputs: isPlainObject(parsed.inputs) ? parsed.inputs : {},
     };
   } catch {
     return {
       match: false,
       workflowName: null,
       confidence: 'none',
+      inputs: {},
     };
   }
 }
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
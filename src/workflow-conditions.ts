@@ -0,0 +1,553 @@
+/**
+ * Workflow Step Conditions and Loops
+ *
+ * Evaluates the `condition` and `forEach` of workflow steps against the
+ * results of earlier steps. Expressions are parsed by a small recursive-descent
+ * parser (no eval):
+ *
+ * - Paths: steps.N.output (text), steps.N.output.field (JSON output), steps.N.status,
+ *   steps.N.error (steps that failed with onError continue), input.field
+ * - Literals: "text", 'text', 42, true, false, null
+ * - Operators: == != > < >= <= contains && || ! and parentheses
+ * - A path on its own is true when it is set and not empty
+ *
+ * Only the results of a step's (transitive) dependencies can be referenced.
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import { StepCondition, WorkflowStep } from './types.js';
+import { StepGraph, getAncestors } from './workflow-dag.js';
+import { ValidationError } from './utils/errors.js';
+import { config } from './config/index.js';
+
+// Created on first use: most workflows have no ask conditions
+let anthropic: Anthropic | null = null;
+
+/** Characters of each step result shown to the condition judge */
+const MAX_JUDGE_RESULT_LENGTH = 4000;
+
+/**
+ * Results of earlier steps that conditions and loops can reference
+ */
+export interface ConditionContext {
+  /** value: validated output of steps with an outputSchema (parsed from output otherwise) */
+  steps: Record<
+    number,
+    { status: 'completed' | 'skipped' | 'failed'; output: string; value?: unknown; error?: string }
+  >;
+  input?: Record<string, any>;
+  userPrompt?: string;
+}
+
+/**
+ * Outcome of a step's condition
+ */
+export interface ConditionResult {
+  passed: boolean;
+  reason: string;
+}
+
+type Token =
+  | { type: 'string' | 'number'; value: string | number }
+  | { type: 'ident'; value: string }
+  | { type: 'op'; value: string };
+
+type Node =
+  | { type: 'literal'; value: unknown }
+  | { type: 'path'; segments: string[] }
+  | { type: 'not'; operand: Node }
+  | { type: 'binary'; op: string; left: Node; right: Node };
+
+const OPERATORS = ['==', '!=', '>=', '<=', '&&', '||', '>', '<', '!', '(', ')', '.'];
+const COMPARISONS = ['==', '!=', '>=', '<=', '>', '<', 'contains'];
+
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < expression.length) {
+    const char = expression[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      let value = '';
+      i++;
+      while (i < expression.length && expression[i] !== char) {
+        if (expression[i] === '\\' && i + 1 < expression.length) i++;
+        value += expression[i++];
+      }
+      if (i >= expression.length) {
+        throw new ValidationError(`Unterminated string in condition "${expression}"`);
+      }
+      i++;
+      tokens.push({ type: 'string', value });
+      continue;
+    }
+
+    const number = expression.slice(i).match(/^-?\d+(\.\d+)?/);
+    // A digit right after "." is a path segment (steps.1.output), not a number
+    if (number && tokens[tokens.length - 1]?.value !== '.') {
+      tokens.push({ type: 'number', value: Number(number[0]) });
+      i += number[0].length;
+      continue;
+    }
+
+    const ident = expression.slice(i).match(/^[A-Za-z_][\w-]*|^\d+/);
+    if (ident) {
+      tokens.push({ type: 'ident', value: ident[0] });
+      i += ident[0].length;
+      continue;
+    }
+
+    const op = OPERATORS.find((candidate) => expression.startsWith(candidate, i));
+    if (!op) {
+      throw new ValidationError(`Unexpected "${char}" in condition "${expression}"`);
+    }
+    tokens.push({ type: 'op', value: op });
+    i += op.length;
+  }
+
+  return tokens;
+}
+
+/**
+ * Parse an expression into a syntax tree
+ * @throws ValidationError on syntax errors and unknown path roots
+ */
+function parse(expression: string): Node {
+  const tokens = tokenize(expression);
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const isOp = (value: string) => {
+    const token = peek();
+    return token !== undefined && (token.type === 'op' || token.type === 'ident') && token.value === value;
+  };
+  const fail = (message: string): never => {
+    throw new ValidationError(`${message} in condition "${expression}"`);
+  };
+
+  const parseOr = (): Node => {
+    let left = parseAnd();
+    while (isOp('||')) {
+      position++;
+      left = { type: 'binary', op: '||', left, right: parseAnd() };
+    }
+    return left;
+  };
+
+  const parseAnd = (): Node => {
+    let left = parseNot();
+    while (isOp('&&')) {
+      position++;
+      left = { type: 'binary', op: '&&', left, right: parseNot() };
+    }
+    return left;
+  };
+
+  const parseNot = (): Node => {
+    if (isOp('!')) {
+      position++;
+      return { type: 'not', operand: parseNot() };
+    }
+    return parseComparison();
+  };
+
+  const parseComparison = (): Node => {
+    const left = parsePrimary();
+    const op = COMPARISONS.find((candidate) => isOp(candidate));
+    if (!op) return left;
+    position++;
+    return { type: 'binary', op, left, right: parsePrimary() };
+  };
+
+  const parsePrimary = (): Node => {
+    const token = peek();
+    if (!token) return fail('Unexpected end');
+
+    if (token.type === 'op' && token.value === '(') {
+      position++;
+      const node = parseOr();
+      if (!isOp(')')) fail('Missing ")"');
+      position++;
+      return node;
+    }
+
+    if (token.type === 'string' || token.type === 'number') {
+      position++;
+      return { type: 'literal', value: token.value };
+    }
+
+    if (token.type === 'ident') {
+      position++;
+      if (token.value === 'true') return { type: 'literal', value: true };
+      if (token.value === 'false') return { type: 'literal', value: false };
+      if (token.value === 'null') return { type: 'literal', value: null };
+
+      const segments = [token.value];
+      while (isOp('.')) {
+        position++;
+        const segment = peek();
+        if (!segment || segment.type !== 'ident') fail('Expected a name after "."');
+        segments.push(String(segment.value));
+        position++;
+      }
+
+      validatePath(segments, expression);
+      return { type: 'path', segments };
+    }
+
+    return fail(`Unexpected "${token.value}"`);
+  };
+
+  const node = parseOr();
+  if (position < tokens.length) {
+    fail(`Unexpected "${tokens[position].value}"`);
+  }
+  return node;
+}
+
+function validatePath(segments: string[], expression: string): void {
+  const [root, stepId, field] = segments;
+
+  if (root === 'input') return;
+
+  if (root !== 'steps') {
+    throw new ValidationError(
+      `Unknown name "${root}" in condition "${expression}" (use steps.N.output, steps.N.status or input)`
+    );
+  }
+
+  if (!/^\d+$/.test(stepId || '') || !['output', 'status', 'error'].includes(field)) {
+    throw new ValidationError(
+      `Invalid path "${segments.join('.')}" in condition "${expression}" (use steps.N.output, steps.N.status or steps.N.error)`
+    );
+  }
+
+  if (field !== 'output' && segments.length > 3) {
+    throw new ValidationError(`Invalid path "${segments.join('.')}" in condition "${expression}"`);
+  }
+}
+
+/**
+ * Collect the step IDs an expression references
+ */
+function referencedSteps(node: Node, ids = new Set<number>()): Set<number> {
+  if (node.type === 'path' && node.segments[0] === 'steps') {
+    ids.add(Number(node.segments[1]));
+  } else if (node.type === 'not') {
+    referencedSteps(node.operand, ids);
+  } else if (node.type === 'binary') {
+    referencedSteps(node.left, ids);
+    referencedSteps(node.right, ids);
+  }
+  return ids;
+}
+
+/**
+ * Get the IDs of the steps an expression or path references
+ * @throws ValidationError if the expression is invalid
+ */
+export function getReferencedSteps(expression: string): number[] {
+  return [...referencedSteps(parse(expression))];
+}
+
+/**
+ * Resolve a path like steps.2.output.issueUrl or input.email
+ * @throws ValidationError if the path is invalid
+ */
+export function resolveReference(path: string, context: ConditionContext): unknown {
+  const node = parse(path);
+  if (node.type !== 'path') {
+    throw new ValidationError(`Expected a path like steps.1.output.field (got "${path}")`);
+  }
+  return resolvePath(node.segments, context);
+}
+
+/**
+ * Parse the JSON a step produced
+ * Accepts plain JSON or the first ```json fenced block of the output.
+ *
+ * @returns Parsed value, or undefined if the output contains no JSON
+ */
+export function parseStepOutput(text: string): unknown {
+  const candidates = [text.trim()];
+  const fenced = text.match(/```(?:json)?\s*\n([\s\S]*?)```/);
+  if (fenced) candidates.push(fenced[1].trim());
+
+  for (const candidate of candidates) {
+    if (!/^[[{]/.test(candidate)) continue;
+    try {
+      return JSON.parse(candidate);
+    } catch {
+      // Not JSON - try the next candidate
+    }
+  }
+
+  return undefined;
+}
+
+function getField(value: unknown, segments: string[]): unknown {
+  let current: any = value;
+  for (const segment of segments) {
+    if (current === null || current === undefined || typeof current !== 'object') return undefined;
+    current = current[segment];
+  }
+  return current;
+}
+
+function resolvePath(segments: string[], context: ConditionContext): unknown {
+  if (segments[0] === 'input') {
+    return getField(context.input, segments.slice(1));
+  }
+
+  const step = context.steps[Number(segments[1])];
+  if (!step) return undefined;
+
+  if (segments[2] === 'status') return step.status;
+  if (segments[2] === 'error') return step.error;
+  if (segments.length === 3) return step.output;
+
+  const value = step.value !== undefined ? step.value : parseStepOutput(step.output);
+  return getField(value, segments.slice(3));
+}
+
+function isTruthy(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  if (typeof value === 'string') return value.trim().length > 0;
+  return Boolean(value);
+}
+
+function looseEquals(a: unknown, b: unknown): boolean {
+  if (a === null || a === undefined || b === null || b === undefined) {
+    return (a ?? null) === (b ?? null);
+  }
+  if (typeof a === 'number' || typeof b === 'number') {
+    return Number(a) === Number(b);
+  }
+  if (typeof a === 'object' || typeof b === 'object') {
+    return JSON.stringify(a) === JSON.stringify(b);
+  }
+  return a === b;
+}
+
+function compare(op: string, a: unknown, b: unknown): boolean {
+  switch (op) {
+    case '==':
+      return looseEquals(a, b);
+    case '!=':
+      return !looseEquals(a, b);
+    case 'contains':
+      if (Array.isArray(a)) return a.some((item) => looseEquals(item, b));
+      if (typeof a === 'string') return b !== null && b !== undefined && a.includes(String(b));
+      return false;
+    default: {
+      if (a === null || a === undefined || b === null || b === undefined) return false;
+      const numeric = typeof a === 'number' || typeof b === 'number';
+      const left = numeric ? Number(a) : String(a);
+      const right = numeric ? Number(b) : String(b);
+      if (numeric && (isNaN(left as number) || isNaN(right as number))) return false;
+      if (op === '>') return left > right;
+      if (op === '<') return left < right;
+      if (op === '>=') return left >= right;
+      return left <= right;
+    }
+  }
+}
+
+function evaluate(node: Node, context: ConditionContext): unknown {
+  switch (node.type) {
+    case 'literal':
+      return node.value;
+    case 'path':
+      return resolvePath(node.segments, context);
+    case 'not':
+      return !isTruthy(evaluate(node.operand, context));
+    case 'binary':
+      if (node.op === '&&') {
+        return isTruthy(evaluate(node.left, context)) && isTruthy(evaluate(node.right, context));
+      }
+      if (node.op === '||') {
+        return isTruthy(evaluate(node.left, context)) || isTruthy(evaluate(node.right, context));
+      }
+      return compare(node.op, evaluate(node.left, context), evaluate(node.right, context));
+  }
+}
+
+/**
+ * Evaluate a condition expression
+ * @throws ValidationError if the expression is invalid
+ */
+export function evaluateExpression(expression: string, context: ConditionContext): boolean {
+  return isTruthy(evaluate(parse(expression), context));
+}
+
+/**
+ * Resolve the items of a forEach step
+ * Lists may be JSON arrays, or text outputs with one item per line
+ * (list markers like "-", "*" and "1." are removed).
+ *
+ * @throws Error if the path does not resolve to a list
+ */
+export function resolveForEachItems(path: string, context: ConditionContext): unknown[] {
+  const value = resolveReference(path, context);
+
+  if (Array.isArray(value)) return value;
+
+  if (typeof value === 'string') {
+    const parsed = parseStepOutput(value);
+    if (Array.isArray(parsed)) return parsed;
+
+    return value
+      .split('\n')
+      .map((line) => line.replace(/^\s*(?:[-*•]|\d+[.)])\s+/, '').trim())
+      .filter((line) => line.length > 0);
+  }
+
+  throw new Error(`forEach items "${path}" did not resolve to a list`);
+}
+
+/**
+ * Number of items a forEach step processes at most
+ */
+export function getForEachLimit(step: WorkflowStep): number {
+  const limit = config.workflow.maxForEachItems;
+  return Math.min(step.forEach?.maxItems ?? limit, limit);
+}
+
+/**
+ * Ask Claude a yes/no question about the results of earlier steps
+ */
+async function askCondition(question: string, context: ConditionContext): Promise<ConditionResult> {
+  const results = Object.entries(context.steps)
+    .map(([id, step]) => {
+      const output =
+        step.status === 'skipped'
+          ? '(skipped)'
+          : step.status === 'failed'
+            ? `(failed: ${step.error})`
+            : step.output.substring(0, MAX_JUDGE_RESULT_LENGTH);
+      return `### Step ${id}\n${output}`;
+    })
+    .join('\n\n');
+
+  const prompt = `You decide whether a workflow step should run.
+
+${context.userPrompt ? `ORIGINAL REQUEST:\n"${context.userPrompt}"\n\n` : ''}RESULTS OF EARLIER STEPS:
+${results || '(none)'}
+
+QUESTION:
+${question}
+
+Respond with JSON ONLY in this exact format:
+
+{
+  "answer": "yes" or "no",
+  "reasoning": "brief explanation"
+}`;
+
+  if (!anthropic) {
+    anthropic = new Anthropic({
+      apiKey: process.env.ANTHROPIC_API_KEY,
+    });
+  }
+
+  const response = await anthropic.messages.create({
+    model: config.agent.model,
+    max_tokens: 200,
+    messages: [{ role: 'user', content: prompt }],
+  });
+
+  const content = response.content[0];
+  if (content.type !== 'text') {
+    throw new Error('Unexpected response type from Claude');
+  }
+
+  const jsonMatch = content.text.match(/\{[\s\S]*\}/);
+  let answer = '';
+  let reasoning = '';
+
+  try {
+    const parsed = jsonMatch ? JSON.parse(jsonMatch[0]) : {};
+    answer = String(parsed.answer ?? '').toLowerCase();
+    reasoning = parsed.reasoning ?? '';
+  } catch {
+    answer = content.text.trim().toLowerCase().startsWith('yes') ? 'yes' : 'no';
+  }
+
+  return {
+    passed: answer === 'yes',
+    reason: reasoning || `Answered "${answer || 'no'}" to: ${question}`,
+  };
+}
+
+/**
+ * Decide whether a step runs
+ */
+export async function evaluateStepCondition(
+  condition: StepCondition,
+  context: ConditionContext
+): Promise<ConditionResult> {
+  if (condition.expression) {
+    const passed = evaluateExpression(condition.expression, context);
+    return {
+      passed,
+      reason: `${condition.expression} is ${passed}`,
+    };
+  }
+
+  return askCondition(condition.ask!, context);
+}
+
+/**
+ * Validate the conditions and loops of a workflow before it runs
+ * Expressions must parse and may only reference the step's dependencies
+ * (direct or transitive), whose results are known when the step starts.
+ *
+ * @throws ValidationError describing the first invalid step
+ */
+export function validateStepControls(graph: StepGraph): void {
+  for (const step of graph.steps) {
+    const ancestors = getAncestors(graph, step.id);
+
+    const checkReferences = (expression: string, label: string) => {
+      for (const id of referencedSteps(parse(expression))) {
+        if (!ancestors.has(id)) {
+          throw new ValidationError(
+            `Step ${step.id} ${label} references step ${id}, which does not run before it`
+          );
+        }
+      }
+    };
+
+    if (step.condition) {
+      const { expression, ask } = step.condition;
+
+      if (!expression === !ask) {
+        throw new ValidationError(`Step ${step.id} condition needs exactly one of expression or ask`);
+      }
+
+      if (expression) {
+        checkReferences(expression, 'condition');
+      }
+    }
+
+    if (step.forEach) {
+      const { items, maxItems } = step.forEach;
+
+      if (!items || parse(items).type !== 'path') {
+        throw new ValidationError(`Step ${step.id} forEach items must be a path like steps.1.output.items`);
+      }
+
+      if (maxItems !== undefined && (!Number.isInteger(maxItems) || maxItems < 1)) {
+        throw new ValidationError(`Step ${step.id} forEach maxItems must be a positive integer`);
+      }
+
+      checkReferences(items, 'forEach');
+    }
+  }
+}
@@ -0,0 +1,190 @@
+/**
+ * Workflow Step Graph
+ *
+ * Resolves the dependencies between the steps of a workflow:
+ * - Steps declare the step IDs they need with `dependsOn`
+ * - Workflows without any `dependsOn` run sequentially (each step depends on the previous one)
+ * - Steps without dependencies in a DAG workflow start right away
+ * - Fallback steps (onError.fallbackStep) only run in place of a failed step
+ */
+
+import { WorkflowStep } from './types.js';
+import { ValidationError } from './utils/errors.js';
+
+export interface StepGraph {
+  /** Steps sorted by ID (including fallback steps) */
+  steps: WorkflowStep[];
+
+  /** Resolved dependencies of each step (by step ID; none for fallback steps) */
+  dependencies: Map<number, number[]>;
+
+  /** Steps no other step depends on (their results are merged by the synthesis step) */
+  sinks: number[];
+
+  /** Fallback steps (by step ID) and the steps they stand in for */
+  fallbackFor: Map<number, number[]>;
+}
+
+/**
+ * Check if any step of a workflow declares dependencies
+ */
+export function isDagWorkflow(steps: WorkflowStep[]): boolean {
+  return steps.some((step) => step.dependsOn !== undefined);
+}
+
+/**
+ * Build and validate the dependency graph of a workflow's steps
+ *
+ * @throws ValidationError on duplicate step IDs, unknown or self dependencies, cycles,
+ *         and invalid fallback steps
+ */
+export function buildStepGraph(workflowSteps: WorkflowStep[]): StepGraph {
+  const steps = [...workflowSteps].sort((a, b) => a.id - b.id);
+  const ids = new Set<number>();
+
+  for (const step of steps) {
+    if (ids.has(step.id)) {
+      throw new ValidationError(`Duplicate step id ${step.id}`);
+    }
+    ids.add(step.id);
+  }
+
+  const fallbackFor = new Map<number, number[]>();
+
+  for (const step of steps) {
+    if (step.onError?.action !== 'fallbackStep') continue;
+
+    const fallbackId = step.onError.stepId;
+    if (fallbackId === step.id) {
+      throw new ValidationError(`Step ${step.id} cannot be its own fallback step`);
+    }
+    if (!ids.has(fallbackId)) {
+      throw new ValidationError(`Step ${step.id} falls back to unknown step ${fallbackId}`);
+    }
+    fallbackFor.set(fallbackId, [...(fallbackFor.get(fallbackId) || []), step.id]);
+  }
+
+  const dependencies = new Map<number, number[]>();
+  const dag = isDagWorkflow(steps);
+
+  // Fallback steps are not part of the regular flow
+  const scheduled = steps.filter((step) => !fallbackFor.has(step.id));
+
+  for (const [fallbackId, stepIds] of fallbackFor) {
+    const fallback = steps.find((step) => step.id === fallbackId)!;
+
+    if (fallback.dependsOn?.length) {
+      throw new ValidationError(
+        `Fallback step ${fallbackId} cannot declare dependsOn (it runs in place of step ${stepIds.join(', ')})`
+      );
+    }
+    if (stepIds.some((id) => fallbackFor.has(id))) {
+      throw new ValidationError(`Fallback step ${fallbackId} cannot stand in for another fallback step`);
+    }
+
+    dependencies.set(fallbackId, []);
+  }
+
+  scheduled.forEach((step, index) => {
+    if (!dag) {
+      dependencies.set(step.id, index === 0 ? [] : [scheduled[index - 1].id]);
+      return;
+    }
+
+    const dependsOn = [...new Set(step.dependsOn || [])].sort((a, b) => a - b);
+
+    for (const dependencyId of dependsOn) {
+      if (dependencyId === step.id) {
+        throw new ValidationError(`Step ${step.id} depends on itself`);
+      }
+      if (!ids.has(dependencyId)) {
+        throw new ValidationError(`Step ${step.id} depends on unknown step ${dependencyId}`);
+      }
+      if (fallbackFor.has(dependencyId)) {
+        throw new ValidationError(`Step ${step.id} depends on fallback step ${dependencyId}`);
+      }
+    }
+
+    dependencies.set(step.id, dependsOn);
+  });
+
+  assertAcyclic(steps, dependencies);
+
+  const required = new Set([...dependencies.values()].flat());
+  const sinks = scheduled.map((step) => step.id).filter((id) => !required.has(id));
+
+  return { steps, dependencies, sinks, fallbackFor };
+}
+
+/**
+ * Topological check (Kahn's algorithm)
+ * @throws ValidationError naming the steps that are part of a cycle
+ */
+function assertAcyclic(steps: WorkflowStep[], dependencies: Map<number, number[]>): void {
+  const remaining = new Map(steps.map((step) => [step.id, dependencies.get(step.id)!.length]));
+  const ready = steps.filter((step) => remaining.get(step.id) === 0).map((step) => step.id);
+
+  while (ready.length > 0) {
+    const id = ready.pop()!;
+    remaining.delete(id);
+
+    for (const [dependentId, dependsOn] of dependencies) {
+      if (remaining.has(dependentId) && dependsOn.includes(id)) {
+        const count = remaining.get(dependentId)! - 1;
+        remaining.set(dependentId, count);
+        if (count === 0) ready.push(dependentId);
+      }
+    }
+  }
+
+  if (remaining.size > 0) {
+    throw new ValidationError(
+      `Step dependencies contain a cycle (steps ${[...remaining.keys()].join(', ')})`
+    );
+  }
+}
+
+/**
+ * Get the IDs of all steps a step depends on, directly or transitively
+ * For fallback steps: the ancestors shared by every step they stand in for.
+ */
+export function getAncestors(graph: StepGraph, stepId: number): Set<number> {
+  const replaced = graph.fallbackFor.get(stepId);
+  if (replaced) {
+    const [first, ...rest] = replaced.map((id) => getAncestors(graph, id));
+    return new Set([...first].filter((id) => rest.every((ancestors) => ancestors.has(id))));
+  }
+
+  const ancestors = new Set<number>();
+  const queue = [...(graph.dependencies.get(stepId) || [])];
+
+  while (queue.length > 0) {
+    const id = queue.pop()!;
+    if (ancestors.has(id)) continue;
+    ancestors.add(id);
+    queue.push(...(graph.dependencies.get(id) || []));
+  }
+
+  return ancestors;
+}
+
+/**
+ * Get the IDs of all steps that depend on a step, directly or transitively
+ */
+export function getDescendants(graph: StepGraph, stepId: number): Set<number> {
+  const descendants = new Set<number>();
+  const queue = [stepId];
+
+  while (queue.length > 0) {
+    const id = queue.pop()!;
+
+    for (const [dependentId, dependsOn] of graph.dependencies) {
+      if (dependsOn.includes(id) && !descendants.has(dependentId)) {
+        descendants.add(dependentId);
+        queue.push(dependentId);
+      }
+    }
+  }
+
+  return descendants;
+}
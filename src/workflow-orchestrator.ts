@@ -2,13 +2,237 @@
  * Workflow Orchestrator
  *
  * Orchestrates multi-step workflow execution with session forking.
- * Each step builds on the previous session's context.
+ * Each step builds on the session of the step it depends on; independent
+ * steps (see workflow-dag.ts) run concurrently up to WORKFLOW_MAX_PARALLEL_STEPS.
+ * Steps can be skipped by a condition or loop over items (see workflow-conditions.ts),
+ * and retry or recover from failures (see workflow-retry.ts).
+ * Finished steps can be recorded as checkpoints, so a failed run can resume
+ * from the first incomplete step (see execution-checkpoints.ts). Steps with
+ * requiresApproval wait for a human decision (see execution-approvals.ts).
  */
 
 import fs from 'fs/promises';
-import { executeWorkflowAgent } from './workflow-agent.js';
-import { AgentResponse, Workflow, McpConnections, WorkflowAgentResponse, ExecutionStepMetadata } from './types.js';
+import {
+  executeWorkflowAgent,
+  ExecuteWorkflowAgentOptions,
+  ForEachItem,
+  StepResultContext,
+} from './workflow-agent.js';
+import {
+  AgentResponse,
+  Workflow,
+  WorkflowStep,
+  WorkflowAgentResponse,
+  ExecutionStepMetadata,
+  StepAttempt,
+  StepCheckpoint,
+  WorkflowResumeState,
+  ApprovalDecision,
+  PendingApproval,
+} from './types.js';
 import { sendStepUpdate, sendStreamUpdate } from './routes/stream.js';
+import { throwIfCancelled } from './execution-cancellation.js';
+import { buildStepGraph, getAncestors, getDescendants, isDagWorkflow } from './workflow-dag.js';
+import {
+  ConditionContext,
+  evaluateStepCondition,
+  getForEachLimit,
+  resolveForEachItems,
+  validateStepControls,
+} from './workflow-conditions.js';
+import {
+  interpolateStepOutputs,
+  validateStructuredOutput,
+  validateWorkflowOutputs,
+} from './workflow-outputs.js';
+import {
+  classifyStepError,
+  getStepRetryDelayMs,
+  resolveRetryPolicy,
+  validateStepPolicies,
+} from './workflow-retry.js';
+import {
+  ExecutionCancelledError,
+  StepOutputError,
+  TimeoutError,
+  ValidationError,
+  WorkflowError,
+} from './utils/errors.js';
+import { config } from './config/index.js';
+
+/** Pause before a step forks the session of its dependency */
+const SESSION_FORK_DELAY_MS = 500;
+
+/**
+ * Optional behavior of a workflow run
+ */
+export interface OrchestratorOptions {
+  /** Called once a step has finished (and its fallback step, if one ran) */
+  onStepFinished?: (checkpoint: StepCheckpoint, workingDirectory: string) => Promise<void>;
+
+  /** Resume a failed run: steps with a checkpoint are not run again */
+  resume?: WorkflowResumeState;
+
+  /** Wait for a human decision on steps with requiresApproval (see execution-approvals.ts) */
+  requestApproval?: (request: Omit<PendingApproval, 'requestedAt' | 'expiresAt'>) => Promise<ApprovalDecision>;
+}
+
+/**
+ * Result of a finished workflow step
+ */
+interface StepOutcome {
+  status: 'completed' | 'skipped' | 'failed';
+  text: string;  // Combined item results for forEach steps, empty if skipped or failed
+  error?: string;  // Why the step failed (onError continue or goto)
+  sessionId: string | null;  // Session dependents fork (inherited if the step has none of its own)
+  ownsSession: boolean;  // sessionId contains this step's own work
+  responses: WorkflowAgentResponse[];  // One per run (none if skipped, one per item for forEach)
+  value?: unknown;  // Validated output (steps with an outputSchema; one per item for forEach)
+}
+
+/**
+ * Attempts of one step run
+ */
+interface StepRun {
+  responses: WorkflowAgentResponse[];  // Every attempt (the last one holds the answer)
+  text: string;  // Answer (validated JSON for steps with an outputSchema)
+  sessionId: string;
+  value?: unknown;
+}
+
+/**
+ * Choose the session a step forks and the results it gets in its prompt
+ * Forks the last dependency with a session; all other completed dependencies
+ * (and results not contained in the forked session) are passed as text.
+ */
+function forkSource(dependsOn: number[], outcomes: Map<number, StepOutcome>) {
+  const parentId = [...dependsOn].reverse().find((id) => outcomes.get(id)!.sessionId !== null);
+  const parent = parentId !== undefined ? outcomes.get(parentId)! : null;
+
+  const dependencyResults: StepResultContext[] = dependsOn
+    .filter((id) => {
+      const outcome = outcomes.get(id)!;
+      return outcome.status === 'completed' && !(id === parentId && outcome.ownsSession);
+    })
+    .map((id) => ({ stepId: id, text: outcomes.get(id)!.text }));
+
+  return { parentId, sessionId: parent?.sessionId ?? null, dependencyResults };
+}
+
+/**
+ * Execute a step run
+ * Answers that do not match the step's outputSchema are corrected in the step's
+ * own session, up to WORKFLOW_OUTPUT_RETRIES times.
+ *
+ * @throws StepOutputError if the answer still does not match after the last correction
+ */
+async function executeStepRun(options: ExecuteWorkflowAgentOptions): Promise<StepRun> {
+  const { step, requestId } = options;
+  let response = await executeWorkflowAgent(options);
+  const responses = [response];
+
+  if (!step.outputSchema) {
+    return { responses, text: response.text, sessionId: response.sessionId };
+  }
+
+  for (let corrections = 0; ; corrections++) {
+    const validation = validateStructuredOutput(response.text, step.outputSchema);
+
+    if (validation.valid) {
+      return {
+        responses,
+        text: JSON.stringify(validation.value, null, 2),
+        sessionId: response.sessionId,
+        value: validation.value,
+      };
+    }
+
+    if (corrections >= config.workflow.outputRetries) {
+      throw new StepOutputError(`Step ${step.id} output does not match its outputSchema: ${validation.errors}`);
+    }
+
+    console.warn(`[Orchestrator]    Step ${step.id} output does not match its outputSchema: ${validation.errors}`);
+    sendStreamUpdate(requestId, {
+      type: 'step_detail',
+      stepId: step.id,
+      detail: `Output does not match the schema, asking for a correction (${corrections + 1}/${config.workflow.outputRetries})`,
+    });
+
+    throwIfCancelled(requestId);
+
+    response = await executeWorkflowAgent({
+      ...options,
+      sessionId: response.sessionId,
+      forkSession: true,
+      input: undefined,
+      dependencyResults: undefined,
+      outputErrors: validation.errors,
+    });
+    responses.push(response);
+  }
+}
+
+/**
+ * Run a step, retrying failed attempts as its retry policy allows
+ * Every attempt is recorded; cancellations are never retried.
+ *
+ * @throws The error of the last attempt
+ */
+async function executeWithRetries(
+  step: WorkflowStep,
+  title: string,
+  requestId: string,
+  attempts: StepAttempt[],
+  run: () => Promise<StepRun>,
+  item?: number
+): Promise<StepRun> {
+  const policy = resolveRetryPolicy(step);
+
+  for (let attempt = 1; ; attempt++) {
+    const startedAt = new Date();
+    const record = (fields: Pick<StepAttempt, 'status' | 'errorClass' | 'error'>) => {
+      attempts.push({
+        stepId: step.id,
+        ...(item !== undefined && { item }),
+        attempt,
+        ...fields,
+        startedAt: startedAt.toISOString(),
+        durationMs: Date.now() - startedAt.getTime(),
+      });
+    };
+
+    try {
+      const result = await run();
+      record({ status: 'completed' });
+      return result;
+    } catch (error: any) {
+      if (error instanceof ExecutionCancelledError) throw error;
+
+      const errorClass = classifyStepError(error);
+      record({ status: 'failed', errorClass, error: error.message });
+
+      if (attempt >= policy.maxAttempts || !policy.retryOn.includes(errorClass)) {
+        throw error;
+      }
+
+      const delayMs = getStepRetryDelayMs(policy, attempt);
+      console.warn(
+        `[Orchestrator]    Step ${step.id} attempt ${attempt}/${policy.maxAttempts} failed (${errorClass}) - retrying in ${delayMs}ms: ${error.message}`
+      );
+      sendStepUpdate(requestId, {
+        id: step.id,
+        title,
+        status: 'retrying',
+        attempt: attempt + 1,
+        maxAttempts: policy.maxAttempts,
+        error: error.message,
+      });
+
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+      throwIfCancelled(requestId);
+    }
+  }
+}
 
 /**
  * Orchestrate multi-step workflow execution
@@ -20,137 +244,478 @@ import { sendStepUpdate, sendStreamUpdate } from './routes/stream.js';
  * @param userPrompt - Original user prompt
  * @param requestId - Unique request identifier
  * @param systemPrompt - Optional system prompt override
+ * @param input - Optional structured input passed to the first step (e.g. webhook payload)
+ * @param options - Optional checkpoint recording, resume state and approval handler
  * @returns Combined agent response from all steps
  */
 export async function executeWorkflowOrchestrator(
   workflow: Workflow,
   userPrompt: string,
   requestId: string,
-  systemPrompt?: string
+  systemPrompt?: string,
+  input?: Record<string, any>,
+  options: OrchestratorOptions = {}
 ): Promise<AgentResponse> {
   const timestamp = Date.now();
-  const workingDirectory = `/tmp/${requestId}-${timestamp}`;
+  const workingDirectory = options.resume?.workingDirectory ?? `/tmp/${requestId}-${timestamp}`;
+  const stepAttempts: StepAttempt[] = [];
 
   try {
     // Create shared working directory
     await fs.mkdir(workingDirectory, { recursive: true });
     console.log(`[Orchestrator] Created working directory: ${workingDirectory}`);
 
-    // Sort steps by ID
-    const sortedSteps = [...workflow.steps].sort((a, b) => a.id - b.id);
+    // Resolve step dependencies (sequential unless steps declare dependsOn)
+    const graph = buildStepGraph(workflow.steps);
+    validateStepControls(graph);
+    validateWorkflowOutputs(workflow, graph);
+    validateStepPolicies(graph);
+
+    const gated = graph.steps.find((step) => step.requiresApproval);
+    if (gated && !options.requestApproval) {
+      throw new ValidationError(`Step ${gated.id} requires approval, which this run cannot wait for`);
+    }
+    const sortedSteps = graph.steps;
+    const maxParallel = config.workflow.maxParallelSteps;
+
+    // Steps a resumed run does not repeat
+    const restored = new Map(
+      (options.resume?.checkpoints || [])
+        .filter((checkpoint) => graph.dependencies.has(checkpoint.stepId))
+        .map((checkpoint) => [checkpoint.stepId, checkpoint])
+    );
 
     console.log(`[Orchestrator] ========================================`);
     console.log(`[Orchestrator] Starting workflow: ${workflow.name}`);
     console.log(`[Orchestrator] Total steps: ${sortedSteps.length}`);
+    console.log(
+      `[Orchestrator] Mode: ${isDagWorkflow(sortedSteps) ? `DAG (up to ${maxParallel} parallel steps)` : 'sequential'}`
+    );
     console.log(`[Orchestrator] User prompt: "${userPrompt}"`);
+    if (options.resume) {
+      console.log(`[Orchestrator] Resuming: ${restored.size} step(s) already finished`);
+    }
     console.log(`[Orchestrator] ========================================\n`);
 
     // Send conversational intro
-    sendStreamUpdate(requestId, {
-      type: 'commentary',
-      message: `Perfect! I'll use my **${workflow.name}** skill for this.`,
-    });
+    if (options.resume) {
+      sendStreamUpdate(requestId, {
+        type: 'commentary',
+        message: `Picking up my **${workflow.name}** skill where it stopped (${restored.size} of ${sortedSteps.length} steps already done).`,
+      });
+    } else {
+      sendStreamUpdate(requestId, {
+        type: 'commentary',
+        message: `Perfect! I'll use my **${workflow.name}** skill for this.`,
+      });
 
-    sendStreamUpdate(requestId, {
-      type: 'commentary',
-      message: `This workflow has ${sortedSteps.length} steps. Let me walk you through them...`,
-    });
+      sendStreamUpdate(requestId, {
+        type: 'commentary',
+        message: `This workflow has ${sortedSteps.length} steps. Let me walk you through them...`,
+      });
+    }
+
+    const restoredStatus = { completed: 'complete', skipped: 'skipped', failed: 'error' } as const;
 
-    // Send workflow metadata with all steps
+    // Send workflow metadata with all steps and their dependencies
     sendStreamUpdate(requestId, {
       type: 'workflow',
       workflow: {
         name: workflow.name,
         totalSteps: sortedSteps.length,
+        maxParallel,
         steps: sortedSteps.map(s => ({
           id: s.id,
           title: s.prompt.substring(0, 100),
-          status: 'pending',
+          status: restored.has(s.id) ? restoredStatus[restored.get(s.id)!.status] : 'pending',
+          dependsOn: graph.dependencies.get(s.id),
+          ...(graph.fallbackFor.has(s.id) && { fallbackFor: graph.fallbackFor.get(s.id) }),
+          ...(s.requiresApproval && { requiresApproval: true }),
           details: [],  // Initialize empty details array
         })),
       },
     });
 
-    let sessionId: string | null = null;
-    let allTraces: any[] = [];
+    const outcomes = new Map<number, StepOutcome>();
+    const running = new Map<number, Promise<void>>();
+    let failure: unknown = null;
+
+    // Steps whose outcome (and checkpoint) is final - their dependents can start
+    const settled = new Set<number>();
+
+    for (const checkpoint of restored.values()) {
+      outcomes.set(checkpoint.stepId, {
+        status: checkpoint.status,
+        text: checkpoint.output,
+        error: checkpoint.error,
+        sessionId: checkpoint.sessionId,
+        ownsSession: checkpoint.ownsSession,
+        responses: [],
+        value: checkpoint.value,
+      });
+      settled.add(checkpoint.stepId);
+    }
+
+    // Steps skipped because an earlier step failed with onError goto (by step ID)
+    const gotoSkips = new Map<number, string>();
 
-    // Execute each workflow step sequentially
-    for (let i = 0; i < sortedSteps.length; i++) {
-      const step = sortedSteps[i];
-      const isFirstStep = i === 0;
+    /**
+     * Results of a step's dependencies (direct and transitive) for its condition and loop
+     */
+    const conditionContext = (stepId: number): ConditionContext => ({
+      userPrompt,
+      input,
+      steps: Object.fromEntries(
+        [...getAncestors(graph, stepId)].map((id) => {
+          const outcome = outcomes.get(id)!;
+          return [id, { status: outcome.status, output: outcome.text, value: outcome.value, error: outcome.error }];
+        })
+      ),
+    });
+
+    /**
+     * Run one step, forking the session of its last dependency
+     * Results of further dependencies are passed in the prompt.
+     * Fallback steps run with the dependencies of the failed step they replace.
+     */
+    const runStep = async (step: WorkflowStep, stepIndex: number, failedStep?: WorkflowStep): Promise<void> => {
       const stepStartTime = Date.now();
+      const title = step.prompt.substring(0, 80) + (step.prompt.length > 80 ? '...' : '');
+      const dependsOn = graph.dependencies.get(failedStep?.id ?? step.id)!;
+      const { parentId, sessionId, dependencyResults } = forkSource(dependsOn, outcomes);
 
-      console.log(
-        `[Orchestrator] >> Starting step ${step.id}/${sortedSteps.length}${isFirstStep ? ' (initial)' : ' (forking)'}`
-      );
-      console.log(
-        `[Orchestrator]    Session ID: ${sessionId || 'NEW'}`
-      );
+      // Stop between steps if the execution was cancelled
+      throwIfCancelled(requestId);
 
-      // Send conversational commentary
-      if (i === 0) {
+      const skip = (reason: string) => {
+        console.log(`[Orchestrator] -- Skipping step ${step.id}: ${reason}`);
         sendStreamUpdate(requestId, {
           type: 'commentary',
-          message: `Starting with Step ${step.id}...`,
+          message: `Skipping Step ${step.id} (${reason}).`,
         });
-      } else {
+        sendStepUpdate(requestId, { id: step.id, title, status: 'skipped' });
+
+        // Dependents continue from the session before the skipped step
+        outcomes.set(step.id, { status: 'skipped', text: '', sessionId, ownsSession: false, responses: [] });
+      };
+
+      try {
+        if (gotoSkips.has(step.id)) {
+          skip(gotoSkips.get(step.id)!);
+          return;
+        }
+
+        if (step.condition) {
+          const condition = await evaluateStepCondition(step.condition, conditionContext(step.id));
+          console.log(`[Orchestrator]    Step ${step.id} condition: ${condition.passed} (${condition.reason})`);
+
+          if (!condition.passed) {
+            skip('condition not met');
+            return;
+          }
+        }
+
+        let items: unknown[] | null = null;
+        if (step.forEach) {
+          const allItems = resolveForEachItems(step.forEach.items, conditionContext(step.id));
+          items = allItems.slice(0, getForEachLimit(step));
+
+          if (items.length === 0) {
+            skip('no items to process');
+            return;
+          }
+
+          if (items.length < allItems.length) {
+            console.warn(`[Orchestrator]    Step ${step.id}: processing ${items.length} of ${allItems.length} items`);
+          }
+        }
+
+        // Fill in {{steps.N.output...}} placeholders with the results of earlier steps
+        const context = conditionContext(step.id);
+        let resolvedStep: WorkflowStep = {
+          ...step,
+          prompt: interpolateStepOutputs(step.prompt, context),
+          ...(step.guidance && { guidance: interpolateStepOutputs(step.guidance, context) }),
+        };
+
+        // Wait for a human to approve the proposed action (rejected: the step is skipped)
+        if (step.requiresApproval) {
+          sendStepUpdate(requestId, { id: step.id, title, status: 'awaiting_approval' });
+          sendStreamUpdate(requestId, {
+            type: 'commentary',
+            message: `Step ${step.id} needs your approval before it runs.`,
+          });
+
+          const decision = await options.requestApproval!({
+            executionId: requestId,
+            stepId: step.id,
+            title,
+            prompt: resolvedStep.prompt,
+            ...(items && { items }),
+          });
+
+          if (decision.status === 'cancelled') {
+            throw new ExecutionCancelledError(`Execution '${requestId}' was cancelled`);
+          }
+          if (decision.status === 'expired' && config.approvals.onTimeout === 'fail') {
+            throw new TimeoutError(`Step ${step.id} was not approved within ${config.approvals.timeoutMs / 1000}s`);
+          }
+          if (decision.status === 'expired') {
+            skip('approval expired');
+            return;
+          }
+          if (decision.status === 'rejected') {
+            skip(decision.reason ? `rejected: ${decision.reason}` : 'rejected');
+            return;
+          }
+          if (decision.prompt) {
+            resolvedStep = { ...resolvedStep, prompt: decision.prompt };
+          }
+        }
+
+        console.log(
+          `[Orchestrator] >> Starting step ${step.id}/${sortedSteps.length}${parentId !== undefined ? ` (forking step ${parentId})` : ' (initial)'}`
+        );
+        console.log(
+          `[Orchestrator]    Session ID: ${sessionId || 'NEW'}`
+        );
+
+        // Send conversational commentary
         sendStreamUpdate(requestId, {
           type: 'commentary',
-          message: `Moving on to Step ${step.id}...`,
+          message: outcomes.size === 0 && running.size === 1
+            ? `Starting with Step ${step.id}...`
+            : running.size > 1
+              ? `Starting Step ${step.id} in parallel...`
+              : `Moving on to Step ${step.id}...`,
         });
-      }
 
-      // Send SSE: Step started
-      sendStepUpdate(requestId, {
-        id: step.id,
-        title: step.prompt.substring(0, 80) + (step.prompt.length > 80 ? '...' : ''),
-        status: 'running',
-      });
+        // Send SSE: Step started
+        sendStepUpdate(requestId, {
+          id: step.id,
+          title,
+          status: 'running',
+          ...(failedStep && { fallbackFor: failedStep.id }),
+        });
 
-      // Execute step
-      const stepResult: WorkflowAgentResponse = await executeWorkflowAgent({
-        step,
-        stepIndex: i,  // Pass step index for MCP config lookup
-        skill: workflow,  // Pass full workflow for connection resolution
-        userPrompt,
-        requestId,
-        workingDirectory,
-        sessionId,
-        forkSession: !isFirstStep,
-        systemPrompt,
-        // mcpConnections removed - resolved per-step now
-      });
+        const execute = (forEachItem?: ForEachItem) => executeWithRetries(step, title, requestId, stepAttempts, async () => {
+          // Small delay before forking a session for stability
+          if (sessionId) {
+            await new Promise((resolve) => setTimeout(resolve, SESSION_FORK_DELAY_MS));
+          }
+
+          return executeStepRun({
+            step: resolvedStep,
+            stepIndex,  // Pass step index for MCP config lookup
+            skill: workflow,  // Pass full workflow for connection resolution
+            userPrompt,
+            requestId,
+            workingDirectory,
+            sessionId,
+            forkSession: sessionId !== null,
+            systemPrompt,
+            input: sessionId ? undefined : input,
+            dependencyResults,
+            forEachItem,
+            // mcpConnections removed - resolved per-step now
+          });
+        }, forEachItem?.index);
+
+        if (items) {
+          // Each item forks the session before the loop; dependents get all item results
+          const runs: StepRun[] = [];
+
+          for (const [index, value] of items.entries()) {
+            throwIfCancelled(requestId);
+
+            sendStreamUpdate(requestId, {
+              type: 'step_detail',
+              stepId: step.id,
+              detail: `Item ${index + 1}/${items.length}`,
+            });
+
+            runs.push(await execute({ index, total: items.length, value }));
+          }
+
+          outcomes.set(step.id, {
+            status: 'completed',
+            text: runs.map((run, index) => `### Item ${index + 1}\n${run.text}`).join('\n\n'),
+            sessionId,
+            ownsSession: false,
+            responses: runs.flatMap((run) => run.responses),
+            value: step.outputSchema ? runs.map((run) => run.value) : undefined,
+          });
+        } else {
+          // Execute step
+          const stepResult = await execute();
+
+          console.log(
+            `[Orchestrator]    Session chain: ${sessionId || 'null'} -> ${stepResult.sessionId}`
+          );
+
+          outcomes.set(step.id, {
+            status: 'completed',
+            text: stepResult.text,
+            sessionId: stepResult.sessionId,
+            ownsSession: true,
+            responses: stepResult.responses,
+            value: stepResult.value,
+          });
+        }
+
+        console.log(
+          `[Orchestrator] << Completed step ${step.id}/${sortedSteps.length}\n`
+        );
+
+        // Send SSE: Step completed
+        sendStepUpdate(requestId, {
+          id: step.id,
+          title,
+          status: 'complete',
+          duration: Date.now() - stepStartTime,
+        });
+      } catch (error: any) {
+        if (error instanceof ExecutionCancelledError) throw error;
+        throwIfCancelled(requestId);
+
+        sendStepUpdate(requestId, {
+          id: step.id,
+          title,
+          status: 'error',
+          duration: Date.now() - stepStartTime,
+          error: error.message,
+        });
 
-      console.log(`[Orchestrator]    Received sessionId: ${stepResult.sessionId}`);
+        const onError = step.onError || { action: 'fail' };
+        if (onError.action === 'fail') throw error;
+
+        console.warn(`[Orchestrator] !! Step ${step.id} failed (onError ${onError.action}): ${error.message}`);
+
+        if (onError.action === 'fallbackStep') {
+          const fallback = sortedSteps.find((s) => s.id === onError.stepId)!;
+          const previousResponses = outcomes.get(fallback.id)?.responses || [];
+
+          sendStreamUpdate(requestId, {
+            type: 'commentary',
+            message: `Step ${step.id} failed, running Step ${fallback.id} instead...`,
+          });
+
+          await runStep(fallback, sortedSteps.indexOf(fallback), step);
+
+          // Dependents of the failed step build on the fallback's result
+          const fallbackOutcome = outcomes.get(fallback.id)!;
+          outcomes.set(fallback.id, {
+            ...fallbackOutcome,
+            responses: [...previousResponses, ...fallbackOutcome.responses],
+          });
+          outcomes.set(step.id, { ...fallbackOutcome, responses: [] });
+          return;
+        }
+
+        // continue and goto: dependents continue from the session before the failed step
+        outcomes.set(step.id, {
+          status: 'failed',
+          text: '',
+          error: error.message,
+          sessionId,
+          ownsSession: false,
+          responses: [],
+        });
 
-      // Store session ID for next step
-      const previousSessionId = sessionId;
-      sessionId = stepResult.sessionId;
+        if (onError.action === 'goto') {
+          // Skip the steps between the failed step and the target
+          const target = onError.stepId;
+          const targetAncestors = getAncestors(graph, target);
+
+          for (const id of getDescendants(graph, step.id)) {
+            if (targetAncestors.has(id)) gotoSkips.set(id, `step ${step.id} failed, going to step ${target}`);
+          }
+
+          sendStreamUpdate(requestId, {
+            type: 'commentary',
+            message: `Step ${step.id} failed, continuing with Step ${target}...`,
+          });
+        } else {
+          sendStreamUpdate(requestId, {
+            type: 'commentary',
+            message: `Step ${step.id} failed, continuing with the next steps...`,
+          });
+        }
+      }
+    };
 
-      console.log(
-        `[Orchestrator]    Session chain: ${previousSessionId || 'null'} -> ${sessionId}`
+    /**
+     * Record the checkpoint of a finished step
+     */
+    const recordCheckpoint = async (stepId: number) => {
+      if (!options.onStepFinished || restored.has(stepId)) return;
+
+      const outcome = outcomes.get(stepId)!;
+      await options.onStepFinished(
+        {
+          stepId,
+          status: outcome.status,
+          sessionId: outcome.sessionId,
+          ownsSession: outcome.ownsSession,
+          output: outcome.text,
+          ...(outcome.value !== undefined && { value: outcome.value }),
+          ...(outcome.error !== undefined && { error: outcome.error }),
+        },
+        workingDirectory
       );
+    };
 
-      // Collect traces
-      allTraces.push(...(stepResult.trace || []));
+    /**
+     * Run a step and record its checkpoint (and the one of its fallback step, if it ran)
+     */
+    const finishStep = async (step: WorkflowStep, stepIndex: number) => {
+      await runStep(step, stepIndex);
 
-      const stepDuration = Date.now() - stepStartTime;
+      if (step.onError?.action === 'fallbackStep' && outcomes.has(step.onError.stepId)) {
+        await recordCheckpoint(step.onError.stepId);
+      }
+      await recordCheckpoint(step.id);
+      settled.add(step.id);
+    };
 
-      console.log(
-        `[Orchestrator] << Completed step ${step.id}/${sortedSteps.length}\n`
-      );
+    // Start every step whose dependencies have completed (up to maxParallel at a time).
+    // After a failure no new steps start; running steps are awaited before rethrowing.
+    // Fallback steps only run in place of a failed step; resumed runs skip restored steps.
+    const pending = new Set(
+      sortedSteps
+        .filter((step) => !graph.fallbackFor.has(step.id) && !restored.has(step.id))
+        .map((step) => step.id)
+    );
 
-      // Send SSE: Step completed
-      sendStepUpdate(requestId, {
-        id: step.id,
-        title: step.prompt.substring(0, 80) + (step.prompt.length > 80 ? '...' : ''),
-        status: 'complete',
-        duration: stepDuration,
-      });
+    while (pending.size > 0 || running.size > 0) {
+      if (!failure) {
+        for (const [index, step] of sortedSteps.entries()) {
+          if (running.size >= maxParallel) break;
+          if (!pending.has(step.id)) continue;
+          if (!graph.dependencies.get(step.id)!.every((id) => settled.has(id))) continue;
+
+          pending.delete(step.id);
+          const run = Promise.resolve()
+            .then(() => finishStep(step, index))
+            .catch((error) => {
+              failure = failure || error;
+            })
+            .finally(() => running.delete(step.id));
+          running.set(step.id, run);
+        }
+      }
+
+      if (running.size === 0) break;
+      await Promise.race(running.values());
+    }
 
-      // Small delay between steps for stability
-      if (i < sortedSteps.length - 1) {
-        await new Promise((resolve) => setTimeout(resolve, 500));
+    if (failure) throw failure;
+
+    for (const fallbackId of graph.fallbackFor.keys()) {
+      if (!outcomes.has(fallbackId)) {
+        const fallback = sortedSteps.find((step) => step.id === fallbackId)!;
+        sendStepUpdate(requestId, { id: fallbackId, title: fallback.prompt.substring(0, 80), status: 'skipped' });
+        outcomes.set(fallbackId, { status: 'skipped', text: '', sessionId: null, ownsSession: false, responses: [] });
       }
     }
 
@@ -160,20 +725,37 @@ export async function executeWorkflowOrchestrator(
     console.log(`[Orchestrator] ========================================\n`);
 
     // FINAL SYNTHESIS STEP: Generate complete natural response
+    // Forks the last branch that ended the workflow; other branch results are passed in the prompt
+    const synthesisSource = forkSource(graph.sinks, outcomes);
+    const sessionId = synthesisSource.sessionId;
+
     console.log(`[Orchestrator] >> Starting FINAL SYNTHESIS STEP`);
-    console.log(`[Orchestrator]    Forking from sessionId: ${sessionId}`);
+    console.log(`[Orchestrator]    Forking from sessionId: ${sessionId} (step ${synthesisSource.parentId})`);
 
-    const synthesisStepId = sortedSteps.length + 1;
+    const synthesisStepId = Math.max(...sortedSteps.map((step) => step.id)) + 1;
     const synthesisStartTime = Date.now();
 
-    const synthesisStep = {
-      id: synthesisStepId,
-      prompt: `Based on all the information you've gathered in the previous steps, provide a complete, natural response to the user's original request: "${userPrompt}"
+    // Skills with an outputSchema respond with a typed JSON object instead of prose
+    const synthesisStep: WorkflowStep = workflow.outputSchema
+      ? {
+          id: synthesisStepId,
+          prompt: `Based on all the information you've gathered in the previous steps, produce the result of the user's original request: "${userPrompt}"
+
+Fill in every field from the data you've collected.`,
+          guidance: 'Combine all previous work into the structured result',
+          allowedTools: [], // No tools needed - just synthesize
+          outputSchema: workflow.outputSchema,
+        }
+      : {
+          id: synthesisStepId,
+          prompt: `Based on all the information you've gathered in the previous steps, provide a complete, natural response to the user's original request: "${userPrompt}"
 
 Provide a clear, comprehensive answer that incorporates all the relevant data you've collected. Do not reference "steps" or "previous work" - just give the user what they asked for in a natural, helpful way.`,
-      guidance: 'Synthesize all previous work into one complete response',
-      allowedTools: [] as string[], // No tools needed - just synthesize
-    };
+          guidance: 'Synthesize all previous work into one complete response',
+          allowedTools: [], // No tools needed - just synthesize
+        };
+
+    throwIfCancelled(requestId);
 
     // Send SSE: Synthesis started
     sendStepUpdate(requestId, {
@@ -182,7 +764,7 @@ Provide a clear, comprehensive answer that incorporates all the relevant data yo
       status: 'running',
     });
 
-    const synthesisResult: WorkflowAgentResponse = await executeWorkflowAgent({
+    const synthesisResult = await executeWithRetries(synthesisStep, 'Synthesizing final response...', requestId, stepAttempts, () => executeStepRun({
       step: synthesisStep,
       stepIndex: sortedSteps.length,  // Synthesis step (no MCP config needed)
       skill: workflow,  // Pass full workflow for connection resolution
@@ -190,10 +772,12 @@ Provide a clear, comprehensive answer that incorporates all the relevant data yo
       requestId,
       workingDirectory,
       sessionId,
-      forkSession: true,
+      forkSession: sessionId !== null,
       systemPrompt,
+      input: sessionId ? undefined : input,
+      dependencyResults: synthesisSource.dependencyResults,
       // mcpConnections removed - resolved per-step now
-    });
+    }));
 
     const synthesisDuration = Date.now() - synthesisStartTime;
 
@@ -208,8 +792,31 @@ Provide a clear, comprehensive answer that incorporates all the relevant data yo
       duration: synthesisDuration,
     });
 
-    // Collect synthesis trace
-    allTraces.push(...(synthesisResult.trace || []));
+    // Collect traces (in step order, synthesis last)
+    const allTraces: any[] = [];
+    const stepMetadata: ExecutionStepMetadata[] = [];
+    const tracedSteps: Array<[number, WorkflowAgentResponse[]]> = [
+      ...sortedSteps.map((step): [number, WorkflowAgentResponse[]] => [step.id, outcomes.get(step.id)!.responses]),
+      [synthesisStepId, synthesisResult.responses],
+    ];
+
+    for (const [stepId, responses] of tracedSteps) {
+      // Skipped steps have no responses; forEach steps have one per item (summed up)
+      const resultMessages = responses.flatMap((result) => {
+        allTraces.push(...(result.trace || []));
+        return (result.trace || []).filter((message) => message.type === 'result');
+      });
+
+      // Extract step metadata from the step's result messages
+      if (resultMessages.length > 0) {
+        stepMetadata.push({
+          id: stepId,
+          duration_ms: resultMessages.reduce((sum, message) => sum + (message.duration_ms || 0), 0),
+          total_cost_usd: resultMessages.reduce((sum, message) => sum + (message.total_cost_usd || 0), 0),
+          num_turns: resultMessages.reduce((sum, message) => sum + (message.num_turns || 0), 0),
+        });
+      }
+    }
 
     console.log(`[Orchestrator] ========================================`);
     console.log(`[Orchestrator] ORCHESTRATION COMPLETE: ${workflow.name}`);
@@ -218,18 +825,12 @@ Provide a clear, comprehensive answer that incorporates all the relevant data yo
     );
     console.log(`[Orchestrator] ========================================\n`);
 
-    // Extract step metadata from traces
-    const stepMetadata: ExecutionStepMetadata[] = [];
-    let currentStepId = 1;
-
-    for (const message of allTraces) {
-      if (message.type === 'result') {
-        stepMetadata.push({
-          id: currentStepId++,
-          duration_ms: message.duration_ms || 0,
-          total_cost_usd: message.total_cost_usd || 0,
-          num_turns: message.num_turns || 0,
-        });
+    // Validated outputs of steps with an outputSchema
+    const stepOutputs: Record<number, unknown> = {};
+    for (const step of sortedSteps) {
+      const outcome = outcomes.get(step.id)!;
+      if (step.outputSchema && outcome.status === 'completed') {
+        stepOutputs[step.id] = outcome.value;
       }
     }
 
@@ -239,14 +840,17 @@ Provide a clear, comprehensive answer that incorporates all the relevant data yo
       workingDirectory: workingDirectory,
       trace: allTraces,
       steps: stepMetadata,
+      ...(workflow.outputSchema && { output: synthesisResult.value }),
+      ...(Object.keys(stepOutputs).length > 0 && { stepOutputs }),
+      stepAttempts,
     };
   } catch (error) {
     console.error(`[Orchestrator] Workflow failed:`, error);
 
     if (error instanceof Error) {
-      throw new Error(`Workflow orchestration failed: ${error.message}`);
+      throw new WorkflowError(`Workflow orchestration failed: ${error.message}`, stepAttempts, error);
     }
 
-    throw new Error('Workflow orchestration failed');
+    throw new WorkflowError('Workflow orchestration failed', stepAttempts);
   }
 }
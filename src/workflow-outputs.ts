@@ -0,0 +1,124 @@
+/**
+ * Structured Workflow Outputs
+ *
+ * Steps (and skills, for their final response) can declare an `outputSchema`
+ * (JSON Schema). Their answer is extracted as JSON and validated against it;
+ * the orchestrator asks the step to correct answers that do not match.
+ *
+ * Later steps reference validated values in their prompt and guidance with
+ * placeholders like {{steps.2.output.issueUrl}} or {{input.email}}.
+ */
+
+import Ajv, { ValidateFunction } from 'ajv';
+import { Workflow } from './types.js';
+import { StepGraph, getAncestors } from './workflow-dag.js';
+import {
+  ConditionContext,
+  getReferencedSteps,
+  parseStepOutput,
+  resolveReference,
+} from './workflow-conditions.js';
+import { ValidationError } from './utils/errors.js';
+
+const ajv = new Ajv({ allErrors: true, strict: false });
+
+/** Compiled validators by schema object */
+const validators = new WeakMap<object, ValidateFunction>();
+
+const PLACEHOLDER_PATTERN = /\{\{\s*((?:steps|input)\.[\w.-]+)\s*\}\}/g;
+
+/**
+ * Result of checking an answer against an outputSchema
+ */
+export type OutputValidation =
+  | { valid: true; value: unknown }
+  | { valid: false; errors: string };
+
+function getValidator(schema: Record<string, any>): ValidateFunction {
+  let validate = validators.get(schema);
+
+  if (!validate) {
+    validate = ajv.compile(schema);
+    validators.set(schema, validate);
+  }
+
+  return validate;
+}
+
+/**
+ * Extract the JSON of an answer and validate it against a schema
+ */
+export function validateStructuredOutput(text: string, schema: Record<string, any>): OutputValidation {
+  const value = parseStepOutput(text);
+
+  if (value === undefined) {
+    return { valid: false, errors: 'The answer does not contain a JSON object or array' };
+  }
+
+  const validate = getValidator(schema);
+  if (validate(value)) {
+    return { valid: true, value };
+  }
+
+  return { valid: false, errors: ajv.errorsText(validate.errors, { dataVar: 'output', separator: '\n' }) };
+}
+
+/**
+ * Replace {{steps.N.output...}} and {{input...}} placeholders with their values
+ * Strings are inserted verbatim, other values as JSON. Unknown values become empty.
+ */
+export function interpolateStepOutputs(template: string, context: ConditionContext): string {
+  return template.replace(PLACEHOLDER_PATTERN, (_, path: string) => {
+    const value = resolveReference(path, context);
+
+    if (value === undefined || value === null) {
+      console.warn(`[Orchestrator] Placeholder {{${path}}} has no value`);
+      return '';
+    }
+
+    return typeof value === 'string' ? value : JSON.stringify(value);
+  });
+}
+
+/**
+ * Validate the output schemas and placeholders of a workflow before it runs
+ * Placeholders may only reference the step's dependencies (direct or transitive).
+ *
+ * @throws ValidationError describing the first invalid schema or placeholder
+ */
+export function validateWorkflowOutputs(workflow: Workflow, graph: StepGraph): void {
+  const checkSchema = (schema: unknown, label: string) => {
+    if (typeof schema !== 'object' || schema === null || Array.isArray(schema)) {
+      throw new ValidationError(`${label} outputSchema must be a JSON Schema object`);
+    }
+
+    try {
+      getValidator(schema as Record<string, any>);
+    } catch (error: any) {
+      throw new ValidationError(`${label} outputSchema is invalid: ${error.message}`);
+    }
+  };
+
+  if (workflow.outputSchema) {
+    checkSchema(workflow.outputSchema, `Skill "${workflow.name}"`);
+  }
+
+  for (const step of graph.steps) {
+    if (step.outputSchema !== undefined) {
+      checkSchema(step.outputSchema, `Step ${step.id}`);
+    }
+
+    const ancestors = getAncestors(graph, step.id);
+    const text = `${step.prompt}\n${step.guidance || ''}`;
+
+    for (const [, path] of text.matchAll(PLACEHOLDER_PATTERN)) {
+      for (const id of getReferencedSteps(path)) {
+        if (!ancestors.has(id)) {
+          throw new ValidationError(
+            `Step ${step.id} placeholder {{${path}}} references step ${id}, which does not run before it`
+          );
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,124 @@
+/**
+ * Workflow Step Retries and Error Handling
+ *
+ * Steps can retry failed attempts (`retry`) and choose what happens when
+ * their last attempt fails (`onError`):
+ *
+ * - Failures are sorted into error classes; only classes in retry.retryOn are retried
+ * - Retries wait backoffMs, multiplied by backoffMultiplier per retry
+ * - onError: fail (default), continue, fallbackStep or goto (see StepErrorPolicy)
+ */
+
+import { StepErrorClass, StepRetryPolicy, WorkflowStep } from './types.js';
+import { StepGraph, getDescendants } from './workflow-dag.js';
+import { ConnectionError, StepOutputError, TimeoutError, ValidationError } from './utils/errors.js';
+import { config } from './config/index.js';
+
+const ERROR_CLASSES: StepErrorClass[] = ['timeout', 'rate_limit', 'overloaded', 'network', 'output_schema', 'other'];
+
+/** Error classes retried when a step's retry policy does not list any */
+const DEFAULT_RETRY_ON: StepErrorClass[] = ['timeout', 'rate_limit', 'overloaded', 'network'];
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+const DEFAULT_BACKOFF_MS = 2000;
+const DEFAULT_BACKOFF_MULTIPLIER = 2;
+
+const ERROR_PATTERNS: Array<[StepErrorClass, RegExp]> = [
+  ['timeout', /timeout|timed out/i],
+  ['rate_limit', /rate.?limit|\b429\b/i],
+  ['overloaded', /overloaded|\b(500|502|503|504|529)\b/i],
+  ['network', /ECONNRESET|ECONNREFUSED|ETIMEDOUT|EAI_AGAIN|socket hang up|fetch failed/i],
+];
+
+/**
+ * Sort a step failure into an error class
+ */
+export function classifyStepError(error: unknown): StepErrorClass {
+  if (error instanceof StepOutputError) return 'output_schema';
+  if (error instanceof TimeoutError) return 'timeout';
+  if (error instanceof ConnectionError) return 'network';
+
+  const message = error instanceof Error
+    ? `${error.message} ${(error as any).cause?.message || ''}`
+    : String(error);
+
+  const match = ERROR_PATTERNS.find(([, pattern]) => pattern.test(message));
+  return match ? match[0] : 'other';
+}
+
+/**
+ * Resolve a step's retry policy with its defaults
+ * Steps without a retry policy run once.
+ */
+export function resolveRetryPolicy(step: WorkflowStep): Required<StepRetryPolicy> {
+  if (!step.retry) {
+    return { maxAttempts: 1, backoffMs: 0, backoffMultiplier: 1, retryOn: [] };
+  }
+
+  return {
+    maxAttempts: Math.min(step.retry.maxAttempts ?? DEFAULT_MAX_ATTEMPTS, config.workflow.maxStepAttempts),
+    backoffMs: step.retry.backoffMs ?? DEFAULT_BACKOFF_MS,
+    backoffMultiplier: step.retry.backoffMultiplier ?? DEFAULT_BACKOFF_MULTIPLIER,
+    retryOn: step.retry.retryOn ?? DEFAULT_RETRY_ON,
+  };
+}
+
+/**
+ * Delay before retrying a failed attempt (1-based)
+ */
+export function getStepRetryDelayMs(policy: Required<StepRetryPolicy>, attempt: number): number {
+  return Math.round(policy.backoffMs * policy.backoffMultiplier ** (attempt - 1));
+}
+
+/**
+ * Validate the retry and onError policies of a workflow before it runs
+ * Fallback steps are checked when the graph is built (see buildStepGraph).
+ *
+ * @throws ValidationError describing the first invalid policy
+ */
+export function validateStepPolicies(graph: StepGraph): void {
+  const ids = new Set(graph.steps.map((step) => step.id));
+
+  for (const step of graph.steps) {
+    const { retry, onError } = step;
+
+    if (retry) {
+      if (retry.maxAttempts !== undefined && (!Number.isInteger(retry.maxAttempts) || retry.maxAttempts < 1)) {
+        throw new ValidationError(`Step ${step.id} retry.maxAttempts must be a positive integer`);
+      }
+      if (retry.backoffMs !== undefined && !(retry.backoffMs >= 0)) {
+        throw new ValidationError(`Step ${step.id} retry.backoffMs must be at least 0`);
+      }
+      if (retry.backoffMultiplier !== undefined && !(retry.backoffMultiplier >= 1)) {
+        throw new ValidationError(`Step ${step.id} retry.backoffMultiplier must be at least 1`);
+      }
+
+      const unknown = (retry.retryOn || []).filter((errorClass) => !ERROR_CLASSES.includes(errorClass));
+      if (unknown.length > 0) {
+        throw new ValidationError(
+          `Step ${step.id} retry.retryOn contains unknown error classes: ${unknown.join(', ')} (use ${ERROR_CLASSES.join(', ')})`
+        );
+      }
+    }
+
+    if (!onError || onError.action === 'fail' || onError.action === 'continue') continue;
+
+    if (onError.action === 'goto') {
+      if (!ids.has(onError.stepId)) {
+        throw new ValidationError(`Step ${step.id} onError goes to unknown step ${onError.stepId}`);
+      }
+      if (graph.fallbackFor.has(onError.stepId)) {
+        throw new ValidationError(`Step ${step.id} onError cannot go to fallback step ${onError.stepId}`);
+      }
+      if (!getDescendants(graph, step.id).has(onError.stepId)) {
+        throw new ValidationError(
+          `Step ${step.id} onError goes to step ${onError.stepId}, which does not run after it`
+        );
+      }
+    } else if (onError.action !== 'fallbackStep') {
+      throw new ValidationError(
+        `Step ${step.id} onError action must be fail, continue, fallbackStep or goto`
+      );
+    }
+  }
+}
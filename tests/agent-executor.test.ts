@@ -0,0 +1,195 @@
+/**
+ * Agent Executor Tests
+ *
+ * Tests for running skills directly (skill mode), passing skill inputs and
+ * the minimum classifier confidence of orchestrator mode
+ */
+
+const mockConfig = {
+  agent: { model: 'claude-test' },
+  classifier: { shortlistSize: 10, minConfidence: 'medium', belowMinConfidence: 'default' },
+};
+
+jest.mock('../src/config/index', () => ({ config: mockConfig }));
+
+const mockGetSkillById = jest.fn();
+const mockGetSkillByName = jest.fn();
+const mockExecuteWorkflowOrchestrator = jest.fn();
+const mockClassifyWorkflow = jest.fn();
+const mockExecuteAgent = jest.fn();
+const mockLinkExecutionToSkill = jest.fn();
+const mockSaveClassifierDecision = jest.fn();
+const mockSaveExecutionInputs = jest.fn();
+
+jest.mock('../src/database', () => ({ getSkillById: mockGetSkillById, getSkillByName: mockGetSkillByName }));
+jest.mock('../src/db/utils', () => ({
+  linkExecutionToSkill: mockLinkExecutionToSkill,
+  saveClassifierDecision: mockSaveClassifierDecision,
+  saveExecutionInputs: mockSaveExecutionInputs,
+}));
+jest.mock('../src/workflow-orchestrator', () => ({ executeWorkflowOrchestrator: mockExecuteWorkflowOrchestrator }));
+jest.mock('../src/workflow-classifier', () => ({ classifyWorkflow: mockClassifyWorkflow }));
+jest.mock('../src/agent', () => ({ executeAgent: mockExecuteAgent }));
+jest.mock('../src/execution-checkpoints', () => ({ createCheckpointRecorder: jest.fn() }));
+jest.mock('../src/execution-approvals', () => ({ requestApproval: jest.fn() }));
+
+import { executeWithMode } from '../src/agent-executor';
+import { NotFoundError, ValidationError } from '../src/utils/errors';
+
+describe('executeWithMode', () => {
+  const skill = {
+    id: 'skill-1',
+    name: 'Changelog',
+    description: 'Summarize merged pull requests',
+    isActive: true,
+    steps: [{ id: 1, prompt: 'List PRs merged into {{input.repo}} since {{input.since}}' }],
+    inputs: {
+      type: 'object',
+      properties: { repo: { type: 'string' }, since: { type: 'string', format: 'date' } },
+      required: ['repo', 'since'],
+    },
+  };
+
+  const baseOptions = {
+    prompt: 'Write the changelog',
+    requestId: 'req-1',
+    mcpConnections: {},
+    correlationId: 'corr-1',
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    mockConfig.classifier.belowMinConfidence = 'default';
+    mockLinkExecutionToSkill.mockResolvedValue(undefined);
+    mockSaveClassifierDecision.mockResolvedValue(undefined);
+    mockSaveExecutionInputs.mockResolvedValue(true);
+    mockExecuteAgent.mockResolvedValue({ text: 'One-off answer', workingDirectory: '/tmp/req-1' });
+    mockExecuteWorkflowOrchestrator.mockResolvedValue({ text: 'Done', workingDirectory: '/tmp/req-1' });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('skill mode', () => {
+    it('should run the named skill without classifying the prompt', async () => {
+      mockGetSkillByName.mockResolvedValue(skill);
+
+      const result = await executeWithMode({
+        ...baseOptions,
+        mode: 'skill',
+        skillName: 'changelog',
+        inputs: { repo: 'acme/api', since: '2025-01-06' },
+      });
+
+      expect(mockGetSkillByName).toHaveBeenCalledWith('changelog');
+      expect(mockClassifyWorkflow).not.toHaveBeenCalled();
+      expect(mockLinkExecutionToSkill).toHaveBeenCalledWith('req-1', 'skill-1');
+      expect(mockExecuteWorkflowOrchestrator).toHaveBeenCalledWith(
+        skill,
+        'Write the changelog',
+        'req-1',
+        undefined,
+        { repo: 'acme/api', since: '2025-01-06' },
+        expect.objectContaining({ requestApproval: expect.any(Function) })
+      );
+      expect(result).toMatchObject({ text: 'Done', workflow: skill });
+    });
+
+    it('should not run unknown or inactive skills', async () => {
+      mockGetSkillById.mockResolvedValueOnce(null);
+      await expect(executeWithMode({ ...baseOptions, mode: 'skill', skillId: 'missing' })).rejects.toThrow(
+        new NotFoundError("No active skill with ID 'missing'")
+      );
+
+      mockGetSkillById.mockResolvedValueOnce({ ...skill, isActive: false });
+      await expect(executeWithMode({ ...baseOptions, mode: 'skill', skillId: 'skill-1' })).rejects.toThrow(
+        NotFoundError
+      );
+
+      expect(mockExecuteWorkflowOrchestrator).not.toHaveBeenCalled();
+    });
+
+    it('should not start runs with missing required inputs', async () => {
+      mockGetSkillById.mockResolvedValue(skill);
+
+      await expect(
+        executeWithMode({ ...baseOptions, mode: 'skill', skillId: 'skill-1', inputs: { repo: 'acme/api' } })
+      ).rejects.toThrow(new ValidationError('Skill "Changelog" is missing required inputs: since'));
+      expect(mockExecuteWorkflowOrchestrator).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('orchestrator mode', () => {
+    it('should let explicit inputs override the ones extracted from the prompt', async () => {
+      mockClassifyWorkflow.mockResolvedValue({
+        workflowId: 'skill-1',
+        workflowData: skill,
+        confidence: 'high',
+        inputs: { repo: 'acme/web', since: '2025-01-06' },
+      });
+
+      await executeWithMode({ ...baseOptions, mode: 'orchestrator', inputs: { repo: 'acme/api' } });
+
+      expect(mockExecuteWorkflowOrchestrator.mock.calls[0][4]).toEqual({ repo: 'acme/api', since: '2025-01-06' });
+      expect(mockSaveExecutionInputs).toHaveBeenCalledWith('req-1', { repo: 'acme/api', since: '2025-01-06' });
+    });
+
+    const lowConfidence = {
+      workflowId: 'skill-1',
+      workflowData: skill,
+      confidence: 'low',
+      reasoning: 'Mentions pull requests',
+      candidates: [{ skillId: 'skill-1', name: 'Changelog', score: 1.2 }],
+    };
+
+    it('should fall back to the default agent below the minimum confidence', async () => {
+      mockClassifyWorkflow.mockResolvedValue(lowConfidence);
+
+      const result = await executeWithMode({ ...baseOptions, mode: 'orchestrator' });
+
+      expect(mockExecuteWorkflowOrchestrator).not.toHaveBeenCalled();
+      expect(result).toMatchObject({ text: 'One-off answer', classification: lowConfidence });
+      expect(mockSaveClassifierDecision).toHaveBeenCalledWith('req-1', {
+        mode: 'orchestrator',
+        prompt: 'Write the changelog',
+        candidates: lowConfidence.candidates,
+        skillId: 'skill-1',
+        skillName: 'Changelog',
+        confidence: 'low',
+        reasoning: 'Mentions pull requests',
+        action: 'default',
+      });
+    });
+
+    it('should ask for clarification below the minimum confidence when configured', async () => {
+      mockConfig.classifier.belowMinConfidence = 'clarify';
+      mockClassifyWorkflow.mockResolvedValue(lowConfidence);
+
+      const result = await executeWithMode({ ...baseOptions, mode: 'orchestrator' });
+
+      expect(mockExecuteAgent).not.toHaveBeenCalled();
+      expect(mockExecuteWorkflowOrchestrator).not.toHaveBeenCalled();
+      expect(result.workingDirectory).toBeNull();
+      expect(result.text).toContain(`"Changelog" skill (confidence: low - Mentions pull requests)`);
+      expect(mockSaveClassifierDecision.mock.calls[0][1].action).toBe('clarify');
+    });
+
+    it('should run the skill even if the decision cannot be recorded', async () => {
+      mockClassifyWorkflow.mockResolvedValue({ ...lowConfidence, confidence: 'medium' });
+      mockSaveClassifierDecision.mockRejectedValue(new Error('connection refused'));
+
+      await executeWithMode({
+        ...baseOptions,
+        mode: 'orchestrator',
+        inputs: { repo: 'acme/api', since: '2025-01-06' },
+      });
+
+      expect(mockExecuteWorkflowOrchestrator).toHaveBeenCalled();
+      expect(mockSaveClassifierDecision.mock.calls[0][1].action).toBe('skill');
+    });
+  });
+});
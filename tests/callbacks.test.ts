@@ -0,0 +1,160 @@
+/**
+ * Completion Callback Tests
+ *
+ * Tests for signed callback delivery, attempt recording and callback URL checks
+ */
+
+const mockConfig = {
+  encryption: { secret: undefined, previousSecrets: [] },
+  queue: { maxAttempts: 3, retryBaseDelayMs: 30000 },
+  callbacks: {
+    signingSecret: 'callback-secret' as string | undefined,
+    allowedHosts: ['hooks.internal', '10.0.0.5'],
+    timeoutMs: 10000,
+    maxAttempts: 6,
+    retryBaseDelayMs: 10000,
+  },
+};
+
+jest.mock('../src/config/index', () => ({ config: mockConfig }));
+
+const mockCreate = jest.fn();
+
+jest.mock('../src/db/client', () => ({
+  getPrismaClient: () => ({ callbackDelivery: { create: mockCreate } }),
+  onBeforeDisconnect: jest.fn(),
+}));
+
+jest.mock('axios', () => ({ __esModule: true, default: { post: jest.fn() } }));
+
+import dns from 'dns';
+import axios from 'axios';
+import { deliverCallbackJob, validateCallbackUrl, CallbackJobPayload } from '../src/services/callbacks/callbacks';
+import { verifySignature } from '../src/utils/signatures';
+import { CallbackError, ValidationError } from '../src/utils/errors';
+
+const mockPost = axios.post as jest.Mock;
+
+describe('Completion Callbacks', () => {
+  const payload: CallbackJobPayload = {
+    executionId: 'req-123',
+    deliveryId: 'delivery-1',
+    url: 'https://example.com/hooks/alfred',
+    headers: JSON.stringify({ Authorization: 'Bearer token', 'X-Signature-256': 'spoofed' }),
+    body: { response: 'Done', url: [], requestId: 'req-123', executionId: 'req-123', status: 'completed' },
+  };
+  const context = { jobId: 'job-1', attempt: 2, maxAttempts: 6, isFinalAttempt: false };
+
+  beforeEach(() => {
+    mockPost.mockReset();
+    mockCreate.mockReset();
+    mockConfig.callbacks.signingSecret = 'callback-secret';
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('POSTs a signed body with the caller headers and records the attempt', async () => {
+    mockPost.mockResolvedValue({ status: 200, data: 'ok' });
+
+    await deliverCallbackJob(payload, context);
+
+    const [url, body, options] = mockPost.mock.calls[0];
+    expect(url).toBe(payload.url);
+    expect(JSON.parse(body)).toEqual(payload.body);
+    expect(options.headers.Authorization).toBe('Bearer token');
+    expect(options.headers['X-Delivery-Attempt']).toBe('2');
+
+    const lowerCased = Object.fromEntries(
+      Object.entries(options.headers).map(([key, value]) => [key.toLowerCase(), value as string])
+    );
+    expect(verifySignature('callback-secret', Buffer.from(body), lowerCased)).toBe(true);
+
+    expect(mockCreate).toHaveBeenCalledWith({
+      data: expect.objectContaining({ deliveryId: 'delivery-1', attempt: 2, success: true, statusCode: 200 }),
+    });
+  });
+
+  it('records and throws on non-2xx responses and network errors', async () => {
+    mockPost.mockResolvedValueOnce({ status: 503, data: 'unavailable' });
+    await expect(deliverCallbackJob(payload, context)).rejects.toThrow(CallbackError);
+
+    mockPost.mockRejectedValueOnce(new Error('connect ECONNREFUSED'));
+    await expect(deliverCallbackJob(payload, context)).rejects.toThrow('ECONNREFUSED');
+
+    expect(mockCreate.mock.calls.map(([args]) => args.data.success)).toEqual([false, false]);
+    expect(mockCreate.mock.calls[1][0].data.error).toContain('ECONNREFUSED');
+  });
+
+  it('refuses deliveries to private addresses or without a signing secret', async () => {
+    await expect(
+      deliverCallbackJob({ ...payload, url: 'http://169.254.169.254/latest/meta-data' }, context)
+    ).rejects.toThrow(ValidationError);
+
+    mockConfig.callbacks.signingSecret = undefined;
+    await expect(deliverCallbackJob(payload, context)).rejects.toThrow('CALLBACK_SIGNING_SECRET');
+
+    expect(mockPost).not.toHaveBeenCalled();
+    expect(mockCreate.mock.calls.map(([args]) => args.data.success)).toEqual([false, false]);
+  });
+
+  it('resolves callback hosts through a lookup that refuses private addresses', async () => {
+    mockPost.mockResolvedValue({ status: 200, data: 'ok' });
+    jest.spyOn(dns, 'lookup').mockImplementation(((_host: string, _options: any, callback: any) =>
+      callback(null, [{ address: '10.1.2.3', family: 4 }])) as any);
+
+    await deliverCallbackJob(payload, context);
+
+    const { lookup } = mockPost.mock.calls[0][2];
+    const result = await new Promise<{ error: Error | null; addresses: string[] }>((resolve) =>
+      lookup('example.com', {}, (error: Error | null, addresses: string[]) => resolve({ error, addresses }))
+    );
+    expect(result.error?.message).toContain('local or private address (10.1.2.3)');
+
+    await deliverCallbackJob({ ...payload, url: 'http://hooks.internal/done' }, context);
+    expect(mockPost.mock.calls[1][2].lookup).toBeUndefined();
+  });
+
+  describe('validateCallbackUrl', () => {
+    it('rejects local, link-local and private addresses', async () => {
+      for (const url of [
+        'http://127.0.0.1:3001/hooks',
+        'http://169.254.169.254/latest/meta-data',
+        'http://10.0.0.1/hooks',
+        'http://172.20.0.1/hooks',
+        'http://192.168.1.10/hooks',
+        'http://[::1]/hooks',
+        'http://[fd00::1]/hooks',
+        'http://[::ffff:127.0.0.1]/hooks',
+        'http://0x7f.1/hooks',
+      ]) {
+        await expect(validateCallbackUrl(url)).rejects.toThrow(ValidationError);
+      }
+    });
+
+    it('rejects hostnames that resolve to private addresses', async () => {
+      jest.spyOn(dns.promises, 'lookup').mockResolvedValue([
+        { address: '93.184.216.34', family: 4 },
+        { address: '192.168.0.7', family: 4 },
+      ] as any);
+
+      await expect(validateCallbackUrl('https://rebind.example.com/hooks')).rejects.toThrow('192.168.0.7');
+    });
+
+    it('accepts public and allow-listed hosts', async () => {
+      const lookup = jest.spyOn(dns.promises, 'lookup').mockResolvedValue([{ address: '93.184.216.34', family: 4 }] as any);
+
+      await expect(validateCallbackUrl('https://example.com/hooks')).resolves.toBeUndefined();
+      await expect(validateCallbackUrl('http://hooks.internal:8080/done')).resolves.toBeUndefined();
+      await expect(validateCallbackUrl('http://10.0.0.5/done')).resolves.toBeUndefined();
+      expect(lookup).toHaveBeenCalledTimes(1);
+    });
+
+    it('rejects callbacks when no signing secret is configured', async () => {
+      mockConfig.callbacks.signingSecret = undefined;
+
+      await expect(validateCallbackUrl('https://example.com/hooks')).rejects.toThrow('CALLBACK_SIGNING_SECRET');
+    });
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * Classifier Feedback Tests
+ *
+ * Tests for marking classifications as right or wrong and turning wrong
+ * outcomes into skill examples
+ */
+
+const mockGetLatestClassifierDecision = jest.fn();
+const mockGetSkillById = jest.fn();
+const mockGetSkillByName = jest.fn();
+const mockAddSkillExample = jest.fn();
+const mockSaveClassificationFeedback = jest.fn();
+
+jest.mock('../src/config/index', () => ({ config: { classifier: { maxExamples: 20 } } }));
+jest.mock('../src/database', () => ({
+  getLatestClassifierDecision: mockGetLatestClassifierDecision,
+  getSkillById: mockGetSkillById,
+  getSkillByName: mockGetSkillByName,
+}));
+jest.mock('../src/db/utils', () => ({
+  addSkillExample: mockAddSkillExample,
+  saveClassificationFeedback: mockSaveClassificationFeedback,
+}));
+
+import { recordClassificationFeedback } from '../src/classifier-feedback';
+import { NotFoundError } from '../src/utils/errors';
+
+describe('recordClassificationFeedback', () => {
+  const decision = {
+    id: 'decision-1',
+    executionId: 'req-1',
+    prompt: 'What shipped in acme/api last week?',
+    skillId: 'skill-standup',
+    skillName: 'Daily Standup',
+    confidence: 'medium',
+    action: 'skill',
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+
+    mockGetLatestClassifierDecision.mockResolvedValue(decision);
+    mockGetSkillById.mockResolvedValue(null);
+    mockGetSkillByName.mockResolvedValue({ id: 'skill-changelog', name: 'Changelog' });
+    mockAddSkillExample.mockResolvedValue(true);
+    mockSaveClassificationFeedback.mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should confirm a right classification without adding examples', async () => {
+    const result = await recordClassificationFeedback('req-1', { correct: true });
+
+    expect(result).toMatchObject({ feedback: 'correct', chosenSkill: 'Daily Standup', correctSkill: 'Daily Standup' });
+    expect(mockAddSkillExample).not.toHaveBeenCalled();
+    expect(mockSaveClassificationFeedback).toHaveBeenCalledWith('decision-1', {
+      feedback: 'correct',
+      correctSkillId: 'skill-standup',
+      correctSkillName: 'Daily Standup',
+    });
+  });
+
+  it('should turn a wrong match into a positive and a negative example', async () => {
+    const result = await recordClassificationFeedback('req-1', { correctSkill: 'changelog' });
+
+    expect(mockGetSkillByName).toHaveBeenCalledWith('changelog');
+    expect(mockAddSkillExample).toHaveBeenCalledWith('skill-changelog', 'examples', decision.prompt, 20);
+    expect(mockAddSkillExample).toHaveBeenCalledWith('skill-standup', 'negativeExamples', decision.prompt, 20);
+    expect(result).toMatchObject({
+      feedback: 'wrong',
+      correctSkill: 'Changelog',
+      examplesAdded: [
+        { skillId: 'skill-changelog', skillName: 'Changelog', kind: 'examples' },
+        { skillId: 'skill-standup', skillName: 'Daily Standup', kind: 'negativeExamples' },
+      ],
+    });
+  });
+
+  it('should treat a match that did not run as the default agent', async () => {
+    mockGetLatestClassifierDecision.mockResolvedValue({ ...decision, action: 'default', confidence: 'low' });
+    mockGetSkillById.mockResolvedValue({ id: 'skill-standup', name: 'Daily Standup' });
+
+    // The low-confidence match was right after all
+    const confirmed = await recordClassificationFeedback('req-1', { correctSkill: 'skill-standup' });
+
+    expect(confirmed).toMatchObject({ feedback: 'wrong', chosenSkill: null, correctSkill: 'Daily Standup' });
+    expect(mockAddSkillExample).toHaveBeenCalledTimes(1);
+    expect(mockAddSkillExample).toHaveBeenCalledWith('skill-standup', 'examples', decision.prompt, 20);
+
+    // Falling back was right
+    mockAddSkillExample.mockClear();
+    const fallback = await recordClassificationFeedback('req-1', { correctSkill: null });
+
+    expect(fallback.feedback).toBe('correct');
+    expect(mockAddSkillExample).not.toHaveBeenCalled();
+  });
+
+  it('should not record feedback for unclassified executions or unknown skills', async () => {
+    mockGetLatestClassifierDecision.mockResolvedValueOnce(null);
+    await expect(recordClassificationFeedback('req-404', { correct: true })).rejects.toThrow(
+      new NotFoundError("No classifier decision recorded for execution 'req-404'")
+    );
+
+    mockGetSkillByName.mockResolvedValueOnce(null);
+    await expect(recordClassificationFeedback('req-1', { correctSkill: 'Nope' })).rejects.toThrow(NotFoundError);
+
+    expect(mockSaveClassificationFeedback).not.toHaveBeenCalled();
+  });
+});
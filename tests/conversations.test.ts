@@ -0,0 +1,184 @@
+/**
+ * Conversation Tests
+ *
+ * Tests for opening conversation turns and summarizing earlier turns
+ */
+
+const mockGetConversationById = jest.fn();
+const mockGetConversationTurns = jest.fn();
+const mockGetExecutionById = jest.fn();
+const mockCreateConversation = jest.fn();
+const mockClaimConversationTurn = jest.fn();
+const mockReleaseConversationTurn = jest.fn();
+
+jest.mock('../src/database', () => ({
+  getConversationById: mockGetConversationById,
+  getConversationTurns: mockGetConversationTurns,
+  getExecutionById: mockGetExecutionById,
+}));
+jest.mock('../src/db/utils', () => ({
+  createConversation: mockCreateConversation,
+  updateConversation: jest.fn(),
+  deleteConversation: jest.fn(),
+  hasUnfinishedTurn: jest.fn(),
+  claimConversationTurn: mockClaimConversationTurn,
+  releaseConversationTurn: mockReleaseConversationTurn,
+  isPrismaError: (error: any) => typeof error?.code === 'string',
+  PrismaErrorCodes: { UNIQUE_CONSTRAINT: 'P2002' },
+}));
+
+import {
+  finishConversationTurn,
+  getConversationContext,
+  openConversation,
+  summarizeTurns,
+} from '../src/conversations';
+import { ConflictError } from '../src/utils/errors';
+
+describe('openConversation', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockCreateConversation.mockImplementation(async (data) => ({ ...data, sessionId: null }));
+    mockClaimConversationTurn.mockResolvedValue(true);
+  });
+
+  const conversation = (activeTurnId: string | null, updatedAt = new Date()) => ({
+    id: 'conv-1',
+    sessionId: 'session-1',
+    activeTurnId,
+    updatedAt,
+  });
+
+  it('should create the conversation on its first turn, titled after the prompt', async () => {
+    mockGetConversationById.mockResolvedValue(null);
+
+    await openConversation('conv-1', 'Summarize the open issues in acme/api\nGroup them by label', 'req-1');
+
+    expect(mockCreateConversation).toHaveBeenCalledWith({
+      id: 'conv-1',
+      title: 'Summarize the open issues in acme/api',
+      workingDirectory: '/tmp/conversation-conv-1',
+      activeTurnId: 'req-1',
+    });
+  });
+
+  it('should claim a conversation that no turn holds', async () => {
+    mockGetConversationById.mockResolvedValue(conversation(null));
+
+    await openConversation('conv-1', 'And the closed ones?', 'req-2');
+
+    expect(mockClaimConversationTurn).toHaveBeenCalledWith('conv-1', 'req-2', null);
+  });
+
+  it('should reject a turn while the previous one has not finished', async () => {
+    mockGetConversationById.mockResolvedValue(conversation('req-1'));
+    mockGetExecutionById.mockResolvedValue({ id: 'req-1', status: 'awaiting_approval' });
+
+    await expect(openConversation('conv-1', 'And the closed ones?', 'req-2')).rejects.toThrow(ConflictError);
+    expect(mockClaimConversationTurn).not.toHaveBeenCalled();
+    expect(mockCreateConversation).not.toHaveBeenCalled();
+  });
+
+  it('should reject a turn that lost the race to claim the conversation', async () => {
+    mockGetConversationById.mockResolvedValue(conversation(null));
+    mockClaimConversationTurn.mockResolvedValue(false);
+
+    await expect(openConversation('conv-1', 'And the closed ones?', 'req-2')).rejects.toThrow(ConflictError);
+  });
+
+  it('should take over from a turn that finished without releasing the conversation', async () => {
+    mockGetConversationById.mockResolvedValue(conversation('req-1'));
+    mockGetExecutionById.mockResolvedValue({ id: 'req-1', status: 'cancelled' });
+
+    await openConversation('conv-1', 'And the closed ones?', 'req-2');
+
+    expect(mockClaimConversationTurn).toHaveBeenCalledWith('conv-1', 'req-2', 'req-1');
+  });
+
+  it('should wait for a claiming turn to record its execution before taking over', async () => {
+    mockGetConversationById.mockResolvedValueOnce(conversation('req-1'));
+    mockGetExecutionById.mockResolvedValue(null);
+
+    await expect(openConversation('conv-1', 'And the closed ones?', 'req-2')).rejects.toThrow(ConflictError);
+
+    mockGetConversationById.mockResolvedValueOnce(conversation('req-1', new Date(Date.now() - 120_000)));
+    await openConversation('conv-1', 'And the closed ones?', 'req-2');
+
+    expect(mockClaimConversationTurn).toHaveBeenCalledWith('conv-1', 'req-2', 'req-1');
+  });
+
+  it('should reject a first turn that lost the race to create the conversation', async () => {
+    mockGetConversationById.mockResolvedValue(null);
+    mockCreateConversation.mockRejectedValue({ code: 'P2002' });
+
+    await expect(openConversation('conv-1', 'Hello', 'req-1')).rejects.toThrow(ConflictError);
+  });
+});
+
+describe('finishConversationTurn', () => {
+  it('should store the session and release the conversation', async () => {
+    await finishConversationTurn('conv-1', 'req-1', 'session-2');
+
+    expect(mockReleaseConversationTurn).toHaveBeenCalledWith('conv-1', 'req-1', 'session-2');
+  });
+});
+
+describe('summarizeTurns', () => {
+  const turn = (id: string, prompt: string, output: string | null, status = 'completed') => ({
+    id,
+    status,
+    input: { prompt, mode: 'default' },
+    output,
+  });
+
+  it('should list completed turns as user and assistant messages', () => {
+    expect(
+      summarizeTurns([
+        turn('req-1', 'How many open issues?', '12 open issues.'),
+        turn('req-2', 'Which are bugs?', null, 'failed'),
+        turn('req-3', 'Which are labeled bug?', '4 of them.'),
+      ])
+    ).toBe(
+      [
+        'Earlier in this conversation:',
+        'User: How many open issues?\nAssistant: 12 open issues.',
+        'User: Which are labeled bug?\nAssistant: 4 of them.',
+      ].join('\n\n')
+    );
+  });
+
+  it('should keep the most recent turns and clip long text', () => {
+    const turns = Array.from({ length: 12 }, (_, i) => turn(`req-${i}`, `Question ${i}`, 'x'.repeat(2000)));
+    const summary = summarizeTurns(turns);
+
+    expect(summary.startsWith('Earlier in this conversation (2 older turns omitted):')).toBe(true);
+    expect(summary).not.toContain('Question 1\n');
+    expect(summary).toContain('Question 11');
+    expect(summary).toContain(`${'x'.repeat(1500)} [...]`);
+  });
+
+  it('should be empty without completed turns', () => {
+    expect(summarizeTurns([])).toBe('');
+  });
+});
+
+describe('getConversationContext', () => {
+  it('should leave the current turn out of the summary', async () => {
+    mockGetConversationById.mockResolvedValue({
+      id: 'conv-1',
+      workingDirectory: '/tmp/conversation-conv-1',
+      sessionId: null,
+    });
+    mockGetConversationTurns.mockResolvedValue([
+      { id: 'req-1', status: 'completed', input: { prompt: 'Hi' }, output: 'Hello!' },
+      { id: 'req-2', status: 'running', input: { prompt: 'And now?' }, output: null },
+    ]);
+
+    expect(await getConversationContext('conv-1', 'req-2')).toEqual({
+      id: 'conv-1',
+      workingDirectory: '/tmp/conversation-conv-1',
+      sessionId: null,
+      summary: 'Earlier in this conversation:\n\nUser: Hi\nAssistant: Hello!',
+    });
+  });
+});
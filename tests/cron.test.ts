@@ -0,0 +1,93 @@
+/**
+ * Cron Expression Parser Tests
+ *
+ * Tests for cron parsing and timezone-aware fire time calculation
+ */
+
+import { parseCron, getNextFireTime, CronParseError } from '../src/services/scheduler/cron';
+
+describe('Cron Expression Parser', () => {
+  describe('parseCron', () => {
+    it('parses lists, ranges and steps', () => {
+      const schedule = parseCron('0,30 9-11 */10 * MON-FRI');
+
+      expect([...schedule.minutes]).toEqual([0, 30]);
+      expect([...schedule.hours]).toEqual([9, 10, 11]);
+      expect([...schedule.daysOfMonth]).toEqual([1, 11, 21, 31]);
+      expect([...schedule.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+      expect(schedule.months.size).toBe(12);
+    });
+
+    it('expands macros and treats 7 as Sunday', () => {
+      expect(parseCron('@daily').minutes).toEqual(new Set([0]));
+      expect(parseCron('0 0 * * 7').daysOfWeek).toEqual(new Set([0]));
+    });
+
+    it('rejects invalid expressions and timezones', () => {
+      expect(() => parseCron('0 9 * *')).toThrow(CronParseError);
+      expect(() => parseCron('60 9 * * *')).toThrow(CronParseError);
+      expect(() => parseCron('*/0 * * * *')).toThrow(CronParseError);
+      expect(() => parseCron('0 9 * * *', 'Mars/Olympus')).toThrow(CronParseError);
+    });
+  });
+
+  describe('getNextFireTime', () => {
+    it('finds the next fire time in UTC', () => {
+      const schedule = parseCron('0 9 * * *');
+
+      expect(getNextFireTime(schedule, new Date('2025-01-15T08:59:00Z'))?.toISOString())
+        .toBe('2025-01-15T09:00:00.000Z');
+      expect(getNextFireTime(schedule, new Date('2025-01-15T09:00:00Z'))?.toISOString())
+        .toBe('2025-01-16T09:00:00.000Z');
+    });
+
+    it('evaluates the expression in the configured timezone', () => {
+      const schedule = parseCron('0 9 * * *', 'America/New_York');
+
+      // Winter (EST, UTC-5) and summer (EDT, UTC-4)
+      expect(getNextFireTime(schedule, new Date('2025-01-15T00:00:00Z'))?.toISOString())
+        .toBe('2025-01-15T14:00:00.000Z');
+      expect(getNextFireTime(schedule, new Date('2025-07-15T00:00:00Z'))?.toISOString())
+        .toBe('2025-07-15T13:00:00.000Z');
+    });
+
+    it('handles daylight saving transitions', () => {
+      const schedule = parseCron('30 2 * * *', 'Europe/Berlin');
+
+      // 02:30 does not exist on 2025-03-30 in Berlin - runs at the shifted instant
+      expect(getNextFireTime(schedule, new Date('2025-03-29T12:00:00Z'))?.toISOString())
+        .toBe('2025-03-30T01:30:00.000Z');
+      // 02:30 happens twice on 2025-10-26 - runs only once
+      const first = getNextFireTime(schedule, new Date('2025-10-25T12:00:00Z'))!;
+      const next = getNextFireTime(schedule, first)!;
+      expect(next.toISOString()).toBe('2025-10-27T01:30:00.000Z');
+    });
+
+    it('matches either day field when both are restricted', () => {
+      // 1st of the month OR any Monday
+      const schedule = parseCron('0 0 1 * MON');
+
+      expect(getNextFireTime(schedule, new Date('2025-01-01T12:00:00Z'))?.toISOString())
+        .toBe('2025-01-06T00:00:00.000Z');
+    });
+
+    it('treats day fields that cover every day like *', () => {
+      // Mondays, like '0 9 * * 1' (2025-01-07 is a Tuesday)
+      for (const expression of ['0 9 */1 * 1', '0 9 1-31 * MON']) {
+        expect(getNextFireTime(parseCron(expression), new Date('2025-01-07T00:00:00Z'))?.toISOString())
+          .toBe('2025-01-13T09:00:00.000Z');
+      }
+
+      // The 1st of the month, like '0 9 1 * *'
+      expect(getNextFireTime(parseCron('0 9 1 * 0-6'), new Date('2025-01-07T00:00:00Z'))?.toISOString())
+        .toBe('2025-02-01T09:00:00.000Z');
+    });
+
+    it('finds rare schedules such as leap days', () => {
+      const schedule = parseCron('0 0 29 2 *');
+
+      expect(getNextFireTime(schedule, new Date('2025-01-01T00:00:00Z'))?.toISOString())
+        .toBe('2028-02-29T00:00:00.000Z');
+    });
+  });
+});
@@ -16,10 +16,16 @@ const mockPrismaInstance = {
   skill: {
     findFirst: jest.fn(),
     update: jest.fn(),
+    updateMany: jest.fn(),
   },
   execution: {
     create: jest.fn(),
+    findUnique: jest.fn(),
     update: jest.fn(),
+    updateMany: jest.fn(),
+  },
+  conversation: {
+    updateMany: jest.fn(),
   },
 };
 
@@ -231,13 +237,104 @@ describe('Async Agent Database Utilities', () => {
     });
   });
 
-  describe('completeSkillExecution', () => {
-    test('updates execution with completion data', async () => {
+  describe('createSkillExecution without skill', () => {
+    test('records one-off runs without touching skill metadata', async () => {
+      mockPrismaInstance.$transaction.mockImplementation(async (callback: any) => {
+        return callback(mockPrismaInstance);
+      });
+      mockPrismaInstance.execution.create.mockResolvedValue({
+        id: 'req-123',
+        skillId: null,
+        status: 'running',
+      });
+
+      const { createSkillExecution } = require('../src/db/utils');
+      const result = await createSkillExecution(null, {
+        id: 'req-123',
+        trigger: 'webhook',
+        input: { prompt: 'hello' },
+      });
+
+      expect(result.id).toBe('req-123');
+      expect(mockPrismaInstance.execution.create).toHaveBeenCalledWith({
+        data: {
+          id: 'req-123',
+          skillId: null,
+          status: 'running',
+          trigger: 'webhook',
+          input: { prompt: 'hello' },
+        },
+      });
+      expect(mockPrismaInstance.skill.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('linkExecutionToSkill', () => {
+    test('links execution and updates skill atomically', async () => {
+      mockPrismaInstance.$transaction.mockImplementation(async (callback: any) => {
+        return callback(mockPrismaInstance);
+      });
       mockPrismaInstance.execution.update.mockResolvedValue({
-        id: 'exec-1',
-        status: 'completed',
+        id: 'req-123',
+        skillId: 'skill-1',
+      });
+
+      const { linkExecutionToSkill } = require('../src/db/utils');
+      const result = await linkExecutionToSkill('req-123', 'skill-1');
+
+      expect(result.skillId).toBe('skill-1');
+      expect(mockPrismaInstance.execution.update).toHaveBeenCalledWith({
+        where: { id: 'req-123' },
+        data: { skillId: 'skill-1' },
+      });
+      expect(mockPrismaInstance.skill.update).toHaveBeenCalledWith({
+        where: { id: 'skill-1' },
+        data: {
+          runCount: { increment: 1 },
+          lastRunAt: expect.any(Date),
+        },
+      });
+    });
+  });
+
+  describe('saveExecutionInputs', () => {
+    test('merges the inputs into the execution input', async () => {
+      mockPrismaInstance.$transaction.mockImplementation(async (callback: any) => {
+        return callback(mockPrismaInstance);
+      });
+      mockPrismaInstance.execution.findUnique.mockResolvedValue({
+        input: { prompt: 'Write the changelog', inputs: { repo: 'acme/api' } },
       });
 
+      const { saveExecutionInputs } = require('../src/db/utils');
+      const result = await saveExecutionInputs('req-123', { repo: 'acme/api', since: '2025-01-06' });
+
+      expect(result).toBe(true);
+      expect(mockPrismaInstance.execution.update).toHaveBeenCalledWith({
+        where: { id: 'req-123' },
+        data: {
+          input: { prompt: 'Write the changelog', inputs: { repo: 'acme/api', since: '2025-01-06' } },
+        },
+      });
+    });
+
+    test('returns false for unknown executions', async () => {
+      mockPrismaInstance.$transaction.mockImplementation(async (callback: any) => {
+        return callback(mockPrismaInstance);
+      });
+      mockPrismaInstance.execution.findUnique.mockResolvedValue(null);
+
+      const { saveExecutionInputs } = require('../src/db/utils');
+
+      expect(await saveExecutionInputs('missing', { repo: 'acme/api' })).toBe(false);
+      expect(mockPrismaInstance.execution.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('completeSkillExecution', () => {
+    test('updates execution with completion data', async () => {
+      mockPrismaInstance.execution.updateMany.mockResolvedValue({ count: 1 });
+
       const { completeSkillExecution } = require('../src/db/utils');
       const result = await completeSkillExecution('exec-1', {
         status: 'completed',
@@ -248,9 +345,9 @@ describe('Async Agent Database Utilities', () => {
         costUsd: 0.01,
       });
 
-      expect(result.status).toBe('completed');
-      expect(mockPrismaInstance.execution.update).toHaveBeenCalledWith({
-        where: { id: 'exec-1' },
+      expect(result).toBe(true);
+      expect(mockPrismaInstance.execution.updateMany).toHaveBeenCalledWith({
+        where: { id: 'exec-1', status: { in: ['queued', 'running', 'awaiting_approval'] } },
         data: {
           status: 'completed',
           output: 'Success',
@@ -265,10 +362,7 @@ describe('Async Agent Database Utilities', () => {
     });
 
     test('updates execution with failure data', async () => {
-      mockPrismaInstance.execution.update.mockResolvedValue({
-        id: 'exec-1',
-        status: 'failed',
-      });
+      mockPrismaInstance.execution.updateMany.mockResolvedValue({ count: 1 });
 
       const { completeSkillExecution } = require('../src/db/utils');
       await completeSkillExecution('exec-1', {
@@ -277,13 +371,98 @@ describe('Async Agent Database Utilities', () => {
         durationMs: 5000,
       });
 
-      expect(mockPrismaInstance.execution.update).toHaveBeenCalledWith({
-        where: { id: 'exec-1' },
+      expect(mockPrismaInstance.execution.updateMany).toHaveBeenCalledWith({
+        where: { id: 'exec-1', status: { in: ['queued', 'running', 'awaiting_approval'] } },
         data: expect.objectContaining({
           status: 'failed',
           error: 'Connection timeout',
         }),
       });
     });
+
+    test('leaves executions that already finished alone', async () => {
+      mockPrismaInstance.execution.updateMany.mockResolvedValue({ count: 0 });
+
+      const { completeSkillExecution } = require('../src/db/utils');
+      const result = await completeSkillExecution('exec-1', { status: 'completed', durationMs: 100 });
+
+      expect(result).toBe(false);
+    });
+  });
+
+  describe('claimScheduledRun', () => {
+    test('claims later fire times, and catch-up runs only if no instance ran one since', async () => {
+      mockPrismaInstance.skill.updateMany.mockResolvedValue({ count: 1 });
+      const scheduledFor = new Date('2025-01-15T09:00:00Z');
+      const previous = new Date('2025-01-14T09:00:00Z');
+
+      const { claimScheduledRun } = require('../src/db/utils');
+
+      expect(await claimScheduledRun('skill-1', scheduledFor)).toBe(true);
+      expect(mockPrismaInstance.skill.updateMany).toHaveBeenCalledWith({
+        where: {
+          id: 'skill-1',
+          OR: [{ lastScheduledFor: null }, { lastScheduledFor: { lt: scheduledFor } }],
+        },
+        data: { lastScheduledFor: scheduledFor },
+      });
+
+      mockPrismaInstance.skill.updateMany.mockResolvedValue({ count: 0 });
+      expect(await claimScheduledRun('skill-1', scheduledFor, previous)).toBe(false);
+      expect(mockPrismaInstance.skill.updateMany).toHaveBeenLastCalledWith({
+        where: { id: 'skill-1', lastScheduledFor: previous },
+        data: { lastScheduledFor: scheduledFor },
+      });
+    });
+  });
+
+  describe('claimConversationTurn', () => {
+    test('claims the conversation only from the turn that was seen holding it', async () => {
+      mockPrismaInstance.conversation.updateMany.mockResolvedValueOnce({ count: 1 }).mockResolvedValueOnce({ count: 0 });
+
+      const { claimConversationTurn } = require('../src/db/utils');
+
+      expect(await claimConversationTurn('conv-1', 'req-2', 'req-1')).toBe(true);
+      expect(await claimConversationTurn('conv-1', 'req-3', 'req-1')).toBe(false);
+      expect(mockPrismaInstance.conversation.updateMany).toHaveBeenCalledWith({
+        where: { id: 'conv-1', activeTurnId: 'req-1' },
+        data: { activeTurnId: 'req-2' },
+      });
+    });
+  });
+
+  describe('releaseConversationTurn', () => {
+    test('releases the conversation held by the turn, storing the session', async () => {
+      mockPrismaInstance.conversation.updateMany.mockResolvedValue({ count: 1 });
+
+      const { releaseConversationTurn } = require('../src/db/utils');
+
+      expect(await releaseConversationTurn('conv-1', 'req-1', null)).toBe(true);
+      expect(mockPrismaInstance.conversation.updateMany).toHaveBeenCalledWith({
+        where: { id: 'conv-1', activeTurnId: 'req-1' },
+        data: { activeTurnId: null, sessionId: null },
+      });
+
+      await releaseConversationTurn('conv-1', 'req-1');
+      expect(mockPrismaInstance.conversation.updateMany).toHaveBeenLastCalledWith({
+        where: { id: 'conv-1', activeTurnId: 'req-1' },
+        data: { activeTurnId: null },
+      });
+    });
+  });
+
+  describe('markExecutionRunning', () => {
+    test('only restarts unfinished executions', async () => {
+      mockPrismaInstance.execution.updateMany.mockResolvedValue({ count: 0 });
+
+      const { markExecutionRunning } = require('../src/db/utils');
+      const result = await markExecutionRunning('exec-1');
+
+      expect(result).toBe(false);
+      expect(mockPrismaInstance.execution.updateMany).toHaveBeenCalledWith({
+        where: { id: 'exec-1', status: { in: ['queued', 'running'] } },
+        data: expect.objectContaining({ status: 'running' }),
+      });
+    });
   });
 });
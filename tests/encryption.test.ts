@@ -0,0 +1,89 @@
+/**
+ * Encryption Service Tests
+ *
+ * Tests for AES-256-GCM encryption of stored secrets and key rotation
+ */
+
+jest.mock('../src/config/index', () => ({
+  config: { encryption: { secret: undefined, previousSecrets: [] } },
+}));
+
+import { EncryptionService } from '../src/services/encryption/encryption';
+import { EncryptionError } from '../src/utils/errors';
+
+describe('Encryption Service', () => {
+  const service = new EncryptionService('current-secret');
+
+  it('round-trips values without storing plaintext', () => {
+    const encrypted = service.encrypt('sk-ant-secret');
+
+    expect(encrypted).toMatch(/^encrypted:[0-9a-f]{8}:/);
+    expect(encrypted).not.toContain('sk-ant-secret');
+    expect(service.encrypt('sk-ant-secret')).not.toBe(encrypted); // random IV
+    expect(service.decrypt(encrypted)).toBe('sk-ant-secret');
+  });
+
+  it('passes through plain: and legacy plaintext values', () => {
+    expect(service.decrypt('plain:public-key')).toBe('public-key');
+    expect(service.decrypt('legacy-token')).toBe('legacy-token');
+    expect(service.needsEncryption('plain:public-key')).toBe(false);
+    expect(service.needsEncryption('legacy-token')).toBe(true);
+  });
+
+  it('rejects tampered ciphertext and unknown keys', () => {
+    const encrypted = service.encrypt('secret');
+    const tampered = encrypted.slice(0, -4) + (encrypted.endsWith('AAAA') ? 'BBBB' : 'AAAA');
+
+    expect(() => service.decrypt(tampered)).toThrow(EncryptionError);
+    expect(() => new EncryptionService('other-secret').decrypt(encrypted)).toThrow(EncryptionError);
+  });
+
+  it('decrypts with previous keys and re-encrypts with the current key', () => {
+    const oldValue = new EncryptionService('old-secret').encrypt('token');
+    const rotated = new EncryptionService('current-secret', ['old-secret']);
+
+    expect(rotated.decrypt(oldValue)).toBe('token');
+    expect(rotated.needsEncryption(oldValue)).toBe(true);
+
+    const reEncrypted = rotated.encryptValue(oldValue);
+    expect(service.decrypt(reEncrypted)).toBe('token');
+    expect(rotated.needsEncryption(reEncrypted)).toBe(false);
+  });
+
+  it('encrypts only credential fields of connection configs', () => {
+    const config = {
+      command: 'npx',
+      args: ['-y', 'server'],
+      env: { API_KEY: 'secret', REGION: 'plain:eu' },
+      headers: { Authorization: 'Bearer token' },
+    };
+
+    const encrypted = service.encryptConnectionConfig(config);
+
+    expect(encrypted.command).toBe('npx');
+    expect(encrypted.args).toEqual(['-y', 'server']);
+    expect(encrypted.env.API_KEY).toMatch(/^encrypted:/);
+    expect(encrypted.env.REGION).toBe('plain:eu');
+    expect(service.connectionConfigNeedsEncryption(encrypted)).toBe(false);
+    expect(service.decryptConnectionConfig(encrypted)).toEqual({
+      ...config,
+      env: { API_KEY: 'secret', REGION: 'eu' },
+    });
+  });
+
+  it('seals JSON values and restores them', () => {
+    const sealed = service.seal({ github: { command: 'npx', env: { TOKEN: 'secret' } } });
+
+    expect(sealed).toMatch(/^encrypted:/);
+    expect(service.unseal(sealed)).toEqual({ github: { command: 'npx', env: { TOKEN: 'secret' } } });
+    expect(new EncryptionService(undefined).seal({ a: 1 })).toBe('{"a":1}');
+  });
+
+  it('refuses to encrypt without a key', () => {
+    const disabled = new EncryptionService(undefined);
+
+    expect(disabled.isEnabled()).toBe(false);
+    expect(disabled.needsEncryption('legacy-token')).toBe(false);
+    expect(() => disabled.encrypt('secret')).toThrow(EncryptionError);
+  });
+});
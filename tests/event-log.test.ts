@@ -0,0 +1,139 @@
+/**
+ * Execution Event Log Tests
+ *
+ * Tests for replayable per-execution SSE event logs
+ */
+
+jest.mock('../src/config/index', () => ({
+  config: {
+    stream: { heartbeatIntervalMs: 15000, bufferSize: 3, retentionMs: 60000 },
+  },
+}));
+
+import { ExecutionEventLog, ExecutionEvent, EventSubscriber } from '../src/services/streaming/event-log';
+
+function createSubscriber(): EventSubscriber & { events: ExecutionEvent[]; ended: boolean } {
+  const subscriber = {
+    events: [] as ExecutionEvent[],
+    ended: false,
+    send: (event: ExecutionEvent) => subscriber.events.push(event),
+    end: () => {
+      subscriber.ended = true;
+    },
+  };
+  return subscriber;
+}
+
+describe('ExecutionEventLog', () => {
+  let eventLog: ExecutionEventLog;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    eventLog = new ExecutionEventLog();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should assign increasing IDs per execution', () => {
+    expect(eventLog.append('req-1', { type: 'step' }).id).toBe(1);
+    expect(eventLog.append('req-1', { type: 'step' }).id).toBe(2);
+    expect(eventLog.append('req-2', { type: 'step' }).id).toBe(1);
+  });
+
+  it('should deliver events to every subscriber', () => {
+    const first = createSubscriber();
+    const second = createSubscriber();
+
+    eventLog.subscribe('req-1', 0, first);
+    eventLog.subscribe('req-1', 0, second);
+    eventLog.append('req-1', { type: 'commentary', message: 'Working' });
+
+    expect(first.events).toHaveLength(1);
+    expect(second.events).toHaveLength(1);
+    expect(eventLog.getSubscriberCount('req-1')).toBe(2);
+  });
+
+  it('should replay buffered events to late joiners', () => {
+    eventLog.append('req-1', { type: 'workflow' });
+    eventLog.append('req-1', { type: 'step' });
+
+    const subscriber = createSubscriber();
+    eventLog.subscribe('req-1', 0, subscriber);
+
+    expect(subscriber.events.map((event) => event.data.type)).toEqual(['workflow', 'step']);
+  });
+
+  it('should replay only events after Last-Event-ID', () => {
+    eventLog.append('req-1', { n: 1 });
+    eventLog.append('req-1', { n: 2 });
+    eventLog.append('req-1', { n: 3 });
+
+    const subscriber = createSubscriber();
+    eventLog.subscribe('req-1', 2, subscriber);
+
+    expect(subscriber.events.map((event) => event.id)).toEqual([3]);
+  });
+
+  it('should keep at most bufferSize events', () => {
+    for (let n = 1; n <= 5; n++) {
+      eventLog.append('req-1', { n });
+    }
+
+    const subscriber = createSubscriber();
+    eventLog.subscribe('req-1', 0, subscriber);
+
+    expect(subscriber.events.map((event) => event.id)).toEqual([3, 4, 5]);
+  });
+
+  it('should end subscribers when the run finishes', () => {
+    const subscriber = createSubscriber();
+    eventLog.subscribe('req-1', 0, subscriber);
+
+    eventLog.append('req-1', { type: 'complete' });
+    eventLog.finish('req-1');
+
+    expect(subscriber.ended).toBe(true);
+    expect(eventLog.getSubscriberCount('req-1')).toBe(0);
+  });
+
+  it('should replay and end late joiners of a finished run', () => {
+    eventLog.append('req-1', { type: 'complete' });
+    eventLog.finish('req-1');
+
+    const subscriber = createSubscriber();
+    eventLog.subscribe('req-1', 0, subscriber);
+
+    expect(subscriber.events).toHaveLength(1);
+    expect(subscriber.ended).toBe(true);
+  });
+
+  it('should drop finished logs after the retention period', () => {
+    eventLog.append('req-1', { type: 'complete' });
+    eventLog.finish('req-1');
+
+    jest.advanceTimersByTime(60000);
+
+    expect(eventLog.hasEvents('req-1')).toBe(false);
+  });
+
+  it('should reopen a finished log when the run continues', () => {
+    eventLog.append('req-1', { type: 'complete' });
+    eventLog.finish('req-1');
+
+    expect(eventLog.append('req-1', { type: 'step' }).id).toBe(2);
+
+    jest.advanceTimersByTime(60000);
+    expect(eventLog.hasEvents('req-1')).toBe(true);
+  });
+
+  it('should drop logs that only had subscribers once they leave', () => {
+    const unsubscribe = eventLog.subscribe('req-1', 0, createSubscriber());
+
+    unsubscribe();
+
+    expect(eventLog.getSubscriberCount('req-1')).toBe(0);
+    expect(eventLog.hasEvents('req-1')).toBe(false);
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * Execution Approvals Tests
+ *
+ * Tests for the approval registry and steps with requiresApproval
+ */
+
+const mockConfig = {
+  agent: { model: 'claude-test' },
+  workflow: { maxParallelSteps: 2, maxForEachItems: 20, outputRetries: 0, maxStepAttempts: 3 },
+  approvals: { timeoutMs: 60000, onTimeout: 'reject' },
+};
+
+const mockExecuteWorkflowAgent = jest.fn();
+const mockGetExecutionById = jest.fn();
+const mockMarkExecutionAwaitingApproval = jest.fn();
+const mockMarkExecutionApprovalDecided = jest.fn();
+
+jest.mock('../src/config/index', () => ({ config: mockConfig }));
+jest.mock('../src/workflow-agent', () => ({ executeWorkflowAgent: mockExecuteWorkflowAgent }));
+jest.mock('../src/routes/stream', () => ({ sendStepUpdate: jest.fn(), sendStreamUpdate: jest.fn() }));
+jest.mock('../src/database', () => ({ getExecutionById: mockGetExecutionById }));
+jest.mock('../src/db/utils', () => ({
+  markExecutionAwaitingApproval: mockMarkExecutionAwaitingApproval,
+  markExecutionApprovalDecided: mockMarkExecutionApprovalDecided,
+}));
+
+import {
+  decideApproval,
+  getPendingApprovals,
+  requestApproval,
+} from '../src/execution-approvals';
+import { executeWorkflowOrchestrator } from '../src/workflow-orchestrator';
+import { registerExecution, unregisterExecution } from '../src/execution-cancellation';
+import { sendStepUpdate, sendStreamUpdate } from '../src/routes/stream';
+import { ConflictError, NotFoundError, ValidationError } from '../src/utils/errors';
+import type { Workflow } from '../src/types';
+
+/** Wait until a step of the execution waits for approval */
+async function waitForApproval(executionId: string, stepId: number): Promise<void> {
+  for (let i = 0; i < 100; i++) {
+    if (getPendingApprovals(executionId).some((approval) => approval.stepId === stepId)) return;
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+  throw new Error(`Step ${stepId} of ${executionId} never waited for approval`);
+}
+
+describe('Execution Approvals', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    mockConfig.approvals = { timeoutMs: 60000, onTimeout: 'reject' };
+    mockMarkExecutionAwaitingApproval.mockResolvedValue(true);
+    mockMarkExecutionApprovalDecided.mockResolvedValue(true);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('registry', () => {
+    it('should wait for a decision and report it', async () => {
+      const decision = requestApproval({ executionId: 'req-1', stepId: 2, title: 'Email', prompt: 'Email the team' });
+      await waitForApproval('req-1', 2);
+
+      expect(mockMarkExecutionAwaitingApproval).toHaveBeenCalledWith('req-1');
+      expect(sendStreamUpdate).toHaveBeenCalledWith(
+        'req-1',
+        expect.objectContaining({
+          type: 'approval_required',
+          approval: expect.objectContaining({ stepId: 2, prompt: 'Email the team', expiresAt: expect.any(String) }),
+        })
+      );
+
+      const approval = await decideApproval('req-1', undefined, { status: 'approved', prompt: 'Email finance' });
+
+      expect(approval.stepId).toBe(2);
+      await expect(decision).resolves.toEqual({ status: 'approved', prompt: 'Email finance' });
+      expect(mockMarkExecutionApprovalDecided).toHaveBeenCalledWith('req-1');
+      expect(getPendingApprovals('req-1')).toEqual([]);
+    });
+
+    it('should need a stepId while several steps are waiting', async () => {
+      const controller = registerExecution('req-2');
+      const first = requestApproval({ executionId: 'req-2', stepId: 2, title: 'Email', prompt: 'Email' });
+      const second = requestApproval({ executionId: 'req-2', stepId: 3, title: 'Post', prompt: 'Post' });
+      await waitForApproval('req-2', 3);
+
+      await expect(decideApproval('req-2', undefined, { status: 'rejected' })).rejects.toThrow(ValidationError);
+
+      await decideApproval('req-2', 3, { status: 'rejected', reason: 'Not now' });
+      await expect(second).resolves.toEqual({ status: 'rejected', reason: 'Not now' });
+
+      // Still waiting for step 2
+      expect(mockMarkExecutionApprovalDecided).not.toHaveBeenCalled();
+
+      // Cancelling the execution ends the wait
+      controller.abort();
+      await expect(first).resolves.toEqual({ status: 'cancelled' });
+      unregisterExecution('req-2', controller);
+    });
+
+    it('should reject decisions for executions that are not waiting', async () => {
+      mockGetExecutionById.mockResolvedValueOnce(null);
+      await expect(decideApproval('req-404', undefined, { status: 'approved' })).rejects.toThrow(NotFoundError);
+
+      mockGetExecutionById.mockResolvedValueOnce({ id: 'req-done', status: 'completed' });
+      await expect(decideApproval('req-done', undefined, { status: 'approved' })).rejects.toThrow(ConflictError);
+    });
+
+    it('should expire stale approvals', async () => {
+      mockConfig.approvals.timeoutMs = 10;
+
+      await expect(
+        requestApproval({ executionId: 'req-3', stepId: 1, title: 'Email', prompt: 'Email' })
+      ).resolves.toEqual({ status: 'expired' });
+      expect(sendStreamUpdate).toHaveBeenCalledWith('req-3', { type: 'approval_resolved', stepId: 1, status: 'expired' });
+    });
+  });
+
+  describe('executeWorkflowOrchestrator with requiresApproval', () => {
+    const workflow: Workflow = {
+      id: 'skill-1',
+      name: 'Weekly update',
+      description: 'Draft and send the weekly update',
+      steps: [
+        { id: 1, prompt: 'Draft the update' },
+        { id: 2, prompt: 'Email the draft to the team', requiresApproval: true },
+        { id: 3, prompt: 'Post a note to Slack' },
+      ],
+    } as Workflow;
+
+    beforeEach(() => {
+      mockExecuteWorkflowAgent.mockImplementation(async ({ step }) => ({
+        text: `Result ${step.id}`,
+        workingDirectory: '/tmp',
+        sessionId: `session-${step.id}`,
+        trace: [{ type: 'result', duration_ms: 10, total_cost_usd: 0.01, num_turns: 1 }],
+      }));
+    });
+
+    const stepIds = () => mockExecuteWorkflowAgent.mock.calls.map(([options]) => options.step.id);
+
+    it('should run the approved step with the edited prompt', async () => {
+      const run = executeWorkflowOrchestrator(workflow, 'Send the update', 'req-approve', undefined, undefined, {
+        requestApproval,
+      });
+      await waitForApproval('req-approve', 2);
+
+      expect(stepIds()).toEqual([1]);
+      expect(sendStepUpdate).toHaveBeenCalledWith(
+        'req-approve',
+        expect.objectContaining({ id: 2, status: 'awaiting_approval' })
+      );
+
+      await decideApproval('req-approve', 2, { status: 'approved', prompt: 'Email the draft to finance' });
+      await run;
+
+      expect(mockExecuteWorkflowAgent.mock.calls[1][0].step).toMatchObject({
+        id: 2,
+        prompt: 'Email the draft to finance',
+      });
+      expect(stepIds()).toEqual([1, 2, 3, 4]);
+    });
+
+    it('should skip a rejected step', async () => {
+      const run = executeWorkflowOrchestrator(workflow, 'Send the update', 'req-reject', undefined, undefined, {
+        requestApproval,
+      });
+      await waitForApproval('req-reject', 2);
+
+      await decideApproval('req-reject', 2, { status: 'rejected', reason: 'Wrong recipients' });
+      await run;
+
+      expect(stepIds()).toEqual([1, 3, 4]);
+      expect(sendStreamUpdate).toHaveBeenCalledWith('req-reject', {
+        type: 'commentary',
+        message: 'Skipping Step 2 (rejected: Wrong recipients).',
+      });
+    });
+
+    it('should not start runs that cannot wait for approval', async () => {
+      await expect(executeWorkflowOrchestrator(workflow, 'Send the update', 'req-no-handler')).rejects.toThrow(
+        'Step 2 requires approval, which this run cannot wait for'
+      );
+      expect(stepIds()).toEqual([]);
+    });
+
+    it('should fail the step when an approval expires with APPROVAL_TIMEOUT_ACTION fail', async () => {
+      mockConfig.approvals = { timeoutMs: 10, onTimeout: 'fail' };
+
+      await expect(executeWorkflowOrchestrator(workflow, 'Send the update', 'req-expired', undefined, undefined, {
+        requestApproval,
+      })).rejects.toThrow(
+        'Step 2 was not approved within 0.01s'
+      );
+      expect(stepIds()).toEqual([1]);
+    });
+  });
+});
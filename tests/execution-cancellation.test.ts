@@ -0,0 +1,115 @@
+/**
+ * Execution Cancellation Tests
+ *
+ * Tests for the abort registry and cancelExecution
+ */
+
+const mockGetExecutionById = jest.fn();
+const mockMarkExecutionCancelled = jest.fn();
+const mockSendCancelled = jest.fn();
+
+jest.mock('../src/database', () => ({ getExecutionById: mockGetExecutionById }));
+jest.mock('../src/db/utils', () => ({ markExecutionCancelled: mockMarkExecutionCancelled }));
+jest.mock('../src/routes/stream', () => ({ sendCancelled: mockSendCancelled }));
+
+import {
+  registerExecution,
+  unregisterExecution,
+  getAbortController,
+  isExecutionCancelled,
+  throwIfCancelled,
+  cancelExecution,
+} from '../src/execution-cancellation';
+import { ConflictError, ExecutionCancelledError, NotFoundError } from '../src/utils/errors';
+
+describe('Execution Cancellation', () => {
+  const execution = { id: 'req-123', status: 'running', startedAt: new Date() };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('registry', () => {
+    it('should track a run until it is unregistered', () => {
+      const controller = registerExecution('req-1');
+
+      expect(getAbortController('req-1')).toBe(controller);
+
+      unregisterExecution('req-1', controller);
+      expect(getAbortController('req-1')).toBeUndefined();
+    });
+
+    it('should not unregister a newer run with the same ID', () => {
+      const first = registerExecution('req-2');
+      const second = registerExecution('req-2');
+
+      unregisterExecution('req-2', first);
+      expect(getAbortController('req-2')).toBe(second);
+
+      unregisterExecution('req-2', second);
+    });
+
+    it('should throw once the run is aborted', () => {
+      const controller = registerExecution('req-3');
+
+      expect(() => throwIfCancelled('req-3')).not.toThrow();
+
+      controller.abort();
+      expect(isExecutionCancelled('req-3')).toBe(true);
+      expect(() => throwIfCancelled('req-3')).toThrow(ExecutionCancelledError);
+
+      unregisterExecution('req-3', controller);
+    });
+  });
+
+  describe('cancelExecution', () => {
+    it('should mark the execution, abort the run and notify SSE subscribers', async () => {
+      mockGetExecutionById.mockResolvedValue(execution);
+      mockMarkExecutionCancelled.mockResolvedValue(true);
+      const controller = registerExecution('req-123');
+
+      await cancelExecution('req-123');
+
+      expect(mockMarkExecutionCancelled).toHaveBeenCalledWith('req-123');
+      expect(controller.signal.aborted).toBe(true);
+      expect(mockSendCancelled).toHaveBeenCalledWith(
+        'req-123',
+        expect.objectContaining({ message: 'Execution cancelled' })
+      );
+
+      unregisterExecution('req-123', controller);
+    });
+
+    it('should cancel a queued execution that has no running controller', async () => {
+      mockGetExecutionById.mockResolvedValue({ ...execution, status: 'queued' });
+      mockMarkExecutionCancelled.mockResolvedValue(true);
+
+      await expect(cancelExecution('req-123')).resolves.toBeUndefined();
+      expect(mockSendCancelled).toHaveBeenCalled();
+    });
+
+    it('should reject unknown executions', async () => {
+      mockGetExecutionById.mockResolvedValue(null);
+
+      await expect(cancelExecution('missing')).rejects.toThrow(NotFoundError);
+      expect(mockMarkExecutionCancelled).not.toHaveBeenCalled();
+    });
+
+    it('should reject executions that have already finished', async () => {
+      mockGetExecutionById.mockResolvedValue({ ...execution, status: 'completed' });
+      mockMarkExecutionCancelled.mockResolvedValue(false);
+      const controller = registerExecution('req-123');
+
+      await expect(cancelExecution('req-123')).rejects.toThrow(ConflictError);
+      expect(controller.signal.aborted).toBe(false);
+      expect(mockSendCancelled).not.toHaveBeenCalled();
+
+      unregisterExecution('req-123', controller);
+    });
+  });
+});
@@ -0,0 +1,243 @@
+/**
+ * Job Queue Tests
+ *
+ * Tests for retry backoff, transient error detection and the worker
+ * (claims, outcomes, heartbeat, stale locks and shutdown)
+ */
+
+const mockPrisma = {
+  $queryRaw: jest.fn(),
+  $executeRaw: jest.fn(),
+  job: { updateMany: jest.fn() },
+};
+
+jest.mock('../src/config/index', () => ({
+  config: {
+    queue: {
+      concurrency: 2,
+      pollIntervalMs: 1000,
+      maxAttempts: 3,
+      retryBaseDelayMs: 30000,
+      lockTimeoutMs: 900000,
+      shutdownGraceMs: 30000,
+    },
+  },
+}));
+
+jest.mock('../src/db/client', () => ({
+  getPrismaClient: () => mockPrisma,
+  onBeforeDisconnect: jest.fn(),
+}));
+
+import { getRetryDelayMs, JobWorker } from '../src/services/queue/job-queue';
+import { AgentError, DatabaseError, isTransientError } from '../src/utils/errors';
+
+describe('Job Queue', () => {
+  describe('getRetryDelayMs', () => {
+    it('doubles the delay with every attempt', () => {
+      expect(getRetryDelayMs(1, 30000)).toBe(30000);
+      expect(getRetryDelayMs(2, 30000)).toBe(60000);
+      expect(getRetryDelayMs(3, 30000)).toBe(120000);
+    });
+
+    it('caps the delay at one hour', () => {
+      expect(getRetryDelayMs(20, 30000)).toBe(60 * 60 * 1000);
+    });
+  });
+
+  describe('isTransientError', () => {
+    it('detects timeouts, rate limits and dropped connections', () => {
+      expect(isTransientError(new AgentError('Agent execution timeout'))).toBe(true);
+      expect(
+        isTransientError(new AgentError('Agent execution failed', new Error('429 rate_limit_error')))
+      ).toBe(true);
+      expect(
+        isTransientError(new AgentError('Agent execution failed', new Error('Overloaded')))
+      ).toBe(true);
+      expect(
+        isTransientError(new AgentError('Agent execution failed', new Error('read ECONNRESET')))
+      ).toBe(true);
+    });
+
+    it('does not retry permanent or non-agent errors', () => {
+      expect(
+        isTransientError(new AgentError('Agent execution failed', new Error('Invalid API key')))
+      ).toBe(false);
+      expect(isTransientError(new DatabaseError('Connection timeout'))).toBe(false);
+      expect(isTransientError(new Error('timeout'))).toBe(false);
+    });
+  });
+
+  describe('JobWorker', () => {
+    let worker: JobWorker;
+
+    /** SQL text of a tagged-template Prisma call */
+    const sqlOf = (call: any[]) => (call[0] as string[]).join('?');
+    const executedSql = () => mockPrisma.$executeRaw.mock.calls.map(sqlOf);
+
+    const queueJob = (attempts = 1, maxAttempts = 3) => {
+      mockPrisma.$queryRaw.mockResolvedValueOnce([
+        { id: 'job-1', type: 'webhook', payload: { prompt: 'Hi' }, attempts, maxAttempts },
+      ]);
+    };
+
+    /** A handler that runs until finish() is called */
+    const pendingHandler = () => {
+      let finish!: () => void;
+      const handler = jest.fn(() => new Promise<void>((resolve) => (finish = resolve)));
+      return { handler, finish: () => finish() };
+    };
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      jest.spyOn(console, 'log').mockImplementation(() => {});
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      jest.useFakeTimers({ now: new Date('2025-01-15T10:00:00Z') });
+
+      mockPrisma.$queryRaw.mockResolvedValue([]);
+      mockPrisma.$executeRaw.mockResolvedValue(0);
+      mockPrisma.job.updateMany.mockResolvedValue({ count: 1 });
+
+      worker = new JobWorker();
+    });
+
+    afterEach(async () => {
+      await worker.stop();
+      jest.useRealTimers();
+      jest.restoreAllMocks();
+    });
+
+    it('claims jobs with FOR UPDATE SKIP LOCKED and records completion', async () => {
+      const handler = jest.fn().mockResolvedValue(undefined);
+      worker.registerHandler('webhook', handler);
+      queueJob();
+
+      await worker.start();
+      await jest.advanceTimersByTimeAsync(0);
+
+      const [claimSql, ...claimValues] = mockPrisma.$queryRaw.mock.calls[0];
+      expect(claimSql.join('?')).toContain('FOR UPDATE SKIP LOCKED');
+      expect(claimValues).toEqual([worker.id, ['webhook']]);
+
+      expect(handler).toHaveBeenCalledWith(
+        { prompt: 'Hi' },
+        { jobId: 'job-1', attempt: 1, maxAttempts: 3, isFinalAttempt: false }
+      );
+      expect(mockPrisma.job.updateMany).toHaveBeenCalledWith({
+        where: { id: 'job-1', lockedBy: worker.id, status: 'running' },
+        data: expect.objectContaining({ status: 'completed', lockedAt: null, lockedBy: null }),
+      });
+    });
+
+    it('requeues transient failures with backoff', async () => {
+      worker.registerHandler('webhook', jest.fn().mockRejectedValue(new AgentError('Agent execution timeout')));
+      queueJob(2);
+
+      await worker.start();
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(mockPrisma.job.updateMany).toHaveBeenCalledWith({
+        where: { id: 'job-1', lockedBy: worker.id, status: 'running' },
+        data: expect.objectContaining({
+          status: 'queued',
+          runAt: new Date(Date.now() + 60000),
+          lastError: 'Agent execution timeout',
+        }),
+      });
+    });
+
+    it('fails permanent errors and final attempts without retrying', async () => {
+      worker.registerHandler('webhook', jest.fn().mockRejectedValue(new Error('Invalid input')));
+      queueJob();
+
+      await worker.start();
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(mockPrisma.job.updateMany).toHaveBeenCalledTimes(1);
+      expect(mockPrisma.job.updateMany.mock.calls[0][0].data).toMatchObject({
+        status: 'failed',
+        lastError: 'Invalid input',
+      });
+
+      await worker.stop();
+      mockPrisma.job.updateMany.mockClear();
+      worker = new JobWorker();
+      worker.registerHandler('webhook', jest.fn().mockRejectedValue(new AgentError('Agent execution timeout')));
+      queueJob(3);
+
+      await worker.start();
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(mockPrisma.job.updateMany).toHaveBeenCalledTimes(1);
+      expect(mockPrisma.job.updateMany.mock.calls[0][0].data.status).toBe('failed');
+    });
+
+    it('reaps expired locks of other workers only', async () => {
+      worker.registerHandler('webhook', jest.fn());
+
+      await worker.start();
+
+      const [reapSql, ...reapValues] = mockPrisma.$executeRaw.mock.calls[0];
+      expect(reapSql.join('?')).toContain('locked_by IS DISTINCT FROM ?');
+      expect(reapValues).toEqual([worker.id, 900000]);
+    });
+
+    it('refreshes the locks of running jobs on its own interval', async () => {
+      const { handler, finish } = pendingHandler();
+      worker.registerHandler('webhook', handler);
+      queueJob();
+
+      await worker.start();
+      await jest.advanceTimersByTimeAsync(300000);
+
+      const heartbeats = mockPrisma.$executeRaw.mock.calls.filter((call) => sqlOf(call).includes('SET locked_at = now()'));
+      expect(heartbeats).toHaveLength(1);
+      expect(heartbeats[0].slice(1)).toEqual([['job-1'], worker.id]);
+
+      finish();
+    });
+
+    it('waits for running jobs on shutdown instead of requeuing them', async () => {
+      const { handler, finish } = pendingHandler();
+      worker.registerHandler('webhook', handler);
+      queueJob();
+
+      await worker.start();
+      await jest.advanceTimersByTimeAsync(0);
+
+      let stopped = false;
+      const stopping = worker.stop().then(() => (stopped = true));
+      await jest.advanceTimersByTimeAsync(10000);
+      expect(stopped).toBe(false);
+
+      finish();
+      await stopping;
+
+      expect(mockPrisma.job.updateMany.mock.calls[0][0].data.status).toBe('completed');
+      expect(executedSql().filter((sql) => sql.includes("status = 'queued'"))).toHaveLength(0);
+    });
+
+    it('leaves jobs still running after the grace period to the stale-lock reaper', async () => {
+      const { handler } = pendingHandler();
+      worker.registerHandler('webhook', handler);
+      queueJob();
+
+      await worker.start();
+      await jest.advanceTimersByTimeAsync(0);
+
+      const stopping = worker.stop();
+      await jest.advanceTimersByTimeAsync(30000);
+      await stopping;
+
+      expect(worker.getStatus()).toMatchObject({ started: false, activeJobs: ['job-1'] });
+      expect(mockPrisma.job.updateMany).not.toHaveBeenCalled();
+      expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('requeued once their lock expires'));
+
+      // The heartbeat stopped, so the lock can expire
+      const executed = mockPrisma.$executeRaw.mock.calls.length;
+      await jest.advanceTimersByTimeAsync(900000);
+      expect(mockPrisma.$executeRaw).toHaveBeenCalledTimes(executed);
+    });
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Memory Tests
+ *
+ * Tests for saving and ranking the agent's long-term memories
+ */
+
+const mockConfig = {
+  memory: { enabled: true, searchLimit: 10, embeddingUrl: undefined as string | undefined, embeddingModel: 'nomic-embed-text' },
+};
+const mockGetMemoriesForSearch = jest.fn();
+const mockCreateMemory = jest.fn();
+const mockPost = jest.fn();
+
+jest.mock('../src/config/index', () => ({ config: mockConfig }));
+jest.mock('../src/database', () => ({ getMemoriesForSearch: mockGetMemoriesForSearch }));
+jest.mock('../src/db/utils', () => ({ createMemory: mockCreateMemory, deleteMemory: jest.fn() }));
+jest.mock('axios', () => ({ __esModule: true, default: { post: mockPost } }));
+
+import { cosineSimilarity, rankMemories, saveMemory, searchMemories } from '../src/services/memory/memory';
+
+const memory = (id: string, content: string, tags: string[] = [], embedding: number[] = []) => ({
+  id,
+  content,
+  tags,
+  embedding,
+  createdAt: new Date('2025-12-01T09:00:00Z'),
+});
+
+describe('rankMemories', () => {
+  const memories = [
+    memory('m-1', 'The user wants weekly reports as PDF', ['preference']),
+    memory('m-2', 'The acme/api repository deploys from the release branch', ['acme']),
+    memory('m-3', 'Reports go to the #finance channel', ['preference']),
+  ];
+
+  it('should rank memories by keywords and leave out the ones that do not match', () => {
+    const matches = rankMemories('How should the report be formatted? PDF?', memories, [], 10);
+
+    expect(matches.map((match) => match.id)).toEqual(['m-1', 'm-3']);
+    expect(matches[0].score).toBe(1);
+    expect(matches[0]).not.toHaveProperty('embedding');
+  });
+
+  it('should match by meaning when embeddings are available', () => {
+    const embedded = [
+      memory('m-1', 'The user prefers dark mode', [], [1, 0]),
+      memory('m-2', 'Deploys happen on Fridays', [], [0, 1]),
+    ];
+
+    expect(rankMemories('Which theme does the user like?', embedded, [0.9, 0.1], 10).map((m) => m.id)).toEqual(['m-1']);
+  });
+
+  it('should return at most the limit', () => {
+    expect(rankMemories('preference', memories, [], 1)).toHaveLength(1);
+  });
+});
+
+describe('cosineSimilarity', () => {
+  it('should compare embeddings of the same length only', () => {
+    expect(cosineSimilarity([1, 0], [1, 0])).toBeCloseTo(1);
+    expect(cosineSimilarity([1, 0], [0, 1])).toBe(0);
+    expect(cosineSimilarity([1, 0], [1, 0, 0])).toBe(0);
+    expect(cosineSimilarity([], [])).toBe(0);
+  });
+});
+
+describe('saveMemory and searchMemories', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    mockConfig.memory.embeddingUrl = undefined;
+    mockCreateMemory.mockImplementation(async (data) => ({ id: 'm-1', ...data }));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should save normalized tags without an embedding model', async () => {
+    await saveMemory('  The user wants PDF reports ', ['Preference', ' preference', ''], 'req-1');
+
+    expect(mockPost).not.toHaveBeenCalled();
+    expect(mockCreateMemory).toHaveBeenCalledWith({
+      content: 'The user wants PDF reports',
+      tags: ['preference'],
+      embedding: [],
+      executionId: 'req-1',
+    });
+  });
+
+  it('should embed memories with the local embedding model', async () => {
+    mockConfig.memory.embeddingUrl = 'http://localhost:11434/api/embeddings';
+    mockPost.mockResolvedValue({ data: { embedding: [0.1, 0.2] } });
+
+    await saveMemory('The user wants PDF reports');
+
+    expect(mockPost).toHaveBeenCalledWith(
+      'http://localhost:11434/api/embeddings',
+      { model: 'nomic-embed-text', prompt: 'The user wants PDF reports' },
+      expect.any(Object)
+    );
+    expect(mockCreateMemory).toHaveBeenCalledWith(expect.objectContaining({ embedding: [0.1, 0.2] }));
+  });
+
+  it('should fall back to keywords when the embedding model is unreachable', async () => {
+    mockConfig.memory.embeddingUrl = 'http://localhost:11434/api/embeddings';
+    mockPost.mockRejectedValue(new Error('connect ECONNREFUSED'));
+    mockGetMemoriesForSearch.mockResolvedValue([
+      memory('m-1', 'The user wants PDF reports', [], [1, 0]),
+      memory('m-2', 'Deploys happen on Fridays', [], [0, 1]),
+    ]);
+
+    const matches = await searchMemories('report format', { tags: ['Preference'] });
+
+    expect(mockGetMemoriesForSearch).toHaveBeenCalledWith(['preference']);
+    expect(matches.map((match) => match.id)).toEqual(['m-1']);
+  });
+});
@@ -0,0 +1,41 @@
+/**
+ * Webhook Signature Tests
+ *
+ * Tests for HMAC verification of inbound skill webhooks
+ */
+
+import { computeSignature, verifySignature } from '../src/utils/signatures';
+
+describe('Webhook Signatures', () => {
+  const secret = 'test-secret';
+  const body = Buffer.from(JSON.stringify({ action: 'opened', number: 42 }));
+
+  it('accepts a valid GitHub-style signature', () => {
+    const headers = { 'x-hub-signature-256': `sha256=${computeSignature(secret, body)}` };
+
+    expect(verifySignature(secret, body, headers)).toBe(true);
+  });
+
+  it('rejects a signature made with another secret or over another body', () => {
+    const wrongSecret = { 'x-signature-256': `sha256=${computeSignature('other', body)}` };
+    const wrongBody = { 'x-signature-256': `sha256=${computeSignature(secret, 'tampered')}` };
+
+    expect(verifySignature(secret, body, wrongSecret)).toBe(false);
+    expect(verifySignature(secret, body, wrongBody)).toBe(false);
+  });
+
+  it('rejects missing or malformed signatures', () => {
+    expect(verifySignature(secret, body, {})).toBe(false);
+    expect(verifySignature(secret, body, { 'x-hub-signature-256': 'sha1=abc' })).toBe(false);
+    expect(verifySignature(secret, body, { 'x-hub-signature-256': 'sha256=' })).toBe(false);
+  });
+
+  it('accepts a fresh Stripe-style signature and rejects a stale one', () => {
+    const now = Math.floor(Date.now() / 1000);
+    const sign = (t: number) =>
+      `t=${t},v1=${computeSignature(secret, `${t}.${body.toString('utf8')}`)}`;
+
+    expect(verifySignature(secret, body, { 'stripe-signature': sign(now) })).toBe(true);
+    expect(verifySignature(secret, body, { 'stripe-signature': sign(now - 3600) })).toBe(false);
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * Skill Bundle Tests
+ *
+ * Tests for reading, validating and writing skill bundle files
+ */
+
+jest.mock('../src/config/index', () => ({
+  config: {
+    agent: { model: 'claude-test' },
+    workflow: { maxParallelSteps: 2, maxForEachItems: 3, maxStepAttempts: 5 },
+  },
+}));
+
+import {
+  createSkillBundle,
+  getRequiredConnections,
+  parseSkillBundle,
+  renameForImport,
+  serializeSkillBundle,
+} from '../src/skill-bundles';
+import { ValidationError } from '../src/utils/errors';
+
+const skill = {
+  name: 'Issue Digest',
+  description: 'Posts a digest of open GitHub issues to Slack',
+  examples: ['Digest of acme/api issues'],
+  negativeExamples: [],
+  triggerType: 'webhook',
+  triggerConfig: { secret: 'shh', prompt: 'Post the digest' },
+  connectionNames: ['github'],
+  inputs: { type: 'object', properties: { repo: { type: 'string' } }, required: ['repo'] },
+  outputSchema: null,
+  isActive: true,
+  steps: [
+    { id: 1, prompt: 'List the open issues of {{input.repo}}', allowedTools: ['github'] },
+    { id: 2, prompt: 'Post a digest', connectionNames: ['slack'], dependsOn: [1] },
+  ],
+};
+
+describe('createSkillBundle', () => {
+  it('should leave out webhook secrets and empty fields', () => {
+    const [bundled] = createSkillBundle([skill]).skills;
+
+    expect(bundled.triggerConfig).toEqual({ prompt: 'Post the digest' });
+    expect(bundled).not.toHaveProperty('outputSchema');
+    expect(bundled.inputs).toEqual(skill.inputs);
+  });
+
+  it('should read back what it writes, as YAML and JSON', () => {
+    const bundle = createSkillBundle([skill]);
+
+    expect(parseSkillBundle(serializeSkillBundle(bundle, 'yaml'))).toEqual(bundle);
+    expect(parseSkillBundle(serializeSkillBundle(bundle, 'json'))).toEqual(bundle);
+  });
+});
+
+describe('parseSkillBundle', () => {
+  it('should apply defaults to hand-written bundles', () => {
+    const bundle = parseSkillBundle(`
+version: 1
+skills:
+  - name: Weekly Report
+    steps:
+      - id: 1
+        prompt: Write the weekly report
+`);
+
+    expect(bundle.skills[0]).toEqual({
+      name: 'Weekly Report',
+      description: '',
+      examples: [],
+      negativeExamples: [],
+      triggerType: 'manual',
+      connectionNames: [],
+      isActive: true,
+      steps: [{ id: 1, prompt: 'Write the weekly report' }],
+    });
+  });
+
+  it('should list schema errors with their paths', () => {
+    expect(() =>
+      parseSkillBundle('version: 1\nskills:\n  - name: X\n    steps:\n      - id: 1\n        promt: typo\n')
+    ).toThrow(/skills\.0\.steps\.0: Unrecognized key\(s\) in object: 'promt'/);
+  });
+
+  it('should reject newer bundle versions and files that are not YAML', () => {
+    expect(() => parseSkillBundle('version: 2\nskills: []')).toThrow('newer than this version');
+    expect(() => parseSkillBundle('skills: [')).toThrow(ValidationError);
+  });
+
+  it('should validate steps like a run does', () => {
+    const cyclic = createSkillBundle([
+      { ...skill, steps: [{ id: 1, prompt: 'A', dependsOn: [2] }, { id: 2, prompt: 'B', dependsOn: [1] }] },
+    ]);
+
+    expect(() => parseSkillBundle(serializeSkillBundle(cyclic, 'json'))).toThrow('skill "Issue Digest"');
+  });
+
+  it('should reject skills that appear twice', () => {
+    const bundle = createSkillBundle([skill, { ...skill, name: 'issue digest' }]);
+
+    expect(() => parseSkillBundle(serializeSkillBundle(bundle, 'yaml'))).toThrow('more than once');
+  });
+});
+
+describe('getRequiredConnections', () => {
+  it('should collect the connections of the skill and its steps', () => {
+    const [bundled] = createSkillBundle([skill]).skills;
+
+    expect(getRequiredConnections(bundled)).toEqual(['github', 'slack']);
+  });
+});
+
+describe('renameForImport', () => {
+  it('should number the name until it is free', () => {
+    expect(renameForImport('Issue Digest', ['Issue Digest', 'issue digest (2)'])).toBe('Issue Digest (3)');
+  });
+});
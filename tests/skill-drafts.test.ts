@@ -0,0 +1,130 @@
+/**
+ * Skill Draft Tests
+ *
+ * Tests for turning the tool calls of a one-off run into a draft skill
+ */
+
+const mockGetExecutionById = jest.fn();
+
+jest.mock('../src/config/index', () => ({ config: { agent: { model: 'claude-test' } } }));
+jest.mock('../src/database', () => ({ getExecutionById: mockGetExecutionById }));
+jest.mock('../src/connection-resolver', () => ({
+  isSDKBuiltinTool: (name: string) => ['Bash', 'Read', 'Write', 'WebFetch'].includes(name),
+}));
+jest.mock('../src/services/memory/memory-server', () => ({ MEMORY_SERVER_NAME: 'memory' }));
+
+import { buildSkillDraft, draftSkillFromExecution, extractToolCalls, toAllowedTool } from '../src/skill-drafts';
+import { ConflictError, NotFoundError, ValidationError } from '../src/utils/errors';
+
+const toolUse = (id: string, name: string, input: unknown = {}) => ({
+  type: 'assistant',
+  message: { content: [{ type: 'tool_use', id, name, input }] },
+});
+const toolResult = (id: string, isError = false) => ({
+  type: 'user',
+  message: { content: [{ type: 'tool_result', tool_use_id: id, is_error: isError, content: 'ok' }] },
+});
+
+describe('toAllowedTool', () => {
+  it('should keep SDK tool names', () => {
+    expect(toAllowedTool('Bash')).toEqual({ tool: 'Bash' });
+  });
+
+  it('should turn MCP tools into connection tools', () => {
+    expect(toAllowedTool('mcp__github__create_issue')).toEqual({
+      tool: 'github__create_issue',
+      connection: 'github',
+    });
+  });
+
+  it('should skip memory tools and unknown tools', () => {
+    expect(toAllowedTool('mcp__memory__memory_save')).toBeNull();
+    expect(toAllowedTool('TodoWriteX')).toBeNull();
+  });
+});
+
+describe('extractToolCalls', () => {
+  it('should collect tool calls in order and mark failed ones', () => {
+    const calls = extractToolCalls([
+      { type: 'system', subtype: 'init' },
+      toolUse('t1', 'mcp__github__list_issues', { repo: 'acme/api' }),
+      toolResult('t1'),
+      toolUse('t2', 'Bash', { command: 'false' }),
+      toolResult('t2', true),
+      { type: 'assistant', message: { content: [{ type: 'text', text: 'Done' }] } },
+    ]);
+
+    expect(calls).toEqual([
+      { name: 'mcp__github__list_issues', input: { repo: 'acme/api' }, failed: false },
+      { name: 'Bash', input: { command: 'false' }, failed: true },
+    ]);
+  });
+});
+
+describe('buildSkillDraft', () => {
+  const calls = [
+    { name: 'mcp__github__list_issues', input: {}, failed: false },
+    { name: 'Bash', input: {}, failed: true },
+    { name: 'mcp__slack__post_message', input: {}, failed: false },
+    { name: 'mcp__memory__memory_search', input: {}, failed: false },
+  ];
+
+  it('should give each step the tools of its calls and collect the connections', () => {
+    const draft = buildSkillDraft('exec-1', 'Post the open issues of acme/api to #eng', calls, {
+      name: 'Issue Digest',
+      description: 'Posts a digest of open issues to Slack',
+      steps: [
+        { prompt: 'List the open issues', toolCalls: [1, 2, 4] },
+        { prompt: 'Post a digest to the channel', guidance: 'Group by label', toolCalls: [3, 99] },
+      ],
+    });
+
+    expect(draft).toEqual({
+      sourceExecutionId: 'exec-1',
+      name: 'Issue Digest',
+      description: 'Posts a digest of open issues to Slack',
+      examples: ['Post the open issues of acme/api to #eng'],
+      steps: [
+        { id: 1, prompt: 'List the open issues', allowedTools: ['github__list_issues'] },
+        { id: 2, prompt: 'Post a digest to the channel', guidance: 'Group by label', allowedTools: ['slack__post_message'] },
+      ],
+      connectionNames: ['github', 'slack'],
+    });
+  });
+
+  it('should reject responses without usable steps', () => {
+    expect(() => buildSkillDraft('exec-1', 'prompt', calls, { name: 'X', steps: [] })).toThrow('no steps');
+    expect(() => buildSkillDraft('exec-1', 'prompt', calls, { steps: [{ prompt: ' ' }] })).toThrow(
+      'Step 1 has no prompt'
+    );
+  });
+});
+
+describe('draftSkillFromExecution', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should reject unknown, unfinished and skill executions', async () => {
+    mockGetExecutionById.mockResolvedValueOnce(null);
+    await expect(draftSkillFromExecution('missing')).rejects.toThrow(NotFoundError);
+
+    mockGetExecutionById.mockResolvedValueOnce({ id: 'exec-1', status: 'running', skillId: null });
+    await expect(draftSkillFromExecution('exec-1')).rejects.toThrow(ConflictError);
+
+    mockGetExecutionById.mockResolvedValueOnce({ id: 'exec-1', status: 'completed', skillId: 'skill-1' });
+    await expect(draftSkillFromExecution('exec-1')).rejects.toThrow(ValidationError);
+  });
+
+  it('should reject executions without a trace', async () => {
+    mockGetExecutionById.mockResolvedValue({
+      id: 'exec-1',
+      status: 'completed',
+      skillId: null,
+      input: { prompt: 'Do something' },
+      trace: null,
+    });
+
+    await expect(draftSkillFromExecution('exec-1')).rejects.toThrow('no recorded trace');
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Skill Generator Tests
+ *
+ * Tests for checking generated skills against the available tools
+ */
+
+jest.mock('../src/config/index', () => ({ config: { agent: { model: 'claude-test' } } }));
+jest.mock('../src/database', () => ({ getConnectionTools: jest.fn(), getComposioToolkitTools: jest.fn() }));
+jest.mock('../src/connection-resolver', () => ({
+  isSDKBuiltinTool: (name: string) => ['Bash', 'Read', 'Write', 'WebFetch'].includes(name),
+}));
+
+import { buildGeneratedSkill, resolveTool, shortlistToolkits, ToolCatalog } from '../src/skill-generator';
+
+const catalog: ToolCatalog = {
+  connections: [
+    { name: 'nocodb', tools: ['nocodb__list_records', 'nocodb__create_record'] },
+    { name: 'GitHub', tools: ['GITHUB_CREATE_ISSUE', 'GITHUB_LIST_ISSUES'] },
+  ],
+  toolkits: [
+    { name: 'github', description: 'Code hosting', tools: ['GITHUB_CREATE_ISSUE', 'GITHUB_LIST_ISSUES'] },
+    { name: 'slack', description: 'Team chat', tools: ['SLACK_SEND_MESSAGE', 'SLACK_LIST_CHANNELS'] },
+    { name: 'gmail', description: 'Email', tools: ['GMAIL_SEND_EMAIL'] },
+  ],
+};
+
+describe('resolveTool', () => {
+  it('should accept SDK tools without a connection', () => {
+    expect(resolveTool('Bash', catalog)).toBe('');
+  });
+
+  it('should return the connection of connection tools and connection names', () => {
+    expect(resolveTool('nocodb__list_records', catalog)).toBe('nocodb');
+    expect(resolveTool('nocodb', catalog)).toBe('nocodb');
+    expect(resolveTool('GITHUB_LIST_ISSUES', catalog)).toBe('GitHub');
+  });
+
+  it('should accept cached Composio toolkit tools without a connection', () => {
+    expect(resolveTool('SLACK_SEND_MESSAGE', catalog)).toBe('');
+  });
+
+  it('should reject tools that do not exist', () => {
+    expect(resolveTool('nocodb__drop_table', catalog)).toBeNull();
+    expect(resolveTool('JIRA_CREATE_ISSUE', catalog)).toBeNull();
+  });
+});
+
+describe('shortlistToolkits', () => {
+  it('should pick the toolkits that match the description, best first', () => {
+    const toolkits = shortlistToolkits('Post a Slack message for each new GitHub issue', catalog);
+
+    expect(toolkits.map((toolkit) => toolkit.name).sort()).toEqual(['github', 'slack']);
+  });
+
+  it('should leave out toolkits without matching terms', () => {
+    expect(shortlistToolkits('Summarize the weather', catalog)).toEqual([]);
+  });
+});
+
+describe('buildGeneratedSkill', () => {
+  it('should keep existing tools, collect connections and report unknown tools', () => {
+    const draft = buildGeneratedSkill(
+      {
+        name: 'Issue Alerts',
+        description: 'Posts new GitHub issues to Slack',
+        steps: [
+          { prompt: 'List new issues', allowedTools: ['GITHUB_LIST_ISSUES', 'JIRA_SEARCH'] },
+          { prompt: 'Post them to Slack', guidance: 'One message per issue', allowedTools: ['SLACK_SEND_MESSAGE', 'nocodb'] },
+        ],
+      },
+      catalog
+    );
+
+    expect(draft).toEqual({
+      name: 'Issue Alerts',
+      description: 'Posts new GitHub issues to Slack',
+      examples: [],
+      steps: [
+        { id: 1, prompt: 'List new issues', allowedTools: ['GITHUB_LIST_ISSUES'] },
+        { id: 2, prompt: 'Post them to Slack', guidance: 'One message per issue', allowedTools: ['SLACK_SEND_MESSAGE', 'nocodb'] },
+      ],
+      connectionNames: ['GitHub', 'nocodb'],
+      unknownTools: ['JIRA_SEARCH'],
+    });
+  });
+
+  it('should reject responses without usable steps', () => {
+    expect(() => buildGeneratedSkill({ steps: [] }, catalog)).toThrow('no steps');
+    expect(() => buildGeneratedSkill({ steps: [{ allowedTools: ['Bash'] }] }, catalog)).toThrow('Step 1 has no prompt');
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * Skill Index Tests
+ *
+ * Tests for the keyword (BM25) shortlist of skills shown to the classifier
+ */
+
+import { rankSkills, shortlistSkills, tokenize } from '../src/skill-index';
+
+describe('Skill Index', () => {
+  const skills = [
+    {
+      id: 'changelog',
+      name: 'Changelog',
+      description: 'Summarize merged pull requests of a GitHub repository',
+      inputs: {
+        type: 'object',
+        properties: { repo: { type: 'string', description: 'Repository as owner/name' } },
+      },
+      steps: [{ id: 1, prompt: 'List PRs merged into {{input.repo}}' }],
+    },
+    {
+      id: 'standup',
+      name: 'Daily Standup',
+      description: 'Post yesterday\'s Linear updates to the team Slack channel',
+      steps: [{ id: 1, prompt: 'Collect Linear issues updated yesterday' }, { id: 2, prompt: 'Post to Slack' }],
+    },
+    {
+      id: 'invoices',
+      name: 'Invoice Reminder',
+      description: 'Email customers about overdue invoices',
+      steps: [{ id: 1, prompt: 'Find overdue invoices in Stripe' }],
+    },
+  ];
+
+  it('should tokenize without stop words and with endings stripped', () => {
+    expect(tokenize('Summarize the merged Pull-Requests for me, please')).toEqual([
+      'summarize',
+      'merg',
+      'pull',
+      'request',
+    ]);
+    expect(tokenize('reporting reports')).toEqual(['report', 'report']);
+  });
+
+  it('should rank the skill that shares the most distinctive terms first', () => {
+    const ranked = rankSkills('remind customers about their overdue invoice', skills);
+
+    expect(ranked[0].skill.id).toBe('invoices');
+    expect(ranked[0].score).toBeGreaterThan(0);
+    expect(ranked.slice(1).map((entry) => entry.score)).toEqual([0, 0]);
+  });
+
+  it('should match input descriptions and step prompts', () => {
+    expect(rankSkills('what changed in the acme/api repository', skills)[0].skill.id).toBe('changelog');
+    expect(rankSkills('send the slack update', skills)[0].skill.id).toBe('standup');
+  });
+
+  it('should keep the best matches up to the shortlist size', () => {
+    expect(shortlistSkills('post the standup to slack', skills, 2).map((entry) => entry.skill.id)).toEqual([
+      'standup',
+      'changelog',
+    ]);
+    expect(shortlistSkills('anything', skills, 10)).toHaveLength(3);
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * Skill Inputs Tests
+ *
+ * Tests for validating skill input parameters against their schema
+ */
+
+import { describeSkillInputs, getSkillInputFields, resolveSkillInputs } from '../src/skill-inputs';
+import { ValidationError } from '../src/utils/errors';
+import type { Workflow } from '../src/types';
+
+describe('resolveSkillInputs', () => {
+  const skill: Workflow = {
+    id: 'skill-1',
+    name: 'Changelog',
+    description: 'Summarize merged pull requests',
+    steps: [{ id: 1, prompt: 'List PRs merged into {{input.repo}} since {{input.since}}' }],
+    inputs: {
+      type: 'object',
+      properties: {
+        repo: { type: 'string', description: 'Repository as owner/name' },
+        since: { type: 'string', format: 'date' },
+        limit: { type: 'integer', default: 20 },
+        draft: { type: 'boolean' },
+      },
+      required: ['repo', 'since'],
+    },
+  };
+
+  it('should apply defaults and coerce values to their types', () => {
+    expect(resolveSkillInputs(skill, { repo: 'acme/api', since: '2025-01-06', draft: 'true' })).toEqual({
+      repo: 'acme/api',
+      since: '2025-01-06',
+      limit: 20,
+      draft: true,
+    });
+
+    expect(resolveSkillInputs(skill, { repo: 'acme/api', since: '2025-01-06', limit: '5' })).toMatchObject({
+      limit: 5,
+    });
+  });
+
+  it('should not change the values passed in', () => {
+    const values = { repo: 'acme/api', since: '2025-01-06' };
+
+    resolveSkillInputs(skill, values);
+
+    expect(values).toEqual({ repo: 'acme/api', since: '2025-01-06' });
+  });
+
+  it('should list missing required inputs', () => {
+    expect(() => resolveSkillInputs(skill, { limit: 5 })).toThrow(
+      new ValidationError('Skill "Changelog" is missing required inputs: repo, since')
+    );
+  });
+
+  it('should reject values that do not match the schema', () => {
+    expect(() => resolveSkillInputs(skill, { repo: 'acme/api', since: 'last week' })).toThrow(
+      'Skill "Changelog" has invalid inputs: inputs/since must match format "date"'
+    );
+    expect(() => resolveSkillInputs(skill, { repo: 'acme/api', since: '2025-01-06', limit: 'many' })).toThrow(
+      ValidationError
+    );
+  });
+
+  it('should accept any values for skills without inputs', () => {
+    const { inputs, ...plain } = skill;
+
+    expect(resolveSkillInputs(plain, { anything: 1 })).toEqual({ anything: 1 });
+  });
+
+  it('should reject inputs that are not an object schema', () => {
+    expect(() => resolveSkillInputs({ ...skill, inputs: { type: 'string' } }, {})).toThrow(
+      'Skill "Changelog" inputs must be a JSON Schema object with type "object"'
+    );
+  });
+});
+
+describe('describeSkillInputs', () => {
+  it('should describe each parameter for the classifier', () => {
+    const schema = {
+      type: 'object',
+      properties: {
+        repo: { type: 'string', description: 'Repository as owner/name' },
+        since: { type: 'string', format: 'date' },
+        state: { type: 'string', enum: ['open', 'merged'] },
+      },
+      required: ['repo'],
+    };
+
+    expect(describeSkillInputs(schema)).toBe(
+      [
+        '  - repo (string, required): Repository as owner/name',
+        '  - since (string (date), optional)',
+        '  - state (string, optional, one of "open", "merged")',
+      ].join('\n')
+    );
+    expect(getSkillInputFields(schema)[0]).toEqual({
+      name: 'repo',
+      type: 'string',
+      required: true,
+      description: 'Repository as owner/name',
+    });
+  });
+
+  it('should describe nothing for skills without inputs', () => {
+    expect(describeSkillInputs(null)).toBe('');
+  });
+});
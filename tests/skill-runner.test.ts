@@ -0,0 +1,192 @@
+/**
+ * Skill Runner Tests
+ *
+ * Tests for resuming failed executions through the job queue
+ */
+
+const mockGetExecutionById = jest.fn();
+const mockGetSkillById = jest.fn();
+const mockGetExecutionSteps = jest.fn();
+const mockMarkExecutionResumed = jest.fn();
+const mockRestoreCheckpoints = jest.fn();
+const mockExecuteWorkflowOrchestrator = jest.fn();
+const mockEnqueueJob = jest.fn();
+const mockFinishExecutionRecord = jest.fn();
+const mockResumeExecutionRecord = jest.fn();
+const mockSendCompletion = jest.fn();
+
+jest.mock('../src/database', () => ({
+  getExecutionById: mockGetExecutionById,
+  getSkillById: mockGetSkillById,
+}));
+jest.mock('../src/db/utils', () => ({
+  getExecutionSteps: mockGetExecutionSteps,
+  markExecutionResumed: mockMarkExecutionResumed,
+  markExecutionCancelled: jest.fn(),
+  saveExecutionInputs: jest.fn(),
+}));
+jest.mock('../src/execution-checkpoints', () => ({
+  createCheckpointRecorder: jest.fn(),
+  discardSnapshots: jest.fn(),
+  restoreCheckpoints: mockRestoreCheckpoints,
+}));
+jest.mock('../src/execution-records', () => ({
+  startExecutionRecord: jest.fn(),
+  resumeExecutionRecord: mockResumeExecutionRecord,
+  finishExecutionRecord: mockFinishExecutionRecord,
+  formatExecutionError: (error: Error) => error.message,
+}));
+jest.mock('../src/workflow-orchestrator', () => ({ executeWorkflowOrchestrator: mockExecuteWorkflowOrchestrator }));
+jest.mock('../src/services/queue/job-queue', () => ({ enqueueJob: mockEnqueueJob }));
+jest.mock('../src/routes/stream', () => ({ sendCompletion: mockSendCompletion, sendStreamUpdate: jest.fn() }));
+jest.mock('../src/services/streaming/event-log', () => ({
+  getExecutionEventLog: () => ({ getLastEventId: () => 7 }),
+}));
+jest.mock('../src/webhook', () => ({
+  processGeneratedFiles: jest.fn().mockResolvedValue([]),
+  formatFilesForResponse: () => '',
+}));
+jest.mock('../src/execution-approvals', () => ({ requestApproval: jest.fn() }));
+jest.mock('../src/prompts', () => ({ loadSystemPrompt: jest.fn().mockResolvedValue('System prompt') }));
+jest.mock('../src/files', () => ({ cleanupWorkingDirectory: jest.fn().mockResolvedValue(undefined) }));
+
+import { processSkillJob, resumeExecution } from '../src/skill-runner';
+
+describe('Skill Runner', () => {
+  const skill = {
+    id: 'skill-1',
+    name: 'Weekly Report',
+    description: 'Write the weekly report',
+    steps: [
+      { id: 1, prompt: 'Collect the numbers' },
+      { id: 2, prompt: 'Write the report' },
+      { id: 3, prompt: 'Send the report' },
+    ],
+    inputs: null,
+  };
+  const context = { jobId: 'job-1', attempt: 1, maxAttempts: 1, isFinalAttempt: true };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    mockGetSkillById.mockResolvedValue(skill);
+    mockMarkExecutionResumed.mockResolvedValue(true);
+    mockGetExecutionSteps.mockResolvedValue([{ stepId: 1 }]);
+    mockEnqueueJob.mockResolvedValue('job-2');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('resumeExecution', () => {
+    beforeEach(() => {
+      mockGetExecutionById.mockResolvedValue({
+        id: 'exec-1',
+        status: 'failed',
+        skillId: 'skill-1',
+        trigger: 'schedule',
+        input: { prompt: 'Report for week 3', systemPrompt: 'Be brief', inputs: { week: 3 } },
+      });
+    });
+
+    it('should queue the resumed run as a skill job', async () => {
+      const result = await resumeExecution('exec-1', 'corr-1');
+
+      expect(result).toEqual({
+        executionId: 'exec-1',
+        status: 'running',
+        resumeFromStep: 2,
+        completedSteps: [1],
+        lastEventId: 7,
+      });
+      expect(mockEnqueueJob).toHaveBeenCalledWith('skill', {
+        skillId: 'skill-1',
+        prompt: 'Report for week 3',
+        trigger: 'schedule',
+        requestId: 'exec-1',
+        payload: { week: 3 },
+        systemPrompt: 'Be brief',
+        correlationId: 'corr-1',
+        resume: true,
+      });
+      expect(mockRestoreCheckpoints).not.toHaveBeenCalled();
+      expect(mockExecuteWorkflowOrchestrator).not.toHaveBeenCalled();
+    });
+
+    it('should fail the execution again when the run cannot be queued', async () => {
+      mockEnqueueJob.mockRejectedValue(new Error('connection refused'));
+
+      await expect(resumeExecution('exec-1', 'corr-1')).rejects.toThrow('connection refused');
+
+      expect(mockFinishExecutionRecord).toHaveBeenCalledWith(
+        'exec-1',
+        { status: 'failed', error: 'Resume failed: connection refused', durationMs: 0 },
+        'corr-1'
+      );
+      expect(mockSendCompletion).toHaveBeenCalledWith('exec-1', expect.objectContaining({ status: 'failed' }));
+    });
+  });
+
+  describe('processSkillJob', () => {
+    const job = {
+      skillId: 'skill-1',
+      prompt: 'Report for week 3',
+      trigger: 'schedule',
+      requestId: 'exec-1',
+      payload: { week: 3 },
+      systemPrompt: 'Be brief',
+      correlationId: 'corr-1',
+      resume: true,
+    };
+
+    beforeEach(() => {
+      mockGetExecutionById.mockResolvedValue({ id: 'exec-1', status: 'running' });
+    });
+
+    it('should restore the checkpoints and continue the run', async () => {
+      const resume = { workingDirectory: '/tmp/exec-1', checkpoints: [{ stepId: 1, status: 'completed' }] };
+      mockRestoreCheckpoints.mockResolvedValue(resume);
+      mockExecuteWorkflowOrchestrator.mockResolvedValue({
+        text: 'Report sent',
+        workingDirectory: '/tmp/exec-1',
+        trace: [],
+        steps: [],
+      });
+
+      await processSkillJob(job, context);
+
+      expect(mockRestoreCheckpoints).toHaveBeenCalledWith('exec-1', 'corr-1');
+      expect(mockExecuteWorkflowOrchestrator).toHaveBeenCalledWith(
+        skill,
+        'Report for week 3',
+        'exec-1',
+        'Be brief',
+        { week: 3 },
+        expect.objectContaining({ resume })
+      );
+      expect(mockResumeExecutionRecord).not.toHaveBeenCalled();
+      expect(mockFinishExecutionRecord).toHaveBeenCalledWith(
+        'exec-1',
+        expect.objectContaining({ status: 'completed', output: 'Report sent' }),
+        'corr-1'
+      );
+    });
+
+    it('should fail the execution when the checkpoints cannot be restored', async () => {
+      mockRestoreCheckpoints.mockRejectedValue(new Error('database unavailable'));
+
+      await processSkillJob(job, context);
+
+      expect(mockExecuteWorkflowOrchestrator).not.toHaveBeenCalled();
+      expect(mockFinishExecutionRecord).toHaveBeenCalledWith(
+        'exec-1',
+        { status: 'failed', error: 'Resume failed: database unavailable', durationMs: 0 },
+        'corr-1'
+      );
+    });
+  });
+});
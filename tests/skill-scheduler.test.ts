@@ -0,0 +1,140 @@
+/**
+ * Skill Scheduler Tests
+ *
+ * Tests for firing scheduled skills: catch-up, overlap, claims and timezones
+ */
+
+const mockGetScheduledSkills = jest.fn();
+const mockGetLastScheduledRunAt = jest.fn();
+const mockGetSkillById = jest.fn();
+const mockHasUnfinishedScheduledRun = jest.fn();
+const mockClaimScheduledRun = jest.fn();
+const mockRunSkill = jest.fn();
+
+jest.mock('../src/config/index', () => ({
+  config: { scheduler: { enabled: true, timezone: 'UTC', pollIntervalMs: 60000 } },
+}));
+jest.mock('../src/database', () => ({
+  getScheduledSkills: mockGetScheduledSkills,
+  getLastScheduledRunAt: mockGetLastScheduledRunAt,
+  getSkillById: mockGetSkillById,
+  hasUnfinishedScheduledRun: mockHasUnfinishedScheduledRun,
+}));
+jest.mock('../src/db/utils', () => ({ claimScheduledRun: mockClaimScheduledRun }));
+jest.mock('../src/skill-runner', () => ({ runSkill: mockRunSkill }));
+
+import { SkillScheduler } from '../src/services/scheduler/skill-scheduler';
+
+describe('SkillScheduler', () => {
+  let scheduler: SkillScheduler;
+
+  const scheduledSkill = (triggerConfig: Record<string, unknown>, lastScheduledFor: Date | null) => ({
+    id: 'skill-1',
+    name: 'Issue Digest',
+    description: 'Posts a digest of open issues',
+    triggerConfig,
+    lastScheduledFor,
+    createdAt: new Date('2025-01-01T00:00:00Z'),
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.useFakeTimers({ now: new Date('2025-01-15T10:00:30Z') });
+
+    mockGetLastScheduledRunAt.mockResolvedValue(null);
+    mockGetSkillById.mockResolvedValue({ id: 'skill-1', name: 'Issue Digest', steps: [] });
+    mockHasUnfinishedScheduledRun.mockResolvedValue(false);
+    mockClaimScheduledRun.mockResolvedValue(true);
+    mockRunSkill.mockResolvedValue({ response: 'Done' });
+
+    scheduler = new SkillScheduler();
+  });
+
+  afterEach(() => {
+    scheduler.stop();
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('should catch up a run missed while the server was down, once', async () => {
+    const lastScheduledFor = new Date('2025-01-14T09:00:00Z');
+    mockGetScheduledSkills.mockResolvedValue([scheduledSkill({ cron: '0 9 * * *' }, lastScheduledFor)]);
+
+    await scheduler.start();
+    await jest.advanceTimersByTimeAsync(1000);
+
+    expect(mockClaimScheduledRun).toHaveBeenCalledWith('skill-1', new Date('2025-01-15T10:00:30Z'), lastScheduledFor);
+    expect(mockRunSkill).toHaveBeenCalledTimes(1);
+    expect(mockRunSkill.mock.calls[0][0]).toMatchObject({
+      trigger: 'schedule',
+      prompt: 'Posts a digest of open issues',
+      requestId: expect.stringMatching(/^[0-9a-f-]{36}$/),
+      input: { scheduledFor: '2025-01-15T10:00:30.000Z', cron: '0 9 * * *', timezone: 'UTC' },
+    });
+    expect(scheduler.getStatus()[0].nextFireAt).toBe('2025-01-16T09:00:00.000Z');
+  });
+
+  it('should skip missed runs with catchUp: false', async () => {
+    mockGetScheduledSkills.mockResolvedValue([
+      scheduledSkill({ cron: '0 9 * * *', catchUp: false }, new Date('2025-01-14T09:00:00Z')),
+    ]);
+
+    await scheduler.start();
+    await jest.advanceTimersByTimeAsync(1000);
+
+    expect(mockRunSkill).not.toHaveBeenCalled();
+    expect(scheduler.getStatus()[0].nextFireAt).toBe('2025-01-16T09:00:00.000Z');
+  });
+
+  it('should skip fires while the previous run is still going', async () => {
+    mockGetScheduledSkills.mockResolvedValue([
+      scheduledSkill({ cron: '* * * * *' }, new Date('2025-01-15T10:00:00Z')),
+    ]);
+    mockRunSkill.mockReturnValue(new Promise(() => {}));
+
+    await scheduler.start();
+    await jest.advanceTimersByTimeAsync(2 * 60000);
+
+    expect(mockRunSkill).toHaveBeenCalledTimes(1);
+    expect(mockClaimScheduledRun).toHaveBeenCalledTimes(1);
+    expect(mockClaimScheduledRun).toHaveBeenCalledWith('skill-1', new Date('2025-01-15T10:01:00Z'), undefined);
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('is still running'));
+  });
+
+  it('should not run fire times claimed by another instance or while it runs the skill', async () => {
+    mockGetScheduledSkills.mockResolvedValue([
+      scheduledSkill({ cron: '* * * * *' }, new Date('2025-01-15T10:00:00Z')),
+    ]);
+    mockClaimScheduledRun.mockResolvedValueOnce(false);
+    mockHasUnfinishedScheduledRun.mockResolvedValueOnce(true);
+
+    await scheduler.start();
+    await jest.advanceTimersByTimeAsync(2 * 60000);
+
+    expect(mockClaimScheduledRun).toHaveBeenCalledTimes(2);
+    expect(mockRunSkill).not.toHaveBeenCalled();
+  });
+
+  it('should fire at the wall-clock time of the skill timezone', async () => {
+    mockGetScheduledSkills.mockResolvedValue([
+      scheduledSkill({ cron: '0 9 * * *', timezone: 'America/New_York' }, new Date('2025-01-14T14:00:00Z')),
+    ]);
+
+    await scheduler.start();
+    expect(scheduler.getStatus()[0]).toMatchObject({
+      timezone: 'America/New_York',
+      nextFireAt: '2025-01-15T14:00:00.000Z',
+    });
+
+    await jest.advanceTimersByTimeAsync(4 * 60 * 60000);
+
+    expect(mockRunSkill).toHaveBeenCalledTimes(1);
+    expect(mockRunSkill.mock.calls[0][0].input).toEqual({
+      scheduledFor: '2025-01-15T14:00:00.000Z',
+      cron: '0 9 * * *',
+      timezone: 'America/New_York',
+    });
+  });
+});
@@ -0,0 +1,184 @@
+/**
+ * Skill Trigger Route Tests
+ *
+ * Tests for POST /skills/:id/trigger (signatures, access checks, queued and waiting runs)
+ */
+
+const mockGetSkillById = jest.fn();
+const mockGetExecutionById = jest.fn();
+const mockRunSkill = jest.fn();
+const mockStartExecutionRecord = jest.fn();
+const mockFinishExecutionRecord = jest.fn();
+const mockEnqueueJob = jest.fn();
+
+jest.mock('../src/database', () => ({
+  getSkillById: mockGetSkillById,
+  getExecutionById: mockGetExecutionById,
+}));
+jest.mock('../src/skill-runner', () => ({ runSkill: mockRunSkill }));
+jest.mock('../src/execution-records', () => ({
+  startExecutionRecord: mockStartExecutionRecord,
+  finishExecutionRecord: mockFinishExecutionRecord,
+}));
+jest.mock('../src/services/queue/job-queue', () => ({ enqueueJob: mockEnqueueJob }));
+jest.mock('../src/files', () => ({ cleanupTempDirectory: jest.fn() }));
+
+import express from 'express';
+import request from 'supertest';
+import skillTriggerRoutes from '../src/routes/skill-triggers';
+import { errorHandler } from '../src/middleware/error-handler';
+import { computeSignature } from '../src/utils/signatures';
+
+const SECRET = 'shared-hmac-secret';
+
+function createApp() {
+  const app = express();
+  app.use(
+    express.json({
+      verify: (req: any, _res, buf) => {
+        req.rawBody = buf;
+      },
+    })
+  );
+  app.use('/skills', skillTriggerRoutes);
+  app.use(errorHandler);
+  return app;
+}
+
+/** POST a signed trigger request */
+function trigger(body: Record<string, unknown>, options: { query?: string; secret?: string; headers?: Record<string, string> } = {}) {
+  const raw = JSON.stringify(body);
+
+  return request(createApp())
+    .post(`/skills/skill-1/trigger${options.query || ''}`)
+    .set('Content-Type', 'application/json')
+    .set('X-Hub-Signature-256', `sha256=${computeSignature(options.secret || SECRET, raw)}`)
+    .set(options.headers || {})
+    .send(raw);
+}
+
+describe('POST /skills/:id/trigger', () => {
+  const skill = {
+    id: 'skill-1',
+    name: 'Triage Issue',
+    description: 'Label a new GitHub issue',
+    isActive: true,
+    triggerType: 'webhook',
+    triggerConfig: { secret: SECRET },
+    steps: [{ id: 1, prompt: 'Label the issue' }],
+    inputs: null,
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    mockGetSkillById.mockResolvedValue(skill);
+    mockGetExecutionById.mockResolvedValue(null);
+    mockStartExecutionRecord.mockResolvedValue(true);
+    mockEnqueueJob.mockResolvedValue('job-1');
+    mockRunSkill.mockResolvedValue({ response: 'Labeled as bug', url: [], requestId: 'x', executionId: 'x' });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should reject requests with a bad signature', async () => {
+    const response = await trigger({ issue: { title: 'Crash' } }, { secret: 'wrong-secret' });
+
+    expect(response.status).toBe(401);
+    expect(mockEnqueueJob).not.toHaveBeenCalled();
+  });
+
+  it('should not reveal unknown or inactive skills', async () => {
+    mockGetSkillById.mockResolvedValueOnce(null);
+    expect((await trigger({})).status).toBe(404);
+
+    mockGetSkillById.mockResolvedValueOnce({ ...skill, isActive: false });
+    expect((await trigger({})).status).toBe(404);
+  });
+
+  it('should refuse skills with another trigger type or without a secret', async () => {
+    mockGetSkillById.mockResolvedValueOnce({ ...skill, triggerType: 'schedule' });
+    expect((await trigger({})).status).toBe(403);
+
+    mockGetSkillById.mockResolvedValueOnce({ ...skill, triggerConfig: {} });
+    expect((await trigger({})).status).toBe(403);
+
+    mockGetSkillById.mockResolvedValueOnce({ ...skill, triggerConfig: { secret: SECRET, allowedOrigins: ['https://github.com'] } });
+    expect((await trigger({}, { headers: { Origin: 'https://evil.example' } })).status).toBe(403);
+
+    expect(mockEnqueueJob).not.toHaveBeenCalled();
+  });
+
+  it('should queue the run and respond 202', async () => {
+    const response = await trigger({ issue: { title: 'Crash' } });
+
+    expect(response.status).toBe(202);
+    expect(response.body).toEqual({
+      status: 'queued',
+      requestId: expect.stringMatching(/^[0-9a-f-]{36}$/),
+      executionId: response.body.requestId,
+    });
+    expect(mockStartExecutionRecord).toHaveBeenCalledWith(
+      response.body.requestId,
+      'skill-1',
+      'webhook',
+      expect.objectContaining({ prompt: 'Label a new GitHub issue', payload: { issue: { title: 'Crash' } } }),
+      expect.any(String),
+      'queued'
+    );
+    expect(mockEnqueueJob).toHaveBeenCalledWith(
+      'skill',
+      expect.objectContaining({ skillId: 'skill-1', requestId: response.body.requestId, trigger: 'webhook' })
+    );
+    expect(mockRunSkill).not.toHaveBeenCalled();
+  });
+
+  it('should fail the execution record when the run cannot be queued', async () => {
+    mockEnqueueJob.mockRejectedValueOnce(new Error('connection refused'));
+
+    const response = await trigger({});
+
+    expect(response.status).toBe(500);
+    expect(mockFinishExecutionRecord).toHaveBeenCalledWith(
+      mockStartExecutionRecord.mock.calls[0][0],
+      { status: 'failed', error: 'Failed to queue the request: connection refused', durationMs: 0 },
+      expect.any(String)
+    );
+  });
+
+  it('should run once per provider delivery', async () => {
+    const headers = { 'X-GitHub-Delivery': 'delivery-1' };
+
+    const first = await trigger({}, { headers });
+    expect(first.status).toBe(202);
+    expect(first.body.executionId).toBe('webhook-skill-1-delivery-1');
+
+    mockGetExecutionById.mockResolvedValue({ id: 'webhook-skill-1-delivery-1', status: 'running' });
+    const redelivered = await trigger({}, { headers });
+
+    expect(redelivered.status).toBe(200);
+    expect(redelivered.body).toEqual({
+      status: 'running',
+      requestId: 'webhook-skill-1-delivery-1',
+      executionId: 'webhook-skill-1-delivery-1',
+      duplicate: true,
+    });
+    expect(mockEnqueueJob).toHaveBeenCalledTimes(1);
+  });
+
+  it('should run the skill and respond with the result with wait=true', async () => {
+    const response = await trigger({ issue: { title: 'Crash' } }, { query: '?wait=true' });
+
+    expect(response.status).toBe(200);
+    expect(response.body.response).toBe('Labeled as bug');
+    expect(mockRunSkill).toHaveBeenCalledWith(
+      expect.objectContaining({ skill, trigger: 'webhook', payload: { issue: { title: 'Crash' } } })
+    );
+    expect(mockEnqueueJob).not.toHaveBeenCalled();
+  });
+});
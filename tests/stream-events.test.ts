@@ -0,0 +1,140 @@
+/**
+ * Agent Stream Events Tests
+ *
+ * Tests for forwarding SDK messages as typed SSE events
+ */
+
+const mockSendStreamUpdate = jest.fn();
+
+jest.mock('../src/routes/stream', () => ({ sendStreamUpdate: mockSendStreamUpdate }));
+
+import { AgentStreamForwarder, summarizeToolContent } from '../src/shared/stream-events';
+
+function textDelta(text: string, parentToolUseId: string | null = null) {
+  return {
+    type: 'stream_event',
+    parent_tool_use_id: parentToolUseId,
+    event: { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text } },
+  };
+}
+
+function textBlockStart() {
+  return {
+    type: 'stream_event',
+    parent_tool_use_id: null,
+    event: { type: 'content_block_start', index: 0, content_block: { type: 'text', text: '' } },
+  };
+}
+
+describe('AgentStreamForwarder', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    mockSendStreamUpdate.mockClear();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should batch text deltas', () => {
+    const stream = new AgentStreamForwarder('req-1');
+
+    stream.handle(textDelta('Hel'));
+    stream.handle(textDelta('lo'));
+    expect(mockSendStreamUpdate).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(100);
+
+    expect(mockSendStreamUpdate).toHaveBeenCalledTimes(1);
+    expect(mockSendStreamUpdate).toHaveBeenCalledWith('req-1', { type: 'text_delta', text: 'Hello' });
+  });
+
+  it('should tag events with the workflow step', () => {
+    const stream = new AgentStreamForwarder('req-1', 2);
+
+    stream.handle(textDelta('Hi'));
+    stream.flush();
+
+    expect(mockSendStreamUpdate).toHaveBeenCalledWith('req-1', { type: 'text_delta', text: 'Hi', stepId: 2 });
+  });
+
+  it('should separate the text of consecutive assistant turns', () => {
+    const stream = new AgentStreamForwarder('req-1');
+
+    stream.handle(textBlockStart());
+    stream.handle(textDelta('First'));
+    stream.handle(textBlockStart());
+    stream.handle(textDelta('Second'));
+    stream.flush();
+
+    expect(mockSendStreamUpdate).toHaveBeenCalledWith('req-1', {
+      type: 'text_delta',
+      text: 'First\n\nSecond',
+    });
+  });
+
+  it('should send tool calls after the text that preceded them', () => {
+    const stream = new AgentStreamForwarder('req-1');
+
+    stream.handle(textDelta('Searching'));
+    stream.handle({
+      type: 'assistant',
+      parent_tool_use_id: null,
+      message: { content: [{ type: 'tool_use', id: 'tool-1', name: 'WebSearch', input: { query: 'news' } }] },
+    });
+
+    expect(mockSendStreamUpdate.mock.calls.map(([, data]) => data.type)).toEqual([
+      'text_delta',
+      'tool_use',
+    ]);
+    expect(mockSendStreamUpdate).toHaveBeenLastCalledWith('req-1', {
+      type: 'tool_use',
+      toolUseId: 'tool-1',
+      name: 'WebSearch',
+      input: '{"query":"news"}',
+    });
+  });
+
+  it('should send tool result summaries', () => {
+    const stream = new AgentStreamForwarder('req-1');
+
+    stream.handle({
+      type: 'user',
+      parent_tool_use_id: null,
+      message: {
+        content: [
+          { type: 'tool_result', tool_use_id: 'tool-1', is_error: true, content: [{ type: 'text', text: 'Not found' }] },
+        ],
+      },
+    });
+
+    expect(mockSendStreamUpdate).toHaveBeenCalledWith('req-1', {
+      type: 'tool_result',
+      toolUseId: 'tool-1',
+      isError: true,
+      output: 'Not found',
+    });
+  });
+
+  it('should ignore messages of subagents', () => {
+    const stream = new AgentStreamForwarder('req-1');
+
+    stream.handle(textDelta('Nested', 'tool-1'));
+    stream.flush();
+
+    expect(mockSendStreamUpdate).not.toHaveBeenCalled();
+  });
+});
+
+describe('summarizeToolContent', () => {
+  it('should truncate long content', () => {
+    const summary = summarizeToolContent('x'.repeat(500));
+
+    expect(summary).toHaveLength(203);
+    expect(summary.endsWith('...')).toBe(true);
+  });
+
+  it('should collapse whitespace', () => {
+    expect(summarizeToolContent('line 1\n\n  line 2')).toBe('line 1 line 2');
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * SSE Stream Route Tests
+ *
+ * Tests for GET /stream/:executionId when the event log has no events for the run
+ */
+
+const mockFindUnique = jest.fn();
+const mockGetAbortController = jest.fn();
+
+jest.mock('../src/config/index', () => ({
+  config: { stream: { heartbeatIntervalMs: 15000, bufferSize: 1000, retentionMs: 600000 } },
+}));
+jest.mock('../src/db/client', () => ({
+  __esModule: true,
+  default: { execution: { findUnique: mockFindUnique } },
+}));
+jest.mock('../src/execution-cancellation', () => ({ getAbortController: mockGetAbortController }));
+
+import express from 'express';
+import request from 'supertest';
+import streamRoutes, { sendCompletion } from '../src/routes/stream';
+
+/** Data of the SSE events in a response body */
+function parseEvents(text: string): Record<string, any>[] {
+  return text
+    .split('\n\n')
+    .map((chunk) => chunk.split('\n').find((line) => line.startsWith('data: ')))
+    .filter((line): line is string => !!line)
+    .map((line) => JSON.parse(line.slice('data: '.length)));
+}
+
+function stream(executionId: string) {
+  const app = express();
+  app.use('/stream', streamRoutes);
+
+  return request(app)
+    .get(`/stream/${executionId}`)
+    .buffer(true)
+    .parse((res, callback) => {
+      let text = '';
+      res.on('data', (chunk: Buffer) => (text += chunk.toString()));
+      res.on('end', () => callback(null, text));
+    });
+}
+
+describe('GET /stream/:executionId', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    mockGetAbortController.mockReturnValue(undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should send the final event of a finished run and end the stream', async () => {
+    mockFindUnique.mockResolvedValue({
+      id: 'exec-done',
+      status: 'completed',
+      output: 'All done',
+      durationMs: 1200,
+      tokenCount: 300,
+      costUsd: 0.01,
+    });
+
+    const response = await stream('exec-done');
+
+    expect(parseEvents(response.body)).toEqual([
+      { type: 'connected', executionId: 'exec-done' },
+      {
+        type: 'complete',
+        status: 'completed',
+        output: 'All done',
+        metadata: { duration: 1200, tokenCount: 300, cost: 0.01 },
+      },
+    ]);
+  });
+
+  it('should send the status and end the stream when the run is not running here', async () => {
+    mockFindUnique.mockResolvedValue({ id: 'exec-orphan', status: 'running' });
+
+    const response = await stream('exec-orphan');
+
+    expect(parseEvents(response.body)).toEqual([
+      { type: 'connected', executionId: 'exec-orphan' },
+      { type: 'status', status: 'running' },
+    ]);
+    expect(mockGetAbortController).toHaveBeenCalledWith('exec-orphan');
+  });
+
+  it('should send the status of a queued run and follow it once it produces events', async () => {
+    mockFindUnique.mockImplementation(async () => {
+      setTimeout(() => sendCompletion('exec-queued', { status: 'completed', output: 'Done' }), 10);
+      return { id: 'exec-queued', status: 'queued' };
+    });
+
+    const response = await stream('exec-queued');
+
+    expect(parseEvents(response.body)).toEqual([
+      { type: 'connected', executionId: 'exec-queued' },
+      { type: 'status', status: 'queued' },
+      { type: 'complete', status: 'completed', output: 'Done' },
+    ]);
+  });
+
+  it('should keep following runs in progress on this server', async () => {
+    mockFindUnique.mockImplementation(async () => {
+      setTimeout(() => sendCompletion('exec-live', { status: 'failed', output: 'Boom' }), 10);
+      return { id: 'exec-live', status: 'awaiting_approval' };
+    });
+    mockGetAbortController.mockReturnValue(new AbortController());
+
+    const response = await stream('exec-live');
+
+    expect(parseEvents(response.body).map((event) => event.type)).toEqual(['connected', 'status', 'complete']);
+  });
+});
@@ -0,0 +1,34 @@
+/**
+ * Request Validation Tests
+ *
+ * Tests for the webhook request body rules of skill mode
+ */
+
+import { webhookRequestSchema } from '../src/validation';
+
+describe('webhookRequestSchema', () => {
+  const messages = (body: unknown) => {
+    const result = webhookRequestSchema.safeParse(body);
+    return result.success ? [] : result.error.errors.map((error) => error.message);
+  };
+
+  it('should accept skill runs by ID or name without a prompt', () => {
+    expect(messages({ mode: 'skill', skillId: 'skill-1' })).toEqual([]);
+    expect(messages({ mode: 'skill', skillName: 'Changelog', inputs: { repo: 'acme/api' } })).toEqual([]);
+  });
+
+  it('should require exactly one skill reference in skill mode', () => {
+    expect(messages({ mode: 'skill', prompt: 'Run it' })).toEqual([
+      'Skill mode requires either skillId or skillName',
+    ]);
+    expect(messages({ mode: 'skill', skillId: 'skill-1', skillName: 'Changelog' })).toEqual([
+      'Skill mode requires either skillId or skillName',
+    ]);
+  });
+
+  it('should keep requiring a prompt in the other modes', () => {
+    expect(messages({ mode: 'orchestrator' })).toEqual(['Prompt is required']);
+    expect(messages({ prompt: 'Hi', skillId: 'skill-1' })).toEqual(["skillId and skillName require mode 'skill'"]);
+    expect(messages({ prompt: 'Hi' })).toEqual([]);
+  });
+});
@@ -0,0 +1,273 @@
+/**
+ * Workflow Conditions Tests
+ *
+ * Tests for step conditions, forEach loops and their orchestration
+ */
+
+jest.mock('../src/config/index', () => ({
+  config: {
+    agent: { model: 'claude-test' },
+    workflow: { maxParallelSteps: 2, maxForEachItems: 3 },
+  },
+}));
+
+const mockExecuteWorkflowAgent = jest.fn();
+const mockMessagesCreate = jest.fn();
+
+jest.mock('@anthropic-ai/sdk', () => jest.fn(() => ({ messages: { create: mockMessagesCreate } })));
+jest.mock('../src/workflow-agent', () => ({ executeWorkflowAgent: mockExecuteWorkflowAgent }));
+jest.mock('../src/routes/stream', () => ({ sendStepUpdate: jest.fn(), sendStreamUpdate: jest.fn() }));
+jest.mock('../src/execution-cancellation', () => ({ throwIfCancelled: jest.fn() }));
+
+import {
+  ConditionContext,
+  evaluateExpression,
+  evaluateStepCondition,
+  parseStepOutput,
+  resolveForEachItems,
+  validateStepControls,
+} from '../src/workflow-conditions';
+import { buildStepGraph } from '../src/workflow-dag';
+import { executeWorkflowOrchestrator } from '../src/workflow-orchestrator';
+import { sendStepUpdate } from '../src/routes/stream';
+import { ValidationError } from '../src/utils/errors';
+import type { Workflow, WorkflowStep } from '../src/types';
+
+const context: ConditionContext = {
+  steps: {
+    1: { status: 'completed', output: '```json\n{"count": 2, "urgent": true, "labels": ["work", "billing"]}\n```' },
+    2: { status: 'skipped', output: '' },
+    3: { status: 'completed', output: '- first\n- second\n3. third' },
+  },
+  input: { source: 'gmail' },
+};
+
+describe('evaluateExpression', () => {
+  it('should compare fields of a step\'s JSON output', () => {
+    expect(evaluateExpression('steps.1.output.count > 1', context)).toBe(true);
+    expect(evaluateExpression('steps.1.output.count >= 3', context)).toBe(false);
+    expect(evaluateExpression('steps.1.output.urgent == true', context)).toBe(true);
+  });
+
+  it('should support contains on lists and text', () => {
+    expect(evaluateExpression('steps.1.output.labels contains "billing"', context)).toBe(true);
+    expect(evaluateExpression('steps.3.output contains "second"', context)).toBe(true);
+    expect(evaluateExpression("steps.1.output.labels contains 'spam'", context)).toBe(false);
+  });
+
+  it('should combine conditions with &&, || and !', () => {
+    expect(evaluateExpression('steps.2.status == "skipped" && input.source == "gmail"', context)).toBe(true);
+    expect(evaluateExpression('!(steps.1.output.urgent || steps.3.output)', context)).toBe(false);
+    expect(evaluateExpression('steps.2.output || steps.1.output.count == 2', context)).toBe(true);
+  });
+
+  it('should treat empty and missing values as false', () => {
+    expect(evaluateExpression('steps.2.output', context)).toBe(false);
+    expect(evaluateExpression('steps.1.output.missing', context)).toBe(false);
+    expect(evaluateExpression('steps.9.output', context)).toBe(false);
+    expect(evaluateExpression('steps.1.output.missing == null', context)).toBe(true);
+  });
+
+  it('should reject invalid expressions', () => {
+    expect(() => evaluateExpression('steps.1.output >', context)).toThrow(ValidationError);
+    expect(() => evaluateExpression('process.exit(1)', context)).toThrow('Unknown name "process"');
+    expect(() => evaluateExpression('steps.one.output', context)).toThrow('Invalid path');
+    expect(() => evaluateExpression('"unterminated', context)).toThrow('Unterminated string');
+  });
+});
+
+describe('parseStepOutput', () => {
+  it('should parse plain and fenced JSON', () => {
+    expect(parseStepOutput('{"a": 1}')).toEqual({ a: 1 });
+    expect(parseStepOutput('Here you go:\n```json\n[1, 2]\n```')).toEqual([1, 2]);
+    expect(parseStepOutput('No JSON here')).toBeUndefined();
+  });
+});
+
+describe('resolveForEachItems', () => {
+  it('should resolve JSON arrays', () => {
+    expect(resolveForEachItems('steps.1.output.labels', context)).toEqual(['work', 'billing']);
+  });
+
+  it('should split text outputs into lines without list markers', () => {
+    expect(resolveForEachItems('steps.3.output', context)).toEqual(['first', 'second', 'third']);
+  });
+
+  it('should reject values that are not lists', () => {
+    expect(() => resolveForEachItems('steps.1.output.count', context)).toThrow('did not resolve to a list');
+  });
+});
+
+describe('evaluateStepCondition', () => {
+  beforeEach(() => {
+    mockMessagesCreate.mockReset();
+  });
+
+  it('should ask Claude for ask conditions', async () => {
+    mockMessagesCreate.mockResolvedValue({
+      content: [{ type: 'text', text: '{"answer": "no", "reasoning": "Nothing urgent"}' }],
+    });
+
+    const result = await evaluateStepCondition({ ask: 'Is anything urgent?' }, context);
+
+    expect(result).toEqual({ passed: false, reason: 'Nothing urgent' });
+    expect(mockMessagesCreate.mock.calls[0][0].messages[0].content).toContain('Is anything urgent?');
+  });
+
+  it('should evaluate expressions without calling Claude', async () => {
+    const result = await evaluateStepCondition({ expression: 'steps.1.output.count == 2' }, context);
+
+    expect(result.passed).toBe(true);
+    expect(mockMessagesCreate).not.toHaveBeenCalled();
+  });
+});
+
+describe('validateStepControls', () => {
+  it('should accept references to earlier steps', () => {
+    const graph = buildStepGraph([
+      { id: 1, prompt: 'List' },
+      { id: 2, prompt: 'Check', condition: { expression: 'steps.1.output.count > 0' } },
+      { id: 3, prompt: 'Reply', forEach: { items: 'steps.1.output.labels', maxItems: 2 } },
+    ]);
+
+    expect(() => validateStepControls(graph)).not.toThrow();
+  });
+
+  it('should reject references to steps that do not run before', () => {
+    const graph = buildStepGraph([
+      { id: 1, prompt: 'List', dependsOn: [] },
+      { id: 2, prompt: 'Check', dependsOn: [], condition: { expression: 'steps.1.status == "completed"' } },
+    ]);
+
+    expect(() => validateStepControls(graph)).toThrow('references step 1, which does not run before it');
+  });
+
+  it('should reject conditions without exactly one of expression and ask', () => {
+    const graph = buildStepGraph([
+      { id: 1, prompt: 'List', condition: { expression: 'input.x', ask: 'Why?' } },
+    ]);
+
+    expect(() => validateStepControls(graph)).toThrow('exactly one of expression or ask');
+  });
+
+  it('should reject forEach items that are not paths', () => {
+    const graph = buildStepGraph([
+      { id: 1, prompt: 'List' },
+      { id: 2, prompt: 'Reply', forEach: { items: 'steps.1.output.count > 0' } },
+    ]);
+
+    expect(() => validateStepControls(graph)).toThrow('forEach items must be a path');
+  });
+});
+
+describe('executeWorkflowOrchestrator with conditions and loops', () => {
+  const workflow = (steps: WorkflowStep[]): Workflow => ({
+    id: 'skill-1',
+    name: 'Inbox',
+    description: 'Inbox triage',
+    steps,
+  } as Workflow);
+
+  const outputs: Record<number, string> = {
+    1: '{"count": 0, "emails": ["a@x.com", "b@x.com", "c@x.com", "d@x.com"]}',
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    mockExecuteWorkflowAgent.mockImplementation(async ({ step, forEachItem }) => ({
+      text: outputs[step.id] ?? (forEachItem ? `Reply to ${forEachItem.value}` : `Result ${step.id}`),
+      workingDirectory: '/tmp',
+      sessionId: `session-${step.id}${forEachItem ? `-${forEachItem.index}` : ''}`,
+      trace: [{ type: 'result', duration_ms: 10, total_cost_usd: 0.01, num_turns: 1 }],
+    }));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const callsFor = (stepId: number) =>
+    mockExecuteWorkflowAgent.mock.calls.filter(([options]) => options.step.id === stepId).map(([options]) => options);
+
+  it('should skip steps whose condition does not hold', async () => {
+    const result = await executeWorkflowOrchestrator(
+      workflow([
+        { id: 1, prompt: 'List emails' },
+        { id: 2, prompt: 'Flag urgent emails', condition: { expression: 'steps.1.output.count > 0' } },
+        { id: 3, prompt: 'Summarize' },
+      ]),
+      'Triage my inbox',
+      'req-skip'
+    );
+
+    expect(callsFor(2)).toHaveLength(0);
+    expect(sendStepUpdate).toHaveBeenCalledWith('req-skip', expect.objectContaining({ id: 2, status: 'skipped' }));
+
+    // The step after the skipped one continues the session before it
+    expect(callsFor(3)[0]).toMatchObject({ sessionId: 'session-1', forkSession: true, dependencyResults: [] });
+    expect(result.steps!.map((s) => s.id)).toEqual([1, 3, 4]);
+  });
+
+  it('should run forEach steps once per item up to the item cap', async () => {
+    const result = await executeWorkflowOrchestrator(
+      workflow([
+        { id: 1, prompt: 'List emails' },
+        { id: 2, prompt: 'Draft a reply to {{item}}', forEach: { items: 'steps.1.output.emails' } },
+        { id: 3, prompt: 'Summarize the drafts' },
+      ]),
+      'Reply to my emails',
+      'req-loop'
+    );
+
+    // WORKFLOW_MAX_FOREACH_ITEMS is 3 in this test
+    const itemCalls = callsFor(2);
+    expect(itemCalls.map((call) => call.forEachItem)).toEqual([
+      { index: 0, total: 3, value: 'a@x.com' },
+      { index: 1, total: 3, value: 'b@x.com' },
+      { index: 2, total: 3, value: 'c@x.com' },
+    ]);
+    expect(itemCalls.every((call) => call.sessionId === 'session-1')).toBe(true);
+
+    // Dependents fork the session before the loop and get all item results
+    expect(callsFor(3)[0]).toMatchObject({
+      sessionId: 'session-1',
+      dependencyResults: [
+        { stepId: 2, text: '### Item 1\nReply to a@x.com\n\n### Item 2\nReply to b@x.com\n\n### Item 3\nReply to c@x.com' },
+      ],
+    });
+
+    // Metadata of the items is summed up per step
+    expect(result.steps!.find((s) => s.id === 2)).toMatchObject({ num_turns: 3 });
+  });
+
+  it('should respect a lower per-step maxItems', async () => {
+    await executeWorkflowOrchestrator(
+      workflow([
+        { id: 1, prompt: 'List emails' },
+        { id: 2, prompt: 'Reply', forEach: { items: 'steps.1.output.emails', maxItems: 1 } },
+      ]),
+      'Go',
+      'req-max'
+    );
+
+    expect(callsFor(2)).toHaveLength(1);
+  });
+
+  it('should fail before running any step if a condition is invalid', async () => {
+    await expect(
+      executeWorkflowOrchestrator(
+        workflow([
+          { id: 1, prompt: 'List emails', condition: { expression: 'steps.2.output' } },
+          { id: 2, prompt: 'Reply' },
+        ]),
+        'Go',
+        'req-invalid'
+      )
+    ).rejects.toThrow('references step 2');
+
+    expect(mockExecuteWorkflowAgent).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,179 @@
+/**
+ * Workflow DAG Tests
+ *
+ * Tests for step dependency resolution and parallel orchestration
+ */
+
+jest.mock('../src/config/index', () => ({
+  config: { workflow: { maxParallelSteps: 2 } },
+}));
+
+const mockExecuteWorkflowAgent = jest.fn();
+
+jest.mock('../src/workflow-agent', () => ({ executeWorkflowAgent: mockExecuteWorkflowAgent }));
+jest.mock('../src/routes/stream', () => ({ sendStepUpdate: jest.fn(), sendStreamUpdate: jest.fn() }));
+jest.mock('../src/execution-cancellation', () => ({ throwIfCancelled: jest.fn() }));
+
+import { buildStepGraph, isDagWorkflow } from '../src/workflow-dag';
+import { executeWorkflowOrchestrator } from '../src/workflow-orchestrator';
+import { sendStreamUpdate } from '../src/routes/stream';
+import { ValidationError } from '../src/utils/errors';
+import type { Workflow, WorkflowStep } from '../src/types';
+
+const step = (id: number, dependsOn?: number[]): WorkflowStep => ({
+  id,
+  prompt: `Step ${id}`,
+  ...(dependsOn && { dependsOn }),
+});
+
+describe('buildStepGraph', () => {
+  it('should chain steps sequentially when no step declares dependsOn', () => {
+    const graph = buildStepGraph([step(2), step(1), step(3)]);
+
+    expect(graph.steps.map((s) => s.id)).toEqual([1, 2, 3]);
+    expect(graph.dependencies.get(1)).toEqual([]);
+    expect(graph.dependencies.get(2)).toEqual([1]);
+    expect(graph.dependencies.get(3)).toEqual([2]);
+    expect(graph.sinks).toEqual([3]);
+  });
+
+  it('should treat steps without dependsOn as roots in a DAG workflow', () => {
+    const graph = buildStepGraph([step(1), step(2), step(3, [1, 2])]);
+
+    expect(isDagWorkflow(graph.steps)).toBe(true);
+    expect(graph.dependencies.get(2)).toEqual([]);
+    expect(graph.dependencies.get(3)).toEqual([1, 2]);
+    expect(graph.sinks).toEqual([3]);
+  });
+
+  it('should return every branch end as a sink', () => {
+    const graph = buildStepGraph([step(1), step(2, [1]), step(3, [1])]);
+
+    expect(graph.sinks).toEqual([2, 3]);
+  });
+
+  it('should reject unknown dependencies', () => {
+    expect(() => buildStepGraph([step(1), step(2, [5])])).toThrow(ValidationError);
+  });
+
+  it('should reject self dependencies', () => {
+    expect(() => buildStepGraph([step(1, [1])])).toThrow('depends on itself');
+  });
+
+  it('should reject duplicate step IDs', () => {
+    expect(() => buildStepGraph([step(1), step(1)])).toThrow('Duplicate step id 1');
+  });
+
+  it('should reject cycles', () => {
+    expect(() => buildStepGraph([step(1, [3]), step(2, [1]), step(3, [2])])).toThrow(
+      'cycle (steps 1, 2, 3)'
+    );
+  });
+});
+
+describe('executeWorkflowOrchestrator', () => {
+  const workflow = (steps: WorkflowStep[]): Workflow => ({
+    id: 'skill-1',
+    name: 'Digest',
+    description: 'Daily digest',
+    steps,
+  } as Workflow);
+
+  let active = 0;
+  let maxActive = 0;
+
+  beforeEach(() => {
+    active = 0;
+    maxActive = 0;
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+
+    mockExecuteWorkflowAgent.mockImplementation(async ({ step }) => {
+      active++;
+      maxActive = Math.max(maxActive, active);
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      active--;
+
+      return {
+        text: `Result ${step.id}`,
+        workingDirectory: '/tmp',
+        sessionId: `session-${step.id}`,
+        trace: [{ type: 'result', duration_ms: 10, total_cost_usd: 0.01, num_turns: 1 }],
+      };
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const callFor = (stepId: number) =>
+    mockExecuteWorkflowAgent.mock.calls.find(([options]) => options.step.id === stepId)![0];
+
+  it('should run independent steps concurrently and merge them', async () => {
+    const result = await executeWorkflowOrchestrator(
+      workflow([step(1), step(2), step(3, [1, 2])]),
+      'Summarize my day',
+      'req-dag',
+      undefined,
+      { source: 'test' }
+    );
+
+    expect(maxActive).toBe(2);
+
+    // Roots start new sessions with the structured input
+    expect(callFor(1)).toMatchObject({ sessionId: null, forkSession: false, input: { source: 'test' } });
+    expect(callFor(2)).toMatchObject({ sessionId: null, forkSession: false, input: { source: 'test' } });
+
+    // The merge step forks its last dependency and gets the other result in the prompt
+    expect(callFor(3)).toMatchObject({
+      sessionId: 'session-2',
+      forkSession: true,
+      input: undefined,
+      dependencyResults: [{ stepId: 1, text: 'Result 1' }],
+    });
+
+    // Synthesis forks the only sink
+    expect(callFor(4)).toMatchObject({ sessionId: 'session-3', forkSession: true, dependencyResults: [] });
+
+    expect(result.text).toBe('Result 4');
+    expect(result.steps!.map((s) => s.id)).toEqual([1, 2, 3, 4]);
+  });
+
+  it('should merge all branch ends in the synthesis step', async () => {
+    await executeWorkflowOrchestrator(workflow([step(1), step(2, [1]), step(3, [1])]), 'Go', 'req-sinks');
+
+    expect(callFor(4)).toMatchObject({
+      sessionId: 'session-3',
+      dependencyResults: [{ stepId: 2, text: 'Result 2' }],
+    });
+  });
+
+  it('should respect the concurrency limit', async () => {
+    await executeWorkflowOrchestrator(workflow([step(1), step(2), step(3), step(4, [])]), 'Go', 'req-limit');
+
+    expect(maxActive).toBe(2);
+  });
+
+  it('should include dependencies in the workflow event', async () => {
+    await executeWorkflowOrchestrator(workflow([step(1), step(2, [1])]), 'Go', 'req-event');
+
+    const workflowEvent = (sendStreamUpdate as jest.Mock).mock.calls.find(
+      ([, data]) => data.type === 'workflow'
+    )![1];
+
+    expect(workflowEvent.workflow.steps.map((s: any) => s.dependsOn)).toEqual([[], [1]]);
+  });
+
+  it('should not start dependent steps after a failure', async () => {
+    mockExecuteWorkflowAgent.mockImplementationOnce(async () => {
+      throw new Error('Gmail unavailable');
+    });
+
+    await expect(
+      executeWorkflowOrchestrator(workflow([step(1), step(2, [1])]), 'Go', 'req-fail')
+    ).rejects.toThrow('Gmail unavailable');
+
+    expect(mockExecuteWorkflowAgent).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,210 @@
+/**
+ * Workflow Outputs Tests
+ *
+ * Tests for step output schemas, corrections and {{steps.N.output}} placeholders
+ */
+
+jest.mock('../src/config/index', () => ({
+  config: {
+    agent: { model: 'claude-test' },
+    workflow: { maxParallelSteps: 2, maxForEachItems: 20, outputRetries: 1 },
+  },
+}));
+
+const mockExecuteWorkflowAgent = jest.fn();
+
+jest.mock('../src/workflow-agent', () => ({ executeWorkflowAgent: mockExecuteWorkflowAgent }));
+jest.mock('../src/routes/stream', () => ({ sendStepUpdate: jest.fn(), sendStreamUpdate: jest.fn() }));
+jest.mock('../src/execution-cancellation', () => ({ throwIfCancelled: jest.fn() }));
+
+import {
+  interpolateStepOutputs,
+  validateStructuredOutput,
+  validateWorkflowOutputs,
+} from '../src/workflow-outputs';
+import { buildStepGraph } from '../src/workflow-dag';
+import { ConditionContext } from '../src/workflow-conditions';
+import { executeWorkflowOrchestrator } from '../src/workflow-orchestrator';
+import type { Workflow, WorkflowStep } from '../src/types';
+
+const issueSchema = {
+  type: 'object',
+  properties: {
+    issueUrl: { type: 'string' },
+    number: { type: 'integer' },
+  },
+  required: ['issueUrl', 'number'],
+};
+
+describe('validateStructuredOutput', () => {
+  it('should accept answers matching the schema', () => {
+    const result = validateStructuredOutput(
+      'Created it:\n```json\n{"issueUrl": "https://github.com/o/r/issues/7", "number": 7}\n```',
+      issueSchema
+    );
+
+    expect(result).toEqual({ valid: true, value: { issueUrl: 'https://github.com/o/r/issues/7', number: 7 } });
+  });
+
+  it('should report schema violations', () => {
+    const result = validateStructuredOutput('{"issueUrl": 42}', issueSchema);
+
+    expect(result.valid).toBe(false);
+    expect(!result.valid && result.errors).toContain('output/issueUrl must be string');
+    expect(!result.valid && result.errors).toContain("must have required property 'number'");
+  });
+
+  it('should reject answers without JSON', () => {
+    expect(validateStructuredOutput('Done!', issueSchema)).toEqual({
+      valid: false,
+      errors: 'The answer does not contain a JSON object or array',
+    });
+  });
+});
+
+describe('interpolateStepOutputs', () => {
+  const context: ConditionContext = {
+    steps: {
+      2: { status: 'completed', output: '{"issueUrl": "raw"}', value: { issueUrl: 'https://x/7', labels: ['bug'] } },
+    },
+    input: { channel: '#bugs' },
+  };
+
+  it('should insert validated values, input fields and JSON', () => {
+    expect(
+      interpolateStepOutputs('Post {{steps.2.output.issueUrl}} to {{ input.channel }} with {{steps.2.output.labels}}', context)
+    ).toBe('Post https://x/7 to #bugs with ["bug"]');
+  });
+
+  it('should leave {{item}} for forEach steps and empty unknown values', () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(interpolateStepOutputs('Reply to {{item}} ({{steps.2.output.missing}})', context)).toBe(
+      'Reply to {{item}} ()'
+    );
+  });
+});
+
+describe('validateWorkflowOutputs', () => {
+  const workflow = (steps: WorkflowStep[], outputSchema?: Record<string, any>) =>
+    ({ id: 'skill-1', name: 'Bugs', description: '', steps, outputSchema } as Workflow);
+
+  it('should reject invalid schemas', () => {
+    const steps = [{ id: 1, prompt: 'File', outputSchema: { type: 'nope' } }];
+
+    expect(() => validateWorkflowOutputs(workflow(steps), buildStepGraph(steps))).toThrow(
+      'Step 1 outputSchema is invalid'
+    );
+  });
+
+  it('should reject an invalid skill-level schema', () => {
+    const steps = [{ id: 1, prompt: 'File' }];
+
+    expect(() => validateWorkflowOutputs(workflow(steps, [] as any), buildStepGraph(steps))).toThrow(
+      'Skill "Bugs" outputSchema must be a JSON Schema object'
+    );
+  });
+
+  it('should reject placeholders of steps that do not run before', () => {
+    const steps = [
+      { id: 1, prompt: 'Post {{steps.2.output.issueUrl}}' },
+      { id: 2, prompt: 'File', outputSchema: issueSchema },
+    ];
+
+    expect(() => validateWorkflowOutputs(workflow(steps), buildStepGraph(steps))).toThrow(
+      'Step 1 placeholder {{steps.2.output.issueUrl}} references step 2'
+    );
+  });
+});
+
+describe('executeWorkflowOrchestrator with output schemas', () => {
+  const workflow = (steps: WorkflowStep[], outputSchema?: Record<string, any>): Workflow => ({
+    id: 'skill-1',
+    name: 'Bugs',
+    description: 'File and announce bugs',
+    steps,
+    outputSchema,
+  } as Workflow);
+
+  let answers: string[];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    answers = [];
+    let call = 0;
+    mockExecuteWorkflowAgent.mockImplementation(async ({ step }) => {
+      call++;
+      return {
+        text: answers.shift() ?? `Result ${step.id}`,
+        workingDirectory: '/tmp',
+        sessionId: `session-${call}`,
+        trace: [{ type: 'result', duration_ms: 10, total_cost_usd: 0.01, num_turns: 1 }],
+      };
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const steps: WorkflowStep[] = [
+    { id: 1, prompt: 'File a GitHub issue', outputSchema: issueSchema },
+    { id: 2, prompt: 'Post {{steps.1.output.issueUrl}} to Slack' },
+  ];
+
+  it('should ask for a correction and pass validated values to later steps', async () => {
+    answers = ['Filed it at https://github.com/o/r/issues/7', '{"issueUrl": "https://github.com/o/r/issues/7", "number": 7}'];
+
+    const result = await executeWorkflowOrchestrator(workflow(steps), 'File the bug', 'req-schema');
+    const calls = mockExecuteWorkflowAgent.mock.calls.map(([options]) => options);
+
+    // The correction continues the session of the rejected answer
+    expect(calls[1]).toMatchObject({
+      step: { id: 1 },
+      sessionId: 'session-1',
+      forkSession: true,
+      outputErrors: 'The answer does not contain a JSON object or array',
+    });
+
+    // Step 2 forks the corrected answer's session and gets the interpolated value
+    expect(calls[2]).toMatchObject({
+      step: { id: 2, prompt: 'Post https://github.com/o/r/issues/7 to Slack' },
+      sessionId: 'session-2',
+    });
+
+    expect(result.stepOutputs).toEqual({ 1: { issueUrl: 'https://github.com/o/r/issues/7', number: 7 } });
+    expect(result.steps!.find((s) => s.id === 1)).toMatchObject({ num_turns: 2 });
+    expect(result.output).toBeUndefined();
+  });
+
+  it('should fail the step when the corrections still miss the schema', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    answers = ['{"issueUrl": 1}', '{"issueUrl": 2}'];
+
+    await expect(executeWorkflowOrchestrator(workflow(steps), 'File the bug', 'req-invalid')).rejects.toThrow(
+      'Step 1 output does not match its outputSchema'
+    );
+
+    // First attempt plus WORKFLOW_OUTPUT_RETRIES (1) corrections
+    expect(mockExecuteWorkflowAgent).toHaveBeenCalledTimes(2);
+  });
+
+  it('should return a typed final response for skills with an outputSchema', async () => {
+    const summarySchema = {
+      type: 'object',
+      properties: { summary: { type: 'string' } },
+      required: ['summary'],
+    };
+    answers = ['{"issueUrl": "https://x/1", "number": 1}', 'Posted', '{"summary": "Filed #1"}'];
+
+    const result = await executeWorkflowOrchestrator(workflow(steps, summarySchema), 'File the bug', 'req-typed');
+    const synthesisCall = mockExecuteWorkflowAgent.mock.calls[2][0];
+
+    expect(synthesisCall.step).toMatchObject({ id: 3, outputSchema: summarySchema });
+    expect(result.output).toEqual({ summary: 'Filed #1' });
+    expect(JSON.parse(result.text)).toEqual({ summary: 'Filed #1' });
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Workflow Resume Tests
+ *
+ * Tests for step checkpoints and resuming a failed workflow run
+ */
+
+jest.mock('../src/config/index', () => ({
+  config: {
+    agent: { model: 'claude-test' },
+    workflow: { maxParallelSteps: 2, maxForEachItems: 20, outputRetries: 0, maxStepAttempts: 3 },
+  },
+}));
+
+const mockExecuteWorkflowAgent = jest.fn();
+
+jest.mock('../src/workflow-agent', () => ({ executeWorkflowAgent: mockExecuteWorkflowAgent }));
+jest.mock('../src/routes/stream', () => ({ sendStepUpdate: jest.fn(), sendStreamUpdate: jest.fn() }));
+jest.mock('../src/execution-cancellation', () => ({ throwIfCancelled: jest.fn() }));
+
+import { executeWorkflowOrchestrator } from '../src/workflow-orchestrator';
+import { sendStreamUpdate } from '../src/routes/stream';
+import type { StepCheckpoint, Workflow } from '../src/types';
+
+describe('executeWorkflowOrchestrator checkpoints', () => {
+  const workflow: Workflow = {
+    id: 'skill-1',
+    name: 'Invoices',
+    description: 'Invoice report',
+    steps: [
+      { id: 1, prompt: 'Fetch invoices' },
+      { id: 2, prompt: 'Email the summary' },
+      { id: 3, prompt: 'Post to Slack' },
+    ],
+  } as Workflow;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    mockExecuteWorkflowAgent.mockImplementation(async ({ step }) => ({
+      text: `Result ${step.id}`,
+      workingDirectory: '/tmp',
+      sessionId: `session-${step.id}`,
+      trace: [{ type: 'result', duration_ms: 10, total_cost_usd: 0.01, num_turns: 1 }],
+    }));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should record a checkpoint for each finished step', async () => {
+    const onStepFinished = jest.fn().mockResolvedValue(undefined);
+
+    await executeWorkflowOrchestrator(workflow, 'Report', 'req-record', undefined, undefined, { onStepFinished });
+
+    expect(onStepFinished.mock.calls.map(([checkpoint]) => checkpoint.stepId)).toEqual([1, 2, 3]);
+    expect(onStepFinished).toHaveBeenCalledWith(
+      { stepId: 2, status: 'completed', sessionId: 'session-2', ownsSession: true, output: 'Result 2' },
+      expect.stringMatching(/^\/tmp\/req-record-/)
+    );
+  });
+
+  it('should not repeat restored steps and fork the last good session', async () => {
+    const checkpoints: StepCheckpoint[] = [
+      { stepId: 1, status: 'completed', sessionId: 'session-old-1', ownsSession: true, output: 'Old 1' },
+      { stepId: 2, status: 'completed', sessionId: 'session-old-2', ownsSession: true, output: 'Old 2' },
+    ];
+    const onStepFinished = jest.fn().mockResolvedValue(undefined);
+
+    const result = await executeWorkflowOrchestrator(workflow, 'Report', 'req-resume', undefined, undefined, {
+      onStepFinished,
+      resume: { workingDirectory: '/tmp/req-resume-1', checkpoints },
+    });
+
+    const calls = mockExecuteWorkflowAgent.mock.calls.map(([options]) => options);
+
+    // Step 3 and the synthesis step run; steps 1 and 2 (e.g. the sent email) do not
+    expect(calls.map((options) => options.step.id)).toEqual([3, 4]);
+    expect(calls[0]).toMatchObject({ sessionId: 'session-old-2', forkSession: true, workingDirectory: '/tmp/req-resume-1' });
+
+    // Only the newly finished step is recorded
+    expect(onStepFinished.mock.calls.map(([checkpoint]) => checkpoint.stepId)).toEqual([3]);
+    expect(sendStreamUpdate).toHaveBeenCalledWith(
+      'req-resume',
+      expect.objectContaining({
+        type: 'workflow',
+        workflow: expect.objectContaining({
+          steps: expect.arrayContaining([expect.objectContaining({ id: 2, status: 'complete' })]),
+        }),
+      })
+    );
+    expect(result.text).toBe('Result 4');
+  });
+});
@@ -0,0 +1,244 @@
+/**
+ * Workflow Retry Tests
+ *
+ * Tests for step retry policies, error classes and onError handling
+ */
+
+jest.mock('../src/config/index', () => ({
+  config: {
+    agent: { model: 'claude-test' },
+    workflow: { maxParallelSteps: 2, maxForEachItems: 20, outputRetries: 0, maxStepAttempts: 4 },
+  },
+}));
+
+const mockExecuteWorkflowAgent = jest.fn();
+
+jest.mock('../src/workflow-agent', () => ({ executeWorkflowAgent: mockExecuteWorkflowAgent }));
+jest.mock('../src/routes/stream', () => ({ sendStepUpdate: jest.fn(), sendStreamUpdate: jest.fn() }));
+jest.mock('../src/execution-cancellation', () => ({ throwIfCancelled: jest.fn() }));
+
+import {
+  classifyStepError,
+  getStepRetryDelayMs,
+  resolveRetryPolicy,
+  validateStepPolicies,
+} from '../src/workflow-retry';
+import { buildStepGraph } from '../src/workflow-dag';
+import { executeWorkflowOrchestrator } from '../src/workflow-orchestrator';
+import { sendStepUpdate } from '../src/routes/stream';
+import { StepOutputError, TimeoutError, WorkflowError, getStepAttempts } from '../src/utils/errors';
+import type { Workflow, WorkflowStep } from '../src/types';
+
+describe('classifyStepError', () => {
+  it('should sort failures into error classes', () => {
+    expect(classifyStepError(new StepOutputError('Step 1 output does not match'))).toBe('output_schema');
+    expect(classifyStepError(new TimeoutError('Too slow'))).toBe('timeout');
+    expect(classifyStepError(new Error('Request timed out'))).toBe('timeout');
+    expect(classifyStepError(new Error('429 Too Many Requests'))).toBe('rate_limit');
+    expect(classifyStepError(new Error('Overloaded'))).toBe('overloaded');
+    expect(classifyStepError(new Error('Upstream returned 503'))).toBe('overloaded');
+    expect(classifyStepError(new Error('read ECONNRESET'))).toBe('network');
+    expect(classifyStepError(new Error('Tool not allowed'))).toBe('other');
+  });
+});
+
+describe('resolveRetryPolicy', () => {
+  it('should run steps without a retry policy once', () => {
+    expect(resolveRetryPolicy({ id: 1, prompt: 'Go' }).maxAttempts).toBe(1);
+  });
+
+  it('should fill in defaults and cap maxAttempts', () => {
+    expect(resolveRetryPolicy({ id: 1, prompt: 'Go', retry: {} })).toEqual({
+      maxAttempts: 3,
+      backoffMs: 2000,
+      backoffMultiplier: 2,
+      retryOn: ['timeout', 'rate_limit', 'overloaded', 'network'],
+    });
+
+    // WORKFLOW_STEP_MAX_ATTEMPTS is 4 in this test
+    expect(resolveRetryPolicy({ id: 1, prompt: 'Go', retry: { maxAttempts: 10 } }).maxAttempts).toBe(4);
+  });
+
+  it('should grow the delay per retry', () => {
+    const policy = resolveRetryPolicy({ id: 1, prompt: 'Go', retry: { backoffMs: 100, backoffMultiplier: 3 } });
+
+    expect([1, 2, 3].map((attempt) => getStepRetryDelayMs(policy, attempt))).toEqual([100, 300, 900]);
+  });
+});
+
+describe('validateStepPolicies', () => {
+  it('should reject unknown error classes', () => {
+    const graph = buildStepGraph([{ id: 1, prompt: 'Go', retry: { retryOn: ['timeout', 'bad' as any] } }]);
+
+    expect(() => validateStepPolicies(graph)).toThrow('unknown error classes: bad');
+  });
+
+  it('should reject goto targets that do not run after the step', () => {
+    const graph = buildStepGraph([
+      { id: 1, prompt: 'Fetch', dependsOn: [] },
+      { id: 2, prompt: 'Report', dependsOn: [], onError: { action: 'goto', stepId: 1 } },
+    ]);
+
+    expect(() => validateStepPolicies(graph)).toThrow('goes to step 1, which does not run after it');
+  });
+
+  it('should reject steps that depend on a fallback step', () => {
+    expect(() =>
+      buildStepGraph([
+        { id: 1, prompt: 'Fetch', dependsOn: [], onError: { action: 'fallbackStep', stepId: 2 } },
+        { id: 2, prompt: 'Fetch elsewhere' },
+        { id: 3, prompt: 'Report', dependsOn: [2] },
+      ])
+    ).toThrow('Step 3 depends on fallback step 2');
+  });
+});
+
+describe('executeWorkflowOrchestrator with retries and onError', () => {
+  const workflow = (steps: WorkflowStep[]): Workflow => ({
+    id: 'skill-1',
+    name: 'Invoices',
+    description: 'Invoice report',
+    steps,
+  } as Workflow);
+
+  // Errors thrown by the next runs of a step (by step ID)
+  let failures: Record<number, Error[]>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    failures = {};
+    mockExecuteWorkflowAgent.mockImplementation(async ({ step }) => {
+      const error = failures[step.id]?.shift();
+      if (error) throw error;
+
+      return {
+        text: `Result ${step.id}`,
+        workingDirectory: '/tmp',
+        sessionId: `session-${step.id}`,
+        trace: [{ type: 'result', duration_ms: 10, total_cost_usd: 0.01, num_turns: 1 }],
+      };
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const callsFor = (stepId: number) =>
+    mockExecuteWorkflowAgent.mock.calls.filter(([options]) => options.step.id === stepId).map(([options]) => options);
+
+  it('should retry retryable failures and record every attempt', async () => {
+    failures[1] = [new Error('rate limit exceeded'), new Error('Overloaded')];
+
+    const result = await executeWorkflowOrchestrator(
+      workflow([{ id: 1, prompt: 'Fetch invoices', retry: { maxAttempts: 3, backoffMs: 0 } }]),
+      'Report',
+      'req-retry'
+    );
+
+    expect(callsFor(1)).toHaveLength(3);
+    expect(sendStepUpdate).toHaveBeenCalledWith(
+      'req-retry',
+      expect.objectContaining({ id: 1, status: 'retrying', attempt: 2, maxAttempts: 3, error: 'rate limit exceeded' })
+    );
+    expect(result.stepAttempts!.filter((attempt) => attempt.stepId === 1)).toEqual([
+      expect.objectContaining({ attempt: 1, status: 'failed', errorClass: 'rate_limit' }),
+      expect.objectContaining({ attempt: 2, status: 'failed', errorClass: 'overloaded' }),
+      expect.objectContaining({ attempt: 3, status: 'completed' }),
+    ]);
+  });
+
+  it('should not retry error classes missing from retryOn', async () => {
+    failures[1] = [new Error('Tool not allowed')];
+
+    const error = await executeWorkflowOrchestrator(
+      workflow([{ id: 1, prompt: 'Fetch invoices', retry: { backoffMs: 0 } }]),
+      'Report',
+      'req-other'
+    ).catch((e) => e);
+
+    expect(error).toBeInstanceOf(WorkflowError);
+    expect(error.message).toContain('Tool not allowed');
+    expect(getStepAttempts(error)).toEqual([
+      expect.objectContaining({ stepId: 1, attempt: 1, status: 'failed', errorClass: 'other' }),
+    ]);
+    expect(callsFor(1)).toHaveLength(1);
+  });
+
+  it('should run dependents of a failed step with onError continue', async () => {
+    failures[1] = [new Error('Stripe is down')];
+
+    const result = await executeWorkflowOrchestrator(
+      workflow([
+        { id: 1, prompt: 'Fetch invoices', onError: { action: 'continue' } },
+        { id: 2, prompt: 'Report', condition: { expression: 'steps.1.status == "failed"' } },
+      ]),
+      'Report',
+      'req-continue'
+    );
+
+    expect(sendStepUpdate).toHaveBeenCalledWith('req-continue', expect.objectContaining({ id: 1, status: 'error' }));
+    expect(callsFor(2)[0]).toMatchObject({ sessionId: null, dependencyResults: [] });
+    expect(result.steps!.map((s) => s.id)).toEqual([2, 3]);
+  });
+
+  it('should run the fallback step in place of a failed step', async () => {
+    failures[1] = [new Error('Stripe is down')];
+
+    await executeWorkflowOrchestrator(
+      workflow([
+        { id: 1, prompt: 'Fetch invoices from Stripe', onError: { action: 'fallbackStep', stepId: 3 } },
+        { id: 2, prompt: 'Summarize the invoices' },
+        { id: 3, prompt: 'Read invoices from the spreadsheet' },
+      ]),
+      'Report',
+      'req-fallback'
+    );
+
+    expect(sendStepUpdate).toHaveBeenCalledWith(
+      'req-fallback',
+      expect.objectContaining({ id: 3, status: 'running', fallbackFor: 1 })
+    );
+
+    // The dependent of the failed step builds on the fallback's session
+    expect(callsFor(2)[0]).toMatchObject({ sessionId: 'session-3', forkSession: true });
+  });
+
+  it('should skip unused fallback steps', async () => {
+    await executeWorkflowOrchestrator(
+      workflow([
+        { id: 1, prompt: 'Fetch invoices', onError: { action: 'fallbackStep', stepId: 2 } },
+        { id: 2, prompt: 'Read invoices from the spreadsheet' },
+      ]),
+      'Report',
+      'req-unused'
+    );
+
+    expect(callsFor(2)).toHaveLength(0);
+    expect(sendStepUpdate).toHaveBeenCalledWith('req-unused', expect.objectContaining({ id: 2, status: 'skipped' }));
+  });
+
+  it('should skip the steps between a failed step and its goto target', async () => {
+    failures[1] = [new Error('Stripe is down')];
+
+    await executeWorkflowOrchestrator(
+      workflow([
+        { id: 1, prompt: 'Fetch invoices', onError: { action: 'goto', stepId: 4 } },
+        { id: 2, prompt: 'Summarize' },
+        { id: 3, prompt: 'Chart' },
+        { id: 4, prompt: 'Notify the team' },
+      ]),
+      'Report',
+      'req-goto'
+    );
+
+    expect(callsFor(2)).toHaveLength(0);
+    expect(callsFor(3)).toHaveLength(0);
+    expect(callsFor(4)).toHaveLength(1);
+    expect(sendStepUpdate).toHaveBeenCalledWith('req-goto', expect.objectContaining({ id: 3, status: 'skipped' }));
+  });
+});